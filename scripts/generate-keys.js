@@ -4,10 +4,26 @@ const crypto = require('crypto');
 const fs = require('fs');
 const path = require('path');
 
-console.log('Generating RSA key pair for JWT signing...\n');
+// Usage: node scripts/generate-keys.js [RS256|PS256|ES256|EdDSA]
+const KEY_TYPES = {
+  RS256: { type: 'rsa', options: { modulusLength: 2048 }, label: 'RSA' },
+  PS256: { type: 'rsa', options: { modulusLength: 2048 }, label: 'RSA' },
+  ES256: { type: 'ec', options: { namedCurve: 'P-256' }, label: 'EC P-256' },
+  EdDSA: { type: 'ed25519', options: {}, label: 'Ed25519' },
+};
+
+const algorithm = process.argv[2] || 'RS256';
+const keyType = KEY_TYPES[algorithm];
+
+if (!keyType) {
+  console.error(`Unsupported algorithm "${algorithm}". Use one of: ${Object.keys(KEY_TYPES).join(', ')}`);
+  process.exit(1);
+}
+
+console.log(`Generating ${keyType.label} key pair for ${algorithm} JWT signing...\n`);
 
-const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', {
-  modulusLength: 2048,
+const { publicKey, privateKey } = crypto.generateKeyPairSync(keyType.type, {
+  ...keyType.options,
   publicKeyEncoding: {
     type: 'spki',
     format: 'pem'
@@ -33,5 +49,7 @@ console.log('  - Public key: keys/public.pem\n');
 console.log('For .env file, use these values (copy exactly):\n');
 console.log('JWT_PRIVATE_KEY="' + privateKey.replace(/\n/g, '\\n') + '"');
 console.log('\nJWT_PUBLIC_KEY="' + publicKey.replace(/\n/g, '\\n') + '"');
+if (algorithm === 'PS256') {
+  console.log('\nSIGNING_KEY_ALGORITHM=PS256');
+}
 console.log('\nIMPORTANT: Add keys/ directory to .gitignore to avoid committing private keys!');
-
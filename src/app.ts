@@ -1,5 +1,6 @@
 import 'reflect-metadata';
 import express from 'express';
+import config from './config/config';
 import container from './config/container';
 import { TYPES } from './types/di.types';
 import { ILogger } from './logging/logger.interface';
@@ -11,9 +12,16 @@ import authRoutes from './routes/authRoutes';
 import userRoutes from './routes/userRoutes';
 import adminRoutes from './routes/adminRoutes';
 import jwksRoutes from './routes/jwksRoutes';
+import openIdRoutes from './routes/openIdRoutes';
+import oauthRoutes from './routes/oauthRoutes';
+import organizationRoutes from './routes/organizationRoutes';
 
 const app = express();
 
+// Rate limits, lockouts and session metadata key on req.ip, which only honours
+// X-Forwarded-For from the proxies trusted here
+app.set('trust proxy', config.trustProxy);
+
 const logger = container.get<ILogger>(TYPES.Logger);
 
 app.use(asyncContextMiddleware);
@@ -22,12 +30,15 @@ app.use(express.json());
 
 // Public routes
 app.use('/', jwksRoutes);
+app.use('/', openIdRoutes);
 app.use('/health', healthRoutes);
 app.use('/api/auth', authRoutes);
+app.use('/oauth', oauthRoutes);
 
 // Protected routes
 app.use('/api/users', userRoutes);
 app.use('/api/admin', adminRoutes);
+app.use('/api/orgs', organizationRoutes);
 
 app.use(createErrorHandler(logger));
 
@@ -0,0 +1,28 @@
+/**
+ * Frequently used passwords, compared case-insensitively by the password policy.
+ * Sourced from publicly available breach corpus top lists.
+ */
+export const COMMON_PASSWORDS: ReadonlySet<string> = new Set([
+  '123456', 'password', '12345678', 'qwerty', '123456789', '12345', '1234', '111111', '1234567',
+  'dragon', '123123', 'baseball', 'abc123', 'football', 'monkey', 'letmein', '696969', 'shadow',
+  'master', '666666', 'qwertyuiop', '123321', 'mustang', '1234567890', 'michael', '654321',
+  'superman', '1qaz2wsx', '7777777', '121212', '000000', 'qazwsx', '123qwe', 'killer', 'trustno1',
+  'jordan', 'jennifer', 'zxcvbnm', 'asdfgh', 'hunter', 'buster', 'soccer', 'harley', 'batman',
+  'andrew', 'tigger', 'sunshine', 'iloveyou', '2000', 'charlie', 'robert', 'thomas', 'hockey',
+  'ranger', 'daniel', 'starwars', 'klaster', '112233', 'george', 'computer', 'michelle', 'jessica',
+  'pepper', '1111', 'zxcvbn', '555555', '11111111', '131313', 'freedom', '777777', 'pass',
+  'maggie', '159753', 'aaaaaa', 'ginger', 'princess', 'joshua', 'cheese', 'amanda', 'summer',
+  'love', 'ashley', 'nicole', 'chelsea', 'biteme', 'matthew', 'access', 'yankees', '987654321',
+  'dallas', 'austin', 'thunder', 'taylor', 'matrix', 'mobilemail', 'mom', 'monitor', 'monitoring',
+  'montana', 'moon', 'moscow', 'welcome', 'welcome1', 'password1', 'password123', 'passw0rd',
+  'p@ssw0rd', 'p@ssword', 'admin', 'admin123', 'administrator', 'root', 'toor', 'changeme',
+  'default', 'guest', 'login', 'qwerty123', 'qwerty1', '1q2w3e4r', '1q2w3e4r5t', '1q2w3e',
+  'q1w2e3r4', 'zaq12wsx', 'abcd1234', 'abcdef', 'abc123456', 'secret', 'letmein1', 'iloveyou1',
+  'football1', 'baseball1', 'princess1', 'sunshine1', 'shadow1', 'master1', 'dragon1', 'monkey1',
+  'superman1', 'batman1', 'whatever', 'hello', 'hello123', 'test', 'test123', 'testing',
+  '1234qwer', 'asdf', 'asdfasdf', 'asdf1234', 'qwer1234', 'zxcv1234', '11111', '123123123',
+  '987654', 'password!', '0987654321', 'letmeinnow', 'starwars1', 'pokemon', 'minecraft',
+  'samsung', 'apple', 'google', 'facebook', 'linkedin', 'twitter', 'spring', 'summer2024',
+  'winter', 'autumn', 'flower', 'lovely', 'loveme', 'family', 'friends', 'forever', 'blessed',
+  'jesus', 'god', 'myspace', 'internet', 'computer1', 'backboard',
+]);
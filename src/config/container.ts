@@ -23,6 +23,57 @@ import { IUserAuthService, UserAuthService } from '../services/userAuthService';
 import { RoleController } from '../controllers/roleController';
 import { PermissionController } from '../controllers/permissionController';
 import { JwksController } from '../controllers/jwksController';
+import { IRefreshTokenRepository, RefreshTokenRepository } from '../repositories/refreshTokenRepository';
+import { IRefreshTokenService, RefreshTokenService } from '../services/refreshTokenService';
+import { ISessionRepository, SessionRepository } from '../repositories/sessionRepository';
+import { ISessionService, SessionService } from '../services/sessionService';
+import { SessionController } from '../controllers/sessionController';
+import { IRevokedTokenRepository, RevokedTokenRepository } from '../repositories/revokedTokenRepository';
+import { ITokenRevocationService, TokenRevocationService } from '../services/tokenRevocationService';
+import { IMfaRepository, MfaRepository } from '../repositories/mfaRepository';
+import { IMfaService, MfaService } from '../services/mfaService';
+import { MfaController } from '../controllers/mfaController';
+import { IWebAuthnRepository, WebAuthnRepository } from '../repositories/webauthnRepository';
+import { IWebAuthnService, WebAuthnService } from '../services/webauthnService';
+import { WebAuthnController } from '../controllers/webauthnController';
+import { ILoginAttemptRepository, LoginAttemptRepository } from '../repositories/loginAttemptRepository';
+import { ILoginThrottleService, LoginThrottleService } from '../services/loginThrottleService';
+import { IRateLimitStore } from '../rateLimit/rateLimitStore';
+import { MemoryRateLimitStore } from '../rateLimit/memoryRateLimitStore';
+import { IPasswordPolicyService, PasswordPolicyService } from '../services/passwordPolicyService';
+import { IPasswordHistoryRepository, PasswordHistoryRepository } from '../repositories/passwordHistoryRepository';
+import { IPasswordHistoryService, PasswordHistoryService } from '../services/passwordHistoryService';
+import { IPasswordHasher, PasswordHasher } from '../services/passwordHasher';
+import { IOidcClientService, OidcClientService } from '../services/oidcClientService';
+import { IExternalIdentityRepository, ExternalIdentityRepository } from '../repositories/externalIdentityRepository';
+import { IIdentityService, IdentityService } from '../services/identityService';
+import { IdentityController } from '../controllers/identityController';
+import { ISigningKeyRepository, SigningKeyRepository } from '../repositories/signingKeyRepository';
+import { ISigningKeyService, SigningKeyService } from '../services/signingKeyService';
+import { SigningKeyController } from '../controllers/signingKeyController';
+import { IOpenIdProviderService, OpenIdProviderService } from '../services/openIdProviderService';
+import { OpenIdController } from '../controllers/openIdController';
+import { IAccessTokenService, AccessTokenService } from '../services/accessTokenService';
+import { IOAuthClientRepository, OAuthClientRepository } from '../repositories/oauthClientRepository';
+import { IOAuthAuthorizationCodeRepository, OAuthAuthorizationCodeRepository } from '../repositories/oauthAuthorizationCodeRepository';
+import { IOAuthConsentRepository, OAuthConsentRepository } from '../repositories/oauthConsentRepository';
+import { IOAuthClientService, OAuthClientService } from '../services/oauthClientService';
+import { IOAuthAuthorizationService, OAuthAuthorizationService } from '../services/oauthAuthorizationService';
+import { IOAuthTokenService, OAuthTokenService } from '../services/oauthTokenService';
+import { ITokenIntrospectionService, TokenIntrospectionService } from '../services/tokenIntrospectionService';
+import { OAuthController } from '../controllers/oauthController';
+import { OAuthClientController } from '../controllers/oauthClientController';
+import { IServiceAccountRepository, ServiceAccountRepository } from '../repositories/serviceAccountRepository';
+import { IServiceAccountService, ServiceAccountService } from '../services/serviceAccountService';
+import { ServiceAccountController } from '../controllers/serviceAccountController';
+import { IPersonalAccessTokenRepository, PersonalAccessTokenRepository } from '../repositories/personalAccessTokenRepository';
+import { IPersonalAccessTokenService, PersonalAccessTokenService } from '../services/personalAccessTokenService';
+import { PersonalAccessTokenController } from '../controllers/personalAccessTokenController';
+import { IImpersonationService, ImpersonationService } from '../services/impersonationService';
+import { ImpersonationController } from '../controllers/impersonationController';
+import { IOrganizationRepository, OrganizationRepository } from '../repositories/organizationRepository';
+import { IOrganizationService, OrganizationService } from '../services/organizationService';
+import { OrganizationController } from '../controllers/organizationController';
 import AppDataSource from './database';
 
 const container = new Container();
@@ -47,6 +98,56 @@ container.bind<IUserAuthService>(TYPES.UserAuthService).to(UserAuthService);
 container.bind<RoleController>(TYPES.RoleController).to(RoleController);
 container.bind<PermissionController>(TYPES.PermissionController).to(PermissionController);
 container.bind<JwksController>(TYPES.JwksController).to(JwksController);
+container.bind<IRefreshTokenRepository>(TYPES.RefreshTokenRepository).to(RefreshTokenRepository);
+container.bind<IRefreshTokenService>(TYPES.RefreshTokenService).to(RefreshTokenService);
+container.bind<ISessionRepository>(TYPES.SessionRepository).to(SessionRepository);
+container.bind<ISessionService>(TYPES.SessionService).to(SessionService);
+container.bind<SessionController>(TYPES.SessionController).to(SessionController);
+container.bind<IRevokedTokenRepository>(TYPES.RevokedTokenRepository).to(RevokedTokenRepository);
+container.bind<ITokenRevocationService>(TYPES.TokenRevocationService).to(TokenRevocationService).inSingletonScope();
+container.bind<IMfaRepository>(TYPES.MfaRepository).to(MfaRepository);
+container.bind<IMfaService>(TYPES.MfaService).to(MfaService);
+container.bind<MfaController>(TYPES.MfaController).to(MfaController);
+container.bind<IWebAuthnRepository>(TYPES.WebAuthnRepository).to(WebAuthnRepository);
+container.bind<IWebAuthnService>(TYPES.WebAuthnService).to(WebAuthnService);
+container.bind<WebAuthnController>(TYPES.WebAuthnController).to(WebAuthnController);
+container.bind<ILoginAttemptRepository>(TYPES.LoginAttemptRepository).to(LoginAttemptRepository);
+container.bind<ILoginThrottleService>(TYPES.LoginThrottleService).to(LoginThrottleService);
+container.bind<IRateLimitStore>(TYPES.RateLimitStore).to(MemoryRateLimitStore).inSingletonScope();
+container.bind<IPasswordPolicyService>(TYPES.PasswordPolicyService).to(PasswordPolicyService);
+container.bind<IPasswordHistoryRepository>(TYPES.PasswordHistoryRepository).to(PasswordHistoryRepository);
+container.bind<IPasswordHistoryService>(TYPES.PasswordHistoryService).to(PasswordHistoryService);
+container.bind<IPasswordHasher>(TYPES.PasswordHasher).to(PasswordHasher).inSingletonScope();
+container.bind<IOidcClientService>(TYPES.OidcClientService).to(OidcClientService).inSingletonScope();
+container.bind<IExternalIdentityRepository>(TYPES.ExternalIdentityRepository).to(ExternalIdentityRepository);
+container.bind<IIdentityService>(TYPES.IdentityService).to(IdentityService);
+container.bind<IdentityController>(TYPES.IdentityController).to(IdentityController);
+container.bind<ISigningKeyRepository>(TYPES.SigningKeyRepository).to(SigningKeyRepository);
+container.bind<ISigningKeyService>(TYPES.SigningKeyService).to(SigningKeyService).inSingletonScope();
+container.bind<SigningKeyController>(TYPES.SigningKeyController).to(SigningKeyController);
+container.bind<IOpenIdProviderService>(TYPES.OpenIdProviderService).to(OpenIdProviderService);
+container.bind<OpenIdController>(TYPES.OpenIdController).to(OpenIdController);
+container.bind<IAccessTokenService>(TYPES.AccessTokenService).to(AccessTokenService);
+container.bind<IOAuthClientRepository>(TYPES.OAuthClientRepository).to(OAuthClientRepository);
+container.bind<IOAuthAuthorizationCodeRepository>(TYPES.OAuthAuthorizationCodeRepository).to(OAuthAuthorizationCodeRepository);
+container.bind<IOAuthConsentRepository>(TYPES.OAuthConsentRepository).to(OAuthConsentRepository);
+container.bind<IOAuthClientService>(TYPES.OAuthClientService).to(OAuthClientService);
+container.bind<IOAuthAuthorizationService>(TYPES.OAuthAuthorizationService).to(OAuthAuthorizationService);
+container.bind<IOAuthTokenService>(TYPES.OAuthTokenService).to(OAuthTokenService);
+container.bind<ITokenIntrospectionService>(TYPES.TokenIntrospectionService).to(TokenIntrospectionService);
+container.bind<OAuthController>(TYPES.OAuthController).to(OAuthController);
+container.bind<OAuthClientController>(TYPES.OAuthClientController).to(OAuthClientController);
+container.bind<IServiceAccountRepository>(TYPES.ServiceAccountRepository).to(ServiceAccountRepository);
+container.bind<IServiceAccountService>(TYPES.ServiceAccountService).to(ServiceAccountService);
+container.bind<ServiceAccountController>(TYPES.ServiceAccountController).to(ServiceAccountController);
+container.bind<IPersonalAccessTokenRepository>(TYPES.PersonalAccessTokenRepository).to(PersonalAccessTokenRepository);
+container.bind<IPersonalAccessTokenService>(TYPES.PersonalAccessTokenService).to(PersonalAccessTokenService);
+container.bind<PersonalAccessTokenController>(TYPES.PersonalAccessTokenController).to(PersonalAccessTokenController);
+container.bind<IImpersonationService>(TYPES.ImpersonationService).to(ImpersonationService);
+container.bind<ImpersonationController>(TYPES.ImpersonationController).to(ImpersonationController);
+container.bind<IOrganizationRepository>(TYPES.OrganizationRepository).to(OrganizationRepository);
+container.bind<IOrganizationService>(TYPES.OrganizationService).to(OrganizationService);
+container.bind<OrganizationController>(TYPES.OrganizationController).to(OrganizationController);
 
 export default container;
 
@@ -3,6 +3,23 @@ import config from './config';
 import { User } from '../models/user';
 import { Role } from '../models/role';
 import { Permission } from '../models/permission';
+import { RefreshToken } from '../models/refreshToken';
+import { Session } from '../models/session';
+import { RevokedToken } from '../models/revokedToken';
+import { MfaRecoveryCode } from '../models/mfaRecoveryCode';
+import { MfaChallenge } from '../models/mfaChallenge';
+import { WebAuthnCredential } from '../models/webauthnCredential';
+import { WebAuthnChallenge } from '../models/webauthnChallenge';
+import { LoginAttempt } from '../models/loginAttempt';
+import { PasswordHistory } from '../models/passwordHistory';
+import { ExternalIdentity } from '../models/externalIdentity';
+import { SigningKey } from '../models/signingKey';
+import { OAuthClient } from '../models/oauthClient';
+import { OAuthAuthorizationCode } from '../models/oauthAuthorizationCode';
+import { OAuthConsent } from '../models/oauthConsent';
+import { ServiceAccount } from '../models/serviceAccount';
+import { PersonalAccessToken } from '../models/personalAccessToken';
+import { Organization } from '../models/organization';
 
 const AppDataSource = new DataSource({
   type: 'postgres',
@@ -13,7 +30,7 @@ const AppDataSource = new DataSource({
   database: config.database.database,
   synchronize: false,
   logging: false,
-  entities: [User, Role, Permission],
+  entities: [User, Role, Permission, RefreshToken, Session, RevokedToken, MfaRecoveryCode, MfaChallenge, WebAuthnCredential, WebAuthnChallenge, LoginAttempt, PasswordHistory, ExternalIdentity, SigningKey, OAuthClient, OAuthAuthorizationCode, OAuthConsent, ServiceAccount, PersonalAccessToken, Organization],
   migrations: [__dirname + "/../migrations/*.{ts,js}"],
   migrationsTableName: "user_service_migrations",
   subscribers: [],
@@ -18,6 +18,14 @@ export const PERMISSIONS = {
   PERMISSIONS_MANAGE: 'permissions:manage',
   ROLES_MANAGE: 'roles:manage',
   USERS_MANAGE: 'users:manage',
+  USERS_IMPERSONATE: 'users:impersonate',
+  KEYS_MANAGE: 'keys:manage',
+  CLIENTS_MANAGE: 'clients:manage',
+  SERVICE_ACCOUNTS_MANAGE: 'service-accounts:manage',
+  ORGS_MANAGE: 'orgs:manage',
+
+  TOKENS_INTROSPECT: 'tokens:introspect',
+  TOKENS_REVOKE: 'tokens:revoke',
 } as const;
 
 export const ALL_PERMISSIONS = Object.values(PERMISSIONS);
@@ -38,5 +46,12 @@ export const PERMISSION_DESCRIPTIONS: Record<string, string> = {
   [PERMISSIONS.PERMISSIONS_MANAGE]: 'Manage permissions and permission assignments',
   [PERMISSIONS.ROLES_MANAGE]: 'Manage roles and role assignments',
   [PERMISSIONS.USERS_MANAGE]: 'Manage all user-related operations',
+  [PERMISSIONS.USERS_IMPERSONATE]: 'Sign in as another user for support, with the session audited',
+  [PERMISSIONS.KEYS_MANAGE]: 'Generate, promote and retire token signing keys',
+  [PERMISSIONS.CLIENTS_MANAGE]: 'Register and delete OAuth clients',
+  [PERMISSIONS.SERVICE_ACCOUNTS_MANAGE]: 'Manage service accounts, their secrets and roles',
+  [PERMISSIONS.ORGS_MANAGE]: 'View, update and delete organizations other than your own',
+  [PERMISSIONS.TOKENS_INTROSPECT]: 'Introspect tokens at /oauth/introspect (service accounts)',
+  [PERMISSIONS.TOKENS_REVOKE]: 'Revoke any token at /oauth/revoke (service accounts)',
 };
 
@@ -1,14 +1,24 @@
 import { injectable, inject } from 'inversify';
 import { Request, Response, NextFunction } from 'express';
 import { IAuthService } from '../services/authService';
-import { RegisterDto, LoginDto, RequestPasswordResetDto, ResetPasswordDto, ChangePasswordDto, GoogleOAuthDto } from '../dto/user.dto';
+import { IPasswordPolicyService } from '../services/passwordPolicyService';
+import { RegisterDto, LoginDto, RequestPasswordResetDto, ResetPasswordDto, ChangePasswordDto, SetPasswordDto, GoogleOAuthDto, GoogleAuthorizationCallbackDto, OidcLoginDto, RefreshTokenDto, RequestMagicLinkDto, ConsumeMagicLinkDto } from '../dto/user.dto';
 import { TYPES } from '../types/di.types';
 import { AuthenticatedRequest } from '../middlewares/auth';
+import { getSessionMetadata } from '../utils/sessionMetadata';
+import { getCookie } from '../utils/cookies';
+import config from '../config/config';
+import { VerifyMfaDto } from '../dto/mfa.dto';
+import { AuthenticationCredentialDto } from '../dto/webauthn.dto';
+
+// Ties the Google authorization code flow to the browser that started it
+const GOOGLE_AUTHORIZATION_COOKIE = 'google_authorization';
 
 @injectable()
 export class AuthController {
   constructor(
     @inject(TYPES.AuthService) private authService: IAuthService,
+    @inject(TYPES.PasswordPolicyService) private passwordPolicyService: IPasswordPolicyService,
   ) {}
 
   register = async (
@@ -24,7 +34,7 @@ export class AuthController {
         return;
       }
 
-      const result = await this.authService.register(registerDto);
+      const result = await this.authService.register(registerDto, getSessionMetadata(req));
 
       res.status(201).json(result);
     } catch (error) {
@@ -45,7 +55,75 @@ export class AuthController {
         return;
       }
 
-      const result = await this.authService.login(loginDto);
+      const result = await this.authService.login(loginDto, getSessionMetadata(req));
+
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  verifyMfa = async (
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const verifyMfaDto = req.body as VerifyMfaDto;
+
+      if (!verifyMfaDto.challengeToken || !verifyMfaDto.code) {
+        res.status(400).json({ message: 'Challenge token and code are required' });
+        return;
+      }
+
+      const result = await this.authService.verifyMfa(verifyMfaDto, getSessionMetadata(req));
+
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  loginWithPasskey = async (
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const credential = req.body as AuthenticationCredentialDto;
+
+      if (
+        !credential?.id ||
+        !credential.response?.clientDataJSON ||
+        !credential.response?.authenticatorData ||
+        !credential.response?.signature
+      ) {
+        res.status(400).json({ message: 'id, response.clientDataJSON, response.authenticatorData and response.signature are required' });
+        return;
+      }
+
+      const result = await this.authService.loginWithPasskey(credential, getSessionMetadata(req));
+
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  refreshToken = async (
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const refreshTokenDto = req.body as RefreshTokenDto;
+
+      if (!refreshTokenDto.refreshToken) {
+        res.status(400).json({ message: 'Refresh token is required' });
+        return;
+      }
+
+      const result = await this.authService.refreshToken(refreshTokenDto);
 
       res.json(result);
     } catch (error) {
@@ -74,6 +152,13 @@ export class AuthController {
     }
   };
 
+  getPasswordPolicy = (
+    req: Request,
+    res: Response,
+  ): void => {
+    res.json(this.passwordPolicyService.getPolicy());
+  };
+
   requestPasswordReset = async (
     req: Request,
     res: Response,
@@ -95,6 +180,48 @@ export class AuthController {
     }
   };
 
+  requestMagicLink = async (
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const requestMagicLinkDto = req.body as RequestMagicLinkDto;
+
+      if (!requestMagicLinkDto.email) {
+        res.status(400).json({ message: 'Email is required' });
+        return;
+      }
+
+      const result = await this.authService.requestMagicLink(requestMagicLinkDto);
+
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  consumeMagicLink = async (
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const consumeMagicLinkDto = req.body as ConsumeMagicLinkDto;
+
+      if (!consumeMagicLinkDto.token) {
+        res.status(400).json({ message: 'Token is required' });
+        return;
+      }
+
+      const result = await this.authService.consumeMagicLink(consumeMagicLinkDto, getSessionMetadata(req));
+
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  };
+
   verifyPasswordResetToken = async (
     req: Request,
     res: Response,
@@ -164,6 +291,53 @@ export class AuthController {
     }
   };
 
+  requestPasswordSetConfirmation = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const userId = req.auth?.userId || req.user?.sub;
+      if (!userId) {
+        res.status(401).json({ message: 'User not authenticated' });
+        return;
+      }
+
+      const result = await this.authService.requestPasswordSetConfirmation(userId);
+
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  setPassword = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const setPasswordDto = req.body as SetPasswordDto;
+
+      if (!setPasswordDto.password) {
+        res.status(400).json({ message: 'Password is required' });
+        return;
+      }
+
+      const userId = req.auth?.userId || req.user?.sub;
+      if (!userId) {
+        res.status(401).json({ message: 'User not authenticated' });
+        return;
+      }
+
+      const result = await this.authService.setPassword(userId, setPasswordDto, req.auth?.sessionId);
+
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  };
+
   googleOAuth = async (
     req: Request,
     res: Response,
@@ -177,12 +351,144 @@ export class AuthController {
         return;
       }
 
-      const result = await this.authService.googleOAuth(googleOAuthDto);
+      const result = await this.authService.googleOAuth(googleOAuthDto, getSessionMetadata(req));
 
       res.json(result);
     } catch (error) {
       next(error);
     }
   };
-}
 
+  googleAuthorize = async (
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const returnTo = typeof req.query.returnTo === 'string' ? req.query.returnTo : undefined;
+      const { url, browserBinding, expiresAt } = this.authService.startGoogleAuthorization(returnTo);
+
+      // Lax, because the callback is a top-level navigation from Google's consent page
+      res.cookie(GOOGLE_AUTHORIZATION_COOKIE, browserBinding, {
+        httpOnly: true,
+        secure: config.nodeEnv === 'production',
+        sameSite: 'lax',
+        path: `${req.baseUrl}/google`,
+        expires: expiresAt,
+      });
+      res.redirect(302, url);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  googleCallback = async (
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const browserBinding = getCookie(req, GOOGLE_AUTHORIZATION_COOKIE);
+      res.clearCookie(GOOGLE_AUTHORIZATION_COOKIE, { path: `${req.baseUrl}/google` });
+
+      if (typeof req.query.error === 'string') {
+        res.status(401).json({ message: 'Google authorization was not granted', error: req.query.error });
+        return;
+      }
+
+      const { code, state } = req.query;
+      if (typeof code !== 'string' || typeof state !== 'string') {
+        res.status(400).json({ message: 'Authorization code and state are required' });
+        return;
+      }
+
+      const callbackDto: GoogleAuthorizationCallbackDto = { code, state, browserBinding };
+      const { auth, returnTo } = await this.authService.completeGoogleAuthorization(callbackDto, getSessionMetadata(req));
+
+      if (!returnTo) {
+        res.json(auth);
+        return;
+      }
+
+      // Tokens travel in the fragment so they are not sent to the return URL's server or logged
+      const fragment = new URLSearchParams('status' in auth
+        ? {
+          status: auth.status,
+          challengeToken: auth.challengeToken,
+          expiresAt: auth.expiresAt.toISOString(),
+          methods: auth.methods.join(' '),
+        }
+        : {
+          token: auth.token,
+          refreshToken: auth.refreshToken,
+          refreshTokenExpiresAt: auth.refreshTokenExpiresAt.toISOString(),
+          isNewUser: String(auth.isNewUser),
+          accountLinked: String(auth.accountLinked),
+        });
+      res.redirect(302, `${returnTo}#${fragment.toString()}`);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  oidcLogin = async (
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const oidcLoginDto = req.body as OidcLoginDto;
+
+      if (!oidcLoginDto.idToken) {
+        res.status(400).json({ message: 'ID token is required' });
+        return;
+      }
+
+      const result = await this.authService.oidcLogin(req.params.provider, oidcLoginDto, getSessionMetadata(req));
+
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  logout = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const userId = req.auth?.userId || req.user?.sub;
+      if (!userId) {
+        res.status(401).json({ message: 'User not authenticated' });
+        return;
+      }
+
+      const result = await this.authService.logout(userId, req.auth?.sessionId);
+
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  logoutAll = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const userId = req.auth?.userId || req.user?.sub;
+      if (!userId) {
+        res.status(401).json({ message: 'User not authenticated' });
+        return;
+      }
+
+      const result = await this.authService.logoutAll(userId);
+
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,72 @@
+import { injectable, inject } from 'inversify';
+import { Response, NextFunction } from 'express';
+import { AppError } from '../middlewares/errorHandler';
+import { AuthenticatedRequest } from '../middlewares/auth';
+import { IIdentityService } from '../services/identityService';
+import { LinkIdentityDto } from '../dto/identity.dto';
+import { TYPES } from '../types/di.types';
+
+@injectable()
+export class IdentityController {
+  constructor(
+    @inject(TYPES.IdentityService) private identityService: IIdentityService,
+  ) {}
+
+  getCurrentUserIdentities = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const userId = this.getUserId(req);
+      const identities = await this.identityService.listIdentities(userId);
+      res.json(identities);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  linkGoogleIdentity = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const userId = this.getUserId(req);
+      const linkIdentityDto = req.body as LinkIdentityDto;
+
+      if (!linkIdentityDto?.idToken) {
+        res.status(400).json({ message: 'ID token is required' });
+        return;
+      }
+
+      const identity = await this.identityService.linkGoogleIdentity(userId, linkIdentityDto.idToken);
+      res.status(201).json(identity);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  unlinkIdentity = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const userId = this.getUserId(req);
+      const { provider } = req.params;
+      await this.identityService.unlinkIdentity(userId, provider);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  private getUserId(req: AuthenticatedRequest): string {
+    const userId = req.auth?.userId || req.user?.sub;
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+    return userId;
+  }
+}
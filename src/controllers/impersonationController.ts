@@ -0,0 +1,45 @@
+import { injectable, inject } from 'inversify';
+import { Response, NextFunction } from 'express';
+import { AppError } from '../middlewares/errorHandler';
+import { AuthenticatedRequest } from '../middlewares/auth';
+import { IImpersonationService } from '../services/impersonationService';
+import { ImpersonateUserDto } from '../dto/impersonation.dto';
+import { TYPES } from '../types/di.types';
+
+@injectable()
+export class ImpersonationController {
+  constructor(
+    @inject(TYPES.ImpersonationService) private impersonationService: IImpersonationService,
+  ) {}
+
+  /**
+   * POST /api/admin/users/:userId/impersonate
+   * Issues a short-lived token acting as the user
+   */
+  impersonateUser = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const impersonateUserDto = (req.body || {}) as ImpersonateUserDto;
+      const result = await this.impersonationService.impersonateUser(
+        this.getUserId(req),
+        req.params.userId,
+        impersonateUserDto,
+      );
+
+      res.set('Cache-Control', 'no-store').json(result);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  private getUserId(req: AuthenticatedRequest): string {
+    const userId = req.auth?.userId || req.user?.sub;
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+    return userId;
+  }
+}
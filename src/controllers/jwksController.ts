@@ -1,63 +1,64 @@
 import { Request, Response } from 'express';
-import crypto from 'crypto';
-import config from '../config/config';
+import { toPublicJwk, computeJwkThumbprint } from '../utils/keyIdentity';
 import { ILogger } from '../logging/logger.interface';
 import { injectable, inject } from 'inversify';
 import { TYPES } from '../types/di.types';
+import { ISigningKeyService } from '../services/signingKeyService';
 
+// RSA keys carry n and e, EC keys crv, x and y, OKP (Ed25519) keys crv and x
 interface JWK {
   kty: string;
   use: string;
   kid: string;
   alg: string;
-  n: string;
-  e: string;
+  n?: string;
+  e?: string;
+  crv?: string;
+  x?: string;
+  y?: string;
 }
 
 @injectable()
 export class JwksController {
   constructor(
+    @inject(TYPES.SigningKeyService) private signingKeyService: ISigningKeyService,
     @inject(TYPES.Logger) private logger: ILogger,
   ) {}
 
   /**
-   * Converts RSA public key PEM to JWK format
+   * Converts a public key PEM to JWK format, identified by its RFC 7638 thumbprint
    */
-  private pemToJwk(publicKeyPem: string, kid: string = 'default'): JWK {
-    const publicKey = crypto.createPublicKey(publicKeyPem);
-    const jwk = publicKey.export({ format: 'jwk' }) as crypto.JsonWebKey;
+  private pemToJwk(publicKeyPem: string, algorithm: string): JWK {
+    const jwk = toPublicJwk(publicKeyPem);
+    const base = { kty: jwk.kty || '', use: 'sig', kid: computeJwkThumbprint(jwk), alg: algorithm };
 
-    return {
-      kty: jwk.kty || 'RSA',
-      use: 'sig',
-      kid,
-      alg: 'RS256',
-      n: jwk.n || '',
-      e: jwk.e || '',
-    };
+    switch (jwk.kty) {
+      case 'EC':
+        return { ...base, crv: jwk.crv, x: jwk.x, y: jwk.y };
+      case 'OKP':
+        return { ...base, crv: jwk.crv, x: jwk.x };
+      default:
+        return { ...base, n: jwk.n, e: jwk.e };
+    }
   }
 
   /**
    * GET /.well-known/jwks.json
-   * Returns the public keys in JWKS format for JWT verification
+   * Returns every non-retired public key in JWKS format, so tokens signed by a
+   * previous key keep verifying and a newly generated key is known before it signs
    */
   getJwks = async (req: Request, res: Response): Promise<void> => {
     try {
-      if (!config.jwt.publicKey) {
-        this.logger.error('JWKS endpoint: Public key not configured');
+      const keys = await this.signingKeyService.getPublishedKeys();
+
+      if (keys.length === 0) {
+        this.logger.error('JWKS endpoint: no signing keys available');
         res.status(500).json({ error: 'JWKS endpoint not available' });
         return;
       }
 
-      // Generate a stable kid from the public key (first 8 chars of base64 hash)
-      const keyHash = crypto.createHash('sha256').update(config.jwt.publicKey).digest('base64');
-      const kid = keyHash.substring(0, 8);
-
-      const jwk = this.pemToJwk(config.jwt.publicKey, kid);
-
-      // Return JWKS format
       res.json({
-        keys: [jwk],
+        keys: keys.map(key => this.pemToJwk(key.publicKey, key.algorithm)),
       });
     } catch (error) {
       this.logger.error('Error generating JWKS', error as Error);
@@ -65,4 +66,3 @@ export class JwksController {
     }
   };
 }
-
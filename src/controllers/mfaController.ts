@@ -0,0 +1,117 @@
+import { injectable, inject } from 'inversify';
+import { Response, NextFunction } from 'express';
+import { AppError } from '../middlewares/errorHandler';
+import { AuthenticatedRequest } from '../middlewares/auth';
+import { IMfaService } from '../services/mfaService';
+import { MfaCodeDto } from '../dto/mfa.dto';
+import { TYPES } from '../types/di.types';
+
+@injectable()
+export class MfaController {
+  constructor(
+    @inject(TYPES.MfaService) private mfaService: IMfaService,
+  ) {}
+
+  getMfaStatus = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const userId = this.getUserId(req);
+      const status = await this.mfaService.getMfaStatus(userId);
+      res.json(status);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  startTotpEnrollment = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const userId = this.getUserId(req);
+      const enrollment = await this.mfaService.startTotpEnrollment(userId);
+      res.status(201).json(enrollment);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  confirmTotpEnrollment = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const userId = this.getUserId(req);
+      const { code } = this.getCodeDto(req);
+      const result = await this.mfaService.confirmTotpEnrollment(userId, code);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  regenerateRecoveryCodes = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const userId = this.getUserId(req);
+      const { code } = this.getCodeDto(req);
+      const result = await this.mfaService.regenerateRecoveryCodes(userId, code);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  disableTotp = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const userId = this.getUserId(req);
+      const { code } = this.getCodeDto(req);
+      await this.mfaService.disableTotp(userId, code);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  resetUserMfa = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const { userId } = req.params;
+      await this.mfaService.resetMfa(userId);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  private getUserId(req: AuthenticatedRequest): string {
+    const userId = req.auth?.userId || req.user?.sub;
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+    return userId;
+  }
+
+  private getCodeDto(req: AuthenticatedRequest): MfaCodeDto {
+    const dto = req.body as MfaCodeDto;
+    if (!dto?.code || typeof dto.code !== 'string') {
+      throw new AppError('Verification code is required', 400);
+    }
+    return dto;
+  }
+}
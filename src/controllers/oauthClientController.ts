@@ -0,0 +1,52 @@
+import { injectable, inject } from 'inversify';
+import { Request, Response, NextFunction } from 'express';
+import { IOAuthClientService } from '../services/oauthClientService';
+import { CreateOAuthClientDto } from '../dto/oauth.dto';
+import { TYPES } from '../types/di.types';
+
+@injectable()
+export class OAuthClientController {
+  constructor(
+    @inject(TYPES.OAuthClientService) private oauthClientService: IOAuthClientService,
+  ) {}
+
+  getClients = async (
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const clients = await this.oauthClientService.listClients();
+      res.json(clients);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  createClient = async (
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const createClientDto = (req.body || {}) as CreateOAuthClientDto;
+      const client = await this.oauthClientService.createClient(createClientDto);
+      res.status(201).json(client);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  deleteClient = async (
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      await this.oauthClientService.deleteClient(req.params.clientId);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,194 @@
+import { injectable, inject } from 'inversify';
+import { Request, Response, NextFunction } from 'express';
+import { AppError } from '../middlewares/errorHandler';
+import { AuthenticatedRequest } from '../middlewares/auth';
+import { IOAuthAuthorizationService } from '../services/oauthAuthorizationService';
+import { IOAuthTokenService } from '../services/oauthTokenService';
+import { ITokenIntrospectionService } from '../services/tokenIntrospectionService';
+import {
+  AuthorizationDecisionDto,
+  AuthorizeRequestDto,
+  ClientCredentials,
+  TokenLookupRequestDto,
+  TokenRequestDto,
+} from '../dto/oauth.dto';
+import { TYPES } from '../types/di.types';
+import { getSessionMetadata } from '../utils/sessionMetadata';
+
+@injectable()
+export class OAuthController {
+  constructor(
+    @inject(TYPES.OAuthAuthorizationService) private oauthAuthorizationService: IOAuthAuthorizationService,
+    @inject(TYPES.OAuthTokenService) private oauthTokenService: IOAuthTokenService,
+    @inject(TYPES.TokenIntrospectionService) private tokenIntrospectionService: ITokenIntrospectionService,
+  ) {}
+
+  /**
+   * GET /oauth/authorize
+   * Redirects to the consent page, or back to the client with an error
+   */
+  authorize = async (
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const authorizeRequest = this.pickStrings(req.query) as AuthorizeRequestDto;
+      const location = await this.oauthAuthorizationService.startAuthorization(authorizeRequest);
+      res.redirect(302, location);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * GET /oauth/authorize/request?request=...
+   * Describes a pending authorization request for the consent page
+   */
+  getAuthorizationRequest = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const userId = this.getUserId(req);
+      const { request } = req.query;
+
+      if (typeof request !== 'string' || !request) {
+        res.status(400).json({ message: 'request is required' });
+        return;
+      }
+
+      const details = await this.oauthAuthorizationService.getAuthorizationRequest(userId, request);
+      res.json(details);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * POST /oauth/authorize/decision
+   * Approves or denies a pending authorization request
+   */
+  decideAuthorization = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const userId = this.getUserId(req);
+      const decisionDto = req.body as AuthorizationDecisionDto;
+
+      if (typeof decisionDto?.request !== 'string' || typeof decisionDto.approve !== 'boolean') {
+        res.status(400).json({ message: 'request and approve are required' });
+        return;
+      }
+
+      const result = await this.oauthAuthorizationService.decideAuthorization(userId, decisionDto);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * POST /oauth/token
+   */
+  token = async (
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const tokenRequest = this.pickStrings(req.body ?? {}) as TokenRequestDto;
+      const result = await this.oauthTokenService.exchangeToken(
+        tokenRequest,
+        this.getClientCredentials(req),
+        getSessionMetadata(req),
+      );
+
+      res.set({ 'Cache-Control': 'no-store', Pragma: 'no-cache' }).json(result);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * POST /oauth/introspect
+   * Describes a token for a resource server (RFC 7662)
+   */
+  introspect = async (
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const lookupRequest = this.pickStrings(req.body ?? {}) as TokenLookupRequestDto;
+      const result = await this.tokenIntrospectionService.introspect(lookupRequest, this.getClientCredentials(req));
+
+      res.set({ 'Cache-Control': 'no-store', Pragma: 'no-cache' }).json(result);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * POST /oauth/revoke
+   * Revokes a token (RFC 7009); unknown tokens are answered the same way
+   */
+  revoke = async (
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const lookupRequest = this.pickStrings(req.body ?? {}) as TokenLookupRequestDto;
+      await this.tokenIntrospectionService.revoke(lookupRequest, this.getClientCredentials(req));
+
+      res.status(200).end();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Client credentials from HTTP Basic (client_secret_basic) or the form body
+   * (client_secret_post, or client_id alone for public clients).
+   */
+  private getClientCredentials(req: Request): ClientCredentials {
+    const authHeader = req.headers.authorization;
+
+    if (authHeader?.startsWith('Basic ')) {
+      const decoded = Buffer.from(authHeader.substring(6), 'base64').toString('utf8');
+      const separator = decoded.indexOf(':');
+      if (separator === -1) {
+        return {};
+      }
+
+      // Both parts are form-urlencoded before being joined (RFC 6749, section 2.3.1)
+      const decode = (value: string) => decodeURIComponent(value.replace(/\+/g, ' '));
+      try {
+        return { clientId: decode(decoded.substring(0, separator)), clientSecret: decode(decoded.substring(separator + 1)) };
+      } catch {
+        return {};
+      }
+    }
+
+    const body = this.pickStrings(req.body ?? {});
+    return { clientId: body.client_id, clientSecret: body.client_secret };
+  }
+
+  private getUserId(req: AuthenticatedRequest): string {
+    const userId = req.auth?.userId || req.user?.sub;
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+    return userId;
+  }
+
+  private pickStrings(source: Record<string, unknown>): Record<string, string> {
+    return Object.fromEntries(
+      Object.entries(source).filter((entry): entry is [string, string] => typeof entry[1] === 'string'),
+    );
+  }
+}
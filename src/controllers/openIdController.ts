@@ -0,0 +1,51 @@
+import { injectable, inject } from 'inversify';
+import { Request, Response, NextFunction } from 'express';
+import { AppError } from '../middlewares/errorHandler';
+import { AuthenticatedRequest } from '../middlewares/auth';
+import { IOpenIdProviderService } from '../services/openIdProviderService';
+import { TYPES } from '../types/di.types';
+
+@injectable()
+export class OpenIdController {
+  constructor(
+    @inject(TYPES.OpenIdProviderService) private openIdProviderService: IOpenIdProviderService,
+  ) {}
+
+  /**
+   * GET /.well-known/openid-configuration
+   */
+  getConfiguration = async (
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const configuration = await this.openIdProviderService.getConfiguration();
+      res.json(configuration);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * GET /userinfo
+   */
+  getUserInfo = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const userId = req.auth?.userId || req.user?.sub;
+      if (!userId) {
+        throw new AppError('User not authenticated', 401);
+      }
+
+      const scope = typeof req.user?.scope === 'string' ? req.user.scope : undefined;
+      const userInfo = await this.openIdProviderService.getUserInfo(userId, scope);
+      res.set('Cache-Control', 'no-store').json(userInfo);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,99 @@
+import { injectable, inject } from 'inversify';
+import { Response, NextFunction } from 'express';
+import { AppError } from '../middlewares/errorHandler';
+import { AuthenticatedRequest } from '../middlewares/auth';
+import { IOrganizationService, OrganizationActor } from '../services/organizationService';
+import { CreateOrganizationDto, UpdateOrganizationDto } from '../dto/organization.dto';
+import { TYPES } from '../types/di.types';
+
+@injectable()
+export class OrganizationController {
+  constructor(
+    @inject(TYPES.OrganizationService) private organizationService: IOrganizationService,
+  ) {}
+
+  getOrganizations = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const organizations = await this.organizationService.listOrganizations(this.getActor(req));
+      res.json(organizations);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  getOrganizationById = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const organization = await this.organizationService.getOrganization(this.getActor(req), req.params.id);
+      res.json(organization);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/orgs
+   * Creates an organization owned by the caller and makes them a member
+   */
+  createOrganization = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const createOrganizationDto = (req.body || {}) as CreateOrganizationDto;
+      const organization = await this.organizationService.createOrganization(
+        this.getActor(req).userId,
+        createOrganizationDto,
+      );
+      res.status(201).json(organization);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  updateOrganization = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const updateOrganizationDto = (req.body || {}) as UpdateOrganizationDto;
+      const organization = await this.organizationService.updateOrganization(
+        this.getActor(req),
+        req.params.id,
+        updateOrganizationDto,
+      );
+      res.json(organization);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  deleteOrganization = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      await this.organizationService.deleteOrganization(this.getActor(req), req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  private getActor(req: AuthenticatedRequest): OrganizationActor {
+    if (!req.auth?.userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+    return { userId: req.auth.userId, orgId: req.auth.orgId, permissions: req.auth.permissions };
+  }
+}
@@ -0,0 +1,62 @@
+import { injectable, inject } from 'inversify';
+import { Response, NextFunction } from 'express';
+import { AppError } from '../middlewares/errorHandler';
+import { AuthenticatedRequest } from '../middlewares/auth';
+import { IPersonalAccessTokenService } from '../services/personalAccessTokenService';
+import { CreatePersonalAccessTokenDto } from '../dto/personalAccessToken.dto';
+import { TYPES } from '../types/di.types';
+
+@injectable()
+export class PersonalAccessTokenController {
+  constructor(
+    @inject(TYPES.PersonalAccessTokenService) private personalAccessTokenService: IPersonalAccessTokenService,
+  ) {}
+
+  getCurrentUserTokens = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const tokens = await this.personalAccessTokenService.listTokens(this.getUserId(req));
+      res.json(tokens);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  createCurrentUserToken = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const createTokenDto = (req.body || {}) as CreatePersonalAccessTokenDto;
+      const token = await this.personalAccessTokenService.createToken(this.getUserId(req), createTokenDto);
+      res.status(201).json(token);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  deleteCurrentUserToken = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      await this.personalAccessTokenService.deleteToken(this.getUserId(req), req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  private getUserId(req: AuthenticatedRequest): string {
+    const userId = req.auth?.userId || req.user?.sub;
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+    return userId;
+  }
+}
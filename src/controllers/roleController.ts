@@ -3,6 +3,7 @@ import { injectable, inject } from 'inversify';
 import { TYPES } from '../types/di.types';
 import { IRoleService } from '../services/roleService';
 import { IUserRepository } from '../repositories/userRepository';
+import { ITokenRevocationService } from '../services/tokenRevocationService';
 import { CreateRoleDto, UpdateRoleDto, RoleResponseDto, AssignPermissionToRoleDto, AssignRoleToUserDto } from '../dto/role.dto';
 import { ILogger } from '../logging/logger.interface';
 import { AppError } from '../middlewares/errorHandler';
@@ -12,6 +13,7 @@ export class RoleController {
   constructor(
     @inject(TYPES.RoleService) private roleService: IRoleService,
     @inject(TYPES.UserRepository) private userRepository: IUserRepository,
+    @inject(TYPES.TokenRevocationService) private tokenRevocationService: ITokenRevocationService,
     @inject(TYPES.Logger) private logger: ILogger,
   ) {}
 
@@ -151,6 +153,7 @@ export class RoleController {
     try {
       const { userId, roleId } = req.params;
       await this.userRepository.removeRoleFromUser(userId, roleId);
+      await this.tokenRevocationService.revokeUserTokens(userId, 'role-removed');
       res.status(204).send();
     } catch (error) {
       this.logger.error('Error removing role from user', error as Error);
@@ -0,0 +1,136 @@
+import { injectable, inject } from 'inversify';
+import { Request, Response, NextFunction } from 'express';
+import { AppError } from '../middlewares/errorHandler';
+import { AuthenticatedRequest } from '../middlewares/auth';
+import { IServiceAccountService } from '../services/serviceAccountService';
+import { AssignRoleToServiceAccountDto, CreateServiceAccountDto } from '../dto/serviceAccount.dto';
+import { TYPES } from '../types/di.types';
+
+@injectable()
+export class ServiceAccountController {
+  constructor(
+    @inject(TYPES.ServiceAccountService) private serviceAccountService: IServiceAccountService,
+  ) {}
+
+  getServiceAccounts = async (
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const serviceAccounts = await this.serviceAccountService.listServiceAccounts();
+      res.json(serviceAccounts);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  createServiceAccount = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const createServiceAccountDto = (req.body || {}) as CreateServiceAccountDto;
+      const serviceAccount = await this.serviceAccountService.createServiceAccount(
+        createServiceAccountDto,
+        this.getActorPermissions(req),
+      );
+      res.status(201).json(serviceAccount);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  deleteServiceAccount = async (
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      await this.serviceAccountService.deleteServiceAccount(req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  rotateSecret = async (
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const credentials = await this.serviceAccountService.rotateSecret(req.params.id);
+      res.json(credentials);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  disableServiceAccount = async (
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      await this.serviceAccountService.setDisabled(req.params.id, true);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  enableServiceAccount = async (
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      await this.serviceAccountService.setDisabled(req.params.id, false);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  assignRole = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const { roleId } = (req.body || {}) as AssignRoleToServiceAccountDto;
+
+      if (typeof roleId !== 'string' || !roleId) {
+        res.status(400).json({ message: 'roleId is required' });
+        return;
+      }
+
+      await this.serviceAccountService.addRole(req.params.id, roleId, this.getActorPermissions(req));
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  removeRole = async (
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      await this.serviceAccountService.removeRole(req.params.id, req.params.roleId);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  private getActorPermissions(req: AuthenticatedRequest): string[] {
+    if (!req.auth) {
+      throw new AppError('User not authenticated', 401);
+    }
+    return req.auth.permissions;
+  }
+}
@@ -0,0 +1,67 @@
+import { injectable, inject } from 'inversify';
+import { Response, NextFunction } from 'express';
+import { AppError } from '../middlewares/errorHandler';
+import { AuthenticatedRequest } from '../middlewares/auth';
+import { ISessionService } from '../services/sessionService';
+import { SessionResponseDto } from '../dto/session.dto';
+import { Session } from '../models/session';
+import { TYPES } from '../types/di.types';
+
+@injectable()
+export class SessionController {
+  constructor(
+    @inject(TYPES.SessionService) private sessionService: ISessionService,
+  ) {}
+
+  getCurrentUserSessions = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const userId = req.auth?.userId || req.user?.sub;
+      if (!userId) {
+        throw new AppError('User not authenticated', 401);
+      }
+
+      const sessions = await this.sessionService.listActiveSessions(userId);
+
+      res.json(sessions.map(session => this.mapToSessionResponse(session, req.auth?.sessionId)));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  revokeCurrentUserSession = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const userId = req.auth?.userId || req.user?.sub;
+      if (!userId) {
+        throw new AppError('User not authenticated', 401);
+      }
+
+      const { id } = req.params;
+      await this.sessionService.revokeSession(userId, id);
+
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  private mapToSessionResponse(session: Session, currentSessionId?: string): SessionResponseDto {
+    return {
+      id: session.id,
+      deviceName: session.deviceName,
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      expiresAt: session.expiresAt,
+      current: session.id === currentSessionId,
+    };
+  }
+}
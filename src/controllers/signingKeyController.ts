@@ -0,0 +1,75 @@
+import { injectable, inject } from 'inversify';
+import { Request, Response, NextFunction } from 'express';
+import { ISigningKeyService } from '../services/signingKeyService';
+import { GenerateSigningKeyDto } from '../dto/signingKey.dto';
+import { TYPES } from '../types/di.types';
+import { AppError } from '../middlewares/errorHandler';
+import { SIGNING_ALGORITHMS, isSigningAlgorithm } from '../utils/signingAlgorithms';
+
+@injectable()
+export class SigningKeyController {
+  constructor(
+    @inject(TYPES.SigningKeyService) private signingKeyService: ISigningKeyService,
+  ) {}
+
+  getSigningKeys = async (
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const keys = await this.signingKeyService.listKeys();
+      res.json(keys);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  generateSigningKey = async (
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const generateSigningKeyDto = (req.body || {}) as GenerateSigningKeyDto;
+
+      if (generateSigningKeyDto.algorithm !== undefined && !isSigningAlgorithm(generateSigningKeyDto.algorithm)) {
+        throw new AppError(`algorithm must be one of ${SIGNING_ALGORITHMS.join(', ')}`, 400);
+      }
+
+      const key = await this.signingKeyService.generateKey({
+        algorithm: generateSigningKeyDto.algorithm,
+        activate: generateSigningKeyDto.activate === true,
+      });
+      res.status(201).json(key);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  promoteSigningKey = async (
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const key = await this.signingKeyService.promoteKey(req.params.kid);
+      res.json(key);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  retireSigningKey = async (
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const key = await this.signingKeyService.retireKey(req.params.kid);
+      res.json(key);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -57,8 +57,9 @@ export class UserController {
         return;
       }
 
-      // Tenant isolation: if user has orgId, ensure they can only access users from their org
-      if (orgId && user.organizationId && user.organizationId !== orgId) {
+      // Tenant isolation: if user has orgId, ensure they can only access users from their org,
+      // which excludes users outside any organization, as getAllUsers does
+      if (orgId && user.organizationId !== orgId) {
         res.status(403).json({ message: 'Access denied: organization mismatch' });
         return;
       }
@@ -214,6 +215,69 @@ export class UserController {
     }
   };
 
+  disableUser = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    await this.setUserDisabled(req, res, next, true);
+  };
+
+  enableUser = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    await this.setUserDisabled(req, res, next, false);
+  };
+
+  unlockUser = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const { userId } = req.params;
+
+      const user = await this.userService.unlockUser(userId);
+
+      if (!user) {
+        res.status(404).json({ message: 'User not found' });
+        return;
+      }
+
+      res.json(this.mapToUserResponse(user));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  private async setUserDisabled(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+    disabled: boolean,
+  ): Promise<void> {
+    try {
+      const { userId } = req.params;
+
+      if (disabled && userId === req.auth?.userId) {
+        throw new AppError('You cannot disable your own account', 400);
+      }
+
+      const updatedUser = await this.userService.setUserDisabled(userId, disabled);
+
+      if (!updatedUser) {
+        res.status(404).json({ message: 'User not found' });
+        return;
+      }
+
+      res.json(this.mapToUserResponse(updatedUser));
+    } catch (error) {
+      next(error);
+    }
+  }
+
   private mapToUserResponse(user: {
     id: string;
     email: string;
@@ -230,6 +294,7 @@ export class UserController {
     }>;
     avatarUrl?: string | null;
     avatarFileId?: string | null;
+    disabledAt?: Date | null;
     createdAt: Date;
     updatedAt: Date;
   }): UserResponseDto {
@@ -249,6 +314,7 @@ export class UserController {
       })),
       avatarUrl: user.avatarUrl ?? null,
       avatarFileId: user.avatarFileId ?? null,
+      disabledAt: user.disabledAt ?? null,
       createdAt: user.createdAt,
       updatedAt: user.updatedAt,
     };
@@ -0,0 +1,102 @@
+import { injectable, inject } from 'inversify';
+import { Request, Response, NextFunction } from 'express';
+import { AppError } from '../middlewares/errorHandler';
+import { AuthenticatedRequest } from '../middlewares/auth';
+import { IWebAuthnService } from '../services/webauthnService';
+import { AuthenticationOptionsRequestDto, RegistrationCredentialDto } from '../dto/webauthn.dto';
+import { TYPES } from '../types/di.types';
+
+@injectable()
+export class WebAuthnController {
+  constructor(
+    @inject(TYPES.WebAuthnService) private webAuthnService: IWebAuthnService,
+  ) {}
+
+  getRegistrationOptions = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const userId = this.getUserId(req);
+      const options = await this.webAuthnService.generateRegistrationOptions(userId);
+      res.json(options);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  verifyRegistration = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const userId = this.getUserId(req);
+      const credential = req.body as RegistrationCredentialDto;
+
+      if (!credential?.id || !credential.response?.clientDataJSON || !credential.response?.attestationObject) {
+        res.status(400).json({ message: 'id, response.clientDataJSON and response.attestationObject are required' });
+        return;
+      }
+
+      const passkey = await this.webAuthnService.verifyRegistration(userId, credential);
+      res.status(201).json(passkey);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  getAuthenticationOptions = async (
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const { email } = (req.body || {}) as AuthenticationOptionsRequestDto;
+      const options = await this.webAuthnService.generateAuthenticationOptions({
+        email: typeof email === 'string' ? email : undefined,
+      });
+      res.json(options);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  getCurrentUserPasskeys = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const userId = this.getUserId(req);
+      const passkeys = await this.webAuthnService.listPasskeys(userId);
+      res.json(passkeys);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  deleteCurrentUserPasskey = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const userId = this.getUserId(req);
+      const { id } = req.params;
+      await this.webAuthnService.deletePasskey(userId, id);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  private getUserId(req: AuthenticatedRequest): string {
+    const userId = req.auth?.userId || req.user?.sub;
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+    return userId;
+  }
+}
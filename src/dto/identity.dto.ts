@@ -0,0 +1,11 @@
+export interface ExternalIdentityResponseDto {
+  id: string;
+  provider: string;
+  email: string | null;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface LinkIdentityDto {
+  idToken: string;
+}
@@ -0,0 +1,11 @@
+export interface ImpersonateUserDto {
+  // Why the session is needed, e.g. a support ticket reference; kept in the audit event
+  reason?: string;
+}
+
+export interface ImpersonationResponseDto {
+  token: string;
+  expiresAt: Date;
+  userId: string;
+  impersonatorId: string;
+}
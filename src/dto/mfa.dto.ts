@@ -0,0 +1,38 @@
+export type MfaMethod = 'totp' | 'recovery_code';
+
+export interface TotpEnrollmentResponseDto {
+  secret: string;
+  otpauthUri: string;
+}
+
+export interface MfaCodeDto {
+  code: string;
+}
+
+export interface RecoveryCodesResponseDto {
+  recoveryCodes: string[];
+}
+
+export interface MfaStatusResponseDto {
+  totpEnabled: boolean;
+  totpEnabledAt: Date | null;
+  recoveryCodesRemaining: number;
+}
+
+export interface MfaChallengeResponseDto {
+  status: 'mfa_required';
+  challengeToken: string;
+  expiresAt: Date;
+  methods: MfaMethod[];
+}
+
+export interface VerifyMfaDto {
+  challengeToken: string;
+  code: string;
+}
+
+export interface CreateMfaChallengeDto {
+  userId: string;
+  tokenHash: string;
+  expiresAt: Date;
+}
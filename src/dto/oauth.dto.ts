@@ -0,0 +1,111 @@
+export interface CreateOAuthClientDto {
+  name: string;
+  redirectUris: string[];
+  allowedScopes: string[];
+  grantTypes?: string[];
+  // Confidential clients get a secret; public clients authenticate with PKCE only
+  confidential?: boolean;
+  firstParty?: boolean;
+}
+
+export interface OAuthClientResponseDto {
+  clientId: string;
+  name: string;
+  redirectUris: string[];
+  allowedScopes: string[];
+  grantTypes: string[];
+  confidential: boolean;
+  firstParty: boolean;
+  createdAt: Date;
+}
+
+export interface CreatedOAuthClientResponseDto extends OAuthClientResponseDto {
+  // Only returned once, at registration
+  clientSecret?: string;
+}
+
+export interface ClientCredentials {
+  clientId?: string;
+  clientSecret?: string;
+}
+
+/**
+ * Query parameters of GET /oauth/authorize (RFC 6749 section 4.1.1, RFC 7636).
+ */
+export interface AuthorizeRequestDto {
+  response_type?: string;
+  client_id?: string;
+  redirect_uri?: string;
+  scope?: string;
+  state?: string;
+  nonce?: string;
+  code_challenge?: string;
+  code_challenge_method?: string;
+}
+
+export interface AuthorizationRequestDetailsDto {
+  client: {
+    clientId: string;
+    name: string;
+  };
+  scopes: string[];
+  consentRequired: boolean;
+}
+
+export interface AuthorizationDecisionDto {
+  request: string;
+  approve: boolean;
+}
+
+export interface AuthorizationDecisionResponseDto {
+  redirectUri: string;
+}
+
+/**
+ * Form parameters of POST /oauth/token.
+ */
+export interface TokenRequestDto {
+  grant_type?: string;
+  code?: string;
+  redirect_uri?: string;
+  code_verifier?: string;
+  refresh_token?: string;
+}
+
+/**
+ * Form parameters of POST /oauth/introspect (RFC 7662) and POST /oauth/revoke (RFC 7009).
+ */
+export interface TokenLookupRequestDto {
+  token?: string;
+  token_type_hint?: string;
+}
+
+/**
+ * RFC 7662 introspection response. Inactive tokens get { active: false } only;
+ * org_id, roles and permissions are the claims authenticateToken would see.
+ */
+export interface IntrospectionResponseDto {
+  active: boolean;
+  // Which kind of token this is; token_type proper would be "Bearer" for all of them
+  token_use?: 'access_token' | 'refresh_token' | 'personal_access_token';
+  sub?: string;
+  client_id?: string;
+  scope?: string;
+  iat?: number;
+  exp?: number;
+  iss?: string;
+  org_id?: string | null;
+  roles?: string[];
+  permissions?: string[];
+  // Admin acting as sub on an impersonation token
+  act?: { sub: string };
+}
+
+export interface TokenResponseDto {
+  access_token: string;
+  token_type: 'Bearer';
+  expires_in: number;
+  scope?: string;
+  refresh_token?: string;
+  id_token?: string;
+}
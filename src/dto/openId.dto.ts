@@ -0,0 +1,36 @@
+/**
+ * OpenID Connect Discovery 1.0 provider metadata. Only endpoints this service
+ * actually serves are listed.
+ */
+export interface OpenIdConfigurationDto {
+  issuer: string;
+  jwks_uri: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  introspection_endpoint: string;
+  revocation_endpoint: string;
+  userinfo_endpoint: string;
+  response_types_supported: string[];
+  grant_types_supported: string[];
+  code_challenge_methods_supported: string[];
+  token_endpoint_auth_methods_supported: string[];
+  subject_types_supported: string[];
+  id_token_signing_alg_values_supported: string[];
+  scopes_supported: string[];
+  claims_supported: string[];
+}
+
+/**
+ * Standard claims (OpenID Connect Core 1.0, section 5.1) returned by /userinfo
+ * and included in ID tokens. Which ones are present depends on the scope.
+ */
+export interface UserInfoResponseDto {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  given_name?: string;
+  family_name?: string;
+  picture?: string;
+  updated_at?: number;
+}
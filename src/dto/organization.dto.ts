@@ -0,0 +1,23 @@
+export interface CreateOrganizationDto {
+  name: string;
+  // Derived from the name when omitted
+  slug?: string;
+  settings?: Record<string, unknown>;
+}
+
+export interface UpdateOrganizationDto {
+  name?: string;
+  slug?: string;
+  // Replaces the stored settings as a whole
+  settings?: Record<string, unknown>;
+}
+
+export interface OrganizationResponseDto {
+  id: string;
+  name: string;
+  slug: string;
+  settings: Record<string, unknown>;
+  ownerId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
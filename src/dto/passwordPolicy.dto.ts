@@ -0,0 +1,32 @@
+export type PasswordPolicyViolationCode =
+  | 'too_short'
+  | 'too_long'
+  | 'missing_uppercase'
+  | 'missing_lowercase'
+  | 'missing_digit'
+  | 'missing_symbol'
+  | 'common_password'
+  | 'contains_personal_info'
+  | 'password_reused';
+
+export interface PasswordPolicyViolation {
+  code: PasswordPolicyViolationCode;
+  message: string;
+}
+
+export interface PasswordPolicyResponseDto {
+  minLength: number;
+  maxLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+  disallowCommonPasswords: boolean;
+  disallowPersonalInfo: boolean;
+}
+
+export interface PasswordPolicyContext {
+  email?: string | null;
+  firstName?: string | null;
+  lastName?: string | null;
+}
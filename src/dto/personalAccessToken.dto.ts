@@ -0,0 +1,20 @@
+export interface CreatePersonalAccessTokenDto {
+  name: string;
+  permissions: string[];
+  expiresInDays: number;
+}
+
+export interface PersonalAccessTokenResponseDto {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  permissions: string[];
+  expiresAt: Date;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface CreatedPersonalAccessTokenResponseDto extends PersonalAccessTokenResponseDto {
+  // Only returned once, at creation
+  token: string;
+}
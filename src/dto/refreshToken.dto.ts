@@ -0,0 +1,8 @@
+export interface CreateRefreshTokenDto {
+  userId: string;
+  tokenHash: string;
+  familyId: string;
+  expiresAt: Date;
+  oauthClientId?: string | null;
+  scope?: string | null;
+}
@@ -0,0 +1,31 @@
+export interface CreateServiceAccountDto {
+  name: string;
+  description?: string;
+  organizationId?: string | null;
+  roleIds?: string[];
+}
+
+export interface ServiceAccountResponseDto {
+  id: string;
+  clientId: string;
+  name: string;
+  description: string | null;
+  organizationId: string | null;
+  roles: string[];
+  disabled: boolean;
+  createdAt: Date;
+}
+
+export interface ServiceAccountCredentialsDto {
+  clientId: string;
+  // Only returned when the account is created or its secret is rotated
+  clientSecret: string;
+}
+
+export interface CreatedServiceAccountResponseDto extends ServiceAccountResponseDto {
+  clientSecret: string;
+}
+
+export interface AssignRoleToServiceAccountDto {
+  roleId: string;
+}
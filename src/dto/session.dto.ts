@@ -0,0 +1,23 @@
+export interface SessionMetadata {
+  userAgent?: string | null;
+  ipAddress?: string | null;
+}
+
+export interface CreateSessionDto {
+  userId: string;
+  userAgent: string | null;
+  deviceName: string | null;
+  ipAddress: string | null;
+  expiresAt: Date;
+}
+
+export interface SessionResponseDto {
+  id: string;
+  deviceName: string | null;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  current: boolean;
+}
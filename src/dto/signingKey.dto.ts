@@ -0,0 +1,16 @@
+import { SigningKeyStatus } from '../models/signingKey';
+import { SigningAlgorithm } from '../utils/signingAlgorithms';
+
+export interface SigningKeyResponseDto {
+  kid: string;
+  algorithm: string;
+  status: SigningKeyStatus;
+  createdAt: Date;
+  activatedAt: Date | null;
+  retiredAt: Date | null;
+}
+
+export interface GenerateSigningKeyDto {
+  algorithm?: SigningAlgorithm;
+  activate?: boolean;
+}
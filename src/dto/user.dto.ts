@@ -1,3 +1,5 @@
+import { MfaChallengeResponseDto } from './mfa.dto';
+
 export interface RegisterDto {
   email: string;
   password: string;
@@ -17,8 +19,7 @@ export interface CreateUserDto {
   lastName: string;
   emailVerified?: boolean;
   emailVerificationToken?: string | null;
-  googleId?: string | null;
-  authProvider?: 'local' | 'google';
+  authProvider?: string;
 }
 
 export interface UpdateUserDto {
@@ -30,10 +31,19 @@ export interface UpdateUserDto {
   emailVerificationToken?: string | null;
   passwordResetToken?: string | null;
   passwordResetTokenExpiresAt?: Date | null;
+  magicLinkToken?: string | null;
+  magicLinkTokenExpiresAt?: Date | null;
+  passwordSetToken?: string | null;
+  passwordSetTokenExpiresAt?: Date | null;
   avatarUrl?: string | null;
   avatarFileId?: string | null;
-  googleId?: string | null;
-  authProvider?: 'local' | 'google';
+  authProvider?: string;
+  tokensValidAfter?: Date | null;
+  disabledAt?: Date | null;
+  organizationId?: string | null;
+  totpSecret?: string | null;
+  totpEnabledAt?: Date | null;
+  totpLastUsedStep?: number | null;
 }
 
 import { RoleResponseDto } from './role.dto';
@@ -47,6 +57,7 @@ export interface UserResponseDto {
   roles: RoleResponseDto[];
   avatarUrl?: string | null;
   avatarFileId?: string | null;
+  disabledAt?: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -54,6 +65,12 @@ export interface UserResponseDto {
 export interface AuthResponseDto {
   user: UserResponseDto;
   token: string;
+  refreshToken: string;
+  refreshTokenExpiresAt: Date;
+}
+
+export interface RefreshTokenDto {
+  refreshToken: string;
 }
 
 export interface RequestPasswordResetDto {
@@ -65,6 +82,14 @@ export interface ResetPasswordDto {
   newPassword: string;
 }
 
+export interface RequestMagicLinkDto {
+  email: string;
+}
+
+export interface ConsumeMagicLinkDto {
+  token: string;
+}
+
 export interface UpdateUserProfileDto {
   firstName?: string;
   lastName?: string;
@@ -75,6 +100,11 @@ export interface ChangePasswordDto {
   newPassword: string;
 }
 
+export interface SetPasswordDto {
+  password: string;
+  confirmationToken?: string;
+}
+
 export interface SetAvatarDto {
   fileId: string;
   avatarUrl: string;
@@ -84,8 +114,27 @@ export interface GoogleOAuthDto {
   idToken: string;
 }
 
-export interface GoogleOAuthResponseDto extends AuthResponseDto {
+export interface OidcLoginDto {
+  idToken: string;
+  nonce?: string;
+}
+
+export interface ExternalAuthResponseDto extends AuthResponseDto {
   isNewUser: boolean;
   accountLinked: boolean;
 }
 
+export type GoogleOAuthResponseDto = ExternalAuthResponseDto;
+
+export interface GoogleAuthorizationCallbackDto {
+  code: string;
+  state: string;
+  // Set by /google/authorize in a cookie of the browser that started the flow
+  browserBinding?: string;
+}
+
+export interface GoogleAuthorizationResponseDto {
+  auth: GoogleOAuthResponseDto | MfaChallengeResponseDto;
+  returnTo: string | null;
+}
+
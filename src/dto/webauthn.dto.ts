@@ -0,0 +1,88 @@
+import { WebAuthnCeremony } from '../models/webauthnChallenge';
+
+export type UserVerificationRequirement = 'required' | 'preferred' | 'discouraged';
+
+export interface PublicKeyCredentialDescriptorDto {
+  type: 'public-key';
+  id: string;
+  transports?: string[];
+}
+
+export interface RegistrationOptionsResponseDto {
+  challenge: string;
+  rp: { id: string; name: string };
+  user: { id: string; name: string; displayName: string };
+  pubKeyCredParams: Array<{ type: 'public-key'; alg: number }>;
+  timeout: number;
+  attestation: 'none' | 'direct';
+  excludeCredentials: PublicKeyCredentialDescriptorDto[];
+  authenticatorSelection: {
+    residentKey: 'required';
+    userVerification: UserVerificationRequirement;
+  };
+}
+
+export interface AuthenticationOptionsRequestDto {
+  email?: string;
+}
+
+export interface AuthenticationOptionsResponseDto {
+  challenge: string;
+  rpId: string;
+  timeout: number;
+  allowCredentials: PublicKeyCredentialDescriptorDto[];
+  userVerification: UserVerificationRequirement;
+}
+
+export interface RegistrationCredentialDto {
+  id: string;
+  rawId?: string;
+  type: 'public-key';
+  name?: string;
+  response: {
+    clientDataJSON: string;
+    attestationObject: string;
+    transports?: string[];
+  };
+}
+
+export interface AuthenticationCredentialDto {
+  id: string;
+  rawId?: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+    userHandle?: string | null;
+  };
+}
+
+export interface PasskeyResponseDto {
+  id: string;
+  name: string | null;
+  aaguid: string | null;
+  attestationFormat: string;
+  transports: string[];
+  createdAt: Date;
+  lastUsedAt: Date | null;
+}
+
+export interface CreateWebAuthnCredentialDto {
+  userId: string;
+  credentialId: string;
+  publicKey: string;
+  algorithm: number;
+  signCount: number;
+  name: string | null;
+  aaguid: string | null;
+  attestationFormat: string;
+  transports: string[] | null;
+}
+
+export interface CreateWebAuthnChallengeDto {
+  userId: string | null;
+  challenge: string;
+  ceremony: WebAuthnCeremony;
+  expiresAt: Date;
+}
@@ -6,6 +6,11 @@ import User from '../models/user';
 export interface IUserEventsPublisher {
   onUserRegistered(user: User): Promise<void>;
   onPasswordResetRequested(user: User, token: string): Promise<void>;
+  onMagicLinkRequested(user: User, token: string): Promise<void>;
+  onUserLocked(user: User, lockedUntil: Date): Promise<void>;
+  onPasswordSetRequested(user: User, token: string): Promise<void>;
+  onPasswordSet(user: User): Promise<void>;
+  onUserImpersonated(user: User, impersonator: User, reason: string | null, expiresAt: Date): Promise<void>;
 }
 
 @injectable()
@@ -36,5 +41,51 @@ export class UserEventsPublisher implements IUserEventsPublisher {
       expiresAt: user.passwordResetTokenExpiresAt,
     });
   }
-}
 
+  async onMagicLinkRequested(user: User, token: string): Promise<void> {
+    await this.eventPublisher.publish('user.magic-link-requested', {
+      userId: user.id,
+      email: user.email,
+      firstName: user.firstName,
+      token,
+      expiresAt: user.magicLinkTokenExpiresAt,
+    });
+  }
+
+  async onUserLocked(user: User, lockedUntil: Date): Promise<void> {
+    await this.eventPublisher.publish('user.locked', {
+      userId: user.id,
+      email: user.email,
+      lockedUntil,
+    });
+  }
+
+  async onPasswordSetRequested(user: User, token: string): Promise<void> {
+    await this.eventPublisher.publish('user.password-set-requested', {
+      userId: user.id,
+      email: user.email,
+      firstName: user.firstName,
+      token,
+      expiresAt: user.passwordSetTokenExpiresAt,
+    });
+  }
+
+  async onPasswordSet(user: User): Promise<void> {
+    await this.eventPublisher.publish('user.password-set', {
+      userId: user.id,
+      email: user.email,
+      authProvider: user.authProvider,
+    });
+  }
+
+  async onUserImpersonated(user: User, impersonator: User, reason: string | null, expiresAt: Date): Promise<void> {
+    await this.eventPublisher.publish('user.impersonated', {
+      userId: user.id,
+      email: user.email,
+      impersonatorId: impersonator.id,
+      impersonatorEmail: impersonator.email,
+      reason,
+      expiresAt,
+    });
+  }
+}
@@ -5,6 +5,8 @@ export interface RequestContext extends LogContext {
   requestId: string;
   traceparent?: string;
   userId?: string;
+  // Admin impersonating userId, so every log line of the request names them
+  actorUserId?: string;
 }
 
 class AsyncContext {
@@ -1,7 +1,10 @@
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
-import config from '../config/config';
 import { asyncContext } from '../logging/context';
+import config from '../config/config';
+import type { ITokenRevocationService } from '../services/tokenRevocationService';
+import type { ISigningKeyService } from '../services/signingKeyService';
+import { PERSONAL_ACCESS_TOKEN_PREFIX, type IPersonalAccessTokenService } from '../services/personalAccessTokenService';
+import { parseScope } from '../utils/oauthScope';
 
 export interface JwtPayload {
   sub: string;
@@ -15,6 +18,13 @@ export interface JwtPayload {
   permissions?: string[];
   email?: string;
   name?: string;
+  sid?: string;
+  jti?: string;
+  // Set on tokens issued through the OAuth token endpoint
+  client_id?: string;
+  scope?: string;
+  // Set on impersonation tokens: the admin acting as sub (RFC 8693, section 4.1)
+  act?: { sub: string };
   [key: string]: unknown;
 }
 
@@ -25,6 +35,15 @@ export interface AuthContext {
   permissions: string[];
   email?: string;
   name?: string;
+  sessionId?: string;
+  // OAuth client or service account the token was issued to
+  clientId?: string;
+  // Scopes granted to the OAuth client acting for the user
+  scopes?: string[];
+  // Set when the request authenticated with a personal access token
+  personalAccessTokenId?: string;
+  // Set when an admin is impersonating the user
+  actorUserId?: string;
 }
 
 interface AuthenticatedRequest extends Request {
@@ -32,59 +51,168 @@ interface AuthenticatedRequest extends Request {
   auth?: AuthContext;
 }
 
-export const authenticateToken = async (
-  req: AuthenticatedRequest,
-  res: Response,
-  next: NextFunction,
-) => {
-  try {
-    const authHeader = req.headers.authorization;
+export interface VerifiedBearerToken {
+  valid: true;
+  auth: AuthContext;
+  // Claims of a JWT; personal access tokens have none
+  payload?: JwtPayload;
+  // Expiry in seconds since the epoch
+  expiresAt: number;
+}
 
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return res.status(401).json({ message: 'Missing or invalid token' });
+export interface RejectedBearerToken {
+  valid: false;
+  error?: string;
+}
+
+/**
+ * Verifies a bearer token the way every protected route does: personal access
+ * tokens by lookup, JWTs by signature, audience and revocation. Shared by
+ * authenticateToken and token introspection so both always agree.
+ */
+export const verifyBearerToken = async (
+  token: string,
+  tokenRevocationService: ITokenRevocationService,
+  signingKeyService: ISigningKeyService,
+  personalAccessTokenService?: IPersonalAccessTokenService,
+): Promise<VerifiedBearerToken | RejectedBearerToken> => {
+  if (token.startsWith(PERSONAL_ACCESS_TOKEN_PREFIX)) {
+    const principal = personalAccessTokenService ? await personalAccessTokenService.authenticate(token) : null;
+    if (!principal) {
+      return { valid: false };
     }
 
-    const token = authHeader.substring(7);
+    return {
+      valid: true,
+      auth: {
+        userId: principal.userId,
+        orgId: principal.orgId,
+        roles: principal.roles,
+        permissions: principal.permissions,
+        email: principal.email,
+        name: principal.name,
+        personalAccessTokenId: principal.tokenId,
+      },
+      expiresAt: Math.floor(principal.expiresAt.getTime() / 1000),
+    };
+  }
+
+  let payload: JwtPayload;
+  try {
+    // ID tokens and other JWTs we sign name a different audience
+    payload = await signingKeyService.verify(token, { audience: config.jwt.audience }) as JwtPayload;
+  } catch (err) {
+    return { valid: false, error: (err as Error).message };
+  }
+
+  if (await tokenRevocationService.isTokenRevoked(payload)) {
+    return { valid: false, error: 'token has been revoked' };
+  }
+
+  return {
+    valid: true,
+    // Build AuthContext for consistency with other services
+    auth: {
+      userId: payload.sub,
+      orgId: payload.org_id || null,
+      roles: payload.roles || [],
+      permissions: payload.permissions || [],
+      email: payload.email,
+      name: payload.name,
+      sessionId: payload.sid,
+      clientId: payload.client_id,
+      scopes: typeof payload.scope === 'string' ? parseScope(payload.scope) : undefined,
+      actorUserId: payload.act?.sub,
+    },
+    payload,
+    expiresAt: payload.exp,
+  };
+};
+
+export interface AuthenticateTokenOptions {
+  // Accept user tokens issued to OAuth clients, which the first-party API refuses
+  allowOAuthClientTokens?: boolean;
+}
 
-    if (!config.jwt.publicKey) {
-      return res.status(500).json({ message: 'JWT public key not configured' });
+export const createAuthenticateToken = (
+  tokenRevocationService: ITokenRevocationService,
+  signingKeyService: ISigningKeyService,
+  personalAccessTokenService?: IPersonalAccessTokenService,
+  options: AuthenticateTokenOptions = {},
+) => {
+  return async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+  ) => {
+    try {
+      const authHeader = req.headers.authorization;
+
+      if (!authHeader || !authHeader.startsWith('Bearer ')) {
+        return res.status(401).json({ message: 'Missing or invalid token' });
+      }
+
+      const verified = await verifyBearerToken(
+        authHeader.substring(7),
+        tokenRevocationService,
+        signingKeyService,
+        personalAccessTokenService,
+      );
+
+      if (!verified.valid) {
+        return res.status(401).json({ message: 'Invalid token', ...(verified.error ? { error: verified.error } : {}) });
+      }
+
+      if (verified.auth.scopes && !options.allowOAuthClientTokens) {
+        return res.status(403).json({ message: 'Tokens issued to OAuth clients are not accepted here' });
+      }
+
+      req.user = verified.payload;
+      req.auth = verified.auth;
+      
+      if (verified.auth.userId) {
+        asyncContext.updateContext({ userId: verified.auth.userId, actorUserId: verified.auth.actorUserId });
+      }
+      
+      next();
+    } catch (error) {
+      next(error);
     }
+  };
+};
 
-    jwt.verify(
-      token,
-      config.jwt.publicKey,
-      {
-        algorithms: ['RS256'],
-      },
-      (err, decoded) => {
-        if (err) {
-          return res.status(401).json({ message: 'Invalid token', error: err.message });
-        }
-
-        const payload = decoded as JwtPayload;
-        req.user = payload;
-
-        // Build AuthContext for consistency with other services
-        const authContext: AuthContext = {
-          userId: payload.sub,
-          orgId: payload.org_id || null,
-          roles: payload.roles || [],
-          permissions: payload.permissions || [],
-          email: payload.email,
-          name: payload.name,
-        };
-        req.auth = authContext;
-        
-        if (authContext.userId) {
-          asyncContext.updateContext({ userId: authContext.userId });
-        }
-        
-        next();
-      },
-    );
-  } catch (error) {
-    next(error);
+/**
+ * Guards account-security operations (passwords, MFA, token management,
+ * OAuth consent) so that only tokens from the user's own sign-in can perform
+ * them: personal access tokens, service account tokens, tokens issued to
+ * OAuth clients and impersonation tokens are rejected.
+ */
+export const requireInteractiveSession = (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  if (!req.auth) {
+    return res.status(401).json({ message: 'User not authenticated' });
   }
+
+  if (req.auth.actorUserId) {
+    return res.status(403).json({ message: 'This operation is not allowed while impersonating a user' });
+  }
+
+  if (!req.auth.sessionId || req.auth.clientId || req.auth.personalAccessTokenId) {
+    return res.status(403).json({ message: 'This operation requires signing in' });
+  }
+
+  next();
+};
+
+/**
+ * Rejects impersonation tokens on admin operations that change how a user
+ * signs in or what they may do, such as role assignment and MFA resets.
+ */
+export const forbidImpersonation = (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  if (req.auth?.actorUserId) {
+    return res.status(403).json({ message: 'This operation is not allowed while impersonating a user' });
+  }
+
+  next();
 };
 
 export const requirePermissions = (requiredPermissions: string[]) => {
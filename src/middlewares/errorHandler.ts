@@ -3,15 +3,49 @@ import { ILogger } from '../logging/logger.interface';
 
 export class AppError extends Error {
   public status: number;
+  public headers?: Record<string, string>;
 
-  constructor(message: string, status: number = 500) {
+  constructor(message: string, status: number = 500, headers?: Record<string, string>) {
     super(message);
     this.status = status;
+    this.headers = headers;
     this.name = 'AppError';
     Error.captureStackTrace(this, this.constructor);
   }
 }
 
+export interface ValidationViolation {
+  code: string;
+  message: string;
+}
+
+/**
+ * A 400 error that carries the individual rule violations so clients can show them.
+ */
+export class ValidationError extends AppError {
+  public violations: ValidationViolation[];
+
+  constructor(message: string, violations: ValidationViolation[]) {
+    super(message, 400);
+    this.violations = violations;
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * An OAuth 2.0 protocol error (RFC 6749, section 5.2), rendered as
+ * `{ error, error_description }` so OAuth client libraries understand it.
+ */
+export class OAuthError extends AppError {
+  public code: string;
+
+  constructor(code: string, description: string, status: number = 400, headers?: Record<string, string>) {
+    super(description, status, headers);
+    this.code = code;
+    this.name = 'OAuthError';
+  }
+}
+
 export const createErrorHandler = (logger: ILogger) => {
   return (err: AppError | Error, req: Request, res: Response, next: NextFunction) => {
     const status = 'status' in err ? err.status : 500;
@@ -29,6 +63,20 @@ export const createErrorHandler = (logger: ILogger) => {
       logger.warn(`Client error: ${message}`, context);
     }
 
+    if ('headers' in err && err.headers) {
+      res.set(err.headers);
+    }
+
+    if (err instanceof OAuthError) {
+      res.status(status).json({ error: err.code, error_description: message });
+      return;
+    }
+
+    if (err instanceof ValidationError) {
+      res.status(status).json({ message, violations: err.violations });
+      return;
+    }
+
     res.status(status).json({ message });
   };
 };
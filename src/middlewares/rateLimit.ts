@@ -0,0 +1,77 @@
+import { Request, Response, NextFunction } from 'express';
+import config from '../config/config';
+import { ILogger } from '../logging/logger.interface';
+import { IRateLimitStore, RateLimitPolicy } from '../rateLimit/rateLimitStore';
+import { parseDurationToSeconds } from '../utils/duration';
+import type { AuthenticatedRequest } from './auth';
+
+function resolveKey(req: AuthenticatedRequest, policy: RateLimitPolicy): string {
+  const ip = req.ip || req.socket?.remoteAddress || 'unknown';
+
+  switch (policy.keyBy) {
+    case 'email': {
+      const email = req.body?.email;
+      // Requests without an email are still limited, just per client
+      return typeof email === 'string' && email.trim()
+        ? `email:${email.trim().toLowerCase()}`
+        : `ip:${ip}`;
+    }
+    case 'userId': {
+      const userId = req.auth?.userId || req.user?.sub;
+      return userId ? `user:${userId}` : `ip:${ip}`;
+    }
+    default:
+      return `ip:${ip}`;
+  }
+}
+
+/**
+ * Creates a factory for token-bucket rate limiting middleware. Policies are
+ * looked up by name in `config.rateLimit.policies`.
+ *
+ * Every response carries `RateLimit-Limit`, `RateLimit-Remaining`,
+ * `RateLimit-Reset` and `RateLimit-Policy` headers; rejected requests get a
+ * `429` with `Retry-After`. If the store fails the request is let through.
+ */
+export const createRateLimit = (store: IRateLimitStore, logger: ILogger) => {
+  return (policyName: string) => {
+    const policy = config.rateLimit.policies[policyName];
+    if (!policy) {
+      throw new Error(`Unknown rate limit policy: ${policyName}`);
+    }
+
+    const intervalSeconds = parseDurationToSeconds(policy.interval, 60);
+    const refillPerSecond = policy.capacity / intervalSeconds;
+
+    return async (req: Request, res: Response, next: NextFunction) => {
+      if (!config.rateLimit.enabled) {
+        return next();
+      }
+
+      const key = `${policyName}:${resolveKey(req as AuthenticatedRequest, policy)}`;
+
+      let result;
+      try {
+        result = await store.consume(key, policy.capacity, refillPerSecond);
+      } catch (error) {
+        logger.error('Rate limit store failed, allowing request', error as Error, { policy: policyName });
+        return next();
+      }
+
+      res.set({
+        'RateLimit-Limit': String(policy.capacity),
+        'RateLimit-Remaining': String(result.remaining),
+        'RateLimit-Reset': String(result.resetSeconds),
+        'RateLimit-Policy': `${policy.capacity};w=${intervalSeconds}`,
+      });
+
+      if (!result.allowed) {
+        logger.warn('Rate limit exceeded', { policy: policyName, keyBy: policy.keyBy, path: req.path });
+        res.set('Retry-After', String(result.retryAfterSeconds));
+        return res.status(429).json({ message: 'Too many requests, please try again later' });
+      }
+
+      next();
+    };
+  };
+};
@@ -0,0 +1,32 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddRefreshTokens1764521083412 implements MigrationInterface {
+    name = 'AddRefreshTokens1764521083412'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            CREATE TABLE "refresh_tokens" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "user_id" uuid NOT NULL,
+                "token_hash" character varying NOT NULL,
+                "family_id" uuid NOT NULL,
+                "expires_at" TIMESTAMP NOT NULL,
+                "revoked_at" TIMESTAMP,
+                "replaced_by_id" uuid,
+                "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "UQ_refresh_tokens_token_hash" UNIQUE ("token_hash"),
+                CONSTRAINT "PK_refresh_tokens" PRIMARY KEY ("id"),
+                CONSTRAINT "FK_refresh_tokens_user_id" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+            )
+        `);
+
+        await queryRunner.query(`CREATE INDEX "IDX_refresh_tokens_user_id" ON "refresh_tokens" ("user_id")`);
+        await queryRunner.query(`CREATE INDEX "IDX_refresh_tokens_family_id" ON "refresh_tokens" ("family_id")`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX IF EXISTS "IDX_refresh_tokens_family_id"`);
+        await queryRunner.query(`DROP INDEX IF EXISTS "IDX_refresh_tokens_user_id"`);
+        await queryRunner.query(`DROP TABLE IF EXISTS "refresh_tokens"`);
+    }
+}
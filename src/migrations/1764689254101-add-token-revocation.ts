@@ -0,0 +1,33 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddTokenRevocation1764689254101 implements MigrationInterface {
+    name = 'AddTokenRevocation1764689254101'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            CREATE TABLE "revoked_tokens" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "type" character varying NOT NULL,
+                "value" character varying NOT NULL,
+                "expires_at" TIMESTAMP NOT NULL,
+                "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "PK_revoked_tokens" PRIMARY KEY ("id")
+            )
+        `);
+
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_revoked_tokens_type_value" ON "revoked_tokens" ("type", "value")`);
+        await queryRunner.query(`CREATE INDEX "IDX_revoked_tokens_expires_at" ON "revoked_tokens" ("expires_at")`);
+
+        await queryRunner.query(`ALTER TABLE "users" ADD "tokens_valid_after" TIMESTAMP`);
+        await queryRunner.query(`ALTER TABLE "users" ADD "disabled_at" TIMESTAMP`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "users" DROP COLUMN IF EXISTS "disabled_at"`);
+        await queryRunner.query(`ALTER TABLE "users" DROP COLUMN IF EXISTS "tokens_valid_after"`);
+
+        await queryRunner.query(`DROP INDEX IF EXISTS "IDX_revoked_tokens_expires_at"`);
+        await queryRunner.query(`DROP INDEX IF EXISTS "IDX_revoked_tokens_type_value"`);
+        await queryRunner.query(`DROP TABLE IF EXISTS "revoked_tokens"`);
+    }
+}
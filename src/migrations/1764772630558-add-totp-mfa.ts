@@ -0,0 +1,52 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddTotpMfa1764772630558 implements MigrationInterface {
+    name = 'AddTotpMfa1764772630558'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "users" ADD "totp_secret" character varying`);
+        await queryRunner.query(`ALTER TABLE "users" ADD "totp_enabled_at" TIMESTAMP`);
+        await queryRunner.query(`ALTER TABLE "users" ADD "totp_last_used_step" integer`);
+
+        await queryRunner.query(`
+            CREATE TABLE "mfa_recovery_codes" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "user_id" uuid NOT NULL,
+                "code_hash" character varying NOT NULL,
+                "used_at" TIMESTAMP,
+                "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "PK_mfa_recovery_codes" PRIMARY KEY ("id"),
+                CONSTRAINT "FK_mfa_recovery_codes_user_id" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+            )
+        `);
+
+        await queryRunner.query(`
+            CREATE TABLE "mfa_challenges" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "user_id" uuid NOT NULL,
+                "token_hash" character varying NOT NULL,
+                "expires_at" TIMESTAMP NOT NULL,
+                "attempts" integer NOT NULL DEFAULT 0,
+                "consumed_at" TIMESTAMP,
+                "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "UQ_mfa_challenges_token_hash" UNIQUE ("token_hash"),
+                CONSTRAINT "PK_mfa_challenges" PRIMARY KEY ("id"),
+                CONSTRAINT "FK_mfa_challenges_user_id" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+            )
+        `);
+
+        await queryRunner.query(`CREATE INDEX "IDX_mfa_recovery_codes_user_id" ON "mfa_recovery_codes" ("user_id")`);
+        await queryRunner.query(`CREATE INDEX "IDX_mfa_challenges_user_id" ON "mfa_challenges" ("user_id")`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX IF EXISTS "IDX_mfa_challenges_user_id"`);
+        await queryRunner.query(`DROP INDEX IF EXISTS "IDX_mfa_recovery_codes_user_id"`);
+        await queryRunner.query(`DROP TABLE IF EXISTS "mfa_challenges"`);
+        await queryRunner.query(`DROP TABLE IF EXISTS "mfa_recovery_codes"`);
+
+        await queryRunner.query(`ALTER TABLE "users" DROP COLUMN IF EXISTS "totp_last_used_step"`);
+        await queryRunner.query(`ALTER TABLE "users" DROP COLUMN IF EXISTS "totp_enabled_at"`);
+        await queryRunner.query(`ALTER TABLE "users" DROP COLUMN IF EXISTS "totp_secret"`);
+    }
+}
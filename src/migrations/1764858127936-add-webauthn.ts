@@ -0,0 +1,52 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddWebauthn1764858127936 implements MigrationInterface {
+    name = 'AddWebauthn1764858127936'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            CREATE TABLE "webauthn_credentials" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "user_id" uuid NOT NULL,
+                "credential_id" character varying NOT NULL,
+                "public_key" text NOT NULL,
+                "algorithm" integer NOT NULL,
+                "sign_count" bigint NOT NULL DEFAULT 0,
+                "name" character varying,
+                "aaguid" character varying,
+                "attestation_format" character varying NOT NULL,
+                "transports" text array,
+                "last_used_at" TIMESTAMP,
+                "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "UQ_webauthn_credentials_credential_id" UNIQUE ("credential_id"),
+                CONSTRAINT "PK_webauthn_credentials" PRIMARY KEY ("id"),
+                CONSTRAINT "FK_webauthn_credentials_user_id" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+            )
+        `);
+
+        await queryRunner.query(`
+            CREATE TABLE "webauthn_challenges" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "user_id" uuid,
+                "challenge" character varying NOT NULL,
+                "ceremony" character varying NOT NULL,
+                "expires_at" TIMESTAMP NOT NULL,
+                "consumed_at" TIMESTAMP,
+                "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "UQ_webauthn_challenges_challenge" UNIQUE ("challenge"),
+                CONSTRAINT "PK_webauthn_challenges" PRIMARY KEY ("id"),
+                CONSTRAINT "FK_webauthn_challenges_user_id" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+            )
+        `);
+
+        await queryRunner.query(`CREATE INDEX "IDX_webauthn_credentials_user_id" ON "webauthn_credentials" ("user_id")`);
+        await queryRunner.query(`CREATE INDEX "IDX_webauthn_challenges_expires_at" ON "webauthn_challenges" ("expires_at")`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX IF EXISTS "IDX_webauthn_challenges_expires_at"`);
+        await queryRunner.query(`DROP INDEX IF EXISTS "IDX_webauthn_credentials_user_id"`);
+        await queryRunner.query(`DROP TABLE IF EXISTS "webauthn_challenges"`);
+        await queryRunner.query(`DROP TABLE IF EXISTS "webauthn_credentials"`);
+    }
+}
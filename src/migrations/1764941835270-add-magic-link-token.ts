@@ -0,0 +1,17 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddMagicLinkToken1764941835270 implements MigrationInterface {
+    name = 'AddMagicLinkToken1764941835270'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "users" ADD "magic_link_token" character varying`);
+        await queryRunner.query(`ALTER TABLE "users" ADD "magic_link_token_expires_at" TIMESTAMP`);
+        await queryRunner.query(`CREATE INDEX "IDX_users_magic_link_token" ON "users" ("magic_link_token")`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX IF EXISTS "IDX_users_magic_link_token"`);
+        await queryRunner.query(`ALTER TABLE "users" DROP COLUMN IF EXISTS "magic_link_token_expires_at"`);
+        await queryRunner.query(`ALTER TABLE "users" DROP COLUMN IF EXISTS "magic_link_token"`);
+    }
+}
@@ -0,0 +1,29 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddLoginAttempts1765028461593 implements MigrationInterface {
+    name = 'AddLoginAttempts1765028461593'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            CREATE TABLE "login_attempts" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "scope" character varying NOT NULL,
+                "key" character varying NOT NULL,
+                "failed_count" integer NOT NULL DEFAULT 0,
+                "last_failed_at" TIMESTAMP NOT NULL,
+                "locked_until" TIMESTAMP,
+                "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "PK_login_attempts" PRIMARY KEY ("id")
+            )
+        `);
+
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_login_attempts_scope_key" ON "login_attempts" ("scope", "key")`);
+        await queryRunner.query(`CREATE INDEX "IDX_login_attempts_last_failed_at" ON "login_attempts" ("last_failed_at")`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX IF EXISTS "IDX_login_attempts_last_failed_at"`);
+        await queryRunner.query(`DROP INDEX IF EXISTS "IDX_login_attempts_scope_key"`);
+        await queryRunner.query(`DROP TABLE IF EXISTS "login_attempts"`);
+    }
+}
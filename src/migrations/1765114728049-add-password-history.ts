@@ -0,0 +1,31 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddPasswordHistory1765114728049 implements MigrationInterface {
+    name = 'AddPasswordHistory1765114728049'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            CREATE TABLE "password_history" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "user_id" uuid NOT NULL,
+                "password_hash" character varying NOT NULL,
+                "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "PK_password_history" PRIMARY KEY ("id"),
+                CONSTRAINT "FK_password_history_user_id" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+            )
+        `);
+
+        await queryRunner.query(`CREATE INDEX "IDX_password_history_user_id_created_at" ON "password_history" ("user_id", "created_at")`);
+
+        // Seed the history with every user's current password
+        await queryRunner.query(`
+            INSERT INTO "password_history" ("user_id", "password_hash", "created_at")
+            SELECT "id", "password", "updated_at" FROM "users" WHERE "password" IS NOT NULL
+        `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX IF EXISTS "IDX_password_history_user_id_created_at"`);
+        await queryRunner.query(`DROP TABLE IF EXISTS "password_history"`);
+    }
+}
@@ -0,0 +1,43 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddExternalIdentities1765201347582 implements MigrationInterface {
+    name = 'AddExternalIdentities1765201347582'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            CREATE TABLE "external_identities" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "user_id" uuid NOT NULL,
+                "provider" character varying NOT NULL,
+                "subject" character varying NOT NULL,
+                "email" character varying,
+                "last_used_at" TIMESTAMP,
+                "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "PK_external_identities" PRIMARY KEY ("id"),
+                CONSTRAINT "UQ_external_identities_provider_subject" UNIQUE ("provider", "subject"),
+                CONSTRAINT "UQ_external_identities_user_id_provider" UNIQUE ("user_id", "provider"),
+                CONSTRAINT "FK_external_identities_user_id" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+            )
+        `);
+
+        // Move existing Google links into the identities table
+        await queryRunner.query(`
+            INSERT INTO "external_identities" ("user_id", "provider", "subject", "email")
+            SELECT "id", 'google', "google_id", "email" FROM "users" WHERE "google_id" IS NOT NULL
+        `);
+
+        await queryRunner.query(`DROP INDEX IF EXISTS "IDX_users_google_id"`);
+        await queryRunner.query(`ALTER TABLE "users" DROP COLUMN "google_id"`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "users" ADD "google_id" character varying`);
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_users_google_id" ON "users" ("google_id") WHERE "google_id" IS NOT NULL`);
+        await queryRunner.query(`
+            UPDATE "users" SET "google_id" = "external_identities"."subject"
+            FROM "external_identities"
+            WHERE "external_identities"."user_id" = "users"."id" AND "external_identities"."provider" = 'google'
+        `);
+        await queryRunner.query(`DROP TABLE IF EXISTS "external_identities"`);
+    }
+}
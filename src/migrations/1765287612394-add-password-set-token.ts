@@ -0,0 +1,15 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddPasswordSetToken1765287612394 implements MigrationInterface {
+    name = 'AddPasswordSetToken1765287612394'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "users" ADD "password_set_token" character varying`);
+        await queryRunner.query(`ALTER TABLE "users" ADD "password_set_token_expires_at" TIMESTAMP`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "users" DROP COLUMN IF EXISTS "password_set_token_expires_at"`);
+        await queryRunner.query(`ALTER TABLE "users" DROP COLUMN IF EXISTS "password_set_token"`);
+    }
+}
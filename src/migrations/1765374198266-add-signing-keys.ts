@@ -0,0 +1,31 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddSigningKeys1765374198266 implements MigrationInterface {
+    name = 'AddSigningKeys1765374198266'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            CREATE TABLE "signing_keys" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "kid" character varying NOT NULL,
+                "algorithm" character varying NOT NULL DEFAULT 'RS256',
+                "status" character varying NOT NULL,
+                "public_key" text NOT NULL,
+                "private_key" text NOT NULL,
+                "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+                "activated_at" TIMESTAMP,
+                "retired_at" TIMESTAMP,
+                CONSTRAINT "PK_signing_keys" PRIMARY KEY ("id"),
+                CONSTRAINT "UQ_signing_keys_kid" UNIQUE ("kid")
+            )
+        `);
+
+        // At most one key may sign at a time
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_signing_keys_single_active" ON "signing_keys" ("status") WHERE "status" = 'active'`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX IF EXISTS "IDX_signing_keys_single_active"`);
+        await queryRunner.query(`DROP TABLE IF EXISTS "signing_keys"`);
+    }
+}
@@ -0,0 +1,28 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+import crypto from "crypto";
+
+export class UseJwkThumbprintKids1765460530918 implements MigrationInterface {
+    name = 'UseJwkThumbprintKids1765460530918'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // Re-key stored signing keys with their RFC 7638 thumbprint (all keys are RSA at this point)
+        const keys: { id: string; public_key: string }[] = await queryRunner.query(`SELECT "id", "public_key" FROM "signing_keys"`);
+
+        for (const key of keys) {
+            const jwk = crypto.createPublicKey(key.public_key).export({ format: 'jwk' });
+            const kid = crypto.createHash('sha256')
+                .update(JSON.stringify({ e: jwk.e, kty: jwk.kty, n: jwk.n }))
+                .digest('base64url');
+            await queryRunner.query(`UPDATE "signing_keys" SET "kid" = $1 WHERE "id" = $2`, [kid, key.id]);
+        }
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        const keys: { id: string; public_key: string }[] = await queryRunner.query(`SELECT "id", "public_key" FROM "signing_keys"`);
+
+        for (const key of keys) {
+            const kid = crypto.createHash('sha256').update(key.public_key).digest('base64').substring(0, 8);
+            await queryRunner.query(`UPDATE "signing_keys" SET "kid" = $1 WHERE "id" = $2`, [kid, key.id]);
+        }
+    }
+}
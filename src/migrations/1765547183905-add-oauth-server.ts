@@ -0,0 +1,74 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddOAuthServer1765547183905 implements MigrationInterface {
+    name = 'AddOAuthServer1765547183905'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            CREATE TABLE "oauth_clients" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "client_id" character varying NOT NULL,
+                "client_secret_hash" character varying,
+                "name" character varying NOT NULL,
+                "redirect_uris" text array NOT NULL,
+                "allowed_scopes" text array NOT NULL,
+                "grant_types" text array NOT NULL,
+                "first_party" boolean NOT NULL DEFAULT false,
+                "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+                "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "PK_oauth_clients" PRIMARY KEY ("id"),
+                CONSTRAINT "UQ_oauth_clients_client_id" UNIQUE ("client_id")
+            )
+        `);
+
+        await queryRunner.query(`
+            CREATE TABLE "oauth_authorization_codes" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "code_hash" character varying NOT NULL,
+                "oauth_client_id" uuid NOT NULL,
+                "user_id" uuid NOT NULL,
+                "redirect_uri" text NOT NULL,
+                "scope" character varying NOT NULL,
+                "code_challenge" character varying NOT NULL,
+                "nonce" character varying,
+                "session_id" uuid,
+                "expires_at" TIMESTAMP NOT NULL,
+                "consumed_at" TIMESTAMP,
+                "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "PK_oauth_authorization_codes" PRIMARY KEY ("id"),
+                CONSTRAINT "UQ_oauth_authorization_codes_code_hash" UNIQUE ("code_hash"),
+                CONSTRAINT "FK_oauth_authorization_codes_oauth_client_id" FOREIGN KEY ("oauth_client_id") REFERENCES "oauth_clients"("id") ON DELETE CASCADE,
+                CONSTRAINT "FK_oauth_authorization_codes_user_id" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+            )
+        `);
+
+        await queryRunner.query(`
+            CREATE TABLE "oauth_consents" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "user_id" uuid NOT NULL,
+                "oauth_client_id" uuid NOT NULL,
+                "scopes" text array NOT NULL,
+                "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+                "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "PK_oauth_consents" PRIMARY KEY ("id"),
+                CONSTRAINT "UQ_oauth_consents_user_id_oauth_client_id" UNIQUE ("user_id", "oauth_client_id"),
+                CONSTRAINT "FK_oauth_consents_user_id" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE,
+                CONSTRAINT "FK_oauth_consents_oauth_client_id" FOREIGN KEY ("oauth_client_id") REFERENCES "oauth_clients"("id") ON DELETE CASCADE
+            )
+        `);
+
+        // Refresh tokens issued through /oauth/token are bound to their client and scope
+        await queryRunner.query(`ALTER TABLE "refresh_tokens" ADD "oauth_client_id" uuid`);
+        await queryRunner.query(`ALTER TABLE "refresh_tokens" ADD "scope" character varying`);
+        await queryRunner.query(`ALTER TABLE "refresh_tokens" ADD CONSTRAINT "FK_refresh_tokens_oauth_client_id" FOREIGN KEY ("oauth_client_id") REFERENCES "oauth_clients"("id") ON DELETE CASCADE`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "refresh_tokens" DROP CONSTRAINT IF EXISTS "FK_refresh_tokens_oauth_client_id"`);
+        await queryRunner.query(`ALTER TABLE "refresh_tokens" DROP COLUMN IF EXISTS "scope"`);
+        await queryRunner.query(`ALTER TABLE "refresh_tokens" DROP COLUMN IF EXISTS "oauth_client_id"`);
+        await queryRunner.query(`DROP TABLE IF EXISTS "oauth_consents"`);
+        await queryRunner.query(`DROP TABLE IF EXISTS "oauth_authorization_codes"`);
+        await queryRunner.query(`DROP TABLE IF EXISTS "oauth_clients"`);
+    }
+}
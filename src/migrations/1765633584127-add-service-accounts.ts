@@ -0,0 +1,41 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddServiceAccounts1765633584127 implements MigrationInterface {
+    name = 'AddServiceAccounts1765633584127'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            CREATE TABLE "service_accounts" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "client_id" character varying NOT NULL,
+                "client_secret_hash" character varying NOT NULL,
+                "name" character varying NOT NULL,
+                "description" text,
+                "organization_id" uuid,
+                "disabled_at" TIMESTAMP,
+                "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+                "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "PK_service_accounts" PRIMARY KEY ("id"),
+                CONSTRAINT "UQ_service_accounts_client_id" UNIQUE ("client_id")
+            )
+        `);
+
+        await queryRunner.query(`
+            CREATE TABLE "service_account_roles" (
+                "service_account_id" uuid NOT NULL,
+                "role_id" uuid NOT NULL,
+                CONSTRAINT "PK_service_account_roles" PRIMARY KEY ("service_account_id", "role_id"),
+                CONSTRAINT "FK_service_account_roles_service_account_id" FOREIGN KEY ("service_account_id") REFERENCES "service_accounts"("id") ON DELETE CASCADE,
+                CONSTRAINT "FK_service_account_roles_role_id" FOREIGN KEY ("role_id") REFERENCES "roles"("id") ON DELETE CASCADE
+            )
+        `);
+
+        await queryRunner.query(`CREATE INDEX "IDX_service_account_roles_role_id" ON "service_account_roles" ("role_id")`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX IF EXISTS "IDX_service_account_roles_role_id"`);
+        await queryRunner.query(`DROP TABLE IF EXISTS "service_account_roles"`);
+        await queryRunner.query(`DROP TABLE IF EXISTS "service_accounts"`);
+    }
+}
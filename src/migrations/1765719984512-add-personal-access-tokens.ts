@@ -0,0 +1,31 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddPersonalAccessTokens1765719984512 implements MigrationInterface {
+    name = 'AddPersonalAccessTokens1765719984512'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            CREATE TABLE "personal_access_tokens" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "user_id" uuid NOT NULL,
+                "name" character varying NOT NULL,
+                "token_hash" character varying NOT NULL,
+                "token_prefix" character varying NOT NULL,
+                "permissions" text array NOT NULL,
+                "expires_at" TIMESTAMP NOT NULL,
+                "last_used_at" TIMESTAMP,
+                "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "PK_personal_access_tokens" PRIMARY KEY ("id"),
+                CONSTRAINT "UQ_personal_access_tokens_token_hash" UNIQUE ("token_hash"),
+                CONSTRAINT "FK_personal_access_tokens_user_id" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+            )
+        `);
+
+        await queryRunner.query(`CREATE INDEX "IDX_personal_access_tokens_user_id" ON "personal_access_tokens" ("user_id")`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX IF EXISTS "IDX_personal_access_tokens_user_id"`);
+        await queryRunner.query(`DROP TABLE IF EXISTS "personal_access_tokens"`);
+    }
+}
@@ -0,0 +1,49 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddOrganizations1765806384731 implements MigrationInterface {
+    name = 'AddOrganizations1765806384731'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            CREATE TABLE "organizations" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "name" character varying NOT NULL,
+                "slug" character varying NOT NULL,
+                "settings" jsonb NOT NULL DEFAULT '{}',
+                "owner_id" uuid,
+                "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+                "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "PK_organizations" PRIMARY KEY ("id"),
+                CONSTRAINT "UQ_organizations_slug" UNIQUE ("slug"),
+                CONSTRAINT "FK_organizations_owner_id" FOREIGN KEY ("owner_id") REFERENCES "users"("id") ON DELETE SET NULL
+            )
+        `);
+
+        // Organization IDs set by hand before this table existed keep their tenant, under a placeholder name
+        await queryRunner.query(`
+            INSERT INTO "organizations" ("id", "name", "slug")
+            SELECT "organization_id", 'Organization ' || "organization_id", 'org-' || "organization_id"
+            FROM (
+                SELECT "organization_id" FROM "users"
+                UNION
+                SELECT "organization_id" FROM "service_accounts"
+            ) AS "existing"
+            WHERE "organization_id" IS NOT NULL
+        `);
+
+        await queryRunner.query(`
+            ALTER TABLE "users"
+            ADD CONSTRAINT "FK_users_organization_id" FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE SET NULL
+        `);
+        await queryRunner.query(`
+            ALTER TABLE "service_accounts"
+            ADD CONSTRAINT "FK_service_accounts_organization_id" FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE SET NULL
+        `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "service_accounts" DROP CONSTRAINT IF EXISTS "FK_service_accounts_organization_id"`);
+        await queryRunner.query(`ALTER TABLE "users" DROP CONSTRAINT IF EXISTS "FK_users_organization_id"`);
+        await queryRunner.query(`DROP TABLE IF EXISTS "organizations"`);
+    }
+}
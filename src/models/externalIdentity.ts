@@ -0,0 +1,38 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn, Unique } from 'typeorm';
+import { User } from './user';
+
+/**
+ * A sign-in identity at an external identity provider (Google or a generic
+ * OpenID Connect issuer), identified by the provider's stable `sub` claim.
+ */
+@Entity('external_identities')
+@Unique('UQ_external_identities_provider_subject', ['provider', 'subject'])
+@Unique('UQ_external_identities_user_id_provider', ['userId', 'provider'])
+export class ExternalIdentity {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'user_id', type: 'uuid' })
+  userId!: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user!: User;
+
+  @Column({ type: 'varchar' })
+  provider!: string;
+
+  @Column({ type: 'varchar' })
+  subject!: string;
+
+  @Column({ nullable: true, type: 'varchar' })
+  email!: string | null;
+
+  @Column({ name: 'last_used_at', nullable: true, type: 'timestamp' })
+  lastUsedAt!: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+}
+
+export default ExternalIdentity;
@@ -0,0 +1,30 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from 'typeorm';
+
+export type LoginAttemptScope = 'account' | 'ip';
+
+@Entity('login_attempts')
+@Index(['scope', 'key'], { unique: true })
+export class LoginAttempt {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'varchar' })
+  scope!: LoginAttemptScope;
+
+  @Column({ type: 'varchar' })
+  key!: string;
+
+  @Column({ name: 'failed_count', default: 0, type: 'integer' })
+  failedCount!: number;
+
+  @Column({ name: 'last_failed_at', type: 'timestamp' })
+  lastFailedAt!: Date;
+
+  @Column({ name: 'locked_until', nullable: true, type: 'timestamp' })
+  lockedUntil!: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+}
+
+export default LoginAttempt;
@@ -0,0 +1,32 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn } from 'typeorm';
+import { User } from './user';
+
+@Entity('mfa_challenges')
+export class MfaChallenge {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'user_id', type: 'uuid' })
+  userId!: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user!: User;
+
+  @Column({ name: 'token_hash', unique: true, type: 'varchar' })
+  tokenHash!: string;
+
+  @Column({ name: 'expires_at', type: 'timestamp' })
+  expiresAt!: Date;
+
+  @Column({ default: 0, type: 'integer' })
+  attempts!: number;
+
+  @Column({ name: 'consumed_at', nullable: true, type: 'timestamp' })
+  consumedAt!: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+}
+
+export default MfaChallenge;
@@ -0,0 +1,53 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn } from 'typeorm';
+import { User } from './user';
+import { OAuthClient } from './oauthClient';
+
+@Entity('oauth_authorization_codes')
+export class OAuthAuthorizationCode {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'code_hash', unique: true, type: 'varchar' })
+  codeHash!: string;
+
+  @Column({ name: 'oauth_client_id', type: 'uuid' })
+  oauthClientId!: string;
+
+  @ManyToOne(() => OAuthClient, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'oauth_client_id' })
+  oauthClient!: OAuthClient;
+
+  @Column({ name: 'user_id', type: 'uuid' })
+  userId!: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user!: User;
+
+  @Column({ name: 'redirect_uri', type: 'text' })
+  redirectUri!: string;
+
+  @Column({ type: 'varchar' })
+  scope!: string;
+
+  @Column({ name: 'code_challenge', type: 'varchar' })
+  codeChallenge!: string;
+
+  @Column({ nullable: true, type: 'varchar' })
+  nonce!: string | null;
+
+  // The session created when the code was exchanged, revoked if the code is replayed
+  @Column({ name: 'session_id', nullable: true, type: 'uuid' })
+  sessionId!: string | null;
+
+  @Column({ name: 'expires_at', type: 'timestamp' })
+  expiresAt!: Date;
+
+  @Column({ name: 'consumed_at', nullable: true, type: 'timestamp' })
+  consumedAt!: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+}
+
+export default OAuthAuthorizationCode;
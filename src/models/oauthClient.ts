@@ -0,0 +1,41 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn } from 'typeorm';
+
+/**
+ * An application registered to obtain tokens through the OAuth 2.0 endpoints.
+ * Public clients (SPAs, mobile apps) have no secret and rely on PKCE alone.
+ */
+@Entity('oauth_clients')
+export class OAuthClient {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'client_id', unique: true, type: 'varchar' })
+  clientId!: string;
+
+  @Column({ name: 'client_secret_hash', nullable: true, type: 'varchar' })
+  clientSecretHash!: string | null;
+
+  @Column({ type: 'varchar' })
+  name!: string;
+
+  @Column({ name: 'redirect_uris', type: 'text', array: true })
+  redirectUris!: string[];
+
+  @Column({ name: 'allowed_scopes', type: 'text', array: true })
+  allowedScopes!: string[];
+
+  @Column({ name: 'grant_types', type: 'text', array: true })
+  grantTypes!: string[];
+
+  // First-party clients are trusted and skip the consent step
+  @Column({ name: 'first_party', default: false })
+  firstParty!: boolean;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt!: Date;
+}
+
+export default OAuthClient;
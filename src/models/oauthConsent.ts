@@ -0,0 +1,39 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn, Unique } from 'typeorm';
+import { User } from './user';
+import { OAuthClient } from './oauthClient';
+
+/**
+ * The scopes a user has agreed to grant a third-party client, so consent is
+ * only asked again when the client wants more.
+ */
+@Entity('oauth_consents')
+@Unique('UQ_oauth_consents_user_id_oauth_client_id', ['userId', 'oauthClientId'])
+export class OAuthConsent {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'user_id', type: 'uuid' })
+  userId!: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user!: User;
+
+  @Column({ name: 'oauth_client_id', type: 'uuid' })
+  oauthClientId!: string;
+
+  @ManyToOne(() => OAuthClient, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'oauth_client_id' })
+  oauthClient!: OAuthClient;
+
+  @Column({ type: 'text', array: true })
+  scopes!: string[];
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt!: Date;
+}
+
+export default OAuthConsent;
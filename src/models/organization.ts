@@ -0,0 +1,38 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn } from 'typeorm';
+import { User } from './user';
+
+/**
+ * A tenant. Users and service accounts belong to at most one organization,
+ * whose ID is published as the org_id claim of their tokens.
+ */
+@Entity('organizations')
+export class Organization {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'varchar' })
+  name!: string;
+
+  // URL-safe handle, unique across organizations
+  @Column({ unique: true, type: 'varchar' })
+  slug!: string;
+
+  @Column({ type: 'jsonb', default: {} })
+  settings!: Record<string, unknown>;
+
+  // The user who created the organization; may update or delete it
+  @Column({ name: 'owner_id', nullable: true, type: 'uuid' })
+  ownerId!: string | null;
+
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'owner_id' })
+  owner!: User | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt!: Date;
+}
+
+export default Organization;
@@ -0,0 +1,43 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn } from 'typeorm';
+import { User } from './user';
+
+/**
+ * A long-lived bearer token a user creates for scripts. It acts with the
+ * intersection of its permissions and the user's current ones.
+ */
+@Entity('personal_access_tokens')
+export class PersonalAccessToken {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'user_id', type: 'uuid' })
+  userId!: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user!: User;
+
+  @Column({ type: 'varchar' })
+  name!: string;
+
+  @Column({ name: 'token_hash', unique: true, type: 'varchar' })
+  tokenHash!: string;
+
+  // Leading characters of the token, shown so users can tell their tokens apart
+  @Column({ name: 'token_prefix', type: 'varchar' })
+  tokenPrefix!: string;
+
+  @Column({ type: 'text', array: true })
+  permissions!: string[];
+
+  @Column({ name: 'expires_at', type: 'timestamp' })
+  expiresAt!: Date;
+
+  @Column({ name: 'last_used_at', nullable: true, type: 'timestamp' })
+  lastUsedAt!: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+}
+
+export default PersonalAccessToken;
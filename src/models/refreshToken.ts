@@ -0,0 +1,47 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn } from 'typeorm';
+import { User } from './user';
+import { OAuthClient } from './oauthClient';
+
+@Entity('refresh_tokens')
+export class RefreshToken {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'user_id', type: 'uuid' })
+  userId!: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user!: User;
+
+  @Column({ name: 'token_hash', unique: true, type: 'varchar' })
+  tokenHash!: string;
+
+  @Column({ name: 'family_id', type: 'uuid' })
+  familyId!: string;
+
+  @Column({ name: 'expires_at', type: 'timestamp' })
+  expiresAt!: Date;
+
+  @Column({ name: 'revoked_at', nullable: true, type: 'timestamp' })
+  revokedAt!: Date | null;
+
+  @Column({ name: 'replaced_by_id', nullable: true, type: 'uuid' })
+  replacedById!: string | null;
+
+  // Set for tokens issued through the OAuth token endpoint; only that client may redeem them
+  @Column({ name: 'oauth_client_id', nullable: true, type: 'uuid' })
+  oauthClientId!: string | null;
+
+  @ManyToOne(() => OAuthClient, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'oauth_client_id' })
+  oauthClient!: OAuthClient | null;
+
+  @Column({ nullable: true, type: 'varchar' })
+  scope!: string | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+}
+
+export default RefreshToken;
@@ -0,0 +1,24 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from 'typeorm';
+
+export type RevokedTokenType = 'jti' | 'sid';
+
+@Entity('revoked_tokens')
+@Index(['type', 'value'], { unique: true })
+export class RevokedToken {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'varchar' })
+  type!: RevokedTokenType;
+
+  @Column({ type: 'varchar' })
+  value!: string;
+
+  @Column({ name: 'expires_at', type: 'timestamp' })
+  expiresAt!: Date;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+}
+
+export default RevokedToken;
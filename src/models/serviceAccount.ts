@@ -0,0 +1,52 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToMany, ManyToOne, JoinTable, JoinColumn } from 'typeorm';
+import { Role } from './role';
+import { Organization } from './organization';
+
+/**
+ * A non-human principal (pipeline runner, file service) that obtains tokens
+ * with the client_credentials grant. Its permissions come from its roles,
+ * exactly like a user's.
+ */
+@Entity('service_accounts')
+export class ServiceAccount {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'client_id', unique: true, type: 'varchar' })
+  clientId!: string;
+
+  @Column({ name: 'client_secret_hash', type: 'varchar' })
+  clientSecretHash!: string;
+
+  @Column({ type: 'varchar' })
+  name!: string;
+
+  @Column({ nullable: true, type: 'text' })
+  description!: string | null;
+
+  @Column({ name: 'organization_id', nullable: true, type: 'uuid' })
+  organizationId!: string | null;
+
+  @ManyToOne(() => Organization, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'organization_id' })
+  organization?: Organization | null;
+
+  @Column({ name: 'disabled_at', nullable: true, type: 'timestamp' })
+  disabledAt!: Date | null;
+
+  @ManyToMany(() => Role)
+  @JoinTable({
+    name: 'service_account_roles',
+    joinColumn: { name: 'service_account_id', referencedColumnName: 'id' },
+    inverseJoinColumn: { name: 'role_id', referencedColumnName: 'id' },
+  })
+  roles!: Role[];
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt!: Date;
+}
+
+export default ServiceAccount;
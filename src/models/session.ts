@@ -0,0 +1,38 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn } from 'typeorm';
+import { User } from './user';
+
+@Entity('sessions')
+export class Session {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'user_id', type: 'uuid' })
+  userId!: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user!: User;
+
+  @Column({ name: 'user_agent', nullable: true, type: 'text' })
+  userAgent!: string | null;
+
+  @Column({ name: 'device_name', nullable: true, type: 'varchar' })
+  deviceName!: string | null;
+
+  @Column({ name: 'ip_address', nullable: true, type: 'varchar' })
+  ipAddress!: string | null;
+
+  @Column({ name: 'last_used_at', type: 'timestamp' })
+  lastUsedAt!: Date;
+
+  @Column({ name: 'expires_at', type: 'timestamp' })
+  expiresAt!: Date;
+
+  @Column({ name: 'revoked_at', nullable: true, type: 'timestamp' })
+  revokedAt!: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+}
+
+export default Session;
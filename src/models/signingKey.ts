@@ -0,0 +1,40 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn } from 'typeorm';
+
+/**
+ * active: signs new tokens and verifies them (exactly one key)
+ * verification: published and accepted, but never used for signing
+ * retired: neither published nor accepted
+ */
+export type SigningKeyStatus = 'active' | 'verification' | 'retired';
+
+@Entity('signing_keys')
+export class SigningKey {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ unique: true, type: 'varchar' })
+  kid!: string;
+
+  @Column({ type: 'varchar', default: 'RS256' })
+  algorithm!: string;
+
+  @Column({ type: 'varchar' })
+  status!: SigningKeyStatus;
+
+  @Column({ name: 'public_key', type: 'text' })
+  publicKey!: string;
+
+  @Column({ name: 'private_key', type: 'text' })
+  privateKey!: string;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+
+  @Column({ name: 'activated_at', nullable: true, type: 'timestamp' })
+  activatedAt!: Date | null;
+
+  @Column({ name: 'retired_at', nullable: true, type: 'timestamp' })
+  retiredAt!: Date | null;
+}
+
+export default SigningKey;
@@ -1,5 +1,6 @@
-import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToMany, JoinTable } from 'typeorm';
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToMany, ManyToOne, JoinTable, JoinColumn } from 'typeorm';
 import { Role } from './role';
+import { Organization } from './organization';
 
 @Entity('users')
 export class User {
@@ -30,20 +31,49 @@ export class User {
   @Column({ name: 'password_reset_token_expires_at', nullable: true, type: 'timestamp' })
   passwordResetTokenExpiresAt!: Date | null;
 
+  @Column({ name: 'magic_link_token', nullable: true, type: 'varchar' })
+  magicLinkToken!: string | null;
+
+  @Column({ name: 'magic_link_token_expires_at', nullable: true, type: 'timestamp' })
+  magicLinkTokenExpiresAt!: Date | null;
+
+  @Column({ name: 'password_set_token', nullable: true, type: 'varchar' })
+  passwordSetToken!: string | null;
+
+  @Column({ name: 'password_set_token_expires_at', nullable: true, type: 'timestamp' })
+  passwordSetTokenExpiresAt!: Date | null;
+
   @Column({ name: 'organization_id', nullable: true, type: 'uuid' })
   organizationId!: string | null;
 
+  @ManyToOne(() => Organization, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'organization_id' })
+  organization?: Organization | null;
+
   @Column({ name: 'avatar_url', nullable: true, type: 'varchar' })
   avatarUrl!: string | null;
 
   @Column({ name: 'avatar_file_id', nullable: true, type: 'varchar' })
   avatarFileId!: string | null;
 
-  @Column({ name: 'google_id', nullable: true, unique: true, type: 'varchar' })
-  googleId!: string | null;
-
+  // 'local' for password accounts, otherwise the provider the account was created with
   @Column({ name: 'auth_provider', nullable: true, default: 'local', type: 'varchar' })
-  authProvider!: 'local' | 'google';
+  authProvider!: string;
+
+  @Column({ name: 'tokens_valid_after', nullable: true, type: 'timestamp' })
+  tokensValidAfter!: Date | null;
+
+  @Column({ name: 'disabled_at', nullable: true, type: 'timestamp' })
+  disabledAt!: Date | null;
+
+  @Column({ name: 'totp_secret', nullable: true, type: 'varchar' })
+  totpSecret!: string | null;
+
+  @Column({ name: 'totp_enabled_at', nullable: true, type: 'timestamp' })
+  totpEnabledAt!: Date | null;
+
+  @Column({ name: 'totp_last_used_step', nullable: true, type: 'integer' })
+  totpLastUsedStep!: number | null;
 
   @ManyToMany(() => Role, role => role.users)
   @JoinTable({
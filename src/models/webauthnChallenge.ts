@@ -0,0 +1,34 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn } from 'typeorm';
+import { User } from './user';
+
+export type WebAuthnCeremony = 'registration' | 'authentication';
+
+@Entity('webauthn_challenges')
+export class WebAuthnChallenge {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'user_id', nullable: true, type: 'uuid' })
+  userId!: string | null;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE', nullable: true })
+  @JoinColumn({ name: 'user_id' })
+  user!: User | null;
+
+  @Column({ unique: true, type: 'varchar' })
+  challenge!: string;
+
+  @Column({ type: 'varchar' })
+  ceremony!: WebAuthnCeremony;
+
+  @Column({ name: 'expires_at', type: 'timestamp' })
+  expiresAt!: Date;
+
+  @Column({ name: 'consumed_at', nullable: true, type: 'timestamp' })
+  consumedAt!: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+}
+
+export default WebAuthnChallenge;
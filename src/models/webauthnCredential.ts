@@ -0,0 +1,52 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn } from 'typeorm';
+import { User } from './user';
+
+@Entity('webauthn_credentials')
+export class WebAuthnCredential {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'user_id', type: 'uuid' })
+  userId!: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user!: User;
+
+  @Column({ name: 'credential_id', unique: true, type: 'varchar' })
+  credentialId!: string;
+
+  @Column({ name: 'public_key', type: 'text' })
+  publicKey!: string;
+
+  @Column({ type: 'integer' })
+  algorithm!: number;
+
+  @Column({
+    name: 'sign_count',
+    type: 'bigint',
+    default: 0,
+    transformer: { to: (value: number) => value, from: (value: string | number) => Number(value) },
+  })
+  signCount!: number;
+
+  @Column({ nullable: true, type: 'varchar' })
+  name!: string | null;
+
+  @Column({ nullable: true, type: 'varchar' })
+  aaguid!: string | null;
+
+  @Column({ name: 'attestation_format', type: 'varchar' })
+  attestationFormat!: string;
+
+  @Column({ nullable: true, type: 'text', array: true })
+  transports!: string[] | null;
+
+  @Column({ name: 'last_used_at', nullable: true, type: 'timestamp' })
+  lastUsedAt!: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+}
+
+export default WebAuthnCredential;
@@ -0,0 +1,56 @@
+import { injectable } from 'inversify';
+import { IRateLimitStore, RateLimitResult } from './rateLimitStore';
+import config from '../config/config';
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Token buckets kept in process memory. Suitable for a single instance; use a
+ * shared store when the service is scaled horizontally.
+ */
+@injectable()
+export class MemoryRateLimitStore implements IRateLimitStore {
+  private buckets = new Map<string, Bucket>();
+  private readonly maxEntries = config.rateLimit.maxEntries;
+
+  async consume(key: string, capacity: number, refillPerSecond: number): Promise<RateLimitResult> {
+    const now = Date.now();
+    const existing = this.buckets.get(key);
+
+    let tokens = capacity;
+    if (existing) {
+      tokens = Math.min(capacity, existing.tokens + ((now - existing.updatedAt) / 1000) * refillPerSecond);
+    }
+
+    const allowed = tokens >= 1;
+    if (allowed) {
+      tokens -= 1;
+    }
+
+    this.save(key, { tokens, updatedAt: now });
+
+    return {
+      allowed,
+      remaining: Math.floor(tokens),
+      retryAfterSeconds: allowed ? 0 : Math.ceil((1 - tokens) / refillPerSecond),
+      resetSeconds: Math.ceil((capacity - tokens) / refillPerSecond),
+    };
+  }
+
+  private save(key: string, bucket: Bucket): void {
+    // Re-insert so the map stays ordered by last use and the oldest bucket is evicted first
+    this.buckets.delete(key);
+
+    if (this.buckets.size >= this.maxEntries) {
+      const oldestKey = this.buckets.keys().next().value;
+      if (oldestKey !== undefined) {
+        this.buckets.delete(oldestKey);
+      }
+    }
+
+    this.buckets.set(key, bucket);
+  }
+}
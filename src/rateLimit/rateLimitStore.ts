@@ -0,0 +1,27 @@
+export type RateLimitKeyType = 'ip' | 'email' | 'userId';
+
+export interface RateLimitPolicy {
+  /** Bucket size, i.e. the number of requests allowed in a burst */
+  capacity: number;
+  /** Time it takes an empty bucket to refill completely, e.g. "15m" */
+  interval: string;
+  /** Which request attribute identifies the caller */
+  keyBy: RateLimitKeyType;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  /** Seconds until the next request would be allowed (0 when allowed) */
+  retryAfterSeconds: number;
+  /** Seconds until the bucket is full again */
+  resetSeconds: number;
+}
+
+export interface IRateLimitStore {
+  /**
+   * Takes one token from the bucket identified by `key`, refilling it at
+   * `refillPerSecond` tokens per second up to `capacity`.
+   */
+  consume(key: string, capacity: number, refillPerSecond: number): Promise<RateLimitResult>;
+}
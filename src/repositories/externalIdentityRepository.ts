@@ -0,0 +1,52 @@
+import { injectable, inject } from 'inversify';
+import { Repository, DataSource } from 'typeorm';
+import { ExternalIdentity } from '../models/externalIdentity';
+import { TYPES } from '../types/di.types';
+
+export interface CreateExternalIdentityData {
+  userId: string;
+  provider: string;
+  subject: string;
+  email: string | null;
+}
+
+export interface IExternalIdentityRepository {
+  createExternalIdentity(data: CreateExternalIdentityData): Promise<ExternalIdentity>;
+  findExternalIdentity(provider: string, subject: string): Promise<ExternalIdentity | null>;
+  findExternalIdentitiesByUserId(userId: string): Promise<ExternalIdentity[]>;
+  touchExternalIdentity(id: string): Promise<void>;
+  deleteExternalIdentity(userId: string, provider: string): Promise<boolean>;
+}
+
+@injectable()
+export class ExternalIdentityRepository implements IExternalIdentityRepository {
+  private repository: Repository<ExternalIdentity>;
+
+  constructor(
+    @inject(TYPES.DataSource) dataSource: DataSource,
+  ) {
+    this.repository = dataSource.getRepository(ExternalIdentity);
+  }
+
+  async createExternalIdentity(data: CreateExternalIdentityData): Promise<ExternalIdentity> {
+    const identity = this.repository.create({ ...data, lastUsedAt: new Date() });
+    return await this.repository.save(identity);
+  }
+
+  async findExternalIdentity(provider: string, subject: string): Promise<ExternalIdentity | null> {
+    return await this.repository.findOne({ where: { provider, subject } });
+  }
+
+  async findExternalIdentitiesByUserId(userId: string): Promise<ExternalIdentity[]> {
+    return await this.repository.find({ where: { userId }, order: { createdAt: 'ASC' } });
+  }
+
+  async touchExternalIdentity(id: string): Promise<void> {
+    await this.repository.update({ id }, { lastUsedAt: new Date() });
+  }
+
+  async deleteExternalIdentity(userId: string, provider: string): Promise<boolean> {
+    const result = await this.repository.delete({ userId, provider });
+    return (result.affected ?? 0) > 0;
+  }
+}
@@ -0,0 +1,72 @@
+import { injectable, inject } from 'inversify';
+import { Repository, DataSource, LessThan, IsNull } from 'typeorm';
+import { LoginAttempt, LoginAttemptScope } from '../models/loginAttempt';
+import { TYPES } from '../types/di.types';
+
+export interface ILoginAttemptRepository {
+  findLoginAttempt(scope: LoginAttemptScope, key: string): Promise<LoginAttempt | null>;
+  incrementFailedCount(scope: LoginAttemptScope, key: string, resetBefore: Date): Promise<number>;
+  setLockedUntil(scope: LoginAttemptScope, key: string, lockedUntil: Date): Promise<void>;
+  clearLoginAttempts(scope: LoginAttemptScope, key: string): Promise<boolean>;
+  deleteStaleLoginAttempts(before: Date): Promise<number>;
+}
+
+@injectable()
+export class LoginAttemptRepository implements ILoginAttemptRepository {
+  private repository: Repository<LoginAttempt>;
+
+  constructor(
+    @inject(TYPES.DataSource) dataSource: DataSource,
+  ) {
+    this.repository = dataSource.getRepository(LoginAttempt);
+  }
+
+  async findLoginAttempt(scope: LoginAttemptScope, key: string): Promise<LoginAttempt | null> {
+    return await this.repository.findOne({ where: { scope, key } });
+  }
+
+  async incrementFailedCount(scope: LoginAttemptScope, key: string, resetBefore: Date): Promise<number> {
+    // Single statement so concurrent failures cannot overwrite each other's count;
+    // a counter whose last failure predates the window starts over
+    const rows: Array<{ failed_count: number }> = await this.repository.query(
+      `INSERT INTO "login_attempts" ("scope", "key", "failed_count", "last_failed_at")
+       VALUES ($1, $2, 1, now())
+       ON CONFLICT ("scope", "key") DO UPDATE SET
+         "failed_count" = CASE
+           WHEN "login_attempts"."last_failed_at" < $3 THEN 1
+           ELSE "login_attempts"."failed_count" + 1
+         END,
+         "last_failed_at" = now()
+       RETURNING "failed_count"`,
+      [scope, key, resetBefore],
+    );
+    return Number(rows[0].failed_count);
+  }
+
+  async setLockedUntil(scope: LoginAttemptScope, key: string, lockedUntil: Date): Promise<void> {
+    await this.repository.update({ scope, key }, { lockedUntil });
+  }
+
+  async clearLoginAttempts(scope: LoginAttemptScope, key: string): Promise<boolean> {
+    const result = await this.repository.delete({ scope, key });
+    return (result.affected ?? 0) > 0;
+  }
+
+  async deleteStaleLoginAttempts(before: Date): Promise<number> {
+    const now = new Date();
+    const stale = await this.repository.find({
+      select: { id: true },
+      where: [
+        { lastFailedAt: LessThan(before), lockedUntil: IsNull() },
+        { lastFailedAt: LessThan(before), lockedUntil: LessThan(now) },
+      ],
+    });
+
+    if (stale.length === 0) {
+      return 0;
+    }
+
+    const result = await this.repository.delete(stale.map(attempt => attempt.id));
+    return result.affected ?? 0;
+  }
+}
@@ -0,0 +1,79 @@
+import { injectable, inject } from 'inversify';
+import { Repository, DataSource, IsNull } from 'typeorm';
+import { MfaRecoveryCode } from '../models/mfaRecoveryCode';
+import { MfaChallenge } from '../models/mfaChallenge';
+import { CreateMfaChallengeDto } from '../dto/mfa.dto';
+import { TYPES } from '../types/di.types';
+
+export interface IMfaRepository {
+  replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void>;
+  consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean>;
+  countUnusedRecoveryCodes(userId: string): Promise<number>;
+  deleteRecoveryCodes(userId: string): Promise<void>;
+  createChallenge(data: CreateMfaChallengeDto): Promise<MfaChallenge>;
+  findChallengeByHash(tokenHash: string): Promise<MfaChallenge | null>;
+  incrementChallengeAttempts(id: string): Promise<void>;
+  consumeChallenge(id: string): Promise<boolean>;
+  deleteChallengesForUser(userId: string): Promise<void>;
+}
+
+@injectable()
+export class MfaRepository implements IMfaRepository {
+  private recoveryCodeRepository: Repository<MfaRecoveryCode>;
+  private challengeRepository: Repository<MfaChallenge>;
+
+  constructor(
+    @inject(TYPES.DataSource) dataSource: DataSource,
+  ) {
+    this.recoveryCodeRepository = dataSource.getRepository(MfaRecoveryCode);
+    this.challengeRepository = dataSource.getRepository(MfaChallenge);
+  }
+
+  async replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void> {
+    await this.recoveryCodeRepository.manager.transaction(async (manager) => {
+      await manager.delete(MfaRecoveryCode, { userId });
+      await manager.insert(MfaRecoveryCode, codeHashes.map(codeHash => ({ userId, codeHash })));
+    });
+  }
+
+  async consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const result = await this.recoveryCodeRepository.update(
+      { userId, codeHash, usedAt: IsNull() },
+      { usedAt: new Date() },
+    );
+    return (result.affected ?? 0) > 0;
+  }
+
+  async countUnusedRecoveryCodes(userId: string): Promise<number> {
+    return await this.recoveryCodeRepository.count({ where: { userId, usedAt: IsNull() } });
+  }
+
+  async deleteRecoveryCodes(userId: string): Promise<void> {
+    await this.recoveryCodeRepository.delete({ userId });
+  }
+
+  async createChallenge(data: CreateMfaChallengeDto): Promise<MfaChallenge> {
+    const challenge = this.challengeRepository.create(data);
+    return await this.challengeRepository.save(challenge);
+  }
+
+  async findChallengeByHash(tokenHash: string): Promise<MfaChallenge | null> {
+    return await this.challengeRepository.findOne({ where: { tokenHash } });
+  }
+
+  async incrementChallengeAttempts(id: string): Promise<void> {
+    await this.challengeRepository.increment({ id }, 'attempts', 1);
+  }
+
+  async consumeChallenge(id: string): Promise<boolean> {
+    const result = await this.challengeRepository.update(
+      { id, consumedAt: IsNull() },
+      { consumedAt: new Date() },
+    );
+    return (result.affected ?? 0) > 0;
+  }
+
+  async deleteChallengesForUser(userId: string): Promise<void> {
+    await this.challengeRepository.delete({ userId });
+  }
+}
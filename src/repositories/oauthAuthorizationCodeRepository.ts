@@ -0,0 +1,50 @@
+import { injectable, inject } from 'inversify';
+import { Repository, DataSource, IsNull } from 'typeorm';
+import { OAuthAuthorizationCode } from '../models/oauthAuthorizationCode';
+import { TYPES } from '../types/di.types';
+
+export interface CreateOAuthAuthorizationCodeData {
+  codeHash: string;
+  oauthClientId: string;
+  userId: string;
+  redirectUri: string;
+  scope: string;
+  codeChallenge: string;
+  nonce: string | null;
+  expiresAt: Date;
+}
+
+export interface IOAuthAuthorizationCodeRepository {
+  createAuthorizationCode(data: CreateOAuthAuthorizationCodeData): Promise<OAuthAuthorizationCode>;
+  findAuthorizationCodeByHash(codeHash: string): Promise<OAuthAuthorizationCode | null>;
+  consumeAuthorizationCode(id: string, sessionId: string): Promise<boolean>;
+}
+
+@injectable()
+export class OAuthAuthorizationCodeRepository implements IOAuthAuthorizationCodeRepository {
+  private repository: Repository<OAuthAuthorizationCode>;
+
+  constructor(
+    @inject(TYPES.DataSource) dataSource: DataSource,
+  ) {
+    this.repository = dataSource.getRepository(OAuthAuthorizationCode);
+  }
+
+  async createAuthorizationCode(data: CreateOAuthAuthorizationCodeData): Promise<OAuthAuthorizationCode> {
+    const code = this.repository.create(data);
+    return await this.repository.save(code);
+  }
+
+  async findAuthorizationCodeByHash(codeHash: string): Promise<OAuthAuthorizationCode | null> {
+    return await this.repository.findOne({ where: { codeHash } });
+  }
+
+  async consumeAuthorizationCode(id: string, sessionId: string): Promise<boolean> {
+    // Only the first of two concurrent exchanges of the same code succeeds
+    const result = await this.repository.update(
+      { id, consumedAt: IsNull() },
+      { consumedAt: new Date(), sessionId },
+    );
+    return (result.affected ?? 0) > 0;
+  }
+}
@@ -0,0 +1,55 @@
+import { injectable, inject } from 'inversify';
+import { Repository, DataSource } from 'typeorm';
+import { OAuthClient } from '../models/oauthClient';
+import { TYPES } from '../types/di.types';
+
+export interface CreateOAuthClientData {
+  clientId: string;
+  clientSecretHash: string | null;
+  name: string;
+  redirectUris: string[];
+  allowedScopes: string[];
+  grantTypes: string[];
+  firstParty: boolean;
+}
+
+export interface IOAuthClientRepository {
+  createOAuthClient(data: CreateOAuthClientData): Promise<OAuthClient>;
+  findOAuthClients(): Promise<OAuthClient[]>;
+  findOAuthClientByClientId(clientId: string): Promise<OAuthClient | null>;
+  findOAuthClientById(id: string): Promise<OAuthClient | null>;
+  deleteOAuthClient(clientId: string): Promise<boolean>;
+}
+
+@injectable()
+export class OAuthClientRepository implements IOAuthClientRepository {
+  private repository: Repository<OAuthClient>;
+
+  constructor(
+    @inject(TYPES.DataSource) dataSource: DataSource,
+  ) {
+    this.repository = dataSource.getRepository(OAuthClient);
+  }
+
+  async createOAuthClient(data: CreateOAuthClientData): Promise<OAuthClient> {
+    const client = this.repository.create(data);
+    return await this.repository.save(client);
+  }
+
+  async findOAuthClients(): Promise<OAuthClient[]> {
+    return await this.repository.find({ order: { createdAt: 'ASC' } });
+  }
+
+  async findOAuthClientByClientId(clientId: string): Promise<OAuthClient | null> {
+    return await this.repository.findOne({ where: { clientId } });
+  }
+
+  async findOAuthClientById(id: string): Promise<OAuthClient | null> {
+    return await this.repository.findOne({ where: { id } });
+  }
+
+  async deleteOAuthClient(clientId: string): Promise<boolean> {
+    const result = await this.repository.delete({ clientId });
+    return (result.affected ?? 0) > 0;
+  }
+}
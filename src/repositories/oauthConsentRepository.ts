@@ -0,0 +1,28 @@
+import { injectable, inject } from 'inversify';
+import { Repository, DataSource } from 'typeorm';
+import { OAuthConsent } from '../models/oauthConsent';
+import { TYPES } from '../types/di.types';
+
+export interface IOAuthConsentRepository {
+  findConsent(userId: string, oauthClientId: string): Promise<OAuthConsent | null>;
+  saveConsent(userId: string, oauthClientId: string, scopes: string[]): Promise<void>;
+}
+
+@injectable()
+export class OAuthConsentRepository implements IOAuthConsentRepository {
+  private repository: Repository<OAuthConsent>;
+
+  constructor(
+    @inject(TYPES.DataSource) dataSource: DataSource,
+  ) {
+    this.repository = dataSource.getRepository(OAuthConsent);
+  }
+
+  async findConsent(userId: string, oauthClientId: string): Promise<OAuthConsent | null> {
+    return await this.repository.findOne({ where: { userId, oauthClientId } });
+  }
+
+  async saveConsent(userId: string, oauthClientId: string, scopes: string[]): Promise<void> {
+    await this.repository.upsert({ userId, oauthClientId, scopes }, ['userId', 'oauthClientId']);
+  }
+}
@@ -0,0 +1,84 @@
+import { injectable, inject } from 'inversify';
+import { Repository, DataSource, IsNull } from 'typeorm';
+import { Organization } from '../models/organization';
+import { ServiceAccount } from '../models/serviceAccount';
+import { User } from '../models/user';
+import { TYPES } from '../types/di.types';
+
+export interface CreateOrganizationData {
+  name: string;
+  slug: string;
+  settings: Record<string, unknown>;
+  ownerId: string | null;
+}
+
+export interface IOrganizationRepository {
+  createOrganization(data: CreateOrganizationData): Promise<Organization>;
+  findOrganizations(): Promise<Organization[]>;
+  findOrganizationById(id: string): Promise<Organization | null>;
+  findOrganizationBySlug(slug: string): Promise<Organization | null>;
+  updateOrganization(id: string, updates: Partial<Pick<Organization, 'name' | 'slug' | 'settings'>>): Promise<Organization | null>;
+  /**
+   * Deletes the organization after disabling its members and service accounts.
+   * Returns the IDs of the former members, or null when the organization does not exist.
+   */
+  deleteOrganization(id: string): Promise<string[] | null>;
+}
+
+@injectable()
+export class OrganizationRepository implements IOrganizationRepository {
+  private repository: Repository<Organization>;
+
+  constructor(
+    @inject(TYPES.DataSource) dataSource: DataSource,
+  ) {
+    this.repository = dataSource.getRepository(Organization);
+  }
+
+  async createOrganization(data: CreateOrganizationData): Promise<Organization> {
+    const organization = this.repository.create(data);
+    return await this.repository.save(organization);
+  }
+
+  async findOrganizations(): Promise<Organization[]> {
+    return await this.repository.find({ order: { createdAt: 'ASC' } });
+  }
+
+  async findOrganizationById(id: string): Promise<Organization | null> {
+    return await this.repository.findOne({ where: { id } });
+  }
+
+  async findOrganizationBySlug(slug: string): Promise<Organization | null> {
+    return await this.repository.findOne({ where: { slug } });
+  }
+
+  async updateOrganization(
+    id: string,
+    updates: Partial<Pick<Organization, 'name' | 'slug' | 'settings'>>,
+  ): Promise<Organization | null> {
+    const organization = await this.repository.findOne({ where: { id } });
+    if (!organization) return null;
+
+    Object.assign(organization, updates);
+    return await this.repository.save(organization);
+  }
+
+  async deleteOrganization(id: string): Promise<string[] | null> {
+    return await this.repository.manager.transaction(async (manager) => {
+      const organization = await manager.findOne(Organization, { where: { id }, lock: { mode: 'pessimistic_write' } });
+      if (!organization) {
+        return null;
+      }
+
+      // The ON DELETE SET NULL foreign keys leave members and service accounts without an
+      // organization, which reads as unscoped, so they are disabled before being detached
+      const members = await manager.find(User, { where: { organizationId: id }, select: { id: true } });
+      const disabledAt = new Date();
+      await manager.update(User, { organizationId: id, disabledAt: IsNull() }, { disabledAt });
+      await manager.update(ServiceAccount, { organizationId: id, disabledAt: IsNull() }, { disabledAt });
+      await manager.delete(Organization, { id });
+
+      return members.map(member => member.id);
+    });
+  }
+}
@@ -0,0 +1,52 @@
+import { injectable, inject } from 'inversify';
+import { Repository, DataSource, In } from 'typeorm';
+import { PasswordHistory } from '../models/passwordHistory';
+import { TYPES } from '../types/di.types';
+
+export interface IPasswordHistoryRepository {
+  addPasswordHash(userId: string, passwordHash: string): Promise<PasswordHistory>;
+  findRecentPasswordHashes(userId: string, limit: number): Promise<string[]>;
+  pruneHistory(userId: string, keep: number): Promise<number>;
+}
+
+@injectable()
+export class PasswordHistoryRepository implements IPasswordHistoryRepository {
+  private repository: Repository<PasswordHistory>;
+
+  constructor(
+    @inject(TYPES.DataSource) dataSource: DataSource,
+  ) {
+    this.repository = dataSource.getRepository(PasswordHistory);
+  }
+
+  async addPasswordHash(userId: string, passwordHash: string): Promise<PasswordHistory> {
+    const entry = this.repository.create({ userId, passwordHash });
+    return await this.repository.save(entry);
+  }
+
+  async findRecentPasswordHashes(userId: string, limit: number): Promise<string[]> {
+    const entries = await this.repository.find({
+      select: { passwordHash: true },
+      where: { userId },
+      order: { createdAt: 'DESC' },
+      take: limit,
+    });
+    return entries.map(entry => entry.passwordHash);
+  }
+
+  async pruneHistory(userId: string, keep: number): Promise<number> {
+    const stale = await this.repository.find({
+      select: { id: true },
+      where: { userId },
+      order: { createdAt: 'DESC' },
+      skip: keep,
+    });
+
+    if (stale.length === 0) {
+      return 0;
+    }
+
+    const result = await this.repository.delete({ id: In(stale.map(entry => entry.id)) });
+    return result.affected ?? 0;
+  }
+}
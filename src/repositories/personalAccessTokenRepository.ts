@@ -0,0 +1,59 @@
+import { injectable, inject } from 'inversify';
+import { Repository, DataSource } from 'typeorm';
+import { PersonalAccessToken } from '../models/personalAccessToken';
+import { TYPES } from '../types/di.types';
+
+export interface CreatePersonalAccessTokenData {
+  userId: string;
+  name: string;
+  tokenHash: string;
+  tokenPrefix: string;
+  permissions: string[];
+  expiresAt: Date;
+}
+
+export interface IPersonalAccessTokenRepository {
+  createPersonalAccessToken(data: CreatePersonalAccessTokenData): Promise<PersonalAccessToken>;
+  findPersonalAccessTokensByUserId(userId: string): Promise<PersonalAccessToken[]>;
+  findPersonalAccessTokenByHash(tokenHash: string): Promise<PersonalAccessToken | null>;
+  countPersonalAccessTokens(userId: string): Promise<number>;
+  touchPersonalAccessToken(id: string, lastUsedAt: Date): Promise<void>;
+  deletePersonalAccessToken(userId: string, id: string): Promise<boolean>;
+}
+
+@injectable()
+export class PersonalAccessTokenRepository implements IPersonalAccessTokenRepository {
+  private repository: Repository<PersonalAccessToken>;
+
+  constructor(
+    @inject(TYPES.DataSource) dataSource: DataSource,
+  ) {
+    this.repository = dataSource.getRepository(PersonalAccessToken);
+  }
+
+  async createPersonalAccessToken(data: CreatePersonalAccessTokenData): Promise<PersonalAccessToken> {
+    const token = this.repository.create(data);
+    return await this.repository.save(token);
+  }
+
+  async findPersonalAccessTokensByUserId(userId: string): Promise<PersonalAccessToken[]> {
+    return await this.repository.find({ where: { userId }, order: { createdAt: 'DESC' } });
+  }
+
+  async findPersonalAccessTokenByHash(tokenHash: string): Promise<PersonalAccessToken | null> {
+    return await this.repository.findOne({ where: { tokenHash } });
+  }
+
+  async countPersonalAccessTokens(userId: string): Promise<number> {
+    return await this.repository.count({ where: { userId } });
+  }
+
+  async touchPersonalAccessToken(id: string, lastUsedAt: Date): Promise<void> {
+    await this.repository.update(id, { lastUsedAt });
+  }
+
+  async deletePersonalAccessToken(userId: string, id: string): Promise<boolean> {
+    const result = await this.repository.delete({ id, userId });
+    return (result.affected ?? 0) > 0;
+  }
+}
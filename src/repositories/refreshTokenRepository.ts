@@ -0,0 +1,59 @@
+import { injectable, inject } from 'inversify';
+import { Repository, DataSource, IsNull } from 'typeorm';
+import { RefreshToken } from '../models/refreshToken';
+import { CreateRefreshTokenDto } from '../dto/refreshToken.dto';
+import { TYPES } from '../types/di.types';
+
+export interface IRefreshTokenRepository {
+  createRefreshToken(data: CreateRefreshTokenDto): Promise<RefreshToken>;
+  findRefreshTokenByHash(tokenHash: string): Promise<RefreshToken | null>;
+  markRefreshTokenRotated(id: string, replacedById: string): Promise<boolean>;
+  revokeRefreshTokenFamily(familyId: string): Promise<number>;
+  revokeRefreshTokensForUser(userId: string): Promise<number>;
+}
+
+@injectable()
+export class RefreshTokenRepository implements IRefreshTokenRepository {
+  private repository: Repository<RefreshToken>;
+
+  constructor(
+    @inject(TYPES.DataSource) dataSource: DataSource,
+  ) {
+    this.repository = dataSource.getRepository(RefreshToken);
+  }
+
+  async createRefreshToken(data: CreateRefreshTokenDto): Promise<RefreshToken> {
+    const refreshToken = this.repository.create(data);
+    return await this.repository.save(refreshToken);
+  }
+
+  async findRefreshTokenByHash(tokenHash: string): Promise<RefreshToken | null> {
+    return await this.repository.findOne({ where: { tokenHash } });
+  }
+
+  async markRefreshTokenRotated(id: string, replacedById: string): Promise<boolean> {
+    // Only succeeds for a token that has not been revoked yet, so two concurrent
+    // rotations of the same token cannot both win.
+    const result = await this.repository.update(
+      { id, revokedAt: IsNull() },
+      { revokedAt: new Date(), replacedById },
+    );
+    return (result.affected ?? 0) > 0;
+  }
+
+  async revokeRefreshTokenFamily(familyId: string): Promise<number> {
+    const result = await this.repository.update(
+      { familyId, revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+    return result.affected ?? 0;
+  }
+
+  async revokeRefreshTokensForUser(userId: string): Promise<number> {
+    const result = await this.repository.update(
+      { userId, revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+    return result.affected ?? 0;
+  }
+}
@@ -0,0 +1,50 @@
+import { injectable, inject } from 'inversify';
+import { Repository, DataSource, MoreThan, LessThan } from 'typeorm';
+import { RevokedToken, RevokedTokenType } from '../models/revokedToken';
+import { TYPES } from '../types/di.types';
+
+export interface IRevokedTokenRepository {
+  addRevokedToken(type: RevokedTokenType, value: string, expiresAt: Date): Promise<void>;
+  // Returns false when the value was already revoked
+  addRevokedTokenIfAbsent(type: RevokedTokenType, value: string, expiresAt: Date): Promise<boolean>;
+  isRevoked(type: RevokedTokenType, value: string): Promise<boolean>;
+  deleteExpiredRevokedTokens(): Promise<number>;
+}
+
+@injectable()
+export class RevokedTokenRepository implements IRevokedTokenRepository {
+  private repository: Repository<RevokedToken>;
+
+  constructor(
+    @inject(TYPES.DataSource) dataSource: DataSource,
+  ) {
+    this.repository = dataSource.getRepository(RevokedToken);
+  }
+
+  async addRevokedToken(type: RevokedTokenType, value: string, expiresAt: Date): Promise<void> {
+    await this.repository.upsert({ type, value, expiresAt }, ['type', 'value']);
+  }
+
+  async addRevokedTokenIfAbsent(type: RevokedTokenType, value: string, expiresAt: Date): Promise<boolean> {
+    const result = await this.repository
+      .createQueryBuilder()
+      .insert()
+      .values({ type, value, expiresAt })
+      .orIgnore()
+      .returning('id')
+      .execute();
+
+    return (result.raw as unknown[]).length > 0;
+  }
+
+  async isRevoked(type: RevokedTokenType, value: string): Promise<boolean> {
+    return await this.repository.exists({
+      where: { type, value, expiresAt: MoreThan(new Date()) },
+    });
+  }
+
+  async deleteExpiredRevokedTokens(): Promise<number> {
+    const result = await this.repository.delete({ expiresAt: LessThan(new Date()) });
+    return result.affected ?? 0;
+  }
+}
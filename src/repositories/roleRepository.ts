@@ -15,6 +15,7 @@ export interface IRoleRepository {
   removePermissionFromRole(roleId: string, permissionId: string): Promise<void>;
   getRoleWithPermissions(roleId: string): Promise<Role | null>;
   getRolePermissions(roleId: string): Promise<Permission[]>;
+  getRoleUserIds(roleId: string): Promise<string[]>;
 }
 
 @injectable()
@@ -109,5 +110,12 @@ export class RoleRepository implements IRoleRepository {
     const role = await this.getRoleWithPermissions(roleId);
     return role?.permissions || [];
   }
-}
 
+  async getRoleUserIds(roleId: string): Promise<string[]> {
+    const role = await this.roleRepository.findOne({
+      where: { id: roleId },
+      relations: ['users'],
+    });
+    return role?.users?.map(user => user.id) || [];
+  }
+}
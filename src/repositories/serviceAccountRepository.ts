@@ -0,0 +1,103 @@
+import { injectable, inject } from 'inversify';
+import { Repository, DataSource } from 'typeorm';
+import { ServiceAccount } from '../models/serviceAccount';
+import { Role } from '../models/role';
+import { TYPES } from '../types/di.types';
+
+export interface CreateServiceAccountData {
+  clientId: string;
+  clientSecretHash: string;
+  name: string;
+  description: string | null;
+  organizationId: string | null;
+}
+
+export interface IServiceAccountRepository {
+  createServiceAccount(data: CreateServiceAccountData): Promise<ServiceAccount>;
+  findServiceAccounts(): Promise<ServiceAccount[]>;
+  findServiceAccountById(id: string): Promise<ServiceAccount | null>;
+  findServiceAccountByClientId(clientId: string): Promise<ServiceAccount | null>;
+  updateServiceAccount(id: string, updates: Partial<Pick<ServiceAccount, 'clientSecretHash' | 'disabledAt'>>): Promise<void>;
+  deleteServiceAccount(id: string): Promise<boolean>;
+  addRoleToServiceAccount(serviceAccountId: string, roleId: string): Promise<void>;
+  removeRoleFromServiceAccount(serviceAccountId: string, roleId: string): Promise<void>;
+}
+
+@injectable()
+export class ServiceAccountRepository implements IServiceAccountRepository {
+  private repository: Repository<ServiceAccount>;
+
+  constructor(
+    @inject(TYPES.DataSource) dataSource: DataSource,
+  ) {
+    this.repository = dataSource.getRepository(ServiceAccount);
+  }
+
+  async createServiceAccount(data: CreateServiceAccountData): Promise<ServiceAccount> {
+    const serviceAccount = this.repository.create({ ...data, roles: [] });
+    return await this.repository.save(serviceAccount);
+  }
+
+  async findServiceAccounts(): Promise<ServiceAccount[]> {
+    return await this.repository.find({ relations: ['roles'], order: { createdAt: 'ASC' } });
+  }
+
+  async findServiceAccountById(id: string): Promise<ServiceAccount | null> {
+    return await this.repository.findOne({ where: { id }, relations: ['roles'] });
+  }
+
+  async findServiceAccountByClientId(clientId: string): Promise<ServiceAccount | null> {
+    return await this.repository.findOne({
+      where: { clientId },
+      relations: ['roles', 'roles.permissions'],
+    });
+  }
+
+  async updateServiceAccount(
+    id: string,
+    updates: Partial<Pick<ServiceAccount, 'clientSecretHash' | 'disabledAt'>>,
+  ): Promise<void> {
+    await this.repository.update(id, updates);
+  }
+
+  async deleteServiceAccount(id: string): Promise<boolean> {
+    const result = await this.repository.delete({ id });
+    return (result.affected ?? 0) > 0;
+  }
+
+  async addRoleToServiceAccount(serviceAccountId: string, roleId: string): Promise<void> {
+    const serviceAccount = await this.repository.findOne({
+      where: { id: serviceAccountId },
+      relations: ['roles'],
+    });
+
+    if (!serviceAccount) {
+      throw new Error('Service account not found');
+    }
+
+    const role = await this.repository.manager.getRepository(Role).findOne({ where: { id: roleId } });
+
+    if (!role) {
+      throw new Error('Role not found');
+    }
+
+    if (!serviceAccount.roles.some(r => r.id === roleId)) {
+      serviceAccount.roles.push(role);
+      await this.repository.save(serviceAccount);
+    }
+  }
+
+  async removeRoleFromServiceAccount(serviceAccountId: string, roleId: string): Promise<void> {
+    const serviceAccount = await this.repository.findOne({
+      where: { id: serviceAccountId },
+      relations: ['roles'],
+    });
+
+    if (!serviceAccount) {
+      return;
+    }
+
+    serviceAccount.roles = serviceAccount.roles.filter(r => r.id !== roleId);
+    await this.repository.save(serviceAccount);
+  }
+}
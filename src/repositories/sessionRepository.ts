@@ -0,0 +1,67 @@
+import { injectable, inject } from 'inversify';
+import { Repository, DataSource, IsNull, MoreThan } from 'typeorm';
+import { Session } from '../models/session';
+import { CreateSessionDto } from '../dto/session.dto';
+import { TYPES } from '../types/di.types';
+
+export interface ISessionRepository {
+  createSession(data: CreateSessionDto): Promise<Session>;
+  findSessionById(id: string): Promise<Session | null>;
+  findActiveSessionsByUserId(userId: string): Promise<Session[]>;
+  touchSession(id: string, expiresAt: Date): Promise<void>;
+  revokeSession(id: string): Promise<boolean>;
+  revokeAllSessionsForUser(userId: string): Promise<string[]>;
+}
+
+@injectable()
+export class SessionRepository implements ISessionRepository {
+  private repository: Repository<Session>;
+
+  constructor(
+    @inject(TYPES.DataSource) dataSource: DataSource,
+  ) {
+    this.repository = dataSource.getRepository(Session);
+  }
+
+  async createSession(data: CreateSessionDto): Promise<Session> {
+    const session = this.repository.create({ ...data, lastUsedAt: new Date() });
+    return await this.repository.save(session);
+  }
+
+  async findSessionById(id: string): Promise<Session | null> {
+    return await this.repository.findOne({ where: { id } });
+  }
+
+  async findActiveSessionsByUserId(userId: string): Promise<Session[]> {
+    return await this.repository.find({
+      where: { userId, revokedAt: IsNull(), expiresAt: MoreThan(new Date()) },
+      order: { lastUsedAt: 'DESC' },
+    });
+  }
+
+  async touchSession(id: string, expiresAt: Date): Promise<void> {
+    await this.repository.update({ id }, { lastUsedAt: new Date(), expiresAt });
+  }
+
+  async revokeSession(id: string): Promise<boolean> {
+    const result = await this.repository.update(
+      { id, revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+    return (result.affected ?? 0) > 0;
+  }
+
+  async revokeAllSessionsForUser(userId: string): Promise<string[]> {
+    const sessions = await this.repository.find({
+      where: { userId, revokedAt: IsNull() },
+      select: { id: true },
+    });
+
+    if (sessions.length === 0) {
+      return [];
+    }
+
+    await this.repository.update({ userId, revokedAt: IsNull() }, { revokedAt: new Date() });
+    return sessions.map(session => session.id);
+  }
+}
@@ -0,0 +1,76 @@
+import { injectable, inject } from 'inversify';
+import { Repository, DataSource, Not } from 'typeorm';
+import { SigningKey, SigningKeyStatus } from '../models/signingKey';
+import { TYPES } from '../types/di.types';
+
+export interface CreateSigningKeyData {
+  kid: string;
+  algorithm: string;
+  status: SigningKeyStatus;
+  publicKey: string;
+  privateKey: string;
+}
+
+export interface ISigningKeyRepository {
+  findSigningKeys(): Promise<SigningKey[]>;
+  findSigningKeyByKid(kid: string): Promise<SigningKey | null>;
+  createSigningKey(data: CreateSigningKeyData): Promise<SigningKey>;
+  activateSigningKey(kid: string): Promise<boolean>;
+  retireSigningKey(kid: string): Promise<boolean>;
+  replacePrivateKey(id: string, currentPrivateKey: string, privateKey: string): Promise<boolean>;
+}
+
+@injectable()
+export class SigningKeyRepository implements ISigningKeyRepository {
+  private repository: Repository<SigningKey>;
+
+  constructor(
+    @inject(TYPES.DataSource) dataSource: DataSource,
+  ) {
+    this.repository = dataSource.getRepository(SigningKey);
+  }
+
+  async findSigningKeys(): Promise<SigningKey[]> {
+    return await this.repository.find({ order: { createdAt: 'DESC' } });
+  }
+
+  async findSigningKeyByKid(kid: string): Promise<SigningKey | null> {
+    return await this.repository.findOne({ where: { kid } });
+  }
+
+  async createSigningKey(data: CreateSigningKeyData): Promise<SigningKey> {
+    const signingKey = this.repository.create({
+      ...data,
+      activatedAt: data.status === 'active' ? new Date() : null,
+    });
+    return await this.repository.save(signingKey);
+  }
+
+  async activateSigningKey(kid: string): Promise<boolean> {
+    return await this.repository.manager.transaction(async (manager) => {
+      const target = await manager.findOne(SigningKey, { where: { kid }, lock: { mode: 'pessimistic_write' } });
+      if (!target || target.status === 'retired') {
+        return false;
+      }
+
+      // The previous active key keeps verifying the tokens it already signed
+      await manager.update(SigningKey, { status: 'active', kid: Not(kid) }, { status: 'verification' });
+      await manager.update(SigningKey, { kid }, { status: 'active', activatedAt: new Date() });
+      return true;
+    });
+  }
+
+  async retireSigningKey(kid: string): Promise<boolean> {
+    const result = await this.repository.update(
+      { kid, status: 'verification' },
+      { status: 'retired', retiredAt: new Date() },
+    );
+    return (result.affected ?? 0) > 0;
+  }
+
+  async replacePrivateKey(id: string, currentPrivateKey: string, privateKey: string): Promise<boolean> {
+    // Only replaces the value that was read, so concurrent rewrites by other instances do not clash
+    const result = await this.repository.update({ id, privateKey: currentPrivateKey }, { privateKey });
+    return (result.affected ?? 0) > 0;
+  }
+}
@@ -14,9 +14,11 @@ export interface PaginatedResult<T> {
 export interface IUserRepository {
   findUserByEmail(email: string): Promise<User | null>;
   findUserById(id: string): Promise<User | null>;
-  findUserByGoogleId(googleId: string): Promise<User | null>;
   findUserByVerificationToken(token: string): Promise<User | null>;
   findUserByPasswordResetToken(token: string): Promise<User | null>;
+  findUserByMagicLinkToken(token: string): Promise<User | null>;
+  consumeMagicLinkToken(userId: string, token: string): Promise<boolean>;
+  consumePasswordSetToken(userId: string, token: string): Promise<boolean>;
   createUser(userData: CreateUserDto): Promise<User>;
   updateUser(id: string, updates: UpdateUserDto): Promise<User | null>;
   getAllUsers(orgId?: string | null): Promise<User[]>;
@@ -25,6 +27,7 @@ export interface IUserRepository {
   findUserWithRoles(id: string): Promise<User | null>;
   addRoleToUser(userId: string, roleId: string): Promise<void>;
   removeRoleFromUser(userId: string, roleId: string): Promise<void>;
+  getTokensValidAfter(userId: string): Promise<Date | null>;
 }
 
 @injectable()
@@ -48,10 +51,6 @@ export class UserRepository implements IUserRepository {
     });
   }
 
-  async findUserByGoogleId(googleId: string): Promise<User | null> {
-    return await this.repository.findOne({ where: { googleId } });
-  }
-
   async findUserByVerificationToken(token: string): Promise<User | null> {
     return await this.repository.findOne({ where: { emailVerificationToken: token } });
   }
@@ -60,6 +59,30 @@ export class UserRepository implements IUserRepository {
     return await this.repository.findOne({ where: { passwordResetToken: token } });
   }
 
+  async findUserByMagicLinkToken(token: string): Promise<User | null> {
+    return await this.repository.findOne({
+      where: { magicLinkToken: token },
+      relations: ['roles', 'roles.permissions'],
+    });
+  }
+
+  async consumeMagicLinkToken(userId: string, token: string): Promise<boolean> {
+    // Conditional on the token so two concurrent requests cannot both consume the same link
+    const result = await this.repository.update(
+      { id: userId, magicLinkToken: token },
+      { magicLinkToken: null, magicLinkTokenExpiresAt: null },
+    );
+    return (result.affected ?? 0) > 0;
+  }
+
+  async consumePasswordSetToken(userId: string, token: string): Promise<boolean> {
+    const result = await this.repository.update(
+      { id: userId, passwordSetToken: token },
+      { passwordSetToken: null, passwordSetTokenExpiresAt: null },
+    );
+    return (result.affected ?? 0) > 0;
+  }
+
   async createUser(userData: CreateUserDto): Promise<User> {
     const user = this.repository.create(userData);
     return await this.repository.save(user);
@@ -156,4 +179,12 @@ export class UserRepository implements IUserRepository {
     user.roles = user.roles.filter(r => r.id !== roleId);
     await this.repository.save(user);
   }
+
+  async getTokensValidAfter(userId: string): Promise<Date | null> {
+    const user = await this.repository.findOne({
+      where: { id: userId },
+      select: { id: true, tokensValidAfter: true },
+    });
+    return user?.tokensValidAfter ?? null;
+  }
 }
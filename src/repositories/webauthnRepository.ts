@@ -0,0 +1,84 @@
+import { injectable, inject } from 'inversify';
+import { Repository, DataSource, IsNull, LessThan } from 'typeorm';
+import { WebAuthnCredential } from '../models/webauthnCredential';
+import { WebAuthnChallenge, WebAuthnCeremony } from '../models/webauthnChallenge';
+import { CreateWebAuthnCredentialDto, CreateWebAuthnChallengeDto } from '../dto/webauthn.dto';
+import { TYPES } from '../types/di.types';
+
+export interface IWebAuthnRepository {
+  createCredential(data: CreateWebAuthnCredentialDto): Promise<WebAuthnCredential>;
+  findCredentialByCredentialId(credentialId: string): Promise<WebAuthnCredential | null>;
+  findCredentialsByUserId(userId: string): Promise<WebAuthnCredential[]>;
+  updateCredentialUsage(id: string, previousSignCount: number, signCount: number): Promise<boolean>;
+  deleteCredential(userId: string, id: string): Promise<boolean>;
+  createChallenge(data: CreateWebAuthnChallengeDto): Promise<WebAuthnChallenge>;
+  consumeChallenge(challenge: string, ceremony: WebAuthnCeremony): Promise<WebAuthnChallenge | null>;
+  deleteExpiredChallenges(): Promise<number>;
+}
+
+@injectable()
+export class WebAuthnRepository implements IWebAuthnRepository {
+  private credentialRepository: Repository<WebAuthnCredential>;
+  private challengeRepository: Repository<WebAuthnChallenge>;
+
+  constructor(
+    @inject(TYPES.DataSource) dataSource: DataSource,
+  ) {
+    this.credentialRepository = dataSource.getRepository(WebAuthnCredential);
+    this.challengeRepository = dataSource.getRepository(WebAuthnChallenge);
+  }
+
+  async createCredential(data: CreateWebAuthnCredentialDto): Promise<WebAuthnCredential> {
+    const credential = this.credentialRepository.create(data);
+    return await this.credentialRepository.save(credential);
+  }
+
+  async findCredentialByCredentialId(credentialId: string): Promise<WebAuthnCredential | null> {
+    return await this.credentialRepository.findOne({ where: { credentialId } });
+  }
+
+  async findCredentialsByUserId(userId: string): Promise<WebAuthnCredential[]> {
+    return await this.credentialRepository.find({
+      where: { userId },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  async updateCredentialUsage(id: string, previousSignCount: number, signCount: number): Promise<boolean> {
+    // Conditional on the counter we read so concurrent assertions cannot both succeed
+    const result = await this.credentialRepository.update(
+      { id, signCount: previousSignCount },
+      { signCount, lastUsedAt: new Date() },
+    );
+    return (result.affected ?? 0) > 0;
+  }
+
+  async deleteCredential(userId: string, id: string): Promise<boolean> {
+    const result = await this.credentialRepository.delete({ id, userId });
+    return (result.affected ?? 0) > 0;
+  }
+
+  async createChallenge(data: CreateWebAuthnChallengeDto): Promise<WebAuthnChallenge> {
+    const challenge = this.challengeRepository.create(data);
+    return await this.challengeRepository.save(challenge);
+  }
+
+  async consumeChallenge(challenge: string, ceremony: WebAuthnCeremony): Promise<WebAuthnChallenge | null> {
+    const existing = await this.challengeRepository.findOne({ where: { challenge, ceremony } });
+    if (!existing) {
+      return null;
+    }
+
+    const result = await this.challengeRepository.update(
+      { id: existing.id, consumedAt: IsNull() },
+      { consumedAt: new Date() },
+    );
+
+    return (result.affected ?? 0) > 0 ? existing : null;
+  }
+
+  async deleteExpiredChallenges(): Promise<number> {
+    const result = await this.challengeRepository.delete({ expiresAt: LessThan(new Date()) });
+    return result.affected ?? 0;
+  }
+}
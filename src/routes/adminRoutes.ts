@@ -1,13 +1,33 @@
 import { Router } from 'express';
 import container from '../config/container';
 import { TYPES } from '../types/di.types';
+import { ITokenRevocationService } from '../services/tokenRevocationService';
+import { ISigningKeyService } from '../services/signingKeyService';
+import { IPersonalAccessTokenService } from '../services/personalAccessTokenService';
 import { RoleController } from '../controllers/roleController';
 import { PermissionController } from '../controllers/permissionController';
-import { authenticateToken, requirePermissions } from '../middlewares/auth';
+import { UserController } from '../controllers/userController';
+import { MfaController } from '../controllers/mfaController';
+import { SigningKeyController } from '../controllers/signingKeyController';
+import { OAuthClientController } from '../controllers/oauthClientController';
+import { ServiceAccountController } from '../controllers/serviceAccountController';
+import { ImpersonationController } from '../controllers/impersonationController';
+import { createAuthenticateToken, forbidImpersonation, requireInteractiveSession, requirePermissions } from '../middlewares/auth';
 
 const router = Router();
+const authenticateToken = createAuthenticateToken(
+  container.get<ITokenRevocationService>(TYPES.TokenRevocationService),
+  container.get<ISigningKeyService>(TYPES.SigningKeyService),
+  container.get<IPersonalAccessTokenService>(TYPES.PersonalAccessTokenService),
+);
 const roleController = container.get<RoleController>(TYPES.RoleController);
 const permissionController = container.get<PermissionController>(TYPES.PermissionController);
+const userController = container.get<UserController>(TYPES.UserController);
+const mfaController = container.get<MfaController>(TYPES.MfaController);
+const signingKeyController = container.get<SigningKeyController>(TYPES.SigningKeyController);
+const oauthClientController = container.get<OAuthClientController>(TYPES.OAuthClientController);
+const serviceAccountController = container.get<ServiceAccountController>(TYPES.ServiceAccountController);
+const impersonationController = container.get<ImpersonationController>(TYPES.ImpersonationController);
 
 // All admin routes require authentication
 router.use(authenticateToken);
@@ -17,16 +37,44 @@ router.get('/permissions/:id', requirePermissions(['permissions:manage']), permi
 
 router.get('/roles', requirePermissions(['roles:manage']), roleController.getAllRoles);
 router.get('/roles/:id', requirePermissions(['roles:manage']), roleController.getRoleById);
-router.post('/roles', requirePermissions(['roles:manage']), roleController.createRole);
-router.patch('/roles/:id', requirePermissions(['roles:manage']), roleController.updateRole);
-router.delete('/roles/:id', requirePermissions(['roles:manage']), roleController.deleteRole);
+router.post('/roles', forbidImpersonation, requirePermissions(['roles:manage']), roleController.createRole);
+router.patch('/roles/:id', forbidImpersonation, requirePermissions(['roles:manage']), roleController.updateRole);
+router.delete('/roles/:id', forbidImpersonation, requirePermissions(['roles:manage']), roleController.deleteRole);
 
-router.post('/roles/:id/permissions', requirePermissions(['roles:manage']), roleController.addPermissionToRole);
-router.delete('/roles/:id/permissions/:permissionId', requirePermissions(['roles:manage']), roleController.removePermissionFromRole);
+router.post('/roles/:id/permissions', forbidImpersonation, requirePermissions(['roles:manage']), roleController.addPermissionToRole);
+router.delete('/roles/:id/permissions/:permissionId', forbidImpersonation, requirePermissions(['roles:manage']), roleController.removePermissionFromRole);
 
 router.get('/users/:userId/roles', requirePermissions(['users:manage']), roleController.getUserRoles);
-router.post('/users/:userId/roles', requirePermissions(['users:manage']), roleController.assignRoleToUser);
-router.delete('/users/:userId/roles/:roleId', requirePermissions(['users:manage']), roleController.removeRoleFromUser);
+router.post('/users/:userId/roles', forbidImpersonation, requirePermissions(['users:manage']), roleController.assignRoleToUser);
+router.delete('/users/:userId/roles/:roleId', forbidImpersonation, requirePermissions(['users:manage']), roleController.removeRoleFromUser);
 
-export default router;
+router.post('/users/:userId/disable', forbidImpersonation, requirePermissions(['users:manage']), userController.disableUser);
+router.post('/users/:userId/enable', forbidImpersonation, requirePermissions(['users:manage']), userController.enableUser);
+router.post('/users/:userId/unlock', forbidImpersonation, requirePermissions(['users:manage']), userController.unlockUser);
+router.delete('/users/:userId/mfa', forbidImpersonation, requirePermissions(['users:manage']), mfaController.resetUserMfa);
+router.post(
+  '/users/:userId/impersonate',
+  requireInteractiveSession,
+  requirePermissions(['users:impersonate']),
+  impersonationController.impersonateUser,
+);
+
+router.get('/signing-keys', requirePermissions(['keys:manage']), signingKeyController.getSigningKeys);
+router.post('/signing-keys', forbidImpersonation, requirePermissions(['keys:manage']), signingKeyController.generateSigningKey);
+router.post('/signing-keys/:kid/promote', forbidImpersonation, requirePermissions(['keys:manage']), signingKeyController.promoteSigningKey);
+router.post('/signing-keys/:kid/retire', forbidImpersonation, requirePermissions(['keys:manage']), signingKeyController.retireSigningKey);
+
+router.get('/oauth-clients', requirePermissions(['clients:manage']), oauthClientController.getClients);
+router.post('/oauth-clients', forbidImpersonation, requirePermissions(['clients:manage']), oauthClientController.createClient);
+router.delete('/oauth-clients/:clientId', forbidImpersonation, requirePermissions(['clients:manage']), oauthClientController.deleteClient);
 
+router.get('/service-accounts', requirePermissions(['service-accounts:manage']), serviceAccountController.getServiceAccounts);
+router.post('/service-accounts', forbidImpersonation, requirePermissions(['service-accounts:manage']), serviceAccountController.createServiceAccount);
+router.delete('/service-accounts/:id', forbidImpersonation, requirePermissions(['service-accounts:manage']), serviceAccountController.deleteServiceAccount);
+router.post('/service-accounts/:id/secret', forbidImpersonation, requirePermissions(['service-accounts:manage']), serviceAccountController.rotateSecret);
+router.post('/service-accounts/:id/disable', forbidImpersonation, requirePermissions(['service-accounts:manage']), serviceAccountController.disableServiceAccount);
+router.post('/service-accounts/:id/enable', forbidImpersonation, requirePermissions(['service-accounts:manage']), serviceAccountController.enableServiceAccount);
+router.post('/service-accounts/:id/roles', forbidImpersonation, requirePermissions(['service-accounts:manage']), serviceAccountController.assignRole);
+router.delete('/service-accounts/:id/roles/:roleId', forbidImpersonation, requirePermissions(['service-accounts:manage']), serviceAccountController.removeRole);
+
+export default router;
@@ -1,20 +1,60 @@
 import { Router } from 'express';
 import container from '../config/container';
 import { AuthController } from '../controllers/authController';
+import { WebAuthnController } from '../controllers/webauthnController';
 import { TYPES } from '../types/di.types';
-import { authenticateToken } from '../middlewares/auth';
+import { ITokenRevocationService } from '../services/tokenRevocationService';
+import { ISigningKeyService } from '../services/signingKeyService';
+import { IPersonalAccessTokenService } from '../services/personalAccessTokenService';
+import { IRateLimitStore } from '../rateLimit/rateLimitStore';
+import { ILogger } from '../logging/logger.interface';
+import { createAuthenticateToken, requireInteractiveSession } from '../middlewares/auth';
+import { createRateLimit } from '../middlewares/rateLimit';
 
 const router = Router();
+const authenticateToken = createAuthenticateToken(
+  container.get<ITokenRevocationService>(TYPES.TokenRevocationService),
+  container.get<ISigningKeyService>(TYPES.SigningKeyService),
+  container.get<IPersonalAccessTokenService>(TYPES.PersonalAccessTokenService),
+);
+const rateLimit = createRateLimit(
+  container.get<IRateLimitStore>(TYPES.RateLimitStore),
+  container.get<ILogger>(TYPES.Logger),
+);
 const authController = container.get<AuthController>(TYPES.AuthController);
+const webAuthnController = container.get<WebAuthnController>(TYPES.WebAuthnController);
 
-router.post('/register', authController.register);
-router.post('/login', authController.login);
-router.post('/google', authController.googleOAuth);
-router.get('/verify/:token', authController.verifyEmail);
-router.post('/password-reset/request', authController.requestPasswordReset);
-router.get('/password-reset/verify/:token', authController.verifyPasswordResetToken);
-router.post('/password-reset/reset', authController.resetPassword);
-router.post('/change-password', authenticateToken, authController.changePassword);
+router.post('/register', rateLimit('register'), authController.register);
+router.post('/login', rateLimit('login'), authController.login);
+router.post('/mfa/verify', rateLimit('mfaVerify'), authController.verifyMfa);
+router.post('/webauthn/register/options', authenticateToken, requireInteractiveSession, webAuthnController.getRegistrationOptions);
+router.post('/webauthn/register/verify', authenticateToken, requireInteractiveSession, webAuthnController.verifyRegistration);
+router.post('/webauthn/authenticate/options', rateLimit('login'), webAuthnController.getAuthenticationOptions);
+router.post('/webauthn/authenticate/verify', rateLimit('login'), authController.loginWithPasskey);
+router.post('/google', rateLimit('google'), authController.googleOAuth);
+router.get('/google/authorize', rateLimit('google'), authController.googleAuthorize);
+router.get('/google/callback', rateLimit('google'), authController.googleCallback);
+router.post('/oidc/:provider', rateLimit('oidc'), authController.oidcLogin);
+router.post('/refresh', authController.refreshToken);
+router.get('/password-policy', authController.getPasswordPolicy);
+router.get('/verify/:token', rateLimit('verifyEmail'), authController.verifyEmail);
+router.post(
+  '/magic-link/request',
+  rateLimit('emailRequestPerIp'),
+  rateLimit('magicLinkRequest'),
+  authController.requestMagicLink,
+);
+router.post('/magic-link/consume', rateLimit('login'), authController.consumeMagicLink);
+router.post(
+  '/password-reset/request',
+  rateLimit('emailRequestPerIp'),
+  rateLimit('passwordResetRequest'),
+  authController.requestPasswordReset,
+);
+router.get('/password-reset/verify/:token', rateLimit('passwordReset'), authController.verifyPasswordResetToken);
+router.post('/password-reset/reset', rateLimit('passwordReset'), authController.resetPassword);
+router.post('/change-password', authenticateToken, requireInteractiveSession, rateLimit('changePassword'), authController.changePassword);
+router.post('/logout', authenticateToken, authController.logout);
+router.post('/logout-all', authenticateToken, requireInteractiveSession, authController.logoutAll);
 
 export default router;
-
@@ -0,0 +1,36 @@
+import express, { Router } from 'express';
+import container from '../config/container';
+import { TYPES } from '../types/di.types';
+import { OAuthController } from '../controllers/oauthController';
+import { ITokenRevocationService } from '../services/tokenRevocationService';
+import { ISigningKeyService } from '../services/signingKeyService';
+import { IPersonalAccessTokenService } from '../services/personalAccessTokenService';
+import { IRateLimitStore } from '../rateLimit/rateLimitStore';
+import { ILogger } from '../logging/logger.interface';
+import { createAuthenticateToken, requireInteractiveSession } from '../middlewares/auth';
+import { createRateLimit } from '../middlewares/rateLimit';
+
+const router = Router();
+const authenticateToken = createAuthenticateToken(
+  container.get<ITokenRevocationService>(TYPES.TokenRevocationService),
+  container.get<ISigningKeyService>(TYPES.SigningKeyService),
+  container.get<IPersonalAccessTokenService>(TYPES.PersonalAccessTokenService),
+);
+const rateLimit = createRateLimit(
+  container.get<IRateLimitStore>(TYPES.RateLimitStore),
+  container.get<ILogger>(TYPES.Logger),
+);
+const oauthController = container.get<OAuthController>(TYPES.OAuthController);
+
+router.get('/authorize', oauthController.authorize);
+router.get('/authorize/request', authenticateToken, requireInteractiveSession, oauthController.getAuthorizationRequest);
+router.post('/authorize/decision', authenticateToken, requireInteractiveSession, oauthController.decideAuthorization);
+
+// OAuth clients post the token request form-encoded (RFC 6749, section 4.1.3)
+router.post('/token', express.urlencoded({ extended: false }), rateLimit('oauthToken'), oauthController.token);
+
+// Resource servers authenticate as service accounts holding tokens:introspect or tokens:revoke
+router.post('/introspect', express.urlencoded({ extended: false }), rateLimit('oauthIntrospection'), oauthController.introspect);
+router.post('/revoke', express.urlencoded({ extended: false }), rateLimit('oauthIntrospection'), oauthController.revoke);
+
+export default router;
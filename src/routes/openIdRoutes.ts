@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import { createAuthenticateToken } from '../middlewares/auth';
+import container from '../config/container';
+import { TYPES } from '../types/di.types';
+import { OpenIdController } from '../controllers/openIdController';
+import { ITokenRevocationService } from '../services/tokenRevocationService';
+import { ISigningKeyService } from '../services/signingKeyService';
+import { IPersonalAccessTokenService } from '../services/personalAccessTokenService';
+
+const router = Router();
+const authenticateToken = createAuthenticateToken(
+  container.get<ITokenRevocationService>(TYPES.TokenRevocationService),
+  container.get<ISigningKeyService>(TYPES.SigningKeyService),
+  container.get<IPersonalAccessTokenService>(TYPES.PersonalAccessTokenService),
+  { allowOAuthClientTokens: true },
+);
+const openIdController = container.get<OpenIdController>(TYPES.OpenIdController);
+
+router.get('/.well-known/openid-configuration', openIdController.getConfiguration);
+router.get('/userinfo', authenticateToken, openIdController.getUserInfo);
+
+export default router;
@@ -0,0 +1,28 @@
+import { Router } from 'express';
+import container from '../config/container';
+import { TYPES } from '../types/di.types';
+import { ITokenRevocationService } from '../services/tokenRevocationService';
+import { ISigningKeyService } from '../services/signingKeyService';
+import { IPersonalAccessTokenService } from '../services/personalAccessTokenService';
+import { OrganizationController } from '../controllers/organizationController';
+import { createAuthenticateToken, requireInteractiveSession } from '../middlewares/auth';
+
+const router = Router();
+const authenticateToken = createAuthenticateToken(
+  container.get<ITokenRevocationService>(TYPES.TokenRevocationService),
+  container.get<ISigningKeyService>(TYPES.SigningKeyService),
+  container.get<IPersonalAccessTokenService>(TYPES.PersonalAccessTokenService),
+);
+const organizationController = container.get<OrganizationController>(TYPES.OrganizationController);
+
+router.use(authenticateToken);
+
+// Who may see or change an organization depends on membership and ownership, checked by the service.
+// Ownership is not a permission a token can be narrowed away from, so changes require a real sign-in.
+router.get('/', organizationController.getOrganizations);
+router.post('/', requireInteractiveSession, organizationController.createOrganization);
+router.get('/:id', organizationController.getOrganizationById);
+router.patch('/:id', requireInteractiveSession, organizationController.updateOrganization);
+router.delete('/:id', requireInteractiveSession, organizationController.deleteOrganization);
+
+export default router;
@@ -1,16 +1,66 @@
 import { Router } from 'express';
-import { authenticateToken, requirePermissions } from '../middlewares/auth';
+import { createAuthenticateToken, requireInteractiveSession, requirePermissions } from '../middlewares/auth';
 import container from '../config/container';
 import { UserController } from '../controllers/userController';
+import { AuthController } from '../controllers/authController';
+import { SessionController } from '../controllers/sessionController';
+import { MfaController } from '../controllers/mfaController';
+import { WebAuthnController } from '../controllers/webauthnController';
+import { IdentityController } from '../controllers/identityController';
+import { PersonalAccessTokenController } from '../controllers/personalAccessTokenController';
 import { TYPES } from '../types/di.types';
+import { ITokenRevocationService } from '../services/tokenRevocationService';
+import { ISigningKeyService } from '../services/signingKeyService';
+import { IPersonalAccessTokenService } from '../services/personalAccessTokenService';
 import { PERMISSIONS } from '../config/permissions';
+import { IRateLimitStore } from '../rateLimit/rateLimitStore';
+import { ILogger } from '../logging/logger.interface';
+import { createRateLimit } from '../middlewares/rateLimit';
 
 const router = Router();
+const authenticateToken = createAuthenticateToken(
+  container.get<ITokenRevocationService>(TYPES.TokenRevocationService),
+  container.get<ISigningKeyService>(TYPES.SigningKeyService),
+  container.get<IPersonalAccessTokenService>(TYPES.PersonalAccessTokenService),
+);
+const rateLimit = createRateLimit(
+  container.get<IRateLimitStore>(TYPES.RateLimitStore),
+  container.get<ILogger>(TYPES.Logger),
+);
 const userController = container.get<UserController>(TYPES.UserController);
+const authController = container.get<AuthController>(TYPES.AuthController);
+const sessionController = container.get<SessionController>(TYPES.SessionController);
+const mfaController = container.get<MfaController>(TYPES.MfaController);
+const webAuthnController = container.get<WebAuthnController>(TYPES.WebAuthnController);
+const identityController = container.get<IdentityController>(TYPES.IdentityController);
+const personalAccessTokenController = container.get<PersonalAccessTokenController>(TYPES.PersonalAccessTokenController);
 
 router.get('/me', authenticateToken, userController.getCurrentUser);
-router.patch('/me', authenticateToken, userController.updateCurrentUserProfile);
-router.patch('/me/avatar', authenticateToken, userController.setAvatar);
+router.patch('/me', authenticateToken, requireInteractiveSession, userController.updateCurrentUserProfile);
+router.patch('/me/avatar', authenticateToken, requireInteractiveSession, userController.setAvatar);
+router.post('/me/password', authenticateToken, requireInteractiveSession, rateLimit('changePassword'), authController.setPassword);
+router.post(
+  '/me/password/confirmation',
+  authenticateToken,
+  requireInteractiveSession,
+  rateLimit('passwordSetRequest'),
+  authController.requestPasswordSetConfirmation,
+);
+router.get('/me/sessions', authenticateToken, requireInteractiveSession, sessionController.getCurrentUserSessions);
+router.delete('/me/sessions/:id', authenticateToken, requireInteractiveSession, sessionController.revokeCurrentUserSession);
+router.get('/me/mfa', authenticateToken, requireInteractiveSession, mfaController.getMfaStatus);
+router.post('/me/mfa/totp', authenticateToken, requireInteractiveSession, mfaController.startTotpEnrollment);
+router.post('/me/mfa/totp/confirm', authenticateToken, requireInteractiveSession, mfaController.confirmTotpEnrollment);
+router.delete('/me/mfa/totp', authenticateToken, requireInteractiveSession, mfaController.disableTotp);
+router.post('/me/mfa/recovery-codes', authenticateToken, requireInteractiveSession, mfaController.regenerateRecoveryCodes);
+router.get('/me/passkeys', authenticateToken, requireInteractiveSession, webAuthnController.getCurrentUserPasskeys);
+router.delete('/me/passkeys/:id', authenticateToken, requireInteractiveSession, webAuthnController.deleteCurrentUserPasskey);
+router.get('/me/identities', authenticateToken, requireInteractiveSession, identityController.getCurrentUserIdentities);
+router.post('/me/identities/google', authenticateToken, requireInteractiveSession, identityController.linkGoogleIdentity);
+router.delete('/me/identities/:provider', authenticateToken, requireInteractiveSession, identityController.unlinkIdentity);
+router.get('/me/tokens', authenticateToken, requireInteractiveSession, personalAccessTokenController.getCurrentUserTokens);
+router.post('/me/tokens', authenticateToken, requireInteractiveSession, personalAccessTokenController.createCurrentUserToken);
+router.delete('/me/tokens/:id', authenticateToken, requireInteractiveSession, personalAccessTokenController.deleteCurrentUserToken);
 
 router.get(
   '/metrics',
@@ -6,6 +6,7 @@ import container from './config/container';
 import { IEventPublisher } from './events/eventPublisher';
 import { ILogger } from './logging/logger.interface';
 import { IPermissionService } from './services/permissionService';
+import { ISigningKeyService } from './services/signingKeyService';
 import { TYPES } from './types/di.types';
 import { initializeDatabase, closeDatabase } from './config/initDatabase';
 
@@ -94,6 +95,10 @@ const startServer = async () => {
       });
     }
 
+    const signingKeyService = container.get<ISigningKeyService>(TYPES.SigningKeyService);
+    await signingKeyService.ensureActiveKey();
+    logger.info('Signing keys loaded');
+
     eventPublisher = container.get<IEventPublisher>(TYPES.EventPublisher);
     try {
       await eventPublisher.connect();
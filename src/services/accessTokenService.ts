@@ -0,0 +1,155 @@
+import { injectable, inject } from 'inversify';
+import crypto from 'crypto';
+import { IUserAuthService, UserAuthInfo } from './userAuthService';
+import { ISigningKeyService } from './signingKeyService';
+import { getServiceAccountPermissions } from './serviceAccountService';
+import { ServiceAccount } from '../models/serviceAccount';
+import { TYPES } from '../types/di.types';
+import config from '../config/config';
+import { parseDurationToSeconds } from '../utils/duration';
+import { parseScope } from '../utils/oauthScope';
+
+export interface AccessTokenOptions {
+  // OAuth client the token was issued to, published as the client_id claim
+  clientId?: string;
+  // Space-separated OAuth scopes granted with the token
+  scope?: string;
+}
+
+export interface IAccessTokenService {
+  issueAccessToken(userId: string, sessionId: string, options?: AccessTokenOptions): Promise<string>;
+  issueServiceAccountToken(serviceAccount: ServiceAccount): Promise<string>;
+  issueImpersonationToken(userId: string, actorUserId: string): Promise<string>;
+  getExpiresInSeconds(): number;
+  getServiceAccountExpiresInSeconds(): number;
+  getImpersonationExpiresInSeconds(): number;
+}
+
+/**
+ * Builds and signs access tokens. Password logins and OAuth grants share it,
+ * so every user access token carries the same claims; service account tokens
+ * carry the same authorization claims without the personal ones.
+ *
+ * Tokens issued to OAuth clients are cut down to the granted scopes: they
+ * carry no roles, only the user's permissions that were granted as scopes,
+ * and the email and name claims only with the email and profile scopes.
+ */
+@injectable()
+export class AccessTokenService implements IAccessTokenService {
+  private readonly DEFAULT_EXPIRY_SECONDS = 3600;
+  private readonly DEFAULT_SERVICE_ACCOUNT_EXPIRY_SECONDS = 300;
+  private readonly DEFAULT_IMPERSONATION_EXPIRY_SECONDS = 900;
+
+  constructor(
+    @inject(TYPES.UserAuthService) private userAuthService: IUserAuthService,
+    @inject(TYPES.SigningKeyService) private signingKeyService: ISigningKeyService,
+  ) {}
+
+  async issueAccessToken(userId: string, sessionId: string, options: AccessTokenOptions = {}): Promise<string> {
+    const authInfo = await this.userAuthService.resolveUserAuthInfo(userId);
+    if (!authInfo) {
+      throw new Error('User not found');
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+
+    const claims = options.clientId
+      ? this.buildClientClaims(authInfo, options.clientId, options.scope ?? '')
+      : { roles: authInfo.roles, permissions: authInfo.permissions, email: authInfo.email, name: authInfo.name };
+
+    const payload = {
+      sub: authInfo.userId,
+      iss: config.jwt.issuer,
+      aud: config.jwt.audience,
+      iat: now,
+      exp: now + this.getExpiresInSeconds(),
+      nbf: now,
+      org_id: authInfo.organizationId,
+      ...claims,
+      sid: sessionId,
+      jti: crypto.randomUUID(),
+    };
+
+    return await this.signingKeyService.sign(payload);
+  }
+
+  /**
+   * Requires the service account to be loaded with its roles and their permissions.
+   */
+  async issueServiceAccountToken(serviceAccount: ServiceAccount): Promise<string> {
+    const now = Math.floor(Date.now() / 1000);
+
+    const payload = {
+      sub: serviceAccount.id,
+      iss: config.jwt.issuer,
+      aud: config.jwt.audience,
+      iat: now,
+      exp: now + this.getServiceAccountExpiresInSeconds(),
+      nbf: now,
+      org_id: serviceAccount.organizationId,
+      roles: serviceAccount.roles.map(role => role.name),
+      permissions: getServiceAccountPermissions(serviceAccount),
+      client_id: serviceAccount.clientId,
+      jti: crypto.randomUUID(),
+    };
+
+    return await this.signingKeyService.sign(payload);
+  }
+
+  /**
+   * Issues a token that acts as the user on behalf of an admin. It names the
+   * admin in an act claim and belongs to no session, so it cannot be refreshed
+   * and is refused wherever a real sign-in is required.
+   */
+  async issueImpersonationToken(userId: string, actorUserId: string): Promise<string> {
+    const authInfo = await this.userAuthService.resolveUserAuthInfo(userId);
+    if (!authInfo) {
+      throw new Error('User not found');
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+
+    const payload = {
+      sub: authInfo.userId,
+      iss: config.jwt.issuer,
+      aud: config.jwt.audience,
+      iat: now,
+      exp: now + this.getImpersonationExpiresInSeconds(),
+      nbf: now,
+      org_id: authInfo.organizationId,
+      roles: authInfo.roles,
+      permissions: authInfo.permissions,
+      email: authInfo.email,
+      name: authInfo.name,
+      act: { sub: actorUserId },
+      jti: crypto.randomUUID(),
+    };
+
+    return await this.signingKeyService.sign(payload);
+  }
+
+  getExpiresInSeconds(): number {
+    return parseDurationToSeconds(config.jwt.expiresIn, this.DEFAULT_EXPIRY_SECONDS);
+  }
+
+  getServiceAccountExpiresInSeconds(): number {
+    return parseDurationToSeconds(config.oauthServer.serviceAccountTokenExpiresIn, this.DEFAULT_SERVICE_ACCOUNT_EXPIRY_SECONDS);
+  }
+
+  getImpersonationExpiresInSeconds(): number {
+    return parseDurationToSeconds(config.impersonation.tokenExpiresIn, this.DEFAULT_IMPERSONATION_EXPIRY_SECONDS);
+  }
+
+  private buildClientClaims(authInfo: UserAuthInfo, clientId: string, scope: string) {
+    const scopes = parseScope(scope);
+
+    return {
+      roles: [],
+      permissions: authInfo.permissions.filter(permission => scopes.includes(permission)),
+      ...(scopes.includes('email') ? { email: authInfo.email } : {}),
+      ...(scopes.includes('profile') ? { name: authInfo.name } : {}),
+      client_id: clientId,
+      scope,
+    };
+  }
+}
@@ -1,44 +1,79 @@
 import { injectable, inject } from 'inversify';
-import bcrypt from 'bcrypt';
-import jwt from 'jsonwebtoken';
 import crypto from 'crypto';
 import { IUserRepository } from '../repositories/userRepository';
-import { RegisterDto, LoginDto, AuthResponseDto, RequestPasswordResetDto, ResetPasswordDto, ChangePasswordDto, GoogleOAuthDto, GoogleOAuthResponseDto } from '../dto/user.dto';
+import { RegisterDto, LoginDto, AuthResponseDto, RequestPasswordResetDto, ResetPasswordDto, ChangePasswordDto, SetPasswordDto, GoogleOAuthDto, GoogleOAuthResponseDto, GoogleAuthorizationCallbackDto, GoogleAuthorizationResponseDto, OidcLoginDto, ExternalAuthResponseDto, RefreshTokenDto, RequestMagicLinkDto, ConsumeMagicLinkDto } from '../dto/user.dto';
 import { TYPES } from '../types/di.types';
 import config from '../config/config';
 import { AppError } from '../middlewares/errorHandler';
 import { IUserEventsPublisher } from '../events/userEventsPublisher';
 import { ILogger } from '../logging/logger.interface';
-import { IGoogleAuthService } from './googleAuthService';
-import { IUserAuthService } from './userAuthService';
+import { IGoogleAuthService, GoogleUserInfo, GoogleAuthorizationRequest } from './googleAuthService';
+import { IOidcClientService, ExternalUserProfile } from './oidcClientService';
+import { IExternalIdentityRepository } from '../repositories/externalIdentityRepository';
+import { IRefreshTokenService } from './refreshTokenService';
+import { ISessionService } from './sessionService';
+import { SessionMetadata } from '../dto/session.dto';
+import { MfaChallengeResponseDto, VerifyMfaDto } from '../dto/mfa.dto';
+import { IMfaService } from './mfaService';
+import { IWebAuthnService } from './webauthnService';
+import { ILoginThrottleService } from './loginThrottleService';
+import { IPasswordPolicyService } from './passwordPolicyService';
+import { IPasswordHistoryService } from './passwordHistoryService';
+import { IPasswordHasher } from './passwordHasher';
+import { IAccessTokenService } from './accessTokenService';
+import { AuthenticationCredentialDto } from '../dto/webauthn.dto';
 import User from '../models/user';
-import { generateKid } from '../utils/jwt';
+import { parseDurationToSeconds } from '../utils/duration';
 
 export interface IAuthService {
-  register(registerDto: RegisterDto): Promise<AuthResponseDto>;
-  login(loginDto: LoginDto): Promise<AuthResponseDto>;
-  googleOAuth(googleOAuthDto: GoogleOAuthDto): Promise<GoogleOAuthResponseDto>;
+  register(registerDto: RegisterDto, metadata?: SessionMetadata): Promise<AuthResponseDto>;
+  login(loginDto: LoginDto, metadata?: SessionMetadata): Promise<AuthResponseDto | MfaChallengeResponseDto>;
+  verifyMfa(verifyMfaDto: VerifyMfaDto, metadata?: SessionMetadata): Promise<AuthResponseDto>;
+  loginWithPasskey(credential: AuthenticationCredentialDto, metadata?: SessionMetadata): Promise<AuthResponseDto>;
+  googleOAuth(googleOAuthDto: GoogleOAuthDto, metadata?: SessionMetadata): Promise<GoogleOAuthResponseDto | MfaChallengeResponseDto>;
+  startGoogleAuthorization(returnTo?: string): GoogleAuthorizationRequest;
+  completeGoogleAuthorization(callbackDto: GoogleAuthorizationCallbackDto, metadata?: SessionMetadata): Promise<GoogleAuthorizationResponseDto>;
+  oidcLogin(provider: string, oidcLoginDto: OidcLoginDto, metadata?: SessionMetadata): Promise<ExternalAuthResponseDto | MfaChallengeResponseDto>;
+  requestMagicLink(requestMagicLinkDto: RequestMagicLinkDto): Promise<{ success: boolean; message: string }>;
+  consumeMagicLink(consumeMagicLinkDto: ConsumeMagicLinkDto, metadata?: SessionMetadata): Promise<AuthResponseDto | MfaChallengeResponseDto>;
+  refreshToken(refreshTokenDto: RefreshTokenDto): Promise<AuthResponseDto>;
+  logout(userId: string, sessionId?: string): Promise<{ success: boolean; message: string }>;
+  logoutAll(userId: string): Promise<{ success: boolean; message: string }>;
   verifyEmail(token: string): Promise<{ success: boolean; message: string }>;
   requestPasswordReset(requestPasswordResetDto: RequestPasswordResetDto): Promise<{ success: boolean; message: string }>;
   verifyPasswordResetToken(token: string): Promise<{ success: boolean; message: string }>;
   resetPassword(resetPasswordDto: ResetPasswordDto): Promise<{ success: boolean; message: string }>;
   changePassword(userId: string, changePasswordDto: ChangePasswordDto): Promise<{ success: boolean; message: string }>;
+  requestPasswordSetConfirmation(userId: string): Promise<{ success: boolean; message: string }>;
+  setPassword(userId: string, setPasswordDto: SetPasswordDto, sessionId?: string): Promise<{ success: boolean; message: string }>;
 }
 
 @injectable()
 export class AuthService implements IAuthService {
-  private readonly SALT_ROUNDS = 10;
   private readonly PASSWORD_RESET_TOKEN_EXPIRY_HOURS = 1;
+  private readonly DEFAULT_MAGIC_LINK_EXPIRY_SECONDS = 15 * 60;
+  private readonly DEFAULT_PASSWORD_SET_REAUTH_SECONDS = 10 * 60;
+  private readonly DEFAULT_PASSWORD_SET_TOKEN_EXPIRY_SECONDS = 30 * 60;
 
   constructor(
     @inject(TYPES.UserRepository) private userRepository: IUserRepository,
     @inject(TYPES.UserEventsPublisher) private userEventsPublisher: IUserEventsPublisher,
     @inject(TYPES.GoogleAuthService) private googleAuthService: IGoogleAuthService,
-    @inject(TYPES.UserAuthService) private userAuthService: IUserAuthService,
+    @inject(TYPES.OidcClientService) private oidcClientService: IOidcClientService,
+    @inject(TYPES.ExternalIdentityRepository) private externalIdentityRepository: IExternalIdentityRepository,
+    @inject(TYPES.RefreshTokenService) private refreshTokenService: IRefreshTokenService,
+    @inject(TYPES.SessionService) private sessionService: ISessionService,
+    @inject(TYPES.MfaService) private mfaService: IMfaService,
+    @inject(TYPES.WebAuthnService) private webAuthnService: IWebAuthnService,
+    @inject(TYPES.LoginThrottleService) private loginThrottleService: ILoginThrottleService,
+    @inject(TYPES.PasswordPolicyService) private passwordPolicyService: IPasswordPolicyService,
+    @inject(TYPES.PasswordHistoryService) private passwordHistoryService: IPasswordHistoryService,
+    @inject(TYPES.PasswordHasher) private passwordHasher: IPasswordHasher,
+    @inject(TYPES.AccessTokenService) private accessTokenService: IAccessTokenService,
     @inject(TYPES.Logger) private logger: ILogger,
   ) {}
 
-  async register(registerDto: RegisterDto): Promise<AuthResponseDto> {
+  async register(registerDto: RegisterDto, metadata: SessionMetadata = {}): Promise<AuthResponseDto> {
     const { email, password, firstName, lastName } = registerDto;
 
     this.logger.info('User registration attempt', { email });
@@ -49,7 +84,9 @@ export class AuthService implements IAuthService {
       throw new AppError('User with this email already exists', 400);
     }
 
-    const hashedPassword = await bcrypt.hash(password, this.SALT_ROUNDS);
+    this.passwordPolicyService.assertPasswordAllowed(password, { email, firstName, lastName });
+
+    const hashedPassword = await this.passwordHasher.hash(password);
     const emailVerificationToken = this.generateEmailVerificationToken();
 
     const user = await this.userRepository.createUser({
@@ -60,94 +97,201 @@ export class AuthService implements IAuthService {
       emailVerificationToken,
     });
 
+    await this.passwordHistoryService.recordPassword(user.id, hashedPassword);
+
     await this.userEventsPublisher.onUserRegistered(user);
 
     this.logger.info('User registered successfully', { userId: user.id, email: user.email });
 
-    const token = await this.generateToken(user.id);
+    const tokens = await this.issueAuthTokens(user.id, metadata);
 
     return {
       user: this.mapUserToDto(user),
-      token,
+      ...tokens,
     };
   }
 
-  async login(loginDto: LoginDto): Promise<AuthResponseDto> {
+  async login(loginDto: LoginDto, metadata: SessionMetadata = {}): Promise<AuthResponseDto | MfaChallengeResponseDto> {
     const { email, password } = loginDto;
 
     this.logger.info('User login attempt', { email });
 
+    await this.loginThrottleService.assertLoginAllowed(email, metadata.ipAddress);
+
     const user = await this.userRepository.findUserByEmail(email);
     if (!user) {
+      // Compare anyway so response timing does not reveal whether the account exists
+      await this.passwordHasher.verifyDummy(password);
       this.logger.warn('Login failed: user not found', { email });
+      await this.loginThrottleService.recordFailedLogin(email, metadata.ipAddress, null);
       throw new AppError('Invalid credentials', 401);
     }
 
     if (!user.password) {
+      await this.passwordHasher.verifyDummy(password);
       this.logger.warn('Login failed: user has no password (OAuth-only account)', { email, userId: user.id });
+      await this.loginThrottleService.recordFailedLogin(email, metadata.ipAddress, user);
       throw new AppError('Invalid credentials', 401);
     }
 
-    const isPasswordValid = await bcrypt.compare(password, user.password);
+    const isPasswordValid = await this.passwordHasher.verify(password, user.password);
     if (!isPasswordValid) {
       this.logger.warn('Login failed: invalid password', { email, userId: user.id });
+      await this.loginThrottleService.recordFailedLogin(email, metadata.ipAddress, user);
       throw new AppError('Invalid credentials', 401);
     }
 
+    if (this.passwordHasher.needsRehash(user.password)) {
+      // The plaintext is only available here, so upgrade outdated hashes on login
+      await this.userRepository.updateUser(user.id, { password: await this.passwordHasher.hash(password) });
+      this.logger.info('Password hash upgraded', { userId: user.id, algorithm: config.passwordHashing.algorithm });
+    }
+
+    this.assertAccountEnabled(user);
+
+    // The lockout counter is only reset once the second factor succeeds, so a
+    // known password cannot be used to retry codes without limit
+    if (this.mfaService.isMfaEnabled(user)) {
+      this.logger.info('Login requires second factor', { userId: user.id });
+      return await this.mfaService.createChallenge(user.id);
+    }
+
+    await this.loginThrottleService.recordSuccessfulLogin(email);
+
     this.logger.info('User logged in successfully', { userId: user.id, email: user.email });
 
-    const token = await this.generateToken(user.id);
+    const tokens = await this.issueAuthTokens(user.id, metadata);
 
     return {
       user: this.mapUserToDto(user),
-      token,
+      ...tokens,
     };
   }
 
-  private async generateToken(userId: string): Promise<string> {
-    if (!config.jwt.privateKey) {
-      throw new Error('JWT private key not configured');
+  async verifyMfa(verifyMfaDto: VerifyMfaDto, metadata: SessionMetadata = {}): Promise<AuthResponseDto> {
+    const userId = await this.mfaService.verifyChallenge(verifyMfaDto.challengeToken, verifyMfaDto.code, metadata.ipAddress);
+
+    const user = await this.userRepository.findUserById(userId);
+    if (!user) {
+      throw new AppError('Invalid or expired MFA challenge', 401);
     }
 
-    const authInfo = await this.userAuthService.resolveUserAuthInfo(userId);
-    if (!authInfo) {
-      throw new Error('User not found');
+    this.assertAccountEnabled(user);
+
+    this.logger.info('User logged in successfully', { userId: user.id, email: user.email, mfa: true });
+
+    const tokens = await this.issueAuthTokens(user.id, metadata);
+
+    return {
+      user: this.mapUserToDto(user),
+      ...tokens,
+    };
+  }
+
+  async loginWithPasskey(credential: AuthenticationCredentialDto, metadata: SessionMetadata = {}): Promise<AuthResponseDto> {
+    const userId = await this.webAuthnService.verifyAuthentication(credential);
+
+    const user = await this.userRepository.findUserById(userId);
+    if (!user) {
+      throw new AppError('Passkey authentication failed', 401);
     }
 
-    const now = Math.floor(Date.now() / 1000);
-    
-    let expiresInSeconds: number;
-    if (config.jwt.expiresIn.endsWith('h')) {
-      expiresInSeconds = parseInt(config.jwt.expiresIn) * 3600;
-    } else if (config.jwt.expiresIn.endsWith('d')) {
-      expiresInSeconds = parseInt(config.jwt.expiresIn) * 24 * 3600;
-    } else if (config.jwt.expiresIn.endsWith('m')) {
-      expiresInSeconds = parseInt(config.jwt.expiresIn) * 60;
-    } else {
-      expiresInSeconds = parseInt(config.jwt.expiresIn) || 3600;
-    }
-
-    const payload = {
-      sub: authInfo.userId,
-      iss: config.jwt.issuer,
-      aud: config.jwt.audience,
-      iat: now,
-      exp: now + expiresInSeconds,
-      nbf: now,
-      org_id: authInfo.organizationId,
-      roles: authInfo.roles,
-      permissions: authInfo.permissions,
-      email: authInfo.email,
-      name: authInfo.name,
+    this.assertAccountEnabled(user);
+
+    // A passkey already proves possession and, usually, user verification, so no TOTP step follows
+    this.logger.info('User logged in successfully', { userId: user.id, email: user.email, passkey: true });
+
+    const tokens = await this.issueAuthTokens(user.id, metadata);
+
+    return {
+      user: this.mapUserToDto(user),
+      ...tokens,
     };
+  }
 
-    return jwt.sign(payload, config.jwt.privateKey, {
-      algorithm: 'RS256',
-      header: {
-        alg: 'RS256',
-        kid: generateKid(config.jwt.publicKey),
-      },
-    });
+  async refreshToken(refreshTokenDto: RefreshTokenDto): Promise<AuthResponseDto> {
+    const rotated = await this.refreshTokenService.rotateRefreshToken(refreshTokenDto.refreshToken);
+
+    // Refresh token families are keyed by the session they were issued for
+    const session = await this.sessionService.getActiveSession(rotated.familyId);
+    if (!session) {
+      this.logger.warn('Token refresh failed: session is no longer active', { userId: rotated.userId, sessionId: rotated.familyId });
+      await this.refreshTokenService.revokeRefreshTokenFamily(rotated.familyId);
+      throw new AppError('Invalid refresh token', 401);
+    }
+
+    const user = await this.userRepository.findUserById(rotated.userId);
+    if (!user) {
+      this.logger.warn('Token refresh failed: user not found', { userId: rotated.userId });
+      await this.refreshTokenService.revokeRefreshTokenFamily(rotated.familyId);
+      throw new AppError('Invalid refresh token', 401);
+    }
+
+    this.assertAccountEnabled(user);
+
+    await this.sessionService.touchSession(session.id, rotated.expiresAt);
+
+    const token = await this.generateToken(user.id, session.id);
+
+    this.logger.info('Access token refreshed', { userId: user.id });
+
+    return {
+      user: this.mapUserToDto(user),
+      token,
+      refreshToken: rotated.token,
+      refreshTokenExpiresAt: rotated.expiresAt,
+    };
+  }
+
+  async logout(userId: string, sessionId?: string): Promise<{ success: boolean; message: string }> {
+    this.logger.info('Logout attempt', { userId, sessionId });
+
+    if (!sessionId) {
+      this.logger.warn('Logout failed: token is not bound to a session', { userId });
+      throw new AppError('Token is not bound to a session', 400);
+    }
+
+    await this.sessionService.revokeSession(userId, sessionId);
+
+    this.logger.info('User logged out', { userId, sessionId });
+
+    return { success: true, message: 'Logged out successfully' };
+  }
+
+  async logoutAll(userId: string): Promise<{ success: boolean; message: string }> {
+    this.logger.info('Logout from all sessions attempt', { userId });
+
+    const count = await this.sessionService.revokeAllSessions(userId, 'logout-all');
+
+    this.logger.info('User logged out from all sessions', { userId, count });
+
+    return { success: true, message: 'Logged out from all sessions successfully' };
+  }
+
+  private async issueAuthTokens(
+    userId: string,
+    metadata: SessionMetadata,
+  ): Promise<Pick<AuthResponseDto, 'token' | 'refreshToken' | 'refreshTokenExpiresAt'>> {
+    const session = await this.sessionService.createSession(userId, metadata);
+    const token = await this.generateToken(userId, session.id);
+    const refreshToken = await this.refreshTokenService.issueRefreshToken(userId, session.id);
+
+    return {
+      token,
+      refreshToken: refreshToken.token,
+      refreshTokenExpiresAt: refreshToken.expiresAt,
+    };
+  }
+
+  private async generateToken(userId: string, sessionId: string): Promise<string> {
+    return await this.accessTokenService.issueAccessToken(userId, sessionId);
+  }
+
+  private assertAccountEnabled(user: User): void {
+    if (user.disabledAt) {
+      this.logger.warn('Authentication rejected: account is disabled', { userId: user.id });
+      throw new AppError('Account is disabled', 403);
+    }
   }
 
   private mapUserToDto(user: User): AuthResponseDto['user'] {
@@ -172,73 +316,178 @@ export class AuthService implements IAuthService {
     };
   }
 
-  async googleOAuth(googleOAuthDto: GoogleOAuthDto): Promise<GoogleOAuthResponseDto> {
+  async googleOAuth(
+    googleOAuthDto: GoogleOAuthDto,
+    metadata: SessionMetadata = {},
+  ): Promise<GoogleOAuthResponseDto | MfaChallengeResponseDto> {
     const { idToken } = googleOAuthDto;
 
     this.logger.info('Google OAuth attempt');
 
     const googleUser = await this.googleAuthService.verifyIdToken(idToken);
 
-    let user = await this.userRepository.findUserByGoogleId(googleUser.sub);
+    return await this.signInWithExternalIdentity(this.mapGoogleUserToProfile(googleUser), metadata);
+  }
+
+  startGoogleAuthorization(returnTo?: string): GoogleAuthorizationRequest {
+    return this.googleAuthService.createAuthorizationUrl(returnTo);
+  }
+
+  async completeGoogleAuthorization(
+    callbackDto: GoogleAuthorizationCallbackDto,
+    metadata: SessionMetadata = {},
+  ): Promise<GoogleAuthorizationResponseDto> {
+    this.logger.info('Google authorization code callback');
+
+    const { googleUser, returnTo } = await this.googleAuthService.exchangeAuthorizationCode(
+      callbackDto.code,
+      callbackDto.state,
+      callbackDto.browserBinding,
+    );
+    const auth = await this.signInWithExternalIdentity(this.mapGoogleUserToProfile(googleUser), metadata);
+
+    return { auth, returnTo };
+  }
+
+  async oidcLogin(
+    provider: string,
+    oidcLoginDto: OidcLoginDto,
+    metadata: SessionMetadata = {},
+  ): Promise<ExternalAuthResponseDto | MfaChallengeResponseDto> {
+    this.logger.info('OIDC login attempt', { provider });
+
+    const profile = await this.oidcClientService.verifyIdToken(provider, oidcLoginDto.idToken, oidcLoginDto.nonce);
+
+    return await this.signInWithExternalIdentity(profile, metadata);
+  }
+
+  private mapGoogleUserToProfile(googleUser: GoogleUserInfo): ExternalUserProfile {
+    return {
+      provider: 'google',
+      subject: googleUser.sub,
+      email: googleUser.email,
+      emailVerified: googleUser.email_verified,
+      givenName: googleUser.given_name,
+      familyName: googleUser.family_name,
+      name: googleUser.name,
+      picture: googleUser.picture,
+    };
+  }
+
+  /**
+   * Signs in with a verified external identity. A known identity signs in its
+   * user; otherwise the identity is linked to the account with the same email,
+   * or a new account is created for it. Users with a second factor get the same
+   * MFA challenge as a password login, before any identity is linked.
+   */
+  private async signInWithExternalIdentity(
+    profile: ExternalUserProfile,
+    metadata: SessionMetadata,
+  ): Promise<ExternalAuthResponseDto | MfaChallengeResponseDto> {
+    const { provider } = profile;
+
+    const identity = await this.externalIdentityRepository.findExternalIdentity(provider, profile.subject);
+
+    if (identity) {
+      const user = await this.userRepository.findUserById(identity.userId);
+      if (!user) {
+        throw new AppError('Invalid credentials', 401);
+      }
+
+      this.assertAccountEnabled(user);
 
-    if (user) {
-      this.logger.info('Google OAuth: existing OAuth user login', { userId: user.id, email: user.email });
-      const token = await this.generateToken(user.id);
+      if (this.mfaService.isMfaEnabled(user)) {
+        this.logger.info('External sign-in requires second factor', { provider, userId: user.id });
+        return await this.mfaService.createChallenge(user.id);
+      }
+
+      await this.externalIdentityRepository.touchExternalIdentity(identity.id);
+
+      this.logger.info('External sign-in: existing identity', { provider, userId: user.id, email: user.email });
+      const tokens = await this.issueAuthTokens(user.id, metadata);
       return {
         user: this.mapUserToDto(user),
-        token,
+        ...tokens,
         isNewUser: false,
         accountLinked: false,
       };
     }
 
-    const existingUser = await this.userRepository.findUserByEmail(googleUser.email);
+    const existingUser = await this.userRepository.findUserByEmail(profile.email);
 
     if (existingUser) {
-      this.logger.info('Google OAuth: linking to existing account', { userId: existingUser.id, email: existingUser.email });
-      
-      await this.userRepository.updateUser(existingUser.id, {
-        googleId: googleUser.sub,
-        authProvider: existingUser.authProvider === 'local' ? 'local' : 'google',
-        emailVerified: true,
+      this.assertAccountEnabled(existingUser);
+
+      // Linking trusts the provider's claim to the address, so it must be verified
+      if (!profile.emailVerified) {
+        this.logger.warn('External sign-in failed: unverified email matches an existing account', { provider, userId: existingUser.id });
+        throw new AppError('Email address is not verified by the identity provider', 401);
+      }
+
+      const linkedIdentities = await this.externalIdentityRepository.findExternalIdentitiesByUserId(existingUser.id);
+      if (linkedIdentities.some(linked => linked.provider === provider)) {
+        this.logger.warn('External sign-in failed: account linked to another identity', { provider, userId: existingUser.id });
+        throw new AppError('Account is already linked to a different identity at this provider', 409);
+      }
+
+      // Without the second factor the identity is not linked; it can be linked after signing in
+      if (this.mfaService.isMfaEnabled(existingUser)) {
+        this.logger.info('External sign-in requires second factor', { provider, userId: existingUser.id });
+        return await this.mfaService.createChallenge(existingUser.id);
+      }
+
+      this.logger.info('External sign-in: linking to existing account', { provider, userId: existingUser.id, email: existingUser.email });
+
+      await this.externalIdentityRepository.createExternalIdentity({
+        userId: existingUser.id,
+        provider,
+        subject: profile.subject,
+        email: profile.email,
       });
+      await this.userRepository.updateUser(existingUser.id, { emailVerified: true });
 
       const updatedUser = await this.userRepository.findUserById(existingUser.id);
       if (!updatedUser) {
         throw new AppError('Failed to update user', 500);
       }
 
-      const token = await this.generateToken(updatedUser.id);
+      const tokens = await this.issueAuthTokens(updatedUser.id, metadata);
 
       return {
         user: this.mapUserToDto(updatedUser),
-        token,
+        ...tokens,
         isNewUser: false,
         accountLinked: true,
       };
     }
 
-    this.logger.info('Google OAuth: creating new user', { email: googleUser.email });
+    this.logger.info('External sign-in: creating new user', { provider, email: profile.email });
 
     const newUser = await this.userRepository.createUser({
-      email: googleUser.email,
+      email: profile.email,
       password: null,
-      firstName: googleUser.given_name || '',
-      lastName: googleUser.family_name || '',
-      googleId: googleUser.sub,
-      authProvider: 'google',
-      emailVerified: true,
+      firstName: profile.givenName || '',
+      lastName: profile.familyName || '',
+      authProvider: provider,
+      emailVerified: profile.emailVerified,
+    });
+
+    await this.externalIdentityRepository.createExternalIdentity({
+      userId: newUser.id,
+      provider,
+      subject: profile.subject,
+      email: profile.email,
     });
 
     await this.userEventsPublisher.onUserRegistered(newUser);
 
-    this.logger.info('Google OAuth: user created successfully', { userId: newUser.id, email: newUser.email });
+    this.logger.info('External sign-in: user created successfully', { provider, userId: newUser.id, email: newUser.email });
 
-    const token = await this.generateToken(newUser.id);
+    const tokens = await this.issueAuthTokens(newUser.id, metadata);
 
     return {
       user: this.mapUserToDto(newUser),
-      token,
+      ...tokens,
       isNewUser: true,
       accountLinked: false,
     };
@@ -277,6 +526,14 @@ export class AuthService implements IAuthService {
     return crypto.randomBytes(32).toString('hex');
   }
 
+  private generateMagicLinkToken(): string {
+    return crypto.randomBytes(32).toString('hex');
+  }
+
+  private generatePasswordSetToken(): string {
+    return crypto.randomBytes(32).toString('hex');
+  }
+
   async requestPasswordReset(requestPasswordResetDto: RequestPasswordResetDto): Promise<{ success: boolean; message: string }> {
     const { email } = requestPasswordResetDto;
 
@@ -307,6 +564,94 @@ export class AuthService implements IAuthService {
     return { success: true, message: 'If the email exists, a password reset link has been sent' };
   }
 
+  async requestMagicLink(requestMagicLinkDto: RequestMagicLinkDto): Promise<{ success: boolean; message: string }> {
+    const { email } = requestMagicLinkDto;
+    const response = { success: true, message: 'If the email exists, a sign-in link has been sent' };
+
+    this.logger.info('Magic link requested', { email });
+
+    const user = await this.userRepository.findUserByEmail(email);
+    if (!user) {
+      this.logger.warn('Magic link requested for non-existent user', { email });
+      return response;
+    }
+
+    if (user.disabledAt) {
+      this.logger.warn('Magic link requested for disabled account', { userId: user.id });
+      return response;
+    }
+
+    const magicLinkToken = this.generateMagicLinkToken();
+    const expiresAt = new Date(
+      Date.now() + parseDurationToSeconds(config.magicLink.expiresIn, this.DEFAULT_MAGIC_LINK_EXPIRY_SECONDS) * 1000,
+    );
+
+    const updatedUser = await this.userRepository.updateUser(user.id, {
+      magicLinkToken,
+      magicLinkTokenExpiresAt: expiresAt,
+    });
+
+    if (updatedUser) {
+      await this.userEventsPublisher.onMagicLinkRequested(updatedUser, magicLinkToken);
+    }
+
+    this.logger.info('Magic link token generated', { userId: user.id, email: user.email });
+
+    return response;
+  }
+
+  async consumeMagicLink(
+    consumeMagicLinkDto: ConsumeMagicLinkDto,
+    metadata: SessionMetadata = {},
+  ): Promise<AuthResponseDto | MfaChallengeResponseDto> {
+    const { token } = consumeMagicLinkDto;
+
+    this.logger.info('Magic link sign-in attempt');
+
+    const user = await this.userRepository.findUserByMagicLinkToken(token);
+
+    if (!user || !user.magicLinkTokenExpiresAt) {
+      this.logger.warn('Magic link sign-in failed: invalid token');
+      throw new AppError('Invalid or expired sign-in link', 401);
+    }
+
+    if (new Date() > user.magicLinkTokenExpiresAt) {
+      this.logger.warn('Magic link sign-in failed: token expired', { userId: user.id });
+      throw new AppError('Invalid or expired sign-in link', 401);
+    }
+
+    if (!(await this.userRepository.consumeMagicLinkToken(user.id, token))) {
+      this.logger.warn('Magic link sign-in failed: token already used', { userId: user.id });
+      throw new AppError('Invalid or expired sign-in link', 401);
+    }
+
+    this.assertAccountEnabled(user);
+
+    // Following the link proves ownership of the mailbox
+    if (!user.emailVerified) {
+      await this.userRepository.updateUser(user.id, {
+        emailVerified: true,
+        emailVerificationToken: null,
+      });
+      user.emailVerified = true;
+      this.logger.info('Email verified via magic link', { userId: user.id });
+    }
+
+    if (this.mfaService.isMfaEnabled(user)) {
+      this.logger.info('Magic link sign-in requires second factor', { userId: user.id });
+      return await this.mfaService.createChallenge(user.id);
+    }
+
+    this.logger.info('User logged in successfully', { userId: user.id, email: user.email, magicLink: true });
+
+    const tokens = await this.issueAuthTokens(user.id, metadata);
+
+    return {
+      user: this.mapUserToDto(user),
+      ...tokens,
+    };
+  }
+
   async verifyPasswordResetToken(token: string): Promise<{ success: boolean; message: string }> {
     this.logger.info('Password reset token verification attempt', { token });
 
@@ -344,7 +689,10 @@ export class AuthService implements IAuthService {
       throw new AppError('Invalid or expired password reset token', 400);
     }
 
-    const hashedPassword = await bcrypt.hash(newPassword, this.SALT_ROUNDS);
+    this.passwordPolicyService.assertPasswordAllowed(newPassword, user);
+    await this.passwordHistoryService.assertPasswordNotReused(user.id, newPassword);
+
+    const hashedPassword = await this.passwordHasher.hash(newPassword);
 
     await this.userRepository.updateUser(user.id, {
       password: hashedPassword,
@@ -352,6 +700,10 @@ export class AuthService implements IAuthService {
       passwordResetTokenExpiresAt: null,
     });
 
+    await this.passwordHistoryService.recordPassword(user.id, hashedPassword);
+
+    await this.sessionService.revokeAllSessions(user.id, 'password-reset');
+
     this.logger.info('Password reset successfully', { userId: user.id, email: user.email });
 
     return { success: true, message: 'Password has been reset successfully' };
@@ -373,21 +725,137 @@ export class AuthService implements IAuthService {
       throw new AppError('Cannot change password for OAuth-only account', 400);
     }
 
-    const isPasswordValid = await bcrypt.compare(currentPassword, user.password);
+    const isPasswordValid = await this.passwordHasher.verify(currentPassword, user.password);
     if (!isPasswordValid) {
       this.logger.warn('Password change failed: invalid current password', { userId });
       throw new AppError('Current password is incorrect', 401);
     }
 
-    const hashedPassword = await bcrypt.hash(newPassword, this.SALT_ROUNDS);
+    this.passwordPolicyService.assertPasswordAllowed(newPassword, user);
+    await this.passwordHistoryService.assertPasswordNotReused(user.id, newPassword);
+
+    const hashedPassword = await this.passwordHasher.hash(newPassword);
 
     await this.userRepository.updateUser(user.id, {
       password: hashedPassword,
     });
 
+    await this.passwordHistoryService.recordPassword(user.id, hashedPassword);
+
+    await this.sessionService.revokeAllSessions(user.id, 'password-change');
+
     this.logger.info('Password changed successfully', { userId, email: user.email });
 
     return { success: true, message: 'Password has been changed successfully' };
   }
-}
 
+  async requestPasswordSetConfirmation(userId: string): Promise<{ success: boolean; message: string }> {
+    const user = await this.getUserWithoutPassword(userId);
+
+    const passwordSetToken = this.generatePasswordSetToken();
+    const expiresAt = new Date(
+      Date.now() + parseDurationToSeconds(config.passwordSet.tokenExpiresIn, this.DEFAULT_PASSWORD_SET_TOKEN_EXPIRY_SECONDS) * 1000,
+    );
+
+    const updatedUser = await this.userRepository.updateUser(user.id, {
+      passwordSetToken,
+      passwordSetTokenExpiresAt: expiresAt,
+    });
+
+    if (updatedUser) {
+      await this.userEventsPublisher.onPasswordSetRequested(updatedUser, passwordSetToken);
+    }
+
+    this.logger.info('Password set confirmation requested', { userId });
+
+    return { success: true, message: 'A confirmation email has been sent' };
+  }
+
+  /**
+   * Sets the first password on an OAuth-only account. The caller must have signed
+   * in recently or present the token emailed by requestPasswordSetConfirmation.
+   */
+  async setPassword(
+    userId: string,
+    setPasswordDto: SetPasswordDto,
+    sessionId?: string,
+  ): Promise<{ success: boolean; message: string }> {
+    const { password, confirmationToken } = setPasswordDto;
+
+    this.logger.info('Password set attempt', { userId });
+
+    const user = await this.getUserWithoutPassword(userId);
+
+    if (confirmationToken) {
+      const isTokenValid = user.passwordSetToken === confirmationToken
+        && !!user.passwordSetTokenExpiresAt
+        && new Date() <= user.passwordSetTokenExpiresAt;
+
+      if (!isTokenValid) {
+        this.logger.warn('Password set failed: invalid or expired confirmation token', { userId });
+        throw new AppError('Invalid or expired confirmation token', 400);
+      }
+    } else if (!(await this.hasRecentSignIn(userId, sessionId))) {
+      this.logger.warn('Password set failed: re-authentication required', { userId });
+      throw new AppError('Sign in again or request a confirmation email to set a password', 403);
+    }
+
+    this.passwordPolicyService.assertPasswordAllowed(password, user);
+
+    // Consume the token before writing so it cannot be used twice concurrently
+    if (confirmationToken && !(await this.userRepository.consumePasswordSetToken(user.id, confirmationToken))) {
+      throw new AppError('Invalid or expired confirmation token', 400);
+    }
+
+    const hashedPassword = await this.passwordHasher.hash(password);
+
+    const updatedUser = await this.userRepository.updateUser(user.id, {
+      password: hashedPassword,
+      authProvider: 'local',
+      passwordSetToken: null,
+      passwordSetTokenExpiresAt: null,
+    });
+
+    await this.passwordHistoryService.recordPassword(user.id, hashedPassword);
+
+    if (updatedUser) {
+      await this.userEventsPublisher.onPasswordSet(updatedUser);
+    }
+
+    this.logger.info('Password set successfully', { userId, email: user.email });
+
+    return { success: true, message: 'Password has been set successfully' };
+  }
+
+  private async getUserWithoutPassword(userId: string): Promise<User> {
+    const user = await this.userRepository.findUserById(userId);
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    if (user.password) {
+      throw new AppError('Account already has a password; use change password instead', 400);
+    }
+
+    return user;
+  }
+
+  private async hasRecentSignIn(userId: string, sessionId?: string): Promise<boolean> {
+    if (!sessionId) {
+      return false;
+    }
+
+    // Sessions are created at sign-in and survive refresh-token rotation
+    const session = await this.sessionService.getActiveSession(sessionId);
+    if (!session || session.userId !== userId) {
+      return false;
+    }
+
+    const windowMs = parseDurationToSeconds(
+      config.passwordSet.reauthenticationWindow,
+      this.DEFAULT_PASSWORD_SET_REAUTH_SECONDS,
+    ) * 1000;
+
+    return Date.now() - session.createdAt.getTime() <= windowMs;
+  }
+}
@@ -1,9 +1,13 @@
-import { OAuth2Client } from 'google-auth-library';
+import { OAuth2Client, CodeChallengeMethod } from 'google-auth-library';
 import { injectable, inject } from 'inversify';
+import jwt, { JwtPayload } from 'jsonwebtoken';
+import crypto from 'crypto';
 import config from '../config/config';
 import { TYPES } from '../types/di.types';
 import { ILogger } from '../logging/logger.interface';
 import { AppError } from '../middlewares/errorHandler';
+import { parseDurationToSeconds } from '../utils/duration';
+import { ITokenRevocationService } from './tokenRevocationService';
 
 export interface GoogleUserInfo {
   sub: string; // Google user ID
@@ -15,25 +19,53 @@ export interface GoogleUserInfo {
   picture?: string;
 }
 
+export interface GoogleAuthorizationRequest {
+  url: string;
+  // Secret to keep in the browser that started the flow, until expiresAt
+  browserBinding: string;
+  expiresAt: Date;
+}
+
+export interface GoogleAuthorizationResult {
+  googleUser: GoogleUserInfo;
+  returnTo: string | null;
+}
+
+interface GoogleAuthorizationState extends JwtPayload {
+  // SHA-256 of the browser binding
+  binding: string;
+  returnTo: string | null;
+}
+
 export interface IGoogleAuthService {
-  verifyIdToken(idToken: string): Promise<GoogleUserInfo>;
+  verifyIdToken(idToken: string, nonce?: string): Promise<GoogleUserInfo>;
+  createAuthorizationUrl(returnTo?: string): GoogleAuthorizationRequest;
+  exchangeAuthorizationCode(code: string, state: string, browserBinding?: string): Promise<GoogleAuthorizationResult>;
 }
 
 @injectable()
 export class GoogleAuthService implements IGoogleAuthService {
+  private readonly SCOPES = ['openid', 'email', 'profile'];
+  private readonly STATE_AUDIENCE = 'google-authorization-state';
+  private readonly DEFAULT_STATE_EXPIRY_SECONDS = 600;
   private client: OAuth2Client;
 
   constructor(
+    @inject(TYPES.TokenRevocationService) private tokenRevocationService: ITokenRevocationService,
     @inject(TYPES.Logger) private logger: ILogger,
   ) {
     if (!config.googleOAuth.clientId) {
       this.logger.warn('Google OAuth client ID not configured');
     }
 
-    this.client = new OAuth2Client(config.googleOAuth.clientId);
+    this.client = new OAuth2Client(
+      config.googleOAuth.clientId,
+      config.googleOAuth.clientSecret,
+      config.googleOAuth.redirectUri,
+    );
   }
 
-  async verifyIdToken(idToken: string): Promise<GoogleUserInfo> {
+  async verifyIdToken(idToken: string, nonce?: string): Promise<GoogleUserInfo> {
     try {
       this.logger.info('Verifying Google ID token');
 
@@ -56,6 +88,10 @@ export class GoogleAuthService implements IGoogleAuthService {
         throw new AppError('Invalid Google ID token: no user ID', 401);
       }
 
+      if (nonce !== undefined && payload.nonce !== nonce) {
+        throw new AppError('Invalid Google ID token: nonce mismatch', 401);
+      }
+
       this.logger.info('Google ID token verified successfully', { 
         email: payload.email,
         sub: payload.sub 
@@ -80,5 +116,112 @@ export class GoogleAuthService implements IGoogleAuthService {
       throw new AppError('Invalid Google ID token', 401);
     }
   }
-}
 
+  /**
+   * Builds the Google consent URL for the authorization code flow. The random
+   * PKCE verifier and nonce form the browser binding, which the caller keeps in
+   * the browser; the state is a short-lived HMAC-signed token carrying its hash
+   * and the return URL, so a callback URL is useless without that browser.
+   */
+  createAuthorizationUrl(returnTo?: string): GoogleAuthorizationRequest {
+    this.assertCodeFlowConfigured();
+
+    if (returnTo && !config.googleOAuth.returnUrls.includes(returnTo)) {
+      throw new AppError('Return URL is not allowed', 400);
+    }
+
+    const codeVerifier = crypto.randomBytes(32).toString('base64url');
+    const nonce = crypto.randomBytes(16).toString('base64url');
+    const browserBinding = `${codeVerifier}.${nonce}`;
+    const expiresIn = parseDurationToSeconds(config.googleOAuth.stateExpiresIn, this.DEFAULT_STATE_EXPIRY_SECONDS);
+
+    const stateClaims = { binding: this.hashBinding(browserBinding), returnTo: returnTo ?? null };
+    const state = jwt.sign(stateClaims, this.deriveKey('authorization-state'), {
+      algorithm: 'HS256',
+      audience: this.STATE_AUDIENCE,
+      jwtid: crypto.randomUUID(),
+      expiresIn,
+    });
+
+    const url = this.client.generateAuthUrl({
+      scope: this.SCOPES,
+      state,
+      nonce,
+      code_challenge: crypto.createHash('sha256').update(codeVerifier).digest('base64url'),
+      code_challenge_method: CodeChallengeMethod.S256,
+    });
+
+    return { url, browserBinding, expiresAt: new Date(Date.now() + expiresIn * 1000) };
+  }
+
+  /**
+   * Completes the flow started by createAuthorizationUrl. The state must come
+   * with the browser binding issued alongside it, and is accepted only once.
+   */
+  async exchangeAuthorizationCode(code: string, state: string, browserBinding?: string): Promise<GoogleAuthorizationResult> {
+    this.assertCodeFlowConfigured();
+
+    let claims: GoogleAuthorizationState;
+    try {
+      claims = jwt.verify(state, this.deriveKey('authorization-state'), {
+        algorithms: ['HS256'],
+        audience: this.STATE_AUDIENCE,
+      }) as GoogleAuthorizationState;
+    } catch (error) {
+      this.logger.warn('Google authorization failed: invalid state', { error: (error as Error).message });
+      throw new AppError('Invalid authorization state', 400);
+    }
+
+    if (!claims.jti || !claims.exp || typeof claims.binding !== 'string') {
+      throw new AppError('Invalid authorization state', 400);
+    }
+
+    const [codeVerifier, nonce] = browserBinding?.split('.') ?? [];
+    if (!browserBinding || !codeVerifier || !nonce || !this.matchesBinding(browserBinding, claims.binding)) {
+      this.logger.warn('Google authorization failed: state was not issued to this browser', { stateId: claims.jti });
+      throw new AppError('Invalid authorization state', 400);
+    }
+
+    if (!(await this.tokenRevocationService.revokeTokenOnce(claims.jti, new Date(claims.exp * 1000)))) {
+      this.logger.warn('Google authorization failed: state already used', { stateId: claims.jti });
+      throw new AppError('Invalid authorization state', 400);
+    }
+
+    let idToken: string | null | undefined;
+    try {
+      const { tokens } = await this.client.getToken({ code, codeVerifier });
+      idToken = tokens.id_token;
+    } catch (error) {
+      this.logger.error('Google authorization code exchange failed', error instanceof Error ? error : new Error(String(error)));
+      throw new AppError('Google authorization failed', 401);
+    }
+
+    if (!idToken) {
+      throw new AppError('Google authorization failed: no ID token', 401);
+    }
+
+    const googleUser = await this.verifyIdToken(idToken, nonce);
+
+    return { googleUser, returnTo: claims.returnTo };
+  }
+
+  private assertCodeFlowConfigured(): void {
+    if (!config.googleOAuth.clientId || !config.googleOAuth.clientSecret) {
+      throw new AppError('Google authorization code flow is not configured', 503);
+    }
+  }
+
+  private deriveKey(purpose: string): Buffer {
+    return crypto.createHmac('sha256', config.googleOAuth.clientSecret).update(purpose).digest();
+  }
+
+  private hashBinding(browserBinding: string): string {
+    return crypto.createHash('sha256').update(browserBinding).digest('base64url');
+  }
+
+  private matchesBinding(browserBinding: string, expectedHash: string): boolean {
+    const actual = Buffer.from(this.hashBinding(browserBinding));
+    const expected = Buffer.from(expectedHash);
+    return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+  }
+}
@@ -0,0 +1,94 @@
+import { injectable, inject } from 'inversify';
+import { IUserRepository } from '../repositories/userRepository';
+import { IExternalIdentityRepository } from '../repositories/externalIdentityRepository';
+import { IWebAuthnRepository } from '../repositories/webauthnRepository';
+import { IGoogleAuthService } from './googleAuthService';
+import { ExternalIdentityResponseDto } from '../dto/identity.dto';
+import { ExternalIdentity } from '../models/externalIdentity';
+import { TYPES } from '../types/di.types';
+import { ILogger } from '../logging/logger.interface';
+import { AppError } from '../middlewares/errorHandler';
+
+export interface IIdentityService {
+  listIdentities(userId: string): Promise<ExternalIdentityResponseDto[]>;
+  linkGoogleIdentity(userId: string, idToken: string): Promise<ExternalIdentityResponseDto>;
+  unlinkIdentity(userId: string, provider: string): Promise<void>;
+}
+
+@injectable()
+export class IdentityService implements IIdentityService {
+  constructor(
+    @inject(TYPES.UserRepository) private userRepository: IUserRepository,
+    @inject(TYPES.ExternalIdentityRepository) private externalIdentityRepository: IExternalIdentityRepository,
+    @inject(TYPES.WebAuthnRepository) private webAuthnRepository: IWebAuthnRepository,
+    @inject(TYPES.GoogleAuthService) private googleAuthService: IGoogleAuthService,
+    @inject(TYPES.Logger) private logger: ILogger,
+  ) {}
+
+  async listIdentities(userId: string): Promise<ExternalIdentityResponseDto[]> {
+    const identities = await this.externalIdentityRepository.findExternalIdentitiesByUserId(userId);
+    return identities.map(identity => this.mapToDto(identity));
+  }
+
+  async linkGoogleIdentity(userId: string, idToken: string): Promise<ExternalIdentityResponseDto> {
+    const googleUser = await this.googleAuthService.verifyIdToken(idToken);
+
+    const existing = await this.externalIdentityRepository.findExternalIdentity('google', googleUser.sub);
+    if (existing) {
+      if (existing.userId === userId) {
+        throw new AppError('This Google account is already linked to your account', 409);
+      }
+      this.logger.warn('Identity link failed: Google account belongs to another user', { userId });
+      throw new AppError('This Google account is linked to another user', 409);
+    }
+
+    const identities = await this.externalIdentityRepository.findExternalIdentitiesByUserId(userId);
+    if (identities.some(identity => identity.provider === 'google')) {
+      throw new AppError('A different Google account is already linked; unlink it first', 409);
+    }
+
+    const identity = await this.externalIdentityRepository.createExternalIdentity({
+      userId,
+      provider: 'google',
+      subject: googleUser.sub,
+      email: googleUser.email,
+    });
+
+    this.logger.info('External identity linked', { userId, provider: 'google' });
+
+    return this.mapToDto(identity);
+  }
+
+  async unlinkIdentity(userId: string, provider: string): Promise<void> {
+    const user = await this.userRepository.findUserById(userId);
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    const identities = await this.externalIdentityRepository.findExternalIdentitiesByUserId(userId);
+    if (!identities.some(identity => identity.provider === provider)) {
+      throw new AppError('Identity not found', 404);
+    }
+
+    // A password, another provider or a passkey must remain to sign in with
+    const passkeys = await this.webAuthnRepository.findCredentialsByUserId(userId);
+    if (!user.password && identities.length === 1 && passkeys.length === 0) {
+      this.logger.warn('Identity unlink refused: no other sign-in method', { userId, provider });
+      throw new AppError('Cannot unlink the only sign-in method for this account; set a password or add a passkey first', 409);
+    }
+
+    await this.externalIdentityRepository.deleteExternalIdentity(userId, provider);
+
+    this.logger.info('External identity unlinked', { userId, provider });
+  }
+
+  private mapToDto(identity: ExternalIdentity): ExternalIdentityResponseDto {
+    return {
+      id: identity.id,
+      provider: identity.provider,
+      email: identity.email,
+      lastUsedAt: identity.lastUsedAt,
+      createdAt: identity.createdAt,
+    };
+  }
+}
@@ -0,0 +1,103 @@
+import { injectable, inject } from 'inversify';
+import { IUserRepository } from '../repositories/userRepository';
+import { IUserAuthService } from './userAuthService';
+import { IAccessTokenService } from './accessTokenService';
+import { IUserEventsPublisher } from '../events/userEventsPublisher';
+import { ImpersonateUserDto, ImpersonationResponseDto } from '../dto/impersonation.dto';
+import { TYPES } from '../types/di.types';
+import { ILogger } from '../logging/logger.interface';
+import { AppError, ValidationError } from '../middlewares/errorHandler';
+
+export interface IImpersonationService {
+  impersonateUser(actorUserId: string, userId: string, impersonateUserDto: ImpersonateUserDto): Promise<ImpersonationResponseDto>;
+}
+
+/**
+ * Lets support engineers act as a user. The admin may only impersonate users
+ * whose permissions they already hold, so impersonation never widens access,
+ * and every session started is published as a user.impersonated event.
+ */
+@injectable()
+export class ImpersonationService implements IImpersonationService {
+  private readonly MAX_REASON_LENGTH = 500;
+
+  constructor(
+    @inject(TYPES.UserRepository) private userRepository: IUserRepository,
+    @inject(TYPES.UserAuthService) private userAuthService: IUserAuthService,
+    @inject(TYPES.AccessTokenService) private accessTokenService: IAccessTokenService,
+    @inject(TYPES.UserEventsPublisher) private userEventsPublisher: IUserEventsPublisher,
+    @inject(TYPES.Logger) private logger: ILogger,
+  ) {}
+
+  async impersonateUser(
+    actorUserId: string,
+    userId: string,
+    impersonateUserDto: ImpersonateUserDto,
+  ): Promise<ImpersonationResponseDto> {
+    const reason = this.validateReason(impersonateUserDto.reason);
+
+    if (actorUserId === userId) {
+      throw new AppError('You cannot impersonate yourself', 400);
+    }
+
+    const [actorAuthInfo, userAuthInfo] = await Promise.all([
+      this.userAuthService.resolveUserAuthInfo(actorUserId),
+      this.userAuthService.resolveUserAuthInfo(userId),
+    ]);
+
+    if (!actorAuthInfo) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    // Admins scoped to an organization cannot see users outside it
+    if (!userAuthInfo || (actorAuthInfo.organizationId && userAuthInfo.organizationId !== actorAuthInfo.organizationId)) {
+      throw new AppError('User not found', 404);
+    }
+
+    if (userAuthInfo.disabledAt) {
+      throw new AppError('Disabled users cannot be impersonated', 400);
+    }
+
+    const missingPermissions = userAuthInfo.permissions.filter(permission => !actorAuthInfo.permissions.includes(permission));
+    if (missingPermissions.length > 0) {
+      this.logger.warn('Impersonation rejected: user holds permissions the admin lacks', {
+        userId,
+        impersonatorId: actorUserId,
+        missingPermissions,
+      });
+      throw new AppError('You cannot impersonate a user with permissions you do not hold', 403);
+    }
+
+    const [user, actor] = await Promise.all([
+      this.userRepository.findUserById(userId),
+      this.userRepository.findUserById(actorUserId),
+    ]);
+    if (!user || !actor) {
+      throw new AppError('User not found', 404);
+    }
+
+    const token = await this.accessTokenService.issueImpersonationToken(userId, actorUserId);
+    const expiresAt = new Date(Date.now() + this.accessTokenService.getImpersonationExpiresInSeconds() * 1000);
+
+    // Published before the token is handed out, so no impersonation goes unaudited
+    await this.userEventsPublisher.onUserImpersonated(user, actor, reason, expiresAt);
+
+    this.logger.info('User impersonation started', { userId, impersonatorId: actorUserId, reason, expiresAt });
+
+    return { token, expiresAt, userId, impersonatorId: actorUserId };
+  }
+
+  private validateReason(reason: unknown): string | null {
+    if (reason === undefined || reason === null) {
+      return null;
+    }
+
+    if (typeof reason !== 'string' || reason.trim().length > this.MAX_REASON_LENGTH) {
+      throw new ValidationError('Invalid impersonation request', [
+        { code: 'invalid_reason', message: `reason must be a string of at most ${this.MAX_REASON_LENGTH} characters` },
+      ]);
+    }
+
+    return reason.trim() || null;
+  }
+}
@@ -0,0 +1,118 @@
+import { injectable, inject } from 'inversify';
+import { ILoginAttemptRepository } from '../repositories/loginAttemptRepository';
+import { IUserEventsPublisher } from '../events/userEventsPublisher';
+import { LoginAttemptScope } from '../models/loginAttempt';
+import { TYPES } from '../types/di.types';
+import { ILogger } from '../logging/logger.interface';
+import { AppError } from '../middlewares/errorHandler';
+import User from '../models/user';
+import config from '../config/config';
+import { parseDurationToSeconds } from '../utils/duration';
+
+export interface ILoginThrottleService {
+  assertLoginAllowed(email: string, ipAddress?: string | null): Promise<void>;
+  recordFailedLogin(email: string, ipAddress: string | null | undefined, user: User | null): Promise<void>;
+  recordSuccessfulLogin(email: string): Promise<void>;
+  unlockAccount(email: string): Promise<boolean>;
+}
+
+@injectable()
+export class LoginThrottleService implements ILoginThrottleService {
+  constructor(
+    @inject(TYPES.LoginAttemptRepository) private loginAttemptRepository: ILoginAttemptRepository,
+    @inject(TYPES.UserEventsPublisher) private userEventsPublisher: IUserEventsPublisher,
+    @inject(TYPES.Logger) private logger: ILogger,
+  ) {}
+
+  async assertLoginAllowed(email: string, ipAddress?: string | null): Promise<void> {
+    const lockedUntil = [
+      await this.getLockedUntil('account', this.normalizeEmail(email)),
+      ipAddress ? await this.getLockedUntil('ip', ipAddress) : null,
+    ].reduce<Date | null>((latest, value) => (value && (!latest || value > latest) ? value : latest), null);
+
+    if (!lockedUntil) {
+      return;
+    }
+
+    const retryAfterSeconds = Math.max(1, Math.ceil((lockedUntil.getTime() - Date.now()) / 1000));
+    this.logger.warn('Login rejected: too many failed attempts', { email, ipAddress, lockedUntil });
+
+    // Unknown emails are counted and locked the same way, so this does not reveal whether an account exists
+    throw new AppError('Too many failed login attempts, please try again later', 429, {
+      'Retry-After': String(retryAfterSeconds),
+    });
+  }
+
+  async recordFailedLogin(email: string, ipAddress: string | null | undefined, user: User | null): Promise<void> {
+    const resetBefore = new Date(Date.now() - parseDurationToSeconds(config.loginLockout.resetAfter, 3600) * 1000);
+
+    const accountLockedUntil = await this.recordFailure(
+      'account',
+      this.normalizeEmail(email),
+      config.loginLockout.accountThreshold,
+      resetBefore,
+    );
+
+    if (ipAddress) {
+      await this.recordFailure('ip', ipAddress, config.loginLockout.ipThreshold, resetBefore);
+    }
+
+    if (accountLockedUntil && user) {
+      this.logger.warn('Account locked after failed login attempts', { userId: user.id, lockedUntil: accountLockedUntil });
+      await this.userEventsPublisher.onUserLocked(user, accountLockedUntil);
+    }
+
+    const pruned = await this.loginAttemptRepository.deleteStaleLoginAttempts(resetBefore);
+    if (pruned > 0) {
+      this.logger.debug('Pruned stale login attempt counters', { count: pruned });
+    }
+  }
+
+  async recordSuccessfulLogin(email: string): Promise<void> {
+    // Only the account counter is reset; a shared IP keeps its history so one
+    // valid login cannot be used to clear the way for credential stuffing
+    await this.loginAttemptRepository.clearLoginAttempts('account', this.normalizeEmail(email));
+  }
+
+  async unlockAccount(email: string): Promise<boolean> {
+    const cleared = await this.loginAttemptRepository.clearLoginAttempts('account', this.normalizeEmail(email));
+    this.logger.info('Account lockout cleared', { email, cleared });
+    return cleared;
+  }
+
+  private async recordFailure(
+    scope: LoginAttemptScope,
+    key: string,
+    threshold: number,
+    resetBefore: Date,
+  ): Promise<Date | null> {
+    const failedCount = await this.loginAttemptRepository.incrementFailedCount(scope, key, resetBefore);
+    if (failedCount < threshold) {
+      return null;
+    }
+
+    // Lockout doubles with every failure past the threshold, up to the configured maximum
+    const baseSeconds = parseDurationToSeconds(config.loginLockout.baseDuration, 60);
+    const maxSeconds = parseDurationToSeconds(config.loginLockout.maxDuration, 3600);
+    const lockSeconds = Math.min(baseSeconds * 2 ** Math.min(failedCount - threshold, 30), maxSeconds);
+    const lockedUntil = new Date(Date.now() + lockSeconds * 1000);
+
+    await this.loginAttemptRepository.setLockedUntil(scope, key, lockedUntil);
+
+    this.logger.warn('Login lockout applied', { scope, failedCount, lockedUntil });
+
+    return lockedUntil;
+  }
+
+  private async getLockedUntil(scope: LoginAttemptScope, key: string): Promise<Date | null> {
+    const attempt = await this.loginAttemptRepository.findLoginAttempt(scope, key);
+    if (!attempt?.lockedUntil || attempt.lockedUntil <= new Date()) {
+      return null;
+    }
+    return attempt.lockedUntil;
+  }
+
+  private normalizeEmail(email: string): string {
+    return email.trim().toLowerCase();
+  }
+}
@@ -0,0 +1,277 @@
+import { injectable, inject } from 'inversify';
+import crypto from 'crypto';
+import { IUserRepository } from '../repositories/userRepository';
+import { IMfaRepository } from '../repositories/mfaRepository';
+import { ILoginThrottleService } from './loginThrottleService';
+import {
+  TotpEnrollmentResponseDto,
+  RecoveryCodesResponseDto,
+  MfaStatusResponseDto,
+  MfaChallengeResponseDto,
+} from '../dto/mfa.dto';
+import { TYPES } from '../types/di.types';
+import { ILogger } from '../logging/logger.interface';
+import { AppError } from '../middlewares/errorHandler';
+import User from '../models/user';
+import config from '../config/config';
+import { parseDurationToSeconds } from '../utils/duration';
+import { generateTotpSecret, verifyTotp, buildOtpauthUri } from '../utils/totp';
+
+export interface IMfaService {
+  isMfaEnabled(user: User): boolean;
+  getMfaStatus(userId: string): Promise<MfaStatusResponseDto>;
+  startTotpEnrollment(userId: string): Promise<TotpEnrollmentResponseDto>;
+  confirmTotpEnrollment(userId: string, code: string): Promise<RecoveryCodesResponseDto>;
+  regenerateRecoveryCodes(userId: string, code: string): Promise<RecoveryCodesResponseDto>;
+  disableTotp(userId: string, code: string): Promise<void>;
+  resetMfa(userId: string): Promise<void>;
+  createChallenge(userId: string): Promise<MfaChallengeResponseDto>;
+  verifyChallenge(challengeToken: string, code: string, ipAddress?: string | null): Promise<string>;
+}
+
+@injectable()
+export class MfaService implements IMfaService {
+  private readonly RECOVERY_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+  private readonly MAX_CHALLENGE_ATTEMPTS = 5;
+
+  constructor(
+    @inject(TYPES.UserRepository) private userRepository: IUserRepository,
+    @inject(TYPES.MfaRepository) private mfaRepository: IMfaRepository,
+    @inject(TYPES.LoginThrottleService) private loginThrottleService: ILoginThrottleService,
+    @inject(TYPES.Logger) private logger: ILogger,
+  ) {}
+
+  isMfaEnabled(user: User): boolean {
+    return Boolean(user.totpEnabledAt && user.totpSecret);
+  }
+
+  async getMfaStatus(userId: string): Promise<MfaStatusResponseDto> {
+    const user = await this.getUser(userId);
+
+    return {
+      totpEnabled: this.isMfaEnabled(user),
+      totpEnabledAt: user.totpEnabledAt,
+      recoveryCodesRemaining: await this.mfaRepository.countUnusedRecoveryCodes(userId),
+    };
+  }
+
+  async startTotpEnrollment(userId: string): Promise<TotpEnrollmentResponseDto> {
+    this.logger.info('TOTP enrollment started', { userId });
+
+    const user = await this.getUser(userId);
+    if (this.isMfaEnabled(user)) {
+      this.logger.warn('TOTP enrollment failed: already enabled', { userId });
+      throw new AppError('TOTP is already enabled', 400);
+    }
+
+    // The secret stays pending until the user proves possession with a valid code
+    const secret = generateTotpSecret();
+    await this.userRepository.updateUser(userId, {
+      totpSecret: secret,
+      totpEnabledAt: null,
+      totpLastUsedStep: null,
+    });
+
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri(config.mfa.issuer, user.email, secret),
+    };
+  }
+
+  async confirmTotpEnrollment(userId: string, code: string): Promise<RecoveryCodesResponseDto> {
+    this.logger.info('TOTP enrollment confirmation attempt', { userId });
+
+    const user = await this.getUser(userId);
+    if (this.isMfaEnabled(user)) {
+      throw new AppError('TOTP is already enabled', 400);
+    }
+
+    if (!user.totpSecret) {
+      throw new AppError('TOTP enrollment has not been started', 400);
+    }
+
+    const step = verifyTotp(user.totpSecret, code);
+    if (step === null) {
+      this.logger.warn('TOTP enrollment confirmation failed: invalid code', { userId });
+      throw new AppError('Invalid verification code', 400);
+    }
+
+    await this.userRepository.updateUser(userId, {
+      totpEnabledAt: new Date(),
+      totpLastUsedStep: step,
+    });
+
+    const recoveryCodes = await this.issueRecoveryCodes(userId);
+
+    this.logger.info('TOTP enabled', { userId });
+
+    return { recoveryCodes };
+  }
+
+  async regenerateRecoveryCodes(userId: string, code: string): Promise<RecoveryCodesResponseDto> {
+    const user = await this.getUser(userId);
+    if (!this.isMfaEnabled(user)) {
+      throw new AppError('TOTP is not enabled', 400);
+    }
+
+    if (!(await this.verifyCode(user, code))) {
+      this.logger.warn('Recovery code regeneration failed: invalid code', { userId });
+      throw new AppError('Invalid verification code', 400);
+    }
+
+    const recoveryCodes = await this.issueRecoveryCodes(userId);
+
+    this.logger.info('Recovery codes regenerated', { userId });
+
+    return { recoveryCodes };
+  }
+
+  async disableTotp(userId: string, code: string): Promise<void> {
+    const user = await this.getUser(userId);
+    if (!this.isMfaEnabled(user)) {
+      throw new AppError('TOTP is not enabled', 400);
+    }
+
+    if (!(await this.verifyCode(user, code))) {
+      this.logger.warn('TOTP disable failed: invalid code', { userId });
+      throw new AppError('Invalid verification code', 400);
+    }
+
+    await this.clearMfa(userId);
+
+    this.logger.info('TOTP disabled', { userId });
+  }
+
+  async resetMfa(userId: string): Promise<void> {
+    await this.getUser(userId);
+    await this.clearMfa(userId);
+
+    this.logger.info('MFA reset by administrator', { userId });
+  }
+
+  async createChallenge(userId: string): Promise<MfaChallengeResponseDto> {
+    const challengeToken = crypto.randomBytes(32).toString('hex');
+    const expiresAt = new Date(Date.now() + parseDurationToSeconds(config.mfa.challengeExpiresIn, 300) * 1000);
+
+    await this.mfaRepository.createChallenge({
+      userId,
+      tokenHash: this.hash(challengeToken),
+      expiresAt,
+    });
+
+    this.logger.info('MFA challenge issued', { userId });
+
+    return {
+      status: 'mfa_required',
+      challengeToken,
+      expiresAt,
+      methods: ['totp', 'recovery_code'],
+    };
+  }
+
+  /**
+   * Completes a sign-in challenge. Wrong codes count toward the same account and
+   * IP lockout as wrong passwords, so fresh challenges do not reset the budget.
+   */
+  async verifyChallenge(challengeToken: string, code: string, ipAddress?: string | null): Promise<string> {
+    const challenge = await this.mfaRepository.findChallengeByHash(this.hash(challengeToken));
+
+    if (
+      !challenge ||
+      challenge.consumedAt ||
+      new Date() > challenge.expiresAt ||
+      challenge.attempts >= this.MAX_CHALLENGE_ATTEMPTS
+    ) {
+      this.logger.warn('MFA verification failed: invalid or expired challenge');
+      throw new AppError('Invalid or expired MFA challenge', 401);
+    }
+
+    const user = await this.getUser(challenge.userId);
+
+    await this.loginThrottleService.assertLoginAllowed(user.email, ipAddress);
+
+    if (!(await this.verifyCode(user, code))) {
+      await this.mfaRepository.incrementChallengeAttempts(challenge.id);
+      await this.loginThrottleService.recordFailedLogin(user.email, ipAddress, user);
+      this.logger.warn('MFA verification failed: invalid code', { userId: user.id });
+      throw new AppError('Invalid verification code', 401);
+    }
+
+    if (!(await this.mfaRepository.consumeChallenge(challenge.id))) {
+      throw new AppError('Invalid or expired MFA challenge', 401);
+    }
+
+    await this.loginThrottleService.recordSuccessfulLogin(user.email);
+
+    this.logger.info('MFA challenge completed', { userId: user.id });
+
+    return user.id;
+  }
+
+  private async verifyCode(user: User, code: string): Promise<boolean> {
+    if (!user.totpSecret) {
+      return false;
+    }
+
+    const step = verifyTotp(user.totpSecret, code);
+    if (step !== null) {
+      // Reject codes from a step that has already been used to prevent replay
+      if (user.totpLastUsedStep !== null && step <= user.totpLastUsedStep) {
+        return false;
+      }
+
+      await this.userRepository.updateUser(user.id, { totpLastUsedStep: step });
+      return true;
+    }
+
+    const consumed = await this.mfaRepository.consumeRecoveryCode(user.id, this.hash(this.normalizeRecoveryCode(code)));
+    if (consumed) {
+      this.logger.info('Recovery code used', { userId: user.id });
+    }
+
+    return consumed;
+  }
+
+  private async issueRecoveryCodes(userId: string): Promise<string[]> {
+    const recoveryCodes = Array.from({ length: config.mfa.recoveryCodeCount }, () => this.generateRecoveryCode());
+
+    await this.mfaRepository.replaceRecoveryCodes(
+      userId,
+      recoveryCodes.map(recoveryCode => this.hash(this.normalizeRecoveryCode(recoveryCode))),
+    );
+
+    return recoveryCodes;
+  }
+
+  private async clearMfa(userId: string): Promise<void> {
+    await this.userRepository.updateUser(userId, {
+      totpSecret: null,
+      totpEnabledAt: null,
+      totpLastUsedStep: null,
+    });
+    await this.mfaRepository.deleteRecoveryCodes(userId);
+    await this.mfaRepository.deleteChallengesForUser(userId);
+  }
+
+  private async getUser(userId: string): Promise<User> {
+    const user = await this.userRepository.findUserById(userId);
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+    return user;
+  }
+
+  private generateRecoveryCode(): string {
+    const bytes = crypto.randomBytes(10);
+    const chars = Array.from(bytes, byte => this.RECOVERY_CODE_ALPHABET[byte % this.RECOVERY_CODE_ALPHABET.length]);
+    return `${chars.slice(0, 5).join('')}-${chars.slice(5).join('')}`;
+  }
+
+  private normalizeRecoveryCode(code: string): string {
+    return code.toLowerCase().replace(/[^a-z0-9]/g, '');
+  }
+
+  private hash(value: string): string {
+    return crypto.createHash('sha256').update(value).digest('hex');
+  }
+}
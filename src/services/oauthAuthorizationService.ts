@@ -0,0 +1,224 @@
+import { injectable, inject } from 'inversify';
+import crypto from 'crypto';
+import { IOAuthClientService } from './oauthClientService';
+import { ISigningKeyService } from './signingKeyService';
+import { IOAuthAuthorizationCodeRepository } from '../repositories/oauthAuthorizationCodeRepository';
+import { IOAuthConsentRepository } from '../repositories/oauthConsentRepository';
+import { IUserRepository } from '../repositories/userRepository';
+import { OAuthClient } from '../models/oauthClient';
+import {
+  AuthorizeRequestDto,
+  AuthorizationRequestDetailsDto,
+  AuthorizationDecisionDto,
+  AuthorizationDecisionResponseDto,
+} from '../dto/oauth.dto';
+import { TYPES } from '../types/di.types';
+import { ILogger } from '../logging/logger.interface';
+import { AppError, OAuthError } from '../middlewares/errorHandler';
+import config from '../config/config';
+import { parseDurationToSeconds } from '../utils/duration';
+import { formatScope, parseScope } from '../utils/oauthScope';
+
+/**
+ * A validated authorization request, carried between /oauth/authorize and the
+ * consent page as a signed JWT so no server-side state is needed.
+ */
+interface AuthorizationRequestClaims {
+  client_id: string;
+  redirect_uri: string;
+  scope: string;
+  state?: string;
+  nonce?: string;
+  code_challenge: string;
+}
+
+export interface IOAuthAuthorizationService {
+  startAuthorization(authorizeRequest: AuthorizeRequestDto): Promise<string>;
+  getAuthorizationRequest(userId: string, request: string): Promise<AuthorizationRequestDetailsDto>;
+  decideAuthorization(userId: string, decision: AuthorizationDecisionDto): Promise<AuthorizationDecisionResponseDto>;
+}
+
+@injectable()
+export class OAuthAuthorizationService implements IOAuthAuthorizationService {
+  private readonly REQUEST_AUDIENCE = 'oauth-authorization-request';
+  private readonly DEFAULT_REQUEST_EXPIRY_SECONDS = 600;
+  private readonly DEFAULT_CODE_EXPIRY_SECONDS = 60;
+
+  constructor(
+    @inject(TYPES.OAuthClientService) private oauthClientService: IOAuthClientService,
+    @inject(TYPES.SigningKeyService) private signingKeyService: ISigningKeyService,
+    @inject(TYPES.OAuthAuthorizationCodeRepository) private authorizationCodeRepository: IOAuthAuthorizationCodeRepository,
+    @inject(TYPES.OAuthConsentRepository) private consentRepository: IOAuthConsentRepository,
+    @inject(TYPES.UserRepository) private userRepository: IUserRepository,
+    @inject(TYPES.Logger) private logger: ILogger,
+  ) {}
+
+  /**
+   * Validates an authorization request and returns where to send the browser:
+   * the consent page, or back to the client with an error. Requests whose
+   * client or redirect URI cannot be trusted are rejected without a redirect.
+   */
+  async startAuthorization(authorizeRequest: AuthorizeRequestDto): Promise<string> {
+    if (!config.oauthServer.consentUrl) {
+      throw new AppError('OAuth authorization is not configured', 503);
+    }
+
+    const client = authorizeRequest.client_id ? await this.oauthClientService.findClient(authorizeRequest.client_id) : null;
+    if (!client) {
+      throw new OAuthError('invalid_request', 'Unknown client_id');
+    }
+
+    // Without a redirect_uri, a client with a single registered URI uses that one
+    const redirectUri = authorizeRequest.redirect_uri
+      ?? (client.redirectUris.length === 1 ? client.redirectUris[0] : undefined);
+    if (!redirectUri || !client.redirectUris.includes(redirectUri)) {
+      this.logger.warn('OAuth authorization rejected: unregistered redirect URI', { clientId: client.clientId, redirectUri });
+      throw new OAuthError('invalid_request', 'redirect_uri is not registered for this client');
+    }
+
+    const redirectError = (error: string, description: string) =>
+      this.buildRedirect(redirectUri, { error, error_description: description, state: authorizeRequest.state });
+
+    if (authorizeRequest.response_type !== 'code') {
+      return redirectError('unsupported_response_type', 'Only the code response type is supported');
+    }
+
+    if (!client.grantTypes.includes('authorization_code')) {
+      return redirectError('unauthorized_client', 'The client may not use the authorization code grant');
+    }
+
+    // PKCE is required for every client, confidential ones included
+    if (!authorizeRequest.code_challenge || authorizeRequest.code_challenge_method !== 'S256') {
+      return redirectError('invalid_request', 'PKCE with code_challenge_method S256 is required');
+    }
+
+    const scopes = authorizeRequest.scope !== undefined ? parseScope(authorizeRequest.scope) : client.allowedScopes;
+    if (scopes.length === 0 || scopes.some(scope => !client.allowedScopes.includes(scope))) {
+      return redirectError('invalid_scope', 'The requested scope is not allowed for this client');
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const claims: AuthorizationRequestClaims = {
+      client_id: client.clientId,
+      redirect_uri: redirectUri,
+      scope: formatScope(scopes),
+      state: authorizeRequest.state,
+      nonce: authorizeRequest.nonce,
+      code_challenge: authorizeRequest.code_challenge,
+    };
+
+    const request = await this.signingKeyService.sign({
+      ...claims,
+      iss: config.jwt.issuer,
+      aud: this.REQUEST_AUDIENCE,
+      iat: now,
+      exp: now + parseDurationToSeconds(config.oauthServer.authorizationRequestExpiresIn, this.DEFAULT_REQUEST_EXPIRY_SECONDS),
+    });
+
+    const consentUrl = new URL(config.oauthServer.consentUrl);
+    consentUrl.searchParams.set('request', request);
+    return consentUrl.toString();
+  }
+
+  async getAuthorizationRequest(userId: string, request: string): Promise<AuthorizationRequestDetailsDto> {
+    const { claims, client } = await this.resolveRequest(request);
+    const scopes = parseScope(claims.scope);
+
+    return {
+      client: { clientId: client.clientId, name: client.name },
+      scopes,
+      consentRequired: await this.isConsentRequired(userId, client, scopes),
+    };
+  }
+
+  /**
+   * Records the user's answer and returns the client redirect carrying either
+   * an authorization code or an access_denied error.
+   */
+  async decideAuthorization(userId: string, decision: AuthorizationDecisionDto): Promise<AuthorizationDecisionResponseDto> {
+    const { claims, client } = await this.resolveRequest(decision.request);
+
+    if (!decision.approve) {
+      this.logger.info('OAuth authorization denied by user', { userId, clientId: client.clientId });
+      return {
+        redirectUri: this.buildRedirect(claims.redirect_uri, {
+          error: 'access_denied',
+          error_description: 'The user denied the request',
+          state: claims.state,
+        }),
+      };
+    }
+
+    const user = await this.userRepository.findUserById(userId);
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    if (user.disabledAt) {
+      throw new AppError('Account is disabled', 403);
+    }
+
+    const scopes = parseScope(claims.scope);
+    if (!client.firstParty) {
+      const consent = await this.consentRepository.findConsent(userId, client.id);
+      await this.consentRepository.saveConsent(userId, client.id, [...new Set([...(consent?.scopes ?? []), ...scopes])]);
+    }
+
+    const code = crypto.randomBytes(32).toString('base64url');
+    await this.authorizationCodeRepository.createAuthorizationCode({
+      codeHash: crypto.createHash('sha256').update(code).digest('hex'),
+      oauthClientId: client.id,
+      userId,
+      redirectUri: claims.redirect_uri,
+      scope: claims.scope,
+      codeChallenge: claims.code_challenge,
+      nonce: claims.nonce ?? null,
+      expiresAt: new Date(
+        Date.now() + parseDurationToSeconds(config.oauthServer.authorizationCodeExpiresIn, this.DEFAULT_CODE_EXPIRY_SECONDS) * 1000,
+      ),
+    });
+
+    this.logger.info('OAuth authorization code issued', { userId, clientId: client.clientId, scope: claims.scope });
+
+    return {
+      // iss lets the client detect mix-up attacks (RFC 9207)
+      redirectUri: this.buildRedirect(claims.redirect_uri, { code, state: claims.state, iss: config.jwt.issuer }),
+    };
+  }
+
+  private async resolveRequest(request: string): Promise<{ claims: AuthorizationRequestClaims; client: OAuthClient }> {
+    let claims: AuthorizationRequestClaims;
+    try {
+      claims = await this.signingKeyService.verify(request, { audience: this.REQUEST_AUDIENCE }) as AuthorizationRequestClaims;
+    } catch (error) {
+      this.logger.warn('OAuth authorization request rejected', { error: (error as Error).message });
+      throw new AppError('Invalid or expired authorization request', 400);
+    }
+
+    const client = await this.oauthClientService.findClient(claims.client_id);
+    if (!client) {
+      throw new AppError('Invalid or expired authorization request', 400);
+    }
+
+    return { claims, client };
+  }
+
+  private async isConsentRequired(userId: string, client: OAuthClient, scopes: string[]): Promise<boolean> {
+    if (client.firstParty) {
+      return false;
+    }
+
+    const consent = await this.consentRepository.findConsent(userId, client.id);
+    return !consent || scopes.some(scope => !consent.scopes.includes(scope));
+  }
+
+  private buildRedirect(redirectUri: string, params: Record<string, string | undefined>): string {
+    const url = new URL(redirectUri);
+    for (const [name, value] of Object.entries(params)) {
+      if (value !== undefined) {
+        url.searchParams.set(name, value);
+      }
+    }
+    return url.toString();
+  }
+}
@@ -0,0 +1,172 @@
+import { injectable, inject } from 'inversify';
+import crypto from 'crypto';
+import { IOAuthClientRepository } from '../repositories/oauthClientRepository';
+import { OAuthClient } from '../models/oauthClient';
+import {
+  ClientCredentials,
+  CreateOAuthClientDto,
+  CreatedOAuthClientResponseDto,
+  OAuthClientResponseDto,
+} from '../dto/oauth.dto';
+import { TYPES } from '../types/di.types';
+import { ILogger } from '../logging/logger.interface';
+import { AppError, OAuthError, ValidationError, ValidationViolation } from '../middlewares/errorHandler';
+import { generateClientSecret, hashClientSecret, verifyClientSecret } from '../utils/clientSecret';
+
+export const OAUTH_GRANT_TYPES = ['authorization_code', 'refresh_token'] as const;
+
+export interface IOAuthClientService {
+  listClients(): Promise<OAuthClientResponseDto[]>;
+  createClient(createClientDto: CreateOAuthClientDto): Promise<CreatedOAuthClientResponseDto>;
+  deleteClient(clientId: string): Promise<void>;
+  findClient(clientId: string): Promise<OAuthClient | null>;
+  authenticateClient(credentials: ClientCredentials): Promise<OAuthClient>;
+}
+
+@injectable()
+export class OAuthClientService implements IOAuthClientService {
+  constructor(
+    @inject(TYPES.OAuthClientRepository) private oauthClientRepository: IOAuthClientRepository,
+    @inject(TYPES.Logger) private logger: ILogger,
+  ) {}
+
+  async listClients(): Promise<OAuthClientResponseDto[]> {
+    const clients = await this.oauthClientRepository.findOAuthClients();
+    return clients.map(client => this.mapToDto(client));
+  }
+
+  async createClient(createClientDto: CreateOAuthClientDto): Promise<CreatedOAuthClientResponseDto> {
+    this.validateClient(createClientDto);
+
+    const clientSecret = createClientDto.confidential === false
+      ? undefined
+      : generateClientSecret();
+
+    const client = await this.oauthClientRepository.createOAuthClient({
+      clientId: crypto.randomBytes(16).toString('hex'),
+      clientSecretHash: clientSecret ? hashClientSecret(clientSecret) : null,
+      name: createClientDto.name.trim(),
+      redirectUris: createClientDto.redirectUris,
+      allowedScopes: [...new Set(createClientDto.allowedScopes)],
+      grantTypes: [...new Set(createClientDto.grantTypes ?? ['authorization_code', 'refresh_token'])],
+      firstParty: createClientDto.firstParty === true,
+    });
+
+    this.logger.info('OAuth client registered', { clientId: client.clientId, confidential: Boolean(clientSecret) });
+
+    return { ...this.mapToDto(client), ...(clientSecret ? { clientSecret } : {}) };
+  }
+
+  async deleteClient(clientId: string): Promise<void> {
+    const deleted = await this.oauthClientRepository.deleteOAuthClient(clientId);
+    if (!deleted) {
+      throw new AppError('OAuth client not found', 404);
+    }
+
+    // Codes, consents and refresh tokens of the client cascade with it
+    this.logger.info('OAuth client deleted', { clientId });
+  }
+
+  async findClient(clientId: string): Promise<OAuthClient | null> {
+    return await this.oauthClientRepository.findOAuthClientByClientId(clientId);
+  }
+
+  /**
+   * Authenticates a client at the token endpoint. Confidential clients must
+   * present their secret; public clients are identified by client_id alone.
+   */
+  async authenticateClient(credentials: ClientCredentials): Promise<OAuthClient> {
+    const client = credentials.clientId
+      ? await this.oauthClientRepository.findOAuthClientByClientId(credentials.clientId)
+      : null;
+
+    const authenticated = client && (
+      !client.clientSecretHash || verifyClientSecret(credentials.clientSecret, client.clientSecretHash)
+    );
+
+    if (!client || !authenticated) {
+      this.logger.warn('OAuth client authentication failed', { clientId: credentials.clientId });
+      throw new OAuthError('invalid_client', 'Client authentication failed', 401, { 'WWW-Authenticate': 'Basic' });
+    }
+
+    return client;
+  }
+
+  private validateClient(createClientDto: CreateOAuthClientDto): void {
+    const violations: ValidationViolation[] = [];
+
+    if (typeof createClientDto.name !== 'string' || !createClientDto.name.trim()) {
+      violations.push({ code: 'missing_name', message: 'name is required' });
+    }
+
+    if (!Array.isArray(createClientDto.redirectUris) || createClientDto.redirectUris.length === 0) {
+      violations.push({ code: 'missing_redirect_uris', message: 'At least one redirect URI is required' });
+    } else {
+      for (const redirectUri of createClientDto.redirectUris) {
+        if (!this.isValidRedirectUri(redirectUri)) {
+          violations.push({
+            code: 'invalid_redirect_uri',
+            message: `${redirectUri} must be an absolute https URL without a fragment (http only for loopback addresses)`,
+          });
+        }
+      }
+    }
+
+    if (!Array.isArray(createClientDto.allowedScopes)
+      || createClientDto.allowedScopes.some(scope => typeof scope !== 'string' || !/^[\x21\x23-\x5B\x5D-\x7E]+$/.test(scope))) {
+      violations.push({ code: 'invalid_scopes', message: 'allowedScopes must be a list of scope tokens' });
+    }
+
+    if (createClientDto.grantTypes !== undefined && (
+      !Array.isArray(createClientDto.grantTypes)
+      || createClientDto.grantTypes.some(grantType => !(OAUTH_GRANT_TYPES as readonly string[]).includes(grantType))
+    )) {
+      violations.push({ code: 'invalid_grant_types', message: `grantTypes must be a subset of ${OAUTH_GRANT_TYPES.join(', ')}` });
+    }
+
+    if (violations.length > 0) {
+      throw new ValidationError('Invalid OAuth client', violations);
+    }
+  }
+
+  private isValidRedirectUri(value: unknown): boolean {
+    if (typeof value !== 'string') {
+      return false;
+    }
+
+    let url: URL;
+    try {
+      url = new URL(value);
+    } catch {
+      return false;
+    }
+
+    if (url.hash) {
+      return false;
+    }
+
+    if (url.protocol === 'https:') {
+      return true;
+    }
+
+    if (url.protocol === 'http:') {
+      return ['localhost', '127.0.0.1', '[::1]'].includes(url.hostname);
+    }
+
+    // Private-use URI schemes of native apps are reverse domain names (RFC 8252, section 7.1)
+    return url.protocol.slice(0, -1).includes('.');
+  }
+
+  private mapToDto(client: OAuthClient): OAuthClientResponseDto {
+    return {
+      clientId: client.clientId,
+      name: client.name,
+      redirectUris: client.redirectUris,
+      allowedScopes: client.allowedScopes,
+      grantTypes: client.grantTypes,
+      confidential: client.clientSecretHash !== null,
+      firstParty: client.firstParty,
+      createdAt: client.createdAt,
+    };
+  }
+}
@@ -0,0 +1,232 @@
+import { injectable, inject } from 'inversify';
+import crypto from 'crypto';
+import { IOAuthClientService } from './oauthClientService';
+import { IServiceAccountService } from './serviceAccountService';
+import { IAccessTokenService } from './accessTokenService';
+import { IRefreshTokenService } from './refreshTokenService';
+import { ISessionService } from './sessionService';
+import { IOpenIdProviderService } from './openIdProviderService';
+import { ISigningKeyService } from './signingKeyService';
+import { IOAuthAuthorizationCodeRepository } from '../repositories/oauthAuthorizationCodeRepository';
+import { IUserRepository } from '../repositories/userRepository';
+import { OAuthClient } from '../models/oauthClient';
+import { ClientCredentials, TokenRequestDto, TokenResponseDto } from '../dto/oauth.dto';
+import { SessionMetadata } from '../dto/session.dto';
+import { TYPES } from '../types/di.types';
+import { ILogger } from '../logging/logger.interface';
+import { AppError, OAuthError } from '../middlewares/errorHandler';
+import config from '../config/config';
+import { parseScope } from '../utils/oauthScope';
+
+export interface IOAuthTokenService {
+  exchangeToken(tokenRequest: TokenRequestDto, credentials: ClientCredentials, metadata?: SessionMetadata): Promise<TokenResponseDto>;
+}
+
+/**
+ * The OAuth 2.0 token endpoint. Every grant on behalf of a user ends in a
+ * regular session, so OAuth tokens show up in the user's session list and are
+ * revoked with it. The client_credentials grant is reserved for service accounts.
+ */
+@injectable()
+export class OAuthTokenService implements IOAuthTokenService {
+  constructor(
+    @inject(TYPES.OAuthClientService) private oauthClientService: IOAuthClientService,
+    @inject(TYPES.ServiceAccountService) private serviceAccountService: IServiceAccountService,
+    @inject(TYPES.OAuthAuthorizationCodeRepository) private authorizationCodeRepository: IOAuthAuthorizationCodeRepository,
+    @inject(TYPES.UserRepository) private userRepository: IUserRepository,
+    @inject(TYPES.SessionService) private sessionService: ISessionService,
+    @inject(TYPES.RefreshTokenService) private refreshTokenService: IRefreshTokenService,
+    @inject(TYPES.AccessTokenService) private accessTokenService: IAccessTokenService,
+    @inject(TYPES.OpenIdProviderService) private openIdProviderService: IOpenIdProviderService,
+    @inject(TYPES.SigningKeyService) private signingKeyService: ISigningKeyService,
+    @inject(TYPES.Logger) private logger: ILogger,
+  ) {}
+
+  async exchangeToken(
+    tokenRequest: TokenRequestDto,
+    credentials: ClientCredentials,
+    metadata: SessionMetadata = {},
+  ): Promise<TokenResponseDto> {
+    if (!tokenRequest.grant_type) {
+      throw new OAuthError('invalid_request', 'grant_type is required');
+    }
+
+    if (tokenRequest.grant_type === 'client_credentials') {
+      return await this.exchangeClientCredentials(credentials);
+    }
+
+    const client = await this.oauthClientService.authenticateClient(credentials);
+
+    if (!client.grantTypes.includes(tokenRequest.grant_type)) {
+      throw new OAuthError('unauthorized_client', `The client may not use the ${tokenRequest.grant_type} grant`);
+    }
+
+    switch (tokenRequest.grant_type) {
+      case 'authorization_code':
+        return await this.exchangeAuthorizationCode(client, tokenRequest, metadata);
+      case 'refresh_token':
+        return await this.exchangeRefreshToken(client, tokenRequest);
+      default:
+        throw new OAuthError('unsupported_grant_type', `Unsupported grant_type ${tokenRequest.grant_type}`);
+    }
+  }
+
+  private async exchangeClientCredentials(credentials: ClientCredentials): Promise<TokenResponseDto> {
+    const serviceAccount = await this.serviceAccountService.authenticateServiceAccount(credentials);
+    const accessToken = await this.accessTokenService.issueServiceAccountToken(serviceAccount);
+
+    this.logger.info('Service account token issued', { clientId: serviceAccount.clientId });
+
+    // No refresh token: the account can authenticate again whenever it needs one (RFC 6749, section 4.4.3)
+    return {
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: this.accessTokenService.getServiceAccountExpiresInSeconds(),
+    };
+  }
+
+  private async exchangeAuthorizationCode(
+    client: OAuthClient,
+    tokenRequest: TokenRequestDto,
+    metadata: SessionMetadata,
+  ): Promise<TokenResponseDto> {
+    if (!tokenRequest.code || !tokenRequest.code_verifier) {
+      throw new OAuthError('invalid_request', 'code and code_verifier are required');
+    }
+
+    const code = await this.authorizationCodeRepository.findAuthorizationCodeByHash(
+      crypto.createHash('sha256').update(tokenRequest.code).digest('hex'),
+    );
+
+    if (!code || code.oauthClientId !== client.id) {
+      this.logger.warn('OAuth code exchange failed: unknown code', { clientId: client.clientId });
+      throw new OAuthError('invalid_grant', 'Invalid authorization code');
+    }
+
+    if (code.consumedAt) {
+      // A replayed code may have been intercepted; revoke what the first exchange issued
+      this.logger.warn('OAuth authorization code reused, revoking its session', { clientId: client.clientId, userId: code.userId });
+      if (code.sessionId) {
+        await this.sessionService.revokeSession(code.userId, code.sessionId);
+      }
+      throw new OAuthError('invalid_grant', 'Invalid authorization code');
+    }
+
+    if (new Date() > code.expiresAt) {
+      throw new OAuthError('invalid_grant', 'Authorization code expired');
+    }
+
+    if (tokenRequest.redirect_uri !== code.redirectUri) {
+      throw new OAuthError('invalid_grant', 'redirect_uri does not match the authorization request');
+    }
+
+    const challenge = crypto.createHash('sha256').update(tokenRequest.code_verifier).digest('base64url');
+    if (challenge !== code.codeChallenge) {
+      this.logger.warn('OAuth code exchange failed: PKCE verification failed', { clientId: client.clientId });
+      throw new OAuthError('invalid_grant', 'Invalid code_verifier');
+    }
+
+    await this.assertUserEnabled(code.userId);
+
+    const session = await this.sessionService.createSession(code.userId, metadata);
+    if (!(await this.authorizationCodeRepository.consumeAuthorizationCode(code.id, session.id))) {
+      await this.sessionService.revokeSession(code.userId, session.id);
+      throw new OAuthError('invalid_grant', 'Invalid authorization code');
+    }
+
+    const refreshToken = client.grantTypes.includes('refresh_token')
+      ? await this.refreshTokenService.issueRefreshToken(code.userId, session.id, { oauthClientId: client.id, scope: code.scope })
+      : null;
+
+    this.logger.info('OAuth authorization code exchanged', { clientId: client.clientId, userId: code.userId, sessionId: session.id });
+
+    return await this.buildTokenResponse(client, code.userId, session.id, code.scope, refreshToken?.token, code.nonce);
+  }
+
+  private async exchangeRefreshToken(client: OAuthClient, tokenRequest: TokenRequestDto): Promise<TokenResponseDto> {
+    if (!tokenRequest.refresh_token) {
+      throw new OAuthError('invalid_request', 'refresh_token is required');
+    }
+
+    let rotated;
+    try {
+      rotated = await this.refreshTokenService.rotateRefreshToken(tokenRequest.refresh_token, client.id);
+    } catch (error) {
+      if (error instanceof AppError && error.status === 401) {
+        throw new OAuthError('invalid_grant', 'Invalid refresh token');
+      }
+      throw error;
+    }
+
+    const session = await this.sessionService.getActiveSession(rotated.familyId);
+    if (!session) {
+      await this.refreshTokenService.revokeRefreshTokenFamily(rotated.familyId);
+      throw new OAuthError('invalid_grant', 'Invalid refresh token');
+    }
+
+    await this.assertUserEnabled(rotated.userId);
+    await this.sessionService.touchSession(session.id, rotated.expiresAt);
+
+    this.logger.info('OAuth access token refreshed', { clientId: client.clientId, userId: rotated.userId });
+
+    // Refreshed tokens keep the scope granted with the authorization code
+    return await this.buildTokenResponse(client, rotated.userId, session.id, rotated.scope ?? '', rotated.token);
+  }
+
+  private async buildTokenResponse(
+    client: OAuthClient,
+    userId: string,
+    sessionId: string,
+    scope: string,
+    refreshToken?: string,
+    nonce?: string | null,
+  ): Promise<TokenResponseDto> {
+    const accessToken = await this.accessTokenService.issueAccessToken(userId, sessionId, {
+      clientId: client.clientId,
+      scope,
+    });
+
+    const idToken = parseScope(scope).includes('openid')
+      ? await this.issueIdToken(client, userId, sessionId, scope, nonce)
+      : undefined;
+
+    return {
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: this.accessTokenService.getExpiresInSeconds(),
+      scope,
+      ...(refreshToken ? { refresh_token: refreshToken } : {}),
+      ...(idToken ? { id_token: idToken } : {}),
+    };
+  }
+
+  private async issueIdToken(
+    client: OAuthClient,
+    userId: string,
+    sessionId: string,
+    scope: string,
+    nonce?: string | null,
+  ): Promise<string> {
+    const claims = await this.openIdProviderService.getUserInfo(userId, scope);
+    const now = Math.floor(Date.now() / 1000);
+
+    return await this.signingKeyService.sign({
+      ...claims,
+      iss: config.jwt.issuer,
+      aud: client.clientId,
+      azp: client.clientId,
+      iat: now,
+      exp: now + this.accessTokenService.getExpiresInSeconds(),
+      sid: sessionId,
+      ...(nonce ? { nonce } : {}),
+    });
+  }
+
+  private async assertUserEnabled(userId: string): Promise<void> {
+    const user = await this.userRepository.findUserById(userId);
+    if (!user || user.disabledAt) {
+      this.logger.warn('OAuth token request rejected: user missing or disabled', { userId });
+      throw new OAuthError('invalid_grant', 'The user cannot be issued tokens');
+    }
+  }
+}
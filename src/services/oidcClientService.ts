@@ -0,0 +1,238 @@
+import { injectable, inject } from 'inversify';
+import jwt, { Algorithm, JwtPayload } from 'jsonwebtoken';
+import crypto from 'crypto';
+import config, { OidcProviderConfig } from '../config/config';
+import { TYPES } from '../types/di.types';
+import { ILogger } from '../logging/logger.interface';
+import { AppError } from '../middlewares/errorHandler';
+import { parseDurationToSeconds } from '../utils/duration';
+
+/**
+ * The subset of an OpenID Provider discovery document this service relies on.
+ */
+export interface OidcDiscoveryDocument {
+  issuer: string;
+  jwks_uri: string;
+  authorization_endpoint?: string;
+  token_endpoint?: string;
+  userinfo_endpoint?: string;
+  id_token_signing_alg_values_supported?: string[];
+}
+
+/**
+ * A verified identity asserted by an external provider, normalised so that
+ * Google and generic OpenID Connect providers share one account-linking path.
+ */
+export interface ExternalUserProfile {
+  provider: string;
+  subject: string;
+  email: string;
+  emailVerified: boolean;
+  givenName?: string;
+  familyName?: string;
+  name?: string;
+  picture?: string;
+}
+
+export interface IOidcClientService {
+  hasProvider(provider: string): boolean;
+  getProviderConfig(provider: string): OidcProviderConfig;
+  getDiscoveryDocument(provider: string): Promise<OidcDiscoveryDocument>;
+  verifyIdToken(provider: string, idToken: string, nonce?: string): Promise<ExternalUserProfile>;
+}
+
+interface ProviderMetadata {
+  document: OidcDiscoveryDocument;
+  keys: Map<string, crypto.KeyObject>;
+  fetchedAt: number;
+  keysFetchedAt: number;
+}
+
+const SUPPORTED_ALGORITHMS: Algorithm[] = ['RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512'];
+
+@injectable()
+export class OidcClientService implements IOidcClientService {
+  private readonly DEFAULT_DISCOVERY_TTL_SECONDS = 3600;
+  // Lower bound between JWKS refetches triggered by an unknown kid
+  private readonly MIN_KEY_REFRESH_INTERVAL_MS = 30_000;
+  private metadata = new Map<string, ProviderMetadata>();
+
+  constructor(
+    @inject(TYPES.Logger) private logger: ILogger,
+  ) {}
+
+  hasProvider(provider: string): boolean {
+    return Object.prototype.hasOwnProperty.call(config.oidc.providers, provider);
+  }
+
+  getProviderConfig(provider: string): OidcProviderConfig {
+    if (!this.hasProvider(provider)) {
+      throw new AppError('Unknown identity provider', 404);
+    }
+    return config.oidc.providers[provider];
+  }
+
+  async getDiscoveryDocument(provider: string): Promise<OidcDiscoveryDocument> {
+    return (await this.getProviderMetadata(provider)).document;
+  }
+
+  async verifyIdToken(provider: string, idToken: string, nonce?: string): Promise<ExternalUserProfile> {
+    const providerConfig = this.getProviderConfig(provider);
+    const metadata = await this.getProviderMetadata(provider);
+
+    const decoded = jwt.decode(idToken, { complete: true });
+    if (!decoded || typeof decoded.payload === 'string') {
+      this.logger.warn('OIDC ID token rejected: malformed token', { provider });
+      throw new AppError('Invalid ID token', 401);
+    }
+
+    const key = await this.resolveSigningKey(provider, metadata, decoded.header.kid);
+
+    const allowedAlgorithms = SUPPORTED_ALGORITHMS.filter(alg =>
+      (metadata.document.id_token_signing_alg_values_supported ?? ['RS256']).includes(alg),
+    );
+
+    let claims: JwtPayload;
+    try {
+      claims = jwt.verify(idToken, key, {
+        algorithms: allowedAlgorithms,
+        issuer: metadata.document.issuer,
+        audience: providerConfig.clientId,
+      }) as JwtPayload;
+    } catch (error) {
+      this.logger.warn('OIDC ID token rejected: verification failed', { provider, error: (error as Error).message });
+      throw new AppError('Invalid ID token', 401);
+    }
+
+    // With several audiences the token must name us as the authorized party
+    if (Array.isArray(claims.aud) && claims.aud.length > 1 && claims.azp !== providerConfig.clientId) {
+      this.logger.warn('OIDC ID token rejected: unexpected authorized party', { provider, azp: claims.azp });
+      throw new AppError('Invalid ID token', 401);
+    }
+
+    if (nonce !== undefined && claims.nonce !== nonce) {
+      this.logger.warn('OIDC ID token rejected: nonce mismatch', { provider });
+      throw new AppError('Invalid ID token', 401);
+    }
+
+    if (!claims.sub) {
+      throw new AppError('Invalid ID token: no user ID', 401);
+    }
+
+    if (typeof claims.email !== 'string' || !claims.email) {
+      throw new AppError('Invalid ID token: no email', 401);
+    }
+
+    this.logger.info('OIDC ID token verified successfully', { provider, sub: claims.sub });
+
+    return {
+      provider,
+      subject: claims.sub,
+      email: claims.email,
+      emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+      givenName: claims.given_name,
+      familyName: claims.family_name,
+      name: claims.name,
+      picture: claims.picture,
+    };
+  }
+
+  private async getProviderMetadata(provider: string): Promise<ProviderMetadata> {
+    const providerConfig = this.getProviderConfig(provider);
+    const ttlMs = parseDurationToSeconds(config.oidc.discoveryCacheTtl, this.DEFAULT_DISCOVERY_TTL_SECONDS) * 1000;
+
+    const cached = this.metadata.get(provider);
+    if (cached && Date.now() - cached.fetchedAt < ttlMs) {
+      return cached;
+    }
+
+    const document = await this.fetchJson<OidcDiscoveryDocument>(
+      provider,
+      `${providerConfig.issuer}/.well-known/openid-configuration`,
+    );
+
+    if (document.issuer?.replace(/\/+$/, '') !== providerConfig.issuer || !document.jwks_uri) {
+      this.logger.error('OIDC discovery document does not match the configured issuer', undefined, {
+        provider,
+        issuer: document.issuer,
+      });
+      throw new AppError('Identity provider unavailable', 502);
+    }
+
+    const metadata: ProviderMetadata = {
+      document,
+      keys: await this.fetchSigningKeys(provider, document.jwks_uri),
+      fetchedAt: Date.now(),
+      keysFetchedAt: Date.now(),
+    };
+    this.metadata.set(provider, metadata);
+
+    return metadata;
+  }
+
+  private async resolveSigningKey(
+    provider: string,
+    metadata: ProviderMetadata,
+    kid: string | undefined,
+  ): Promise<crypto.KeyObject> {
+    const findKey = () => kid
+      ? metadata.keys.get(kid)
+      : (metadata.keys.size === 1 ? metadata.keys.values().next().value : undefined);
+
+    let key = findKey();
+
+    // The provider may have rotated its keys since we last fetched them
+    if (!key && Date.now() - metadata.keysFetchedAt >= this.MIN_KEY_REFRESH_INTERVAL_MS) {
+      metadata.keys = await this.fetchSigningKeys(provider, metadata.document.jwks_uri);
+      metadata.keysFetchedAt = Date.now();
+      key = findKey();
+    }
+
+    if (!key) {
+      this.logger.warn('OIDC ID token rejected: unknown signing key', { provider, kid });
+      throw new AppError('Invalid ID token', 401);
+    }
+
+    return key;
+  }
+
+  private async fetchSigningKeys(provider: string, jwksUri: string): Promise<Map<string, crypto.KeyObject>> {
+    const jwks = await this.fetchJson<{ keys?: (crypto.JsonWebKey & { kid?: string; use?: string })[] }>(provider, jwksUri);
+    const keys = new Map<string, crypto.KeyObject>();
+
+    for (const [index, jwk] of (jwks.keys ?? []).entries()) {
+      if (jwk.use && jwk.use !== 'sig') {
+        continue;
+      }
+
+      try {
+        keys.set(jwk.kid ?? `key-${index}`, crypto.createPublicKey({ key: jwk, format: 'jwk' }));
+      } catch (error) {
+        this.logger.warn('Skipping unusable OIDC signing key', { provider, kid: jwk.kid, error: (error as Error).message });
+      }
+    }
+
+    return keys;
+  }
+
+  private async fetchJson<T>(provider: string, url: string): Promise<T> {
+    try {
+      const response = await fetch(url, {
+        headers: { Accept: 'application/json' },
+        signal: AbortSignal.timeout(config.oidc.requestTimeoutMs),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Unexpected status ${response.status}`);
+      }
+
+      return await response.json() as T;
+    } catch (error) {
+      this.logger.error('OIDC provider request failed', error instanceof Error ? error : new Error(String(error)), {
+        provider,
+        url,
+      });
+      throw new AppError('Identity provider unavailable', 502);
+    }
+  }
+}
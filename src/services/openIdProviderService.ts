@@ -0,0 +1,100 @@
+import { injectable, inject } from 'inversify';
+import { IUserAuthService } from './userAuthService';
+import { ISigningKeyService } from './signingKeyService';
+import { OpenIdConfigurationDto, UserInfoResponseDto } from '../dto/openId.dto';
+import { TYPES } from '../types/di.types';
+import { ILogger } from '../logging/logger.interface';
+import { AppError } from '../middlewares/errorHandler';
+import config from '../config/config';
+import { parseScope } from '../utils/oauthScope';
+import { OAUTH_GRANT_TYPES } from './oauthClientService';
+
+export interface IOpenIdProviderService {
+  getConfiguration(): Promise<OpenIdConfigurationDto>;
+  getUserInfo(userId: string, scope?: string): Promise<UserInfoResponseDto>;
+}
+
+/**
+ * The OpenID Provider side of the service: discovery metadata and userinfo
+ * for relying parties that accept our tokens.
+ */
+@injectable()
+export class OpenIdProviderService implements IOpenIdProviderService {
+  constructor(
+    @inject(TYPES.UserAuthService) private userAuthService: IUserAuthService,
+    @inject(TYPES.SigningKeyService) private signingKeyService: ISigningKeyService,
+    @inject(TYPES.Logger) private logger: ILogger,
+  ) {}
+
+  async getConfiguration(): Promise<OpenIdConfigurationDto> {
+    // issuer must equal the iss claim exactly; only the endpoint URLs drop a trailing slash
+    const issuer = config.jwt.issuer;
+    const baseUrl = issuer.replace(/\/+$/, '');
+    const algorithms = new Set((await this.signingKeyService.getPublishedKeys()).map(key => key.algorithm));
+
+    return {
+      issuer,
+      jwks_uri: `${baseUrl}/.well-known/jwks.json`,
+      authorization_endpoint: `${baseUrl}/oauth/authorize`,
+      token_endpoint: `${baseUrl}/oauth/token`,
+      introspection_endpoint: `${baseUrl}/oauth/introspect`,
+      revocation_endpoint: `${baseUrl}/oauth/revoke`,
+      userinfo_endpoint: `${baseUrl}/userinfo`,
+      response_types_supported: ['code'],
+      grant_types_supported: [...OAUTH_GRANT_TYPES, 'client_credentials'],
+      code_challenge_methods_supported: ['S256'],
+      token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post', 'none'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: algorithms.size > 0 ? [...algorithms] : [config.signingKeys.algorithm],
+      scopes_supported: ['openid', 'email', 'profile'],
+      claims_supported: [
+        'sub',
+        'iss',
+        'aud',
+        'exp',
+        'iat',
+        'azp',
+        'nonce',
+        'sid',
+        'email',
+        'email_verified',
+        'name',
+        'given_name',
+        'family_name',
+        'picture',
+        'updated_at',
+      ],
+    };
+  }
+
+  /**
+   * Builds the standard claims of a user. Tokens issued through OAuth carry a
+   * scope, and only the claims of the granted email and profile scopes are
+   * released for them; first-party tokens see all claims.
+   */
+  async getUserInfo(userId: string, scope?: string): Promise<UserInfoResponseDto> {
+    const authInfo = await this.userAuthService.resolveUserAuthInfo(userId);
+    if (!authInfo) {
+      // The token outlived its user
+      this.logger.warn('Userinfo requested for unknown user', { userId });
+      throw new AppError('Invalid token', 401);
+    }
+
+    const scopes = scope !== undefined ? parseScope(scope) : ['email', 'profile'];
+
+    return {
+      sub: authInfo.userId,
+      ...(scopes.includes('email') ? {
+        email: authInfo.email,
+        email_verified: authInfo.emailVerified,
+      } : {}),
+      ...(scopes.includes('profile') ? {
+        name: authInfo.name,
+        given_name: authInfo.givenName,
+        family_name: authInfo.familyName,
+        ...(authInfo.picture ? { picture: authInfo.picture } : {}),
+        updated_at: Math.floor(authInfo.updatedAt.getTime() / 1000),
+      } : {}),
+    };
+  }
+}
@@ -0,0 +1,217 @@
+import { injectable, inject } from 'inversify';
+import { IOrganizationRepository } from '../repositories/organizationRepository';
+import { IUserRepository } from '../repositories/userRepository';
+import { ITokenRevocationService } from './tokenRevocationService';
+import { Organization } from '../models/organization';
+import { CreateOrganizationDto, OrganizationResponseDto, UpdateOrganizationDto } from '../dto/organization.dto';
+import { TYPES } from '../types/di.types';
+import { ILogger } from '../logging/logger.interface';
+import { AppError, ValidationError, ValidationViolation } from '../middlewares/errorHandler';
+import { AuthContext } from '../middlewares/auth';
+import { PERMISSIONS } from '../config/permissions';
+
+export type OrganizationActor = Pick<AuthContext, 'userId' | 'orgId' | 'permissions'>;
+
+export interface IOrganizationService {
+  listOrganizations(actor: OrganizationActor): Promise<OrganizationResponseDto[]>;
+  getOrganization(actor: OrganizationActor, id: string): Promise<OrganizationResponseDto>;
+  createOrganization(userId: string, createOrganizationDto: CreateOrganizationDto): Promise<OrganizationResponseDto>;
+  updateOrganization(actor: OrganizationActor, id: string, updateOrganizationDto: UpdateOrganizationDto): Promise<OrganizationResponseDto>;
+  deleteOrganization(actor: OrganizationActor, id: string): Promise<void>;
+}
+
+/**
+ * Manages organizations, the tenants behind the org_id token claim. Members
+ * see their own organization; its owner and holders of orgs:manage may change
+ * it. An orgs:manage holder who belongs to an organization is confined to it,
+ * like every other tenant-isolated admin operation.
+ *
+ * Joining or leaving an organization changes org_id, so the access tokens of
+ * the affected users are revoked and their next refresh carries the new value.
+ * Deleting an organization disables its members and service accounts, since
+ * without an org_id they would no longer be confined to any tenant.
+ */
+@injectable()
+export class OrganizationService implements IOrganizationService {
+  private readonly SLUG_PATTERN = /^[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?$/;
+  private readonly MAX_NAME_LENGTH = 200;
+  private readonly MAX_SETTINGS_BYTES = 16 * 1024;
+
+  constructor(
+    @inject(TYPES.OrganizationRepository) private organizationRepository: IOrganizationRepository,
+    @inject(TYPES.UserRepository) private userRepository: IUserRepository,
+    @inject(TYPES.TokenRevocationService) private tokenRevocationService: ITokenRevocationService,
+    @inject(TYPES.Logger) private logger: ILogger,
+  ) {}
+
+  async listOrganizations(actor: OrganizationActor): Promise<OrganizationResponseDto[]> {
+    if (this.canManageAll(actor)) {
+      const organizations = await this.organizationRepository.findOrganizations();
+      return organizations.map(organization => this.mapToDto(organization));
+    }
+
+    const organization = actor.orgId ? await this.organizationRepository.findOrganizationById(actor.orgId) : null;
+    return organization ? [this.mapToDto(organization)] : [];
+  }
+
+  async getOrganization(actor: OrganizationActor, id: string): Promise<OrganizationResponseDto> {
+    const organization = await this.findVisibleOrganization(actor, id);
+    return this.mapToDto(organization);
+  }
+
+  async createOrganization(userId: string, createOrganizationDto: CreateOrganizationDto): Promise<OrganizationResponseDto> {
+    const user = await this.userRepository.findUserById(userId);
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    if (user.organizationId) {
+      throw new AppError('You already belong to an organization', 409);
+    }
+
+    const name = typeof createOrganizationDto.name === 'string' ? createOrganizationDto.name.trim() : '';
+    const slug = createOrganizationDto.slug ?? this.slugify(name);
+    await this.validateOrganization({ ...createOrganizationDto, name, slug }, true);
+
+    const organization = await this.organizationRepository.createOrganization({
+      name,
+      slug,
+      settings: createOrganizationDto.settings ?? {},
+      ownerId: userId,
+    });
+
+    await this.userRepository.updateUser(userId, { organizationId: organization.id });
+    await this.tokenRevocationService.revokeUserTokens(userId, 'organization created');
+
+    this.logger.info('Organization created', { organizationId: organization.id, slug, ownerId: userId });
+
+    return this.mapToDto(organization);
+  }
+
+  async updateOrganization(
+    actor: OrganizationActor,
+    id: string,
+    updateOrganizationDto: UpdateOrganizationDto,
+  ): Promise<OrganizationResponseDto> {
+    const organization = await this.findManageableOrganization(actor, id);
+
+    const updates = {
+      ...(updateOrganizationDto.name !== undefined
+        ? { name: typeof updateOrganizationDto.name === 'string' ? updateOrganizationDto.name.trim() : updateOrganizationDto.name }
+        : {}),
+      ...(updateOrganizationDto.slug !== undefined ? { slug: updateOrganizationDto.slug } : {}),
+      ...(updateOrganizationDto.settings !== undefined ? { settings: updateOrganizationDto.settings } : {}),
+    };
+
+    if (updates.slug === organization.slug) {
+      delete updates.slug;
+    }
+
+    await this.validateOrganization(updates, false);
+
+    const updated = await this.organizationRepository.updateOrganization(id, updates);
+    if (!updated) {
+      throw new AppError('Organization not found', 404);
+    }
+
+    this.logger.info('Organization updated', { organizationId: id, fields: Object.keys(updates), actorId: actor.userId });
+
+    return this.mapToDto(updated);
+  }
+
+  async deleteOrganization(actor: OrganizationActor, id: string): Promise<void> {
+    await this.findManageableOrganization(actor, id);
+
+    const memberIds = await this.organizationRepository.deleteOrganization(id);
+    if (!memberIds) {
+      throw new AppError('Organization not found', 404);
+    }
+
+    for (const memberId of memberIds) {
+      await this.tokenRevocationService.revokeUserTokens(memberId, 'organization deleted');
+    }
+
+    this.logger.info('Organization deleted', { organizationId: id, members: memberIds.length, actorId: actor.userId });
+  }
+
+  private async findVisibleOrganization(actor: OrganizationActor, id: string): Promise<Organization> {
+    const organization = await this.organizationRepository.findOrganizationById(id);
+
+    // Organizations the caller may not see are reported as missing, not forbidden
+    if (!organization || (actor.orgId !== id && !this.canManageAll(actor))) {
+      throw new AppError('Organization not found', 404);
+    }
+
+    return organization;
+  }
+
+  private async findManageableOrganization(actor: OrganizationActor, id: string): Promise<Organization> {
+    const organization = await this.findVisibleOrganization(actor, id);
+
+    const isOwner = organization.ownerId !== null && organization.ownerId === actor.userId;
+    if (!isOwner && !actor.permissions.includes(PERMISSIONS.ORGS_MANAGE)) {
+      throw new AppError('Only the owner of the organization can change it', 403);
+    }
+
+    return organization;
+  }
+
+  private canManageAll(actor: OrganizationActor): boolean {
+    return !actor.orgId && actor.permissions.includes(PERMISSIONS.ORGS_MANAGE);
+  }
+
+  private async validateOrganization(organization: UpdateOrganizationDto, isNew: boolean): Promise<void> {
+    const violations: ValidationViolation[] = [];
+
+    if ((isNew || organization.name !== undefined)
+      && (typeof organization.name !== 'string' || !organization.name || organization.name.length > this.MAX_NAME_LENGTH)) {
+      violations.push({ code: 'invalid_name', message: `name is required and may have at most ${this.MAX_NAME_LENGTH} characters` });
+    }
+
+    if (organization.slug !== undefined) {
+      if (typeof organization.slug !== 'string' || !this.SLUG_PATTERN.test(organization.slug)) {
+        violations.push({
+          code: 'invalid_slug',
+          message: 'slug must be 1 to 63 lowercase letters, digits or hyphens, and start and end with a letter or digit',
+        });
+      } else if (await this.organizationRepository.findOrganizationBySlug(organization.slug)) {
+        violations.push({ code: 'slug_taken', message: `The slug ${organization.slug} is already in use` });
+      }
+    }
+
+    const settings = organization.settings;
+    if (settings !== undefined) {
+      if (typeof settings !== 'object' || settings === null || Array.isArray(settings)) {
+        violations.push({ code: 'invalid_settings', message: 'settings must be a JSON object' });
+      } else if (Buffer.byteLength(JSON.stringify(settings)) > this.MAX_SETTINGS_BYTES) {
+        violations.push({ code: 'settings_too_large', message: `settings may be at most ${this.MAX_SETTINGS_BYTES} bytes of JSON` });
+      }
+    }
+
+    if (violations.length > 0) {
+      throw new ValidationError('Invalid organization', violations);
+    }
+  }
+
+  private slugify(name: string): string {
+    return name
+      .normalize('NFKD')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 63)
+      .replace(/-+$/, '');
+  }
+
+  private mapToDto(organization: Organization): OrganizationResponseDto {
+    return {
+      id: organization.id,
+      name: organization.name,
+      slug: organization.slug,
+      settings: organization.settings,
+      ownerId: organization.ownerId,
+      createdAt: organization.createdAt,
+      updatedAt: organization.updatedAt,
+    };
+  }
+}
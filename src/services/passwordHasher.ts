@@ -0,0 +1,115 @@
+import { injectable, inject } from 'inversify';
+import bcrypt from 'bcrypt';
+import argon2 from 'argon2';
+import crypto from 'crypto';
+import { TYPES } from '../types/di.types';
+import { ILogger } from '../logging/logger.interface';
+import config from '../config/config';
+
+export type PasswordHashAlgorithm = 'bcrypt' | 'argon2id';
+
+export interface IPasswordHasher {
+  hash(password: string): Promise<string>;
+  verify(password: string, passwordHash: string): Promise<boolean>;
+  needsRehash(passwordHash: string): boolean;
+  verifyDummy(password: string): Promise<void>;
+}
+
+interface PasswordHashStrategy {
+  matches(passwordHash: string): boolean;
+  hash(password: string): Promise<string>;
+  verify(password: string, passwordHash: string): Promise<boolean>;
+  isCurrent(passwordHash: string): boolean;
+}
+
+const BCRYPT_HASH_PATTERN = /^\$2[abxy]\$(\d{2})\$/;
+
+const bcryptStrategy: PasswordHashStrategy = {
+  matches: passwordHash => BCRYPT_HASH_PATTERN.test(passwordHash),
+  hash: password => bcrypt.hash(password, config.passwordHashing.bcryptCost),
+  verify: (password, passwordHash) => bcrypt.compare(password, passwordHash),
+  isCurrent: passwordHash => Number(BCRYPT_HASH_PATTERN.exec(passwordHash)?.[1]) >= config.passwordHashing.bcryptCost,
+};
+
+const argon2Options = () => ({
+  type: argon2.argon2id as typeof argon2.argon2id,
+  memoryCost: config.passwordHashing.argon2MemoryCost,
+  timeCost: config.passwordHashing.argon2TimeCost,
+  parallelism: config.passwordHashing.argon2Parallelism,
+});
+
+const argon2Strategy: PasswordHashStrategy = {
+  // argon2i and argon2d hashes still verify, but are always upgraded to argon2id
+  matches: passwordHash => passwordHash.startsWith('$argon2'),
+  hash: password => argon2.hash(password, argon2Options()),
+  verify: (password, passwordHash) => argon2.verify(passwordHash, password),
+  isCurrent: passwordHash => {
+    if (!passwordHash.startsWith('$argon2id$')) {
+      return false;
+    }
+    const { type: _type, ...options } = argon2Options();
+    return !argon2.needsRehash(passwordHash, options);
+  },
+};
+
+const STRATEGIES: Record<PasswordHashAlgorithm, PasswordHashStrategy> = {
+  bcrypt: bcryptStrategy,
+  argon2id: argon2Strategy,
+};
+
+/**
+ * Hashes and verifies passwords with the configured algorithm. The algorithm of
+ * an existing hash is detected from its prefix, so bcrypt and Argon2 hashes can
+ * coexist while users are migrated on their next login.
+ */
+@injectable()
+export class PasswordHasher implements IPasswordHasher {
+  private dummyHash: Promise<string> | null = null;
+
+  constructor(
+    @inject(TYPES.Logger) private logger: ILogger,
+  ) {}
+
+  async hash(password: string): Promise<string> {
+    return await this.getTargetStrategy().hash(password);
+  }
+
+  async verify(password: string, passwordHash: string): Promise<boolean> {
+    const strategy = this.detectStrategy(passwordHash);
+    if (!strategy) {
+      this.logger.warn('Password verification failed: unrecognised hash format');
+      return false;
+    }
+
+    try {
+      return await strategy.verify(password, passwordHash);
+    } catch (error) {
+      this.logger.warn('Password verification failed: malformed hash', { error: (error as Error).message });
+      return false;
+    }
+  }
+
+  needsRehash(passwordHash: string): boolean {
+    const target = this.getTargetStrategy();
+    return this.detectStrategy(passwordHash) !== target || !target.isCurrent(passwordHash);
+  }
+
+  /**
+   * Runs a verification against a throwaway hash so that a missing account or
+   * password takes as long to reject as a wrong password.
+   */
+  async verifyDummy(password: string): Promise<void> {
+    if (!this.dummyHash) {
+      this.dummyHash = this.hash(crypto.randomBytes(16).toString('hex'));
+    }
+    await this.verify(password, await this.dummyHash);
+  }
+
+  private detectStrategy(passwordHash: string): PasswordHashStrategy | undefined {
+    return Object.values(STRATEGIES).find(strategy => strategy.matches(passwordHash));
+  }
+
+  private getTargetStrategy(): PasswordHashStrategy {
+    return STRATEGIES[config.passwordHashing.algorithm];
+  }
+}
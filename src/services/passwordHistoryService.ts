@@ -0,0 +1,53 @@
+import { injectable, inject } from 'inversify';
+import { IPasswordHistoryRepository } from '../repositories/passwordHistoryRepository';
+import { IPasswordHasher } from './passwordHasher';
+import { TYPES } from '../types/di.types';
+import { ILogger } from '../logging/logger.interface';
+import { ValidationError } from '../middlewares/errorHandler';
+import config from '../config/config';
+
+export interface IPasswordHistoryService {
+  assertPasswordNotReused(userId: string, password: string): Promise<void>;
+  recordPassword(userId: string, passwordHash: string): Promise<void>;
+}
+
+@injectable()
+export class PasswordHistoryService implements IPasswordHistoryService {
+  constructor(
+    @inject(TYPES.PasswordHistoryRepository) private passwordHistoryRepository: IPasswordHistoryRepository,
+    @inject(TYPES.PasswordHasher) private passwordHasher: IPasswordHasher,
+    @inject(TYPES.Logger) private logger: ILogger,
+  ) {}
+
+  async assertPasswordNotReused(userId: string, password: string): Promise<void> {
+    const size = config.passwordHistory.size;
+    if (size <= 0) {
+      return;
+    }
+
+    const recentHashes = await this.passwordHistoryRepository.findRecentPasswordHashes(userId, size);
+
+    for (const passwordHash of recentHashes) {
+      if (await this.passwordHasher.verify(password, passwordHash)) {
+        this.logger.warn('Password rejected: matches a recent password', { userId });
+        throw new ValidationError('Password does not meet the password policy', [
+          { code: 'password_reused', message: `Password must differ from your last ${size} passwords` },
+        ]);
+      }
+    }
+  }
+
+  async recordPassword(userId: string, passwordHash: string): Promise<void> {
+    const size = config.passwordHistory.size;
+    if (size <= 0) {
+      return;
+    }
+
+    await this.passwordHistoryRepository.addPasswordHash(userId, passwordHash);
+
+    const pruned = await this.passwordHistoryRepository.pruneHistory(userId, size);
+    if (pruned > 0) {
+      this.logger.debug('Pruned password history', { userId, count: pruned });
+    }
+  }
+}
@@ -0,0 +1,91 @@
+import { injectable, inject } from 'inversify';
+import { PasswordPolicyContext, PasswordPolicyResponseDto, PasswordPolicyViolation } from '../dto/passwordPolicy.dto';
+import { TYPES } from '../types/di.types';
+import { ILogger } from '../logging/logger.interface';
+import { ValidationError } from '../middlewares/errorHandler';
+import { COMMON_PASSWORDS } from '../config/commonPasswords';
+import config from '../config/config';
+
+export interface IPasswordPolicyService {
+  getPolicy(): PasswordPolicyResponseDto;
+  validatePassword(password: string, context?: PasswordPolicyContext): PasswordPolicyViolation[];
+  assertPasswordAllowed(password: string, context?: PasswordPolicyContext): void;
+}
+
+@injectable()
+export class PasswordPolicyService implements IPasswordPolicyService {
+  // Shorter fragments of an email or name would match too many unrelated passwords
+  private readonly MIN_PERSONAL_INFO_LENGTH = 3;
+
+  constructor(
+    @inject(TYPES.Logger) private logger: ILogger,
+  ) {}
+
+  getPolicy(): PasswordPolicyResponseDto {
+    return { ...config.passwordPolicy };
+  }
+
+  validatePassword(password: string, context: PasswordPolicyContext = {}): PasswordPolicyViolation[] {
+    const policy = config.passwordPolicy;
+    const violations: PasswordPolicyViolation[] = [];
+
+    if (password.length < policy.minLength) {
+      violations.push({ code: 'too_short', message: `Password must be at least ${policy.minLength} characters long` });
+    }
+
+    if (password.length > policy.maxLength) {
+      violations.push({ code: 'too_long', message: `Password must be at most ${policy.maxLength} characters long` });
+    }
+
+    if (policy.requireUppercase && !/\p{Lu}/u.test(password)) {
+      violations.push({ code: 'missing_uppercase', message: 'Password must contain an uppercase letter' });
+    }
+
+    if (policy.requireLowercase && !/\p{Ll}/u.test(password)) {
+      violations.push({ code: 'missing_lowercase', message: 'Password must contain a lowercase letter' });
+    }
+
+    if (policy.requireDigit && !/\p{Nd}/u.test(password)) {
+      violations.push({ code: 'missing_digit', message: 'Password must contain a digit' });
+    }
+
+    if (policy.requireSymbol && !/[^\p{L}\p{Nd}]/u.test(password)) {
+      violations.push({ code: 'missing_symbol', message: 'Password must contain a symbol' });
+    }
+
+    if (policy.disallowCommonPasswords && this.isCommonPassword(password)) {
+      violations.push({ code: 'common_password', message: 'Password is too common' });
+    }
+
+    if (policy.disallowPersonalInfo && this.containsPersonalInfo(password, context)) {
+      violations.push({ code: 'contains_personal_info', message: 'Password must not contain your email address or name' });
+    }
+
+    return violations;
+  }
+
+  assertPasswordAllowed(password: string, context: PasswordPolicyContext = {}): void {
+    const violations = this.validatePassword(password, context);
+    if (violations.length > 0) {
+      this.logger.warn('Password rejected by policy', { violations: violations.map(violation => violation.code) });
+      throw new ValidationError('Password does not meet the password policy', violations);
+    }
+  }
+
+  private isCommonPassword(password: string): boolean {
+    const normalized = password.toLowerCase();
+    // Also catch the usual "common word plus digits or symbols" variations, e.g. "Password123!"
+    const stem = normalized.replace(/[^a-z]+$/, '');
+
+    return COMMON_PASSWORDS.has(normalized) || (stem.length >= 4 && COMMON_PASSWORDS.has(stem));
+  }
+
+  private containsPersonalInfo(password: string, context: PasswordPolicyContext): boolean {
+    const normalized = password.toLowerCase();
+    const emailLocalPart = context.email?.split('@')[0];
+
+    return [context.email, emailLocalPart, context.firstName, context.lastName]
+      .map(value => value?.trim().toLowerCase())
+      .some(value => Boolean(value) && value!.length >= this.MIN_PERSONAL_INFO_LENGTH && normalized.includes(value!));
+  }
+}
@@ -0,0 +1,212 @@
+import { injectable, inject } from 'inversify';
+import crypto from 'crypto';
+import { IPersonalAccessTokenRepository } from '../repositories/personalAccessTokenRepository';
+import { IUserAuthService } from './userAuthService';
+import { PersonalAccessToken } from '../models/personalAccessToken';
+import {
+  CreatePersonalAccessTokenDto,
+  CreatedPersonalAccessTokenResponseDto,
+  PersonalAccessTokenResponseDto,
+} from '../dto/personalAccessToken.dto';
+import { TYPES } from '../types/di.types';
+import { ILogger } from '../logging/logger.interface';
+import { AppError, ValidationError, ValidationViolation } from '../middlewares/errorHandler';
+import config from '../config/config';
+import { parseDurationToSeconds } from '../utils/duration';
+
+export const PERSONAL_ACCESS_TOKEN_PREFIX = 'pat_';
+
+/**
+ * The identity a valid personal access token acts as.
+ */
+export interface PersonalAccessTokenPrincipal {
+  tokenId: string;
+  userId: string;
+  orgId: string | null;
+  // Always empty: a token acts only through the permissions it was granted, never the user's roles
+  roles: string[];
+  // The token's permissions that the user still holds
+  permissions: string[];
+  email: string;
+  name: string;
+  expiresAt: Date;
+}
+
+export interface IPersonalAccessTokenService {
+  createToken(userId: string, createTokenDto: CreatePersonalAccessTokenDto): Promise<CreatedPersonalAccessTokenResponseDto>;
+  listTokens(userId: string): Promise<PersonalAccessTokenResponseDto[]>;
+  deleteToken(userId: string, tokenId: string): Promise<void>;
+  authenticate(token: string): Promise<PersonalAccessTokenPrincipal | null>;
+  revokeToken(token: string): Promise<boolean>;
+}
+
+@injectable()
+export class PersonalAccessTokenService implements IPersonalAccessTokenService {
+  private readonly DEFAULT_MAX_LIFETIME_SECONDS = 365 * 24 * 3600;
+  // lastUsedAt is informational, so skip the write when it was updated recently
+  private readonly LAST_USED_UPDATE_INTERVAL_MS = 60_000;
+
+  constructor(
+    @inject(TYPES.PersonalAccessTokenRepository) private personalAccessTokenRepository: IPersonalAccessTokenRepository,
+    @inject(TYPES.UserAuthService) private userAuthService: IUserAuthService,
+    @inject(TYPES.Logger) private logger: ILogger,
+  ) {}
+
+  async createToken(userId: string, createTokenDto: CreatePersonalAccessTokenDto): Promise<CreatedPersonalAccessTokenResponseDto> {
+    const authInfo = await this.userAuthService.resolveUserAuthInfo(userId);
+    if (!authInfo) {
+      throw new AppError('User not found', 404);
+    }
+
+    await this.validateToken(userId, createTokenDto, authInfo.permissions);
+
+    const token = `${PERSONAL_ACCESS_TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+    const created = await this.personalAccessTokenRepository.createPersonalAccessToken({
+      userId,
+      name: createTokenDto.name.trim(),
+      tokenHash: this.hashToken(token),
+      tokenPrefix: token.substring(0, PERSONAL_ACCESS_TOKEN_PREFIX.length + 8),
+      permissions: [...new Set(createTokenDto.permissions)],
+      expiresAt: new Date(Date.now() + createTokenDto.expiresInDays * 24 * 3600 * 1000),
+    });
+
+    this.logger.info('Personal access token created', {
+      userId,
+      tokenId: created.id,
+      permissions: created.permissions,
+      expiresAt: created.expiresAt,
+    });
+
+    return { ...this.mapToDto(created), token };
+  }
+
+  async listTokens(userId: string): Promise<PersonalAccessTokenResponseDto[]> {
+    const tokens = await this.personalAccessTokenRepository.findPersonalAccessTokensByUserId(userId);
+    return tokens.map(token => this.mapToDto(token));
+  }
+
+  async deleteToken(userId: string, tokenId: string): Promise<void> {
+    const deleted = await this.personalAccessTokenRepository.deletePersonalAccessToken(userId, tokenId);
+    if (!deleted) {
+      throw new AppError('Personal access token not found', 404);
+    }
+
+    this.logger.info('Personal access token deleted', { userId, tokenId });
+  }
+
+  /**
+   * Resolves a presented token, or returns null when it is unknown, expired or
+   * its user is gone or disabled. Permissions are narrowed against the user's
+   * current ones on every request, so losing a role also takes it from the token.
+   */
+  async authenticate(token: string): Promise<PersonalAccessTokenPrincipal | null> {
+    const stored = await this.personalAccessTokenRepository.findPersonalAccessTokenByHash(this.hashToken(token));
+    if (!stored) {
+      this.logger.warn('Personal access token rejected: unknown token');
+      return null;
+    }
+
+    if (new Date() > stored.expiresAt) {
+      this.logger.warn('Personal access token rejected: expired', { userId: stored.userId, tokenId: stored.id });
+      return null;
+    }
+
+    const authInfo = await this.userAuthService.resolveUserAuthInfo(stored.userId);
+    if (!authInfo || authInfo.disabledAt) {
+      this.logger.warn('Personal access token rejected: user missing or disabled', { userId: stored.userId, tokenId: stored.id });
+      return null;
+    }
+
+    const now = new Date();
+    if (!stored.lastUsedAt || now.getTime() - stored.lastUsedAt.getTime() >= this.LAST_USED_UPDATE_INTERVAL_MS) {
+      await this.personalAccessTokenRepository.touchPersonalAccessToken(stored.id, now);
+    }
+
+    return {
+      tokenId: stored.id,
+      userId: authInfo.userId,
+      orgId: authInfo.organizationId,
+      roles: [],
+      permissions: stored.permissions.filter(permission => authInfo.permissions.includes(permission)),
+      email: authInfo.email,
+      name: authInfo.name,
+      expiresAt: stored.expiresAt,
+    };
+  }
+
+  /**
+   * Deletes the token presented, for callers that hold the token but not its ID.
+   */
+  async revokeToken(token: string): Promise<boolean> {
+    const stored = await this.personalAccessTokenRepository.findPersonalAccessTokenByHash(this.hashToken(token));
+    if (!stored) {
+      return false;
+    }
+
+    await this.personalAccessTokenRepository.deletePersonalAccessToken(stored.userId, stored.id);
+    this.logger.info('Personal access token revoked', { userId: stored.userId, tokenId: stored.id });
+
+    return true;
+  }
+
+  private async validateToken(
+    userId: string,
+    createTokenDto: CreatePersonalAccessTokenDto,
+    userPermissions: string[],
+  ): Promise<void> {
+    const violations: ValidationViolation[] = [];
+
+    if (typeof createTokenDto.name !== 'string' || !createTokenDto.name.trim()) {
+      violations.push({ code: 'missing_name', message: 'name is required' });
+    }
+
+    if (!Array.isArray(createTokenDto.permissions) || createTokenDto.permissions.some(permission => typeof permission !== 'string')) {
+      violations.push({ code: 'invalid_permissions', message: 'permissions must be a list of permission names' });
+    } else {
+      for (const permission of createTokenDto.permissions) {
+        if (!userPermissions.includes(permission)) {
+          violations.push({ code: 'permission_not_held', message: `You do not have the ${permission} permission` });
+        }
+      }
+    }
+
+    const maxLifetimeDays = Math.floor(
+      parseDurationToSeconds(config.personalAccessTokens.maxLifetime, this.DEFAULT_MAX_LIFETIME_SECONDS) / (24 * 3600),
+    );
+    if (!Number.isInteger(createTokenDto.expiresInDays)
+      || createTokenDto.expiresInDays < 1
+      || createTokenDto.expiresInDays > maxLifetimeDays) {
+      violations.push({
+        code: 'invalid_expiry',
+        message: `expiresInDays must be a whole number of days between 1 and ${maxLifetimeDays}`,
+      });
+    }
+
+    if (await this.personalAccessTokenRepository.countPersonalAccessTokens(userId) >= config.personalAccessTokens.maxTokensPerUser) {
+      violations.push({
+        code: 'too_many_tokens',
+        message: `You cannot have more than ${config.personalAccessTokens.maxTokensPerUser} personal access tokens`,
+      });
+    }
+
+    if (violations.length > 0) {
+      throw new ValidationError('Invalid personal access token', violations);
+    }
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private mapToDto(token: PersonalAccessToken): PersonalAccessTokenResponseDto {
+    return {
+      id: token.id,
+      name: token.name,
+      tokenPrefix: token.tokenPrefix,
+      permissions: token.permissions,
+      expiresAt: token.expiresAt,
+      lastUsedAt: token.lastUsedAt,
+      createdAt: token.createdAt,
+    };
+  }
+}
@@ -0,0 +1,165 @@
+import { injectable, inject } from 'inversify';
+import crypto from 'crypto';
+import { IRefreshTokenRepository } from '../repositories/refreshTokenRepository';
+import { ISessionRepository } from '../repositories/sessionRepository';
+import { ITokenRevocationService } from './tokenRevocationService';
+import { RefreshToken } from '../models/refreshToken';
+import { TYPES } from '../types/di.types';
+import { ILogger } from '../logging/logger.interface';
+import { AppError } from '../middlewares/errorHandler';
+import config from '../config/config';
+import { parseDurationToSeconds } from '../utils/duration';
+
+export interface IssuedRefreshToken {
+  token: string;
+  expiresAt: Date;
+  familyId: string;
+}
+
+export interface RotatedRefreshToken extends IssuedRefreshToken {
+  userId: string;
+  scope: string | null;
+}
+
+export interface RefreshTokenBinding {
+  // OAuth client the token is issued to; null for first-party logins
+  oauthClientId?: string | null;
+  scope?: string | null;
+}
+
+export interface IRefreshTokenService {
+  issueRefreshToken(userId: string, familyId?: string, binding?: RefreshTokenBinding): Promise<IssuedRefreshToken>;
+  rotateRefreshToken(token: string, oauthClientId?: string | null): Promise<RotatedRefreshToken>;
+  findActiveRefreshToken(token: string): Promise<RefreshToken | null>;
+  revokeRefreshTokenFamily(familyId: string): Promise<void>;
+  revokeRefreshTokensForUser(userId: string): Promise<void>;
+}
+
+@injectable()
+export class RefreshTokenService implements IRefreshTokenService {
+  private readonly DEFAULT_EXPIRY_SECONDS = 30 * 24 * 3600;
+
+  constructor(
+    @inject(TYPES.RefreshTokenRepository) private refreshTokenRepository: IRefreshTokenRepository,
+    @inject(TYPES.SessionRepository) private sessionRepository: ISessionRepository,
+    @inject(TYPES.TokenRevocationService) private tokenRevocationService: ITokenRevocationService,
+    @inject(TYPES.Logger) private logger: ILogger,
+  ) {}
+
+  async issueRefreshToken(userId: string, familyId?: string, binding: RefreshTokenBinding = {}): Promise<IssuedRefreshToken> {
+    const issued = await this.createRefreshToken(userId, familyId, binding);
+    return { token: issued.token, expiresAt: issued.expiresAt, familyId: issued.familyId };
+  }
+
+  /**
+   * Rotates a refresh token. A token only rotates for the OAuth client it was
+   * issued to, and first-party tokens only when no client is given.
+   */
+  async rotateRefreshToken(token: string, oauthClientId: string | null = null): Promise<RotatedRefreshToken> {
+    const existing = await this.refreshTokenRepository.findRefreshTokenByHash(this.hashToken(token));
+
+    if (!existing) {
+      this.logger.warn('Refresh token rotation failed: unknown token');
+      throw new AppError('Invalid refresh token', 401);
+    }
+
+    if ((existing.oauthClientId ?? null) !== oauthClientId) {
+      this.logger.warn('Refresh token rotation failed: token belongs to another client', { userId: existing.userId });
+      throw new AppError('Invalid refresh token', 401);
+    }
+
+    if (existing.revokedAt) {
+      await this.handleReuse(existing.familyId, existing.userId);
+      throw new AppError('Invalid refresh token', 401);
+    }
+
+    if (new Date() > existing.expiresAt) {
+      this.logger.warn('Refresh token rotation failed: token expired', { userId: existing.userId });
+      throw new AppError('Invalid refresh token', 401);
+    }
+
+    const next = await this.createRefreshToken(existing.userId, existing.familyId, {
+      oauthClientId: existing.oauthClientId,
+      scope: existing.scope,
+    });
+
+    const rotated = await this.refreshTokenRepository.markRefreshTokenRotated(existing.id, next.id);
+    if (!rotated) {
+      // Another request rotated this token between our read and write
+      await this.handleReuse(existing.familyId, existing.userId);
+      throw new AppError('Invalid refresh token', 401);
+    }
+
+    this.logger.info('Refresh token rotated', { userId: existing.userId, familyId: existing.familyId });
+
+    return {
+      token: next.token,
+      expiresAt: next.expiresAt,
+      familyId: next.familyId,
+      userId: existing.userId,
+      scope: existing.scope ?? null,
+    };
+  }
+
+  /**
+   * Looks up a refresh token without rotating it; null unless it could still be redeemed.
+   */
+  async findActiveRefreshToken(token: string): Promise<RefreshToken | null> {
+    const existing = await this.refreshTokenRepository.findRefreshTokenByHash(this.hashToken(token));
+
+    if (!existing || existing.revokedAt || new Date() > existing.expiresAt) {
+      return null;
+    }
+
+    return existing;
+  }
+
+  async revokeRefreshTokenFamily(familyId: string): Promise<void> {
+    const revoked = await this.refreshTokenRepository.revokeRefreshTokenFamily(familyId);
+    this.logger.info('Refresh token family revoked', { familyId, revoked });
+  }
+
+  async revokeRefreshTokensForUser(userId: string): Promise<void> {
+    const revoked = await this.refreshTokenRepository.revokeRefreshTokensForUser(userId);
+    this.logger.info('Refresh tokens revoked for user', { userId, revoked });
+  }
+
+  private async handleReuse(familyId: string, userId: string): Promise<void> {
+    this.logger.warn('Refresh token reuse detected, revoking token family', { userId, familyId });
+    await this.revokeRefreshTokenFamily(familyId);
+    // A token family is bound to the session it was issued for
+    await this.sessionRepository.revokeSession(familyId);
+    await this.tokenRevocationService.revokeSession(familyId);
+  }
+
+  private async createRefreshToken(
+    userId: string,
+    familyId?: string,
+    binding: RefreshTokenBinding = {},
+  ): Promise<IssuedRefreshToken & { id: string }> {
+    const token = crypto.randomBytes(48).toString('base64url');
+    const expiresAt = new Date(
+      Date.now() + parseDurationToSeconds(config.jwt.refreshTokenExpiresIn, this.DEFAULT_EXPIRY_SECONDS) * 1000,
+    );
+
+    const refreshToken = await this.refreshTokenRepository.createRefreshToken({
+      userId,
+      tokenHash: this.hashToken(token),
+      familyId: familyId ?? crypto.randomUUID(),
+      expiresAt,
+      oauthClientId: binding.oauthClientId ?? null,
+      scope: binding.scope ?? null,
+    });
+
+    return {
+      id: refreshToken.id,
+      token,
+      expiresAt: refreshToken.expiresAt,
+      familyId: refreshToken.familyId,
+    };
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -1,6 +1,7 @@
 import { injectable, inject } from 'inversify';
 import { IRoleRepository } from '../repositories/roleRepository';
 import { IPermissionRepository } from '../repositories/permissionRepository';
+import { ITokenRevocationService } from './tokenRevocationService';
 import { TYPES } from '../types/di.types';
 import { ILogger } from '../logging/logger.interface';
 import { AppError } from '../middlewares/errorHandler';
@@ -22,6 +23,7 @@ export class RoleService implements IRoleService {
   constructor(
     @inject(TYPES.RoleRepository) private roleRepository: IRoleRepository,
     @inject(TYPES.PermissionRepository) private permissionRepository: IPermissionRepository,
+    @inject(TYPES.TokenRevocationService) private tokenRevocationService: ITokenRevocationService,
     @inject(TYPES.Logger) private logger: ILogger,
   ) {}
 
@@ -71,12 +73,16 @@ export class RoleService implements IRoleService {
   async deleteRole(id: string): Promise<void> {
     this.logger.info('Deleting role', { roleId: id });
 
+    const userIds = await this.roleRepository.getRoleUserIds(id);
+
     const deleted = await this.roleRepository.deleteRole(id);
     if (!deleted) {
       this.logger.warn('Role deletion failed: role not found', { roleId: id });
       throw new AppError('Role not found', 404);
     }
 
+    await this.revokeTokensForUsers(userIds, 'role-deleted');
+
     this.logger.info('Role deleted successfully', { roleId: id });
   }
 
@@ -96,6 +102,10 @@ export class RoleService implements IRoleService {
     this.logger.info('Removing permission from role', { roleId, permissionId });
 
     await this.roleRepository.removePermissionFromRole(roleId, permissionId);
+
+    const userIds = await this.roleRepository.getRoleUserIds(roleId);
+    await this.revokeTokensForUsers(userIds, 'role-permission-removed');
+
     this.logger.info('Permission removed from role successfully', { roleId, permissionId });
   }
 
@@ -103,5 +113,10 @@ export class RoleService implements IRoleService {
     const permissions = await this.roleRepository.getRolePermissions(roleId);
     return permissions.map(p => p.name);
   }
-}
 
+  private async revokeTokensForUsers(userIds: string[], reason: string): Promise<void> {
+    for (const userId of userIds) {
+      await this.tokenRevocationService.revokeUserTokens(userId, reason);
+    }
+  }
+}
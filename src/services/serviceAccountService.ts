@@ -0,0 +1,231 @@
+import { injectable, inject } from 'inversify';
+import crypto from 'crypto';
+import { IServiceAccountRepository } from '../repositories/serviceAccountRepository';
+import { IRoleRepository } from '../repositories/roleRepository';
+import { IOrganizationRepository } from '../repositories/organizationRepository';
+import { ServiceAccount } from '../models/serviceAccount';
+import { Role } from '../models/role';
+import {
+  CreateServiceAccountDto,
+  CreatedServiceAccountResponseDto,
+  ServiceAccountCredentialsDto,
+  ServiceAccountResponseDto,
+} from '../dto/serviceAccount.dto';
+import { ClientCredentials } from '../dto/oauth.dto';
+import { TYPES } from '../types/di.types';
+import { ILogger } from '../logging/logger.interface';
+import { AppError, OAuthError, ValidationError, ValidationViolation } from '../middlewares/errorHandler';
+import { generateClientSecret, hashClientSecret, verifyClientSecret } from '../utils/clientSecret';
+
+/**
+ * Permissions granted to a service account through its roles. Requires the
+ * roles to be loaded with their permissions.
+ */
+export function getServiceAccountPermissions(serviceAccount: ServiceAccount): string[] {
+  return [...new Set(
+    serviceAccount.roles.flatMap(role => (role.permissions ?? []).map(permission => permission.name)),
+  )];
+}
+
+export interface IServiceAccountService {
+  listServiceAccounts(): Promise<ServiceAccountResponseDto[]>;
+  createServiceAccount(
+    createServiceAccountDto: CreateServiceAccountDto,
+    actorPermissions: string[],
+  ): Promise<CreatedServiceAccountResponseDto>;
+  deleteServiceAccount(id: string): Promise<void>;
+  rotateSecret(id: string): Promise<ServiceAccountCredentialsDto>;
+  setDisabled(id: string, disabled: boolean): Promise<void>;
+  addRole(id: string, roleId: string, actorPermissions: string[]): Promise<void>;
+  removeRole(id: string, roleId: string): Promise<void>;
+  authenticateServiceAccount(credentials: ClientCredentials): Promise<ServiceAccount>;
+}
+
+/**
+ * Manages service accounts. Changes to a service account's roles or state
+ * apply to the tokens it requests next; tokens already issued stay valid
+ * until they expire, which is why they are short-lived. Callers can only hand
+ * out roles whose permissions they hold themselves, so a service account never
+ * gets more access than the admin who set it up.
+ */
+@injectable()
+export class ServiceAccountService implements IServiceAccountService {
+  // Prefix keeps service account client IDs apart from those of OAuth clients
+  private readonly CLIENT_ID_PREFIX = 'sa_';
+
+  constructor(
+    @inject(TYPES.ServiceAccountRepository) private serviceAccountRepository: IServiceAccountRepository,
+    @inject(TYPES.RoleRepository) private roleRepository: IRoleRepository,
+    @inject(TYPES.OrganizationRepository) private organizationRepository: IOrganizationRepository,
+    @inject(TYPES.Logger) private logger: ILogger,
+  ) {}
+
+  async listServiceAccounts(): Promise<ServiceAccountResponseDto[]> {
+    const serviceAccounts = await this.serviceAccountRepository.findServiceAccounts();
+    return serviceAccounts.map(serviceAccount => this.mapToDto(serviceAccount));
+  }
+
+  async createServiceAccount(
+    createServiceAccountDto: CreateServiceAccountDto,
+    actorPermissions: string[],
+  ): Promise<CreatedServiceAccountResponseDto> {
+    await this.validateServiceAccount(createServiceAccountDto, actorPermissions);
+
+    const clientSecret = generateClientSecret();
+    const serviceAccount = await this.serviceAccountRepository.createServiceAccount({
+      clientId: `${this.CLIENT_ID_PREFIX}${crypto.randomBytes(16).toString('hex')}`,
+      clientSecretHash: hashClientSecret(clientSecret),
+      name: createServiceAccountDto.name.trim(),
+      description: createServiceAccountDto.description ?? null,
+      organizationId: createServiceAccountDto.organizationId ?? null,
+    });
+
+    for (const roleId of new Set(createServiceAccountDto.roleIds ?? [])) {
+      await this.serviceAccountRepository.addRoleToServiceAccount(serviceAccount.id, roleId);
+    }
+
+    this.logger.info('Service account created', { serviceAccountId: serviceAccount.id, clientId: serviceAccount.clientId });
+
+    const created = await this.getServiceAccount(serviceAccount.id);
+    return { ...this.mapToDto(created), clientSecret };
+  }
+
+  async deleteServiceAccount(id: string): Promise<void> {
+    const deleted = await this.serviceAccountRepository.deleteServiceAccount(id);
+    if (!deleted) {
+      throw new AppError('Service account not found', 404);
+    }
+
+    this.logger.info('Service account deleted', { serviceAccountId: id });
+  }
+
+  async rotateSecret(id: string): Promise<ServiceAccountCredentialsDto> {
+    const serviceAccount = await this.getServiceAccount(id);
+    const clientSecret = generateClientSecret();
+
+    await this.serviceAccountRepository.updateServiceAccount(id, { clientSecretHash: hashClientSecret(clientSecret) });
+    this.logger.info('Service account secret rotated', { serviceAccountId: id });
+
+    return { clientId: serviceAccount.clientId, clientSecret };
+  }
+
+  async setDisabled(id: string, disabled: boolean): Promise<void> {
+    await this.getServiceAccount(id);
+    await this.serviceAccountRepository.updateServiceAccount(id, { disabledAt: disabled ? new Date() : null });
+    this.logger.info(disabled ? 'Service account disabled' : 'Service account enabled', { serviceAccountId: id });
+  }
+
+  async addRole(id: string, roleId: string, actorPermissions: string[]): Promise<void> {
+    await this.getServiceAccount(id);
+
+    const role = await this.roleRepository.getRoleWithPermissions(roleId);
+    if (!role) {
+      throw new AppError('Role not found', 404);
+    }
+    this.assertCanGrantRole(role, actorPermissions);
+
+    await this.serviceAccountRepository.addRoleToServiceAccount(id, roleId);
+    this.logger.info('Role assigned to service account', { serviceAccountId: id, roleId });
+  }
+
+  async removeRole(id: string, roleId: string): Promise<void> {
+    await this.getServiceAccount(id);
+    await this.serviceAccountRepository.removeRoleFromServiceAccount(id, roleId);
+    this.logger.info('Role removed from service account', { serviceAccountId: id, roleId });
+  }
+
+  /**
+   * Authenticates a service account at the token endpoint. Unknown, disabled
+   * and wrong-secret requests fail alike so none of them can be told apart.
+   */
+  async authenticateServiceAccount(credentials: ClientCredentials): Promise<ServiceAccount> {
+    const serviceAccount = credentials.clientId?.startsWith(this.CLIENT_ID_PREFIX)
+      ? await this.serviceAccountRepository.findServiceAccountByClientId(credentials.clientId)
+      : null;
+
+    if (!serviceAccount
+      || !verifyClientSecret(credentials.clientSecret, serviceAccount.clientSecretHash)
+      || serviceAccount.disabledAt) {
+      this.logger.warn('Service account authentication failed', { clientId: credentials.clientId });
+      throw new OAuthError('invalid_client', 'Client authentication failed', 401, { 'WWW-Authenticate': 'Basic' });
+    }
+
+    return serviceAccount;
+  }
+
+  private async getServiceAccount(id: string): Promise<ServiceAccount> {
+    const serviceAccount = await this.serviceAccountRepository.findServiceAccountById(id);
+    if (!serviceAccount) {
+      throw new AppError('Service account not found', 404);
+    }
+    return serviceAccount;
+  }
+
+  private assertCanGrantRole(role: Role, actorPermissions: string[]): void {
+    const missingPermissions = (role.permissions ?? [])
+      .map(permission => permission.name)
+      .filter(permission => !actorPermissions.includes(permission));
+
+    if (missingPermissions.length > 0) {
+      this.logger.warn('Service account role rejected: role holds permissions the caller lacks', {
+        roleId: role.id,
+        missingPermissions,
+      });
+      throw new AppError('You cannot assign a role with permissions you do not hold', 403);
+    }
+  }
+
+  private async validateServiceAccount(
+    createServiceAccountDto: CreateServiceAccountDto,
+    actorPermissions: string[],
+  ): Promise<void> {
+    const violations: ValidationViolation[] = [];
+    const roles: Role[] = [];
+
+    if (typeof createServiceAccountDto.name !== 'string' || !createServiceAccountDto.name.trim()) {
+      violations.push({ code: 'missing_name', message: 'name is required' });
+    }
+
+    const roleIds = createServiceAccountDto.roleIds;
+    if (roleIds !== undefined) {
+      if (!Array.isArray(roleIds) || roleIds.some(roleId => typeof roleId !== 'string')) {
+        violations.push({ code: 'invalid_roles', message: 'roleIds must be a list of role IDs' });
+      } else {
+        for (const roleId of roleIds) {
+          const role = await this.roleRepository.getRoleWithPermissions(roleId);
+          if (role) {
+            roles.push(role);
+          } else {
+            violations.push({ code: 'unknown_role', message: `Role ${roleId} does not exist` });
+          }
+        }
+      }
+    }
+
+    const organizationId = createServiceAccountDto.organizationId;
+    if (organizationId !== undefined && organizationId !== null) {
+      if (typeof organizationId !== 'string' || !(await this.organizationRepository.findOrganizationById(organizationId))) {
+        violations.push({ code: 'unknown_organization', message: `Organization ${organizationId} does not exist` });
+      }
+    }
+
+    if (violations.length > 0) {
+      throw new ValidationError('Invalid service account', violations);
+    }
+
+    roles.forEach(role => this.assertCanGrantRole(role, actorPermissions));
+  }
+
+  private mapToDto(serviceAccount: ServiceAccount): ServiceAccountResponseDto {
+    return {
+      id: serviceAccount.id,
+      clientId: serviceAccount.clientId,
+      name: serviceAccount.name,
+      description: serviceAccount.description,
+      organizationId: serviceAccount.organizationId,
+      roles: (serviceAccount.roles ?? []).map(role => role.name),
+      disabled: serviceAccount.disabledAt !== null,
+      createdAt: serviceAccount.createdAt,
+    };
+  }
+}
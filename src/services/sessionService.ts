@@ -0,0 +1,93 @@
+import { injectable, inject } from 'inversify';
+import { ISessionRepository } from '../repositories/sessionRepository';
+import { IRefreshTokenService } from './refreshTokenService';
+import { ITokenRevocationService } from './tokenRevocationService';
+import { SessionMetadata } from '../dto/session.dto';
+import { TYPES } from '../types/di.types';
+import { ILogger } from '../logging/logger.interface';
+import { AppError } from '../middlewares/errorHandler';
+import { Session } from '../models/session';
+import config from '../config/config';
+import { parseDurationToSeconds } from '../utils/duration';
+import { describeUserAgent } from '../utils/sessionMetadata';
+
+export interface ISessionService {
+  createSession(userId: string, metadata: SessionMetadata): Promise<Session>;
+  getActiveSession(sessionId: string): Promise<Session | null>;
+  touchSession(sessionId: string, expiresAt: Date): Promise<void>;
+  listActiveSessions(userId: string): Promise<Session[]>;
+  revokeSession(userId: string, sessionId: string): Promise<void>;
+  revokeAllSessions(userId: string, reason: string): Promise<number>;
+}
+
+@injectable()
+export class SessionService implements ISessionService {
+  constructor(
+    @inject(TYPES.SessionRepository) private sessionRepository: ISessionRepository,
+    @inject(TYPES.RefreshTokenService) private refreshTokenService: IRefreshTokenService,
+    @inject(TYPES.TokenRevocationService) private tokenRevocationService: ITokenRevocationService,
+    @inject(TYPES.Logger) private logger: ILogger,
+  ) {}
+
+  async createSession(userId: string, metadata: SessionMetadata): Promise<Session> {
+    const expiresAt = new Date(Date.now() + parseDurationToSeconds(config.jwt.refreshTokenExpiresIn) * 1000);
+
+    const session = await this.sessionRepository.createSession({
+      userId,
+      userAgent: metadata.userAgent ?? null,
+      deviceName: describeUserAgent(metadata.userAgent),
+      ipAddress: metadata.ipAddress ?? null,
+      expiresAt,
+    });
+
+    this.logger.info('Session created', { userId, sessionId: session.id, deviceName: session.deviceName });
+
+    return session;
+  }
+
+  async getActiveSession(sessionId: string): Promise<Session | null> {
+    const session = await this.sessionRepository.findSessionById(sessionId);
+
+    if (!session || session.revokedAt || new Date() > session.expiresAt) {
+      return null;
+    }
+
+    return session;
+  }
+
+  async touchSession(sessionId: string, expiresAt: Date): Promise<void> {
+    await this.sessionRepository.touchSession(sessionId, expiresAt);
+  }
+
+  async listActiveSessions(userId: string): Promise<Session[]> {
+    return await this.sessionRepository.findActiveSessionsByUserId(userId);
+  }
+
+  async revokeSession(userId: string, sessionId: string): Promise<void> {
+    this.logger.info('Revoking session', { userId, sessionId });
+
+    const session = await this.sessionRepository.findSessionById(sessionId);
+    if (!session || session.userId !== userId) {
+      this.logger.warn('Session revocation failed: session not found', { userId, sessionId });
+      throw new AppError('Session not found', 404);
+    }
+
+    await this.sessionRepository.revokeSession(sessionId);
+    await this.refreshTokenService.revokeRefreshTokenFamily(sessionId);
+    await this.tokenRevocationService.revokeSession(sessionId);
+
+    this.logger.info('Session revoked', { userId, sessionId });
+  }
+
+  async revokeAllSessions(userId: string, reason: string): Promise<number> {
+    this.logger.info('Revoking all sessions', { userId, reason });
+
+    const sessionIds = await this.sessionRepository.revokeAllSessionsForUser(userId);
+    await this.refreshTokenService.revokeRefreshTokensForUser(userId);
+    await this.tokenRevocationService.revokeUserTokens(userId, reason);
+
+    this.logger.info('All sessions revoked', { userId, count: sessionIds.length });
+
+    return sessionIds.length;
+  }
+}
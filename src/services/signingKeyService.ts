@@ -0,0 +1,289 @@
+import { injectable, inject } from 'inversify';
+import jwt, { JwtPayload } from 'jsonwebtoken';
+import { ISigningKeyRepository } from '../repositories/signingKeyRepository';
+import { SigningKey } from '../models/signingKey';
+import { SigningKeyResponseDto, GenerateSigningKeyDto } from '../dto/signingKey.dto';
+import { TYPES } from '../types/di.types';
+import { ILogger } from '../logging/logger.interface';
+import { AppError } from '../middlewares/errorHandler';
+import config from '../config/config';
+import { getKeyId } from '../utils/keyIdentity';
+import { decryptPrivateKey, encryptPrivateKey, isEncryptedPrivateKey } from '../utils/keyEncryption';
+import {
+  SigningAlgorithm,
+  detectSigningAlgorithm,
+  generateSigningKeyPair,
+  signJwt,
+  verifyJwt,
+  VerifyJwtOptions,
+} from '../utils/signingAlgorithms';
+
+export interface ActiveSigningKey {
+  kid: string;
+  algorithm: SigningAlgorithm;
+  privateKey: string;
+}
+
+export interface VerificationKey {
+  kid: string;
+  algorithm: SigningAlgorithm;
+  publicKey: string;
+}
+
+export interface ISigningKeyService {
+  ensureActiveKey(): Promise<void>;
+  getActiveKey(): Promise<ActiveSigningKey>;
+  sign(payload: object): Promise<string>;
+  verify(token: string, options?: VerifyJwtOptions): Promise<JwtPayload>;
+  getVerificationKey(kid: string | undefined): Promise<VerificationKey | null>;
+  getPublishedKeys(): Promise<VerificationKey[]>;
+  listKeys(): Promise<SigningKeyResponseDto[]>;
+  generateKey(options?: GenerateSigningKeyDto): Promise<SigningKeyResponseDto>;
+  promoteKey(kid: string): Promise<SigningKeyResponseDto>;
+  retireKey(kid: string): Promise<SigningKeyResponseDto>;
+}
+
+/**
+ * Holds the token signing keys. Keys live in the database so every instance
+ * sees rotations; each instance caches them briefly and reloads early when it
+ * meets a kid it does not know yet. Private keys are stored encrypted when
+ * SIGNING_KEY_ENCRYPTION_KEY is set and only held decrypted in that cache.
+ */
+@injectable()
+export class SigningKeyService implements ISigningKeyService {
+  // Lower bound between reloads triggered by an unknown kid
+  private readonly MIN_RELOAD_INTERVAL_MS = 10_000;
+  private cache: { keys: SigningKey[]; loadedAt: number } | null = null;
+
+  constructor(
+    @inject(TYPES.SigningKeyRepository) private signingKeyRepository: ISigningKeyRepository,
+    @inject(TYPES.Logger) private logger: ILogger,
+  ) {}
+
+  /**
+   * Makes sure a signing key exists at startup. An empty store is seeded with
+   * the key configured through keys/*.pem or JWT_PRIVATE_KEY, or with a newly
+   * generated key when none is configured.
+   */
+  async ensureActiveKey(): Promise<void> {
+    const keys = await this.loadKeys(true);
+    if (keys.some(key => key.status === 'active')) {
+      return;
+    }
+
+    try {
+      if (keys.length === 0 && config.jwt.privateKey && config.jwt.publicKey) {
+        // The key type decides the algorithm; only RSA keys leave a choice
+        const detected = detectSigningAlgorithm(config.jwt.publicKey);
+        const algorithm = detected === 'RS256' && config.signingKeys.algorithm === 'PS256' ? 'PS256' : detected;
+
+        const kid = getKeyId(config.jwt.publicKey);
+        await this.signingKeyRepository.createSigningKey({
+          kid,
+          algorithm,
+          status: 'active',
+          publicKey: config.jwt.publicKey,
+          privateKey: this.sealPrivateKey(config.jwt.privateKey, kid),
+        });
+        this.logger.info('Imported configured JWT key into the signing key store', { algorithm });
+      } else {
+        this.logger.warn('No active signing key found, generating one');
+        await this.generateKey({ activate: true });
+      }
+    } catch (error) {
+      // Another instance may have seeded the store at the same time
+      const reloaded = await this.loadKeys(true);
+      if (!reloaded.some(key => key.status === 'active')) {
+        throw error;
+      }
+    }
+
+    await this.loadKeys(true);
+  }
+
+  async getActiveKey(): Promise<ActiveSigningKey> {
+    let active = (await this.loadKeys()).find(key => key.status === 'active');
+    if (!active) {
+      await this.ensureActiveKey();
+      active = (await this.loadKeys()).find(key => key.status === 'active');
+    }
+
+    if (!active) {
+      throw new Error('No active signing key');
+    }
+
+    return { kid: active.kid, algorithm: active.algorithm as SigningAlgorithm, privateKey: active.privateKey };
+  }
+
+  /**
+   * Signs a JWT with the active key and its algorithm, naming it in the kid header.
+   */
+  async sign(payload: object): Promise<string> {
+    const signingKey = await this.getActiveKey();
+    return signJwt(payload, signingKey.privateKey, signingKey.algorithm, signingKey.kid);
+  }
+
+  /**
+   * Verifies a JWT against the key named by its kid header. The algorithm comes
+   * from the stored key, never from the token, so a token cannot pick a weaker one.
+   */
+  async verify(token: string, options: VerifyJwtOptions = {}): Promise<JwtPayload> {
+    const decoded = jwt.decode(token, { complete: true });
+    if (!decoded) {
+      throw new jwt.JsonWebTokenError('jwt malformed');
+    }
+
+    const key = await this.getVerificationKey(decoded.header.kid);
+    if (!key) {
+      throw new jwt.JsonWebTokenError('unknown signing key');
+    }
+
+    return verifyJwt(token, key.publicKey, key.algorithm, options);
+  }
+
+  async getVerificationKey(kid: string | undefined): Promise<VerificationKey | null> {
+    const findKey = (keys: SigningKey[]) => kid
+      ? keys.find(key => key.kid === kid && key.status !== 'retired')
+      : keys.find(key => key.status === 'active');
+
+    let key = findKey(await this.loadKeys());
+
+    // Another instance may have generated or promoted a key since our last load
+    if (!key && kid && this.cache && Date.now() - this.cache.loadedAt >= this.MIN_RELOAD_INTERVAL_MS) {
+      key = findKey(await this.loadKeys(true));
+    }
+
+    return key ? this.toVerificationKey(key) : null;
+  }
+
+  async getPublishedKeys(): Promise<VerificationKey[]> {
+    const keys = await this.loadKeys();
+    return keys.filter(key => key.status !== 'retired').map(key => this.toVerificationKey(key));
+  }
+
+  async listKeys(): Promise<SigningKeyResponseDto[]> {
+    const keys = await this.loadKeys(true);
+    return keys.map(key => this.mapToDto(key));
+  }
+
+  async generateKey(options: GenerateSigningKeyDto = {}): Promise<SigningKeyResponseDto> {
+    const algorithm = options.algorithm ?? config.signingKeys.algorithm;
+    const { publicKey, privateKey } = await generateSigningKeyPair(algorithm);
+    const kid = getKeyId(publicKey);
+
+    const signingKey = await this.signingKeyRepository.createSigningKey({
+      kid,
+      algorithm,
+      status: 'verification',
+      publicKey,
+      privateKey: this.sealPrivateKey(privateKey, kid),
+    });
+
+    this.logger.info('Signing key generated', { kid: signingKey.kid, algorithm });
+    this.cache = null;
+
+    if (options.activate) {
+      return await this.promoteKey(signingKey.kid);
+    }
+
+    return this.mapToDto(signingKey);
+  }
+
+  async promoteKey(kid: string): Promise<SigningKeyResponseDto> {
+    const activated = await this.signingKeyRepository.activateSigningKey(kid);
+    if (!activated) {
+      throw new AppError('Signing key not found or retired', 404);
+    }
+
+    this.logger.info('Signing key promoted to active', { kid });
+    return await this.getKeyDto(kid);
+  }
+
+  async retireKey(kid: string): Promise<SigningKeyResponseDto> {
+    const key = await this.signingKeyRepository.findSigningKeyByKid(kid);
+    if (!key) {
+      throw new AppError('Signing key not found', 404);
+    }
+
+    if (key.status === 'active') {
+      throw new AppError('The active signing key cannot be retired; promote another key first', 409);
+    }
+
+    if (key.status === 'verification' && !(await this.signingKeyRepository.retireSigningKey(kid))) {
+      throw new AppError('Signing key changed concurrently, retry', 409);
+    }
+
+    this.logger.info('Signing key retired', { kid });
+    return await this.getKeyDto(kid);
+  }
+
+  private async getKeyDto(kid: string): Promise<SigningKeyResponseDto> {
+    this.cache = null;
+    const key = await this.signingKeyRepository.findSigningKeyByKid(kid);
+    if (!key) {
+      throw new AppError('Signing key not found', 404);
+    }
+    return this.mapToDto(key);
+  }
+
+  private async loadKeys(force = false): Promise<SigningKey[]> {
+    if (!force && this.cache && Date.now() - this.cache.loadedAt < config.signingKeys.cacheTtlMs) {
+      return this.cache.keys;
+    }
+
+    // The kid is always the key's RFC 7638 thumbprint, whatever an older row stored
+    const keys = await Promise.all((await this.signingKeyRepository.findSigningKeys())
+      .map(key => this.unsealPrivateKey(Object.assign(key, { kid: getKeyId(key.publicKey) }))));
+    this.cache = { keys, loadedAt: Date.now() };
+    return keys;
+  }
+
+  private sealPrivateKey(privateKey: string, kid: string): string {
+    const { encryptionKey } = config.signingKeys;
+    return encryptionKey ? encryptPrivateKey(privateKey, encryptionKey, kid) : privateKey;
+  }
+
+  /**
+   * Decrypts the private key of a stored row in place. Rows written before an
+   * encryption key was configured hold plain PEM and are encrypted on the way.
+   */
+  private async unsealPrivateKey(key: SigningKey): Promise<SigningKey> {
+    const { encryptionKey } = config.signingKeys;
+
+    if (isEncryptedPrivateKey(key.privateKey)) {
+      if (!encryptionKey) {
+        throw new Error(`Signing key ${key.kid} is stored encrypted but SIGNING_KEY_ENCRYPTION_KEY is not set`);
+      }
+      return Object.assign(key, { privateKey: decryptPrivateKey(key.privateKey, encryptionKey, key.kid) });
+    }
+
+    if (encryptionKey) {
+      try {
+        const encrypted = encryptPrivateKey(key.privateKey, encryptionKey, key.kid);
+        if (await this.signingKeyRepository.replacePrivateKey(key.id, key.privateKey, encrypted)) {
+          this.logger.info('Encrypted plaintext signing key at rest', { kid: key.kid });
+        }
+      } catch (error) {
+        // The key stays usable; the next load tries again
+        this.logger.warn('Failed to encrypt plaintext signing key', { kid: key.kid, error: (error as Error).message });
+      }
+    }
+
+    return key;
+  }
+
+  private toVerificationKey(key: SigningKey): VerificationKey {
+    return { kid: key.kid, algorithm: key.algorithm as SigningAlgorithm, publicKey: key.publicKey };
+  }
+
+  private mapToDto(key: SigningKey): SigningKeyResponseDto {
+    return {
+      kid: key.kid,
+      algorithm: key.algorithm,
+      status: key.status,
+      createdAt: key.createdAt,
+      activatedAt: key.activatedAt,
+      retiredAt: key.retiredAt,
+    };
+  }
+}
@@ -0,0 +1,173 @@
+import { injectable, inject } from 'inversify';
+import { IServiceAccountService, getServiceAccountPermissions } from './serviceAccountService';
+import { ITokenRevocationService } from './tokenRevocationService';
+import { ISigningKeyService } from './signingKeyService';
+import { IPersonalAccessTokenService, PERSONAL_ACCESS_TOKEN_PREFIX } from './personalAccessTokenService';
+import { IRefreshTokenService } from './refreshTokenService';
+import { ISessionService } from './sessionService';
+import { IOAuthClientRepository } from '../repositories/oauthClientRepository';
+import { ClientCredentials, IntrospectionResponseDto, TokenLookupRequestDto } from '../dto/oauth.dto';
+import { TYPES } from '../types/di.types';
+import { ILogger } from '../logging/logger.interface';
+import { AppError, OAuthError } from '../middlewares/errorHandler';
+import { verifyBearerToken } from '../middlewares/auth';
+import { PERMISSIONS } from '../config/permissions';
+import config from '../config/config';
+
+export interface ITokenIntrospectionService {
+  introspect(lookupRequest: TokenLookupRequestDto, credentials: ClientCredentials): Promise<IntrospectionResponseDto>;
+  revoke(lookupRequest: TokenLookupRequestDto, credentials: ClientCredentials): Promise<void>;
+}
+
+/**
+ * Token introspection (RFC 7662) and revocation (RFC 7009) for resource
+ * servers. Callers authenticate as service accounts holding tokens:introspect
+ * or tokens:revoke, and may look up any token this service issued: access
+ * tokens, refresh tokens and personal access tokens.
+ */
+@injectable()
+export class TokenIntrospectionService implements ITokenIntrospectionService {
+  constructor(
+    @inject(TYPES.ServiceAccountService) private serviceAccountService: IServiceAccountService,
+    @inject(TYPES.TokenRevocationService) private tokenRevocationService: ITokenRevocationService,
+    @inject(TYPES.SigningKeyService) private signingKeyService: ISigningKeyService,
+    @inject(TYPES.PersonalAccessTokenService) private personalAccessTokenService: IPersonalAccessTokenService,
+    @inject(TYPES.RefreshTokenService) private refreshTokenService: IRefreshTokenService,
+    @inject(TYPES.SessionService) private sessionService: ISessionService,
+    @inject(TYPES.OAuthClientRepository) private oauthClientRepository: IOAuthClientRepository,
+    @inject(TYPES.Logger) private logger: ILogger,
+  ) {}
+
+  async introspect(lookupRequest: TokenLookupRequestDto, credentials: ClientCredentials): Promise<IntrospectionResponseDto> {
+    await this.authorizeCaller(credentials, PERMISSIONS.TOKENS_INTROSPECT);
+
+    const token = this.requireToken(lookupRequest);
+
+    if (this.isJwt(token) || token.startsWith(PERSONAL_ACCESS_TOKEN_PREFIX)) {
+      return await this.introspectBearerToken(token);
+    }
+
+    return await this.introspectRefreshToken(token);
+  }
+
+  async revoke(lookupRequest: TokenLookupRequestDto, credentials: ClientCredentials): Promise<void> {
+    const serviceAccount = await this.authorizeCaller(credentials, PERMISSIONS.TOKENS_REVOKE);
+
+    const token = this.requireToken(lookupRequest);
+
+    // Unknown, expired and already revoked tokens are not an error (RFC 7009, section 2.2)
+    if (token.startsWith(PERSONAL_ACCESS_TOKEN_PREFIX)) {
+      await this.personalAccessTokenService.revokeToken(token);
+    } else if (this.isJwt(token)) {
+      await this.revokeAccessToken(token);
+    } else {
+      await this.revokeRefreshToken(token);
+    }
+
+    this.logger.info('Token revoked through the revocation endpoint', { clientId: serviceAccount.clientId });
+  }
+
+  private async introspectBearerToken(token: string): Promise<IntrospectionResponseDto> {
+    const verified = await verifyBearerToken(
+      token,
+      this.tokenRevocationService,
+      this.signingKeyService,
+      this.personalAccessTokenService,
+    );
+
+    if (!verified.valid) {
+      return { active: false };
+    }
+
+    const { auth, payload } = verified;
+
+    return {
+      active: true,
+      token_use: auth.personalAccessTokenId ? 'personal_access_token' : 'access_token',
+      sub: auth.userId,
+      ...(auth.clientId ? { client_id: auth.clientId } : {}),
+      ...(typeof payload?.scope === 'string' ? { scope: payload.scope } : {}),
+      ...(payload ? { iat: payload.iat } : {}),
+      exp: verified.expiresAt,
+      iss: config.jwt.issuer,
+      org_id: auth.orgId,
+      roles: auth.roles,
+      permissions: auth.permissions,
+      ...(auth.actorUserId ? { act: { sub: auth.actorUserId } } : {}),
+    };
+  }
+
+  private async introspectRefreshToken(token: string): Promise<IntrospectionResponseDto> {
+    const refreshToken = await this.refreshTokenService.findActiveRefreshToken(token);
+    if (!refreshToken || !(await this.sessionService.getActiveSession(refreshToken.familyId))) {
+      return { active: false };
+    }
+
+    const client = refreshToken.oauthClientId
+      ? await this.oauthClientRepository.findOAuthClientById(refreshToken.oauthClientId)
+      : null;
+
+    return {
+      active: true,
+      token_use: 'refresh_token',
+      sub: refreshToken.userId,
+      ...(client ? { client_id: client.clientId } : {}),
+      ...(refreshToken.scope !== null ? { scope: refreshToken.scope } : {}),
+      iat: Math.floor(refreshToken.createdAt.getTime() / 1000),
+      exp: Math.floor(refreshToken.expiresAt.getTime() / 1000),
+      iss: config.jwt.issuer,
+    };
+  }
+
+  private async revokeAccessToken(token: string): Promise<void> {
+    let claims;
+    try {
+      claims = await this.signingKeyService.verify(token, { audience: config.jwt.audience });
+    } catch {
+      return;
+    }
+
+    if (typeof claims.jti === 'string' && typeof claims.exp === 'number') {
+      await this.tokenRevocationService.revokeToken(claims.jti, new Date(claims.exp * 1000));
+    }
+  }
+
+  private async revokeRefreshToken(token: string): Promise<void> {
+    const refreshToken = await this.refreshTokenService.findActiveRefreshToken(token);
+    if (!refreshToken) {
+      return;
+    }
+
+    // The token family is the session, so revoking it also ends the access tokens of that grant
+    try {
+      await this.sessionService.revokeSession(refreshToken.userId, refreshToken.familyId);
+    } catch (error) {
+      if (!(error instanceof AppError && error.status === 404)) {
+        throw error;
+      }
+      await this.refreshTokenService.revokeRefreshTokenFamily(refreshToken.familyId);
+    }
+  }
+
+  private async authorizeCaller(credentials: ClientCredentials, permission: string) {
+    const serviceAccount = await this.serviceAccountService.authenticateServiceAccount(credentials);
+
+    if (!getServiceAccountPermissions(serviceAccount).includes(permission)) {
+      this.logger.warn('Token endpoint call rejected: missing permission', { clientId: serviceAccount.clientId, permission });
+      throw new OAuthError('unauthorized_client', `The service account lacks the ${permission} permission`, 403);
+    }
+
+    return serviceAccount;
+  }
+
+  private requireToken(lookupRequest: TokenLookupRequestDto): string {
+    if (!lookupRequest.token) {
+      throw new OAuthError('invalid_request', 'token is required');
+    }
+    return lookupRequest.token;
+  }
+
+  private isJwt(token: string): boolean {
+    return token.split('.').length === 3;
+  }
+}
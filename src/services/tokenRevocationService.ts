@@ -0,0 +1,126 @@
+import { injectable, inject } from 'inversify';
+import { IRevokedTokenRepository } from '../repositories/revokedTokenRepository';
+import { IUserRepository } from '../repositories/userRepository';
+import { RevokedTokenType } from '../models/revokedToken';
+import { TYPES } from '../types/di.types';
+import { ILogger } from '../logging/logger.interface';
+import config from '../config/config';
+import { parseDurationToSeconds } from '../utils/duration';
+import { TtlCache } from '../utils/ttlCache';
+
+export interface TokenRevocationClaims {
+  sub: string;
+  iat: number;
+  jti?: string;
+  sid?: string;
+}
+
+export interface ITokenRevocationService {
+  isTokenRevoked(claims: TokenRevocationClaims): Promise<boolean>;
+  revokeToken(jti: string, expiresAt: Date): Promise<void>;
+  revokeTokenOnce(jti: string, expiresAt: Date): Promise<boolean>;
+  revokeSession(sessionId: string): Promise<void>;
+  revokeUserTokens(userId: string, reason: string): Promise<void>;
+}
+
+/**
+ * Decides whether an otherwise valid access token has been revoked.
+ *
+ * Lookups are cached in-process for `config.tokenRevocation.cacheTtlMs`, so a
+ * revocation made by another instance takes at most that long to be enforced here.
+ * Revocations made through this instance are applied to the cache immediately.
+ */
+@injectable()
+export class TokenRevocationService implements ITokenRevocationService {
+  private readonly denylistCache: TtlCache<boolean>;
+  private readonly tokensValidAfterCache: TtlCache<number | null>;
+
+  constructor(
+    @inject(TYPES.RevokedTokenRepository) private revokedTokenRepository: IRevokedTokenRepository,
+    @inject(TYPES.UserRepository) private userRepository: IUserRepository,
+    @inject(TYPES.Logger) private logger: ILogger,
+  ) {
+    const { cacheTtlMs, cacheMaxEntries } = config.tokenRevocation;
+    this.denylistCache = new TtlCache<boolean>(cacheTtlMs, cacheMaxEntries);
+    this.tokensValidAfterCache = new TtlCache<number | null>(cacheTtlMs, cacheMaxEntries);
+  }
+
+  async isTokenRevoked(claims: TokenRevocationClaims): Promise<boolean> {
+    if (claims.jti && await this.isDenylisted('jti', claims.jti)) {
+      return true;
+    }
+
+    if (claims.sid && await this.isDenylisted('sid', claims.sid)) {
+      return true;
+    }
+
+    const tokensValidAfter = await this.getTokensValidAfter(claims.sub);
+    return tokensValidAfter !== null && claims.iat * 1000 <= tokensValidAfter;
+  }
+
+  async revokeToken(jti: string, expiresAt: Date): Promise<void> {
+    await this.addToDenylist('jti', jti, expiresAt);
+    this.logger.info('Access token revoked', { jti });
+  }
+
+  /**
+   * Revokes a single-use token as it is used. Returns false when the token was
+   * already revoked, so of two concurrent uses only one succeeds.
+   */
+  async revokeTokenOnce(jti: string, expiresAt: Date): Promise<boolean> {
+    const revoked = await this.revokedTokenRepository.addRevokedTokenIfAbsent('jti', jti, expiresAt);
+    this.denylistCache.set(`jti:${jti}`, true);
+    return revoked;
+  }
+
+  async revokeSession(sessionId: string): Promise<void> {
+    // Access tokens bound to the session stay verifiable until their own expiry
+    const expiresAt = new Date(Date.now() + parseDurationToSeconds(config.jwt.expiresIn) * 1000);
+    await this.addToDenylist('sid', sessionId, expiresAt);
+    this.logger.info('Session tokens revoked', { sessionId });
+  }
+
+  async revokeUserTokens(userId: string, reason: string): Promise<void> {
+    // JWT iat has second precision, so tokens issued in the same second as the cutoff are revoked too
+    const tokensValidAfter = new Date(Math.floor(Date.now() / 1000) * 1000);
+
+    await this.userRepository.updateUser(userId, { tokensValidAfter });
+    this.tokensValidAfterCache.set(userId, tokensValidAfter.getTime());
+
+    this.logger.info('All tokens revoked for user', { userId, reason });
+  }
+
+  private async isDenylisted(type: RevokedTokenType, value: string): Promise<boolean> {
+    const cacheKey = `${type}:${value}`;
+    const cached = this.denylistCache.get(cacheKey);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const revoked = await this.revokedTokenRepository.isRevoked(type, value);
+    this.denylistCache.set(cacheKey, revoked);
+    return revoked;
+  }
+
+  private async addToDenylist(type: RevokedTokenType, value: string, expiresAt: Date): Promise<void> {
+    await this.revokedTokenRepository.addRevokedToken(type, value, expiresAt);
+    this.denylistCache.set(`${type}:${value}`, true);
+
+    const pruned = await this.revokedTokenRepository.deleteExpiredRevokedTokens();
+    if (pruned > 0) {
+      this.logger.debug('Pruned expired revoked tokens', { count: pruned });
+    }
+  }
+
+  private async getTokensValidAfter(userId: string): Promise<number | null> {
+    const cached = this.tokensValidAfterCache.get(userId);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const tokensValidAfter = await this.userRepository.getTokensValidAfter(userId);
+    const value = tokensValidAfter ? tokensValidAfter.getTime() : null;
+    this.tokensValidAfterCache.set(userId, value);
+    return value;
+  }
+}
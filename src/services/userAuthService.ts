@@ -7,8 +7,14 @@ import User from '../models/user';
 export interface UserAuthInfo {
   userId: string;
   email: string;
+  emailVerified: boolean;
   name: string;
+  givenName: string;
+  familyName: string;
+  picture: string | null;
+  updatedAt: Date;
   organizationId: string | null;
+  disabledAt: Date | null;
   roles: string[];
   permissions: string[];
 }
@@ -49,8 +55,14 @@ export class UserAuthService implements IUserAuthService {
     return {
       userId: user.id,
       email: user.email,
+      emailVerified: user.emailVerified,
       name: `${user.firstName} ${user.lastName}`.trim(),
+      givenName: user.firstName,
+      familyName: user.lastName,
+      picture: user.avatarUrl,
+      updatedAt: user.updatedAt,
       organizationId: user.organizationId,
+      disabledAt: user.disabledAt,
       roles,
       permissions,
     };
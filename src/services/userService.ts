@@ -5,6 +5,8 @@ import { TYPES } from '../types/di.types';
 import { ILogger } from '../logging/logger.interface';
 import { PaginationParams } from '../dto/pagination.dto';
 import { UpdateUserProfileDto } from '../dto/user.dto';
+import { ISessionService } from './sessionService';
+import { ILoginThrottleService } from './loginThrottleService';
 
 export interface IUserService {
   getUserById(id: string): Promise<User | null>;
@@ -13,12 +15,16 @@ export interface IUserService {
   updateUserProfile(userId: string, profileData: UpdateUserProfileDto): Promise<User | null>;
   setUserAvatar(userId: string, fileId: string, avatarUrl: string): Promise<User | null>;
   getUserMetrics(orgId?: string | null): Promise<{ userCount: number }>;
+  setUserDisabled(userId: string, disabled: boolean): Promise<User | null>;
+  unlockUser(userId: string): Promise<User | null>;
 }
 
 @injectable()
 export class UserService implements IUserService {
   constructor(
     @inject(TYPES.UserRepository) private userRepository: IUserRepository,
+    @inject(TYPES.SessionService) private sessionService: ISessionService,
+    @inject(TYPES.LoginThrottleService) private loginThrottleService: ILoginThrottleService,
     @inject(TYPES.Logger) private logger: ILogger,
   ) {}
 
@@ -113,4 +119,39 @@ export class UserService implements IUserService {
     this.logger.info('Retrieved user metrics', { userCount, orgId });
     return { userCount };
   }
+
+  async setUserDisabled(userId: string, disabled: boolean): Promise<User | null> {
+    this.logger.info(disabled ? 'Disabling user account' : 'Enabling user account', { userId });
+
+    const updatedUser = await this.userRepository.updateUser(userId, {
+      disabledAt: disabled ? new Date() : null,
+    });
+
+    if (!updatedUser) {
+      this.logger.warn('User not found for account status update', { userId });
+      return null;
+    }
+
+    if (disabled) {
+      await this.sessionService.revokeAllSessions(userId, 'account-disabled');
+    }
+
+    this.logger.info(disabled ? 'User account disabled' : 'User account enabled', { userId });
+    return updatedUser;
+  }
+
+  async unlockUser(userId: string): Promise<User | null> {
+    this.logger.info('Unlocking user account', { userId });
+
+    const user = await this.userRepository.findUserById(userId);
+    if (!user) {
+      this.logger.warn('User not found for unlock', { userId });
+      return null;
+    }
+
+    await this.loginThrottleService.unlockAccount(user.email);
+
+    this.logger.info('User account unlocked', { userId });
+    return user;
+  }
 }
@@ -0,0 +1,336 @@
+import { injectable, inject } from 'inversify';
+import crypto from 'crypto';
+import { IUserRepository } from '../repositories/userRepository';
+import { IWebAuthnRepository } from '../repositories/webauthnRepository';
+import { IExternalIdentityRepository } from '../repositories/externalIdentityRepository';
+import {
+  RegistrationOptionsResponseDto,
+  RegistrationCredentialDto,
+  AuthenticationOptionsRequestDto,
+  AuthenticationOptionsResponseDto,
+  AuthenticationCredentialDto,
+  PasskeyResponseDto,
+  PublicKeyCredentialDescriptorDto,
+} from '../dto/webauthn.dto';
+import { TYPES } from '../types/di.types';
+import { ILogger } from '../logging/logger.interface';
+import { AppError } from '../middlewares/errorHandler';
+import { WebAuthnCredential } from '../models/webauthnCredential';
+import { WebAuthnCeremony, WebAuthnChallenge } from '../models/webauthnChallenge';
+import config from '../config/config';
+import { parseDurationToSeconds } from '../utils/duration';
+import {
+  SUPPORTED_COSE_ALGORITHMS,
+  AuthenticatorData,
+  ClientData,
+  fromBase64Url,
+  parseClientData,
+  parseAuthenticatorData,
+  parseAttestationObject,
+  coseToPublicKey,
+  verifyAttestationStatement,
+  verifyWebAuthnSignature,
+  sha256,
+} from '../utils/webauthn';
+
+export interface IWebAuthnService {
+  generateRegistrationOptions(userId: string): Promise<RegistrationOptionsResponseDto>;
+  verifyRegistration(userId: string, credential: RegistrationCredentialDto): Promise<PasskeyResponseDto>;
+  generateAuthenticationOptions(request: AuthenticationOptionsRequestDto): Promise<AuthenticationOptionsResponseDto>;
+  verifyAuthentication(credential: AuthenticationCredentialDto): Promise<string>;
+  listPasskeys(userId: string): Promise<PasskeyResponseDto[]>;
+  deletePasskey(userId: string, passkeyId: string): Promise<void>;
+}
+
+@injectable()
+export class WebAuthnService implements IWebAuthnService {
+  constructor(
+    @inject(TYPES.UserRepository) private userRepository: IUserRepository,
+    @inject(TYPES.WebAuthnRepository) private webAuthnRepository: IWebAuthnRepository,
+    @inject(TYPES.ExternalIdentityRepository) private externalIdentityRepository: IExternalIdentityRepository,
+    @inject(TYPES.Logger) private logger: ILogger,
+  ) {}
+
+  async generateRegistrationOptions(userId: string): Promise<RegistrationOptionsResponseDto> {
+    const user = await this.userRepository.findUserById(userId);
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    const existing = await this.webAuthnRepository.findCredentialsByUserId(userId);
+    const challenge = await this.createChallenge(userId, 'registration');
+
+    this.logger.info('Passkey registration started', { userId });
+
+    const displayName = [user.firstName, user.lastName].filter(Boolean).join(' ');
+
+    return {
+      challenge: challenge.challenge,
+      rp: { id: config.webauthn.rpId, name: config.webauthn.rpName },
+      user: {
+        id: Buffer.from(user.id, 'utf8').toString('base64url'),
+        name: user.email,
+        displayName: displayName || user.email,
+      },
+      pubKeyCredParams: SUPPORTED_COSE_ALGORITHMS.map(alg => ({ type: 'public-key' as const, alg })),
+      timeout: this.getTimeoutMs(),
+      attestation: config.webauthn.attestation,
+      excludeCredentials: existing.map(credential => this.toDescriptor(credential)),
+      authenticatorSelection: {
+        // Sign-in offers discoverable credentials only, see generateAuthenticationOptions
+        residentKey: 'required',
+        userVerification: config.webauthn.userVerification,
+      },
+    };
+  }
+
+  async verifyRegistration(userId: string, credential: RegistrationCredentialDto): Promise<PasskeyResponseDto> {
+    this.logger.info('Passkey registration verification attempt', { userId });
+
+    let stored: WebAuthnCredential;
+
+    try {
+      const clientDataJSON = fromBase64Url(credential.response.clientDataJSON);
+      const clientData = this.verifyClientData(clientDataJSON, 'webauthn.create');
+
+      const challenge = await this.consumeChallenge(clientData.challenge, 'registration');
+      if (challenge.userId !== userId) {
+        throw new Error('Challenge was issued to a different user');
+      }
+
+      const attestation = parseAttestationObject(fromBase64Url(credential.response.attestationObject));
+      const authData = parseAuthenticatorData(attestation.authData);
+      this.verifyAuthenticatorData(authData);
+
+      const attested = authData.attestedCredentialData;
+      if (!attested) {
+        throw new Error('Attested credential data is missing');
+      }
+
+      const credentialId = attested.credentialId.toString('base64url');
+      if (credentialId !== this.normalizeCredentialId(credential.rawId ?? credential.id)) {
+        throw new Error('Credential id does not match attested credential data');
+      }
+
+      const publicKey = coseToPublicKey(attested.credentialPublicKey);
+      const attestationType = verifyAttestationStatement(attestation, sha256(clientDataJSON), publicKey);
+
+      if (await this.webAuthnRepository.findCredentialByCredentialId(credentialId)) {
+        throw new AppError('Passkey is already registered', 409);
+      }
+
+      stored = await this.webAuthnRepository.createCredential({
+        userId,
+        credentialId,
+        publicKey: publicKey.keyObject.export({ type: 'spki', format: 'pem' }).toString(),
+        algorithm: publicKey.algorithm,
+        signCount: authData.signCount,
+        name: credential.name?.trim() || null,
+        aaguid: attested.aaguid,
+        attestationFormat: attestation.fmt,
+        transports: Array.isArray(credential.response.transports) ? credential.response.transports : null,
+      });
+
+      this.logger.info('Passkey registered', { userId, passkeyId: stored.id, attestationType });
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      this.logger.warn('Passkey registration failed', { userId, reason: (error as Error).message });
+      throw new AppError('Invalid passkey registration response', 400);
+    }
+
+    return this.mapToDto(stored);
+  }
+
+  async generateAuthenticationOptions(request: AuthenticationOptionsRequestDto): Promise<AuthenticationOptionsResponseDto> {
+    let userId: string | null = null;
+
+    // allowCredentials stays empty even for a known email, so the browser offers
+    // discoverable credentials and the response does not reveal which accounts exist
+    if (request.email) {
+      const user = await this.userRepository.findUserByEmail(request.email);
+      userId = user?.id ?? null;
+    }
+
+    const challenge = await this.createChallenge(userId, 'authentication');
+
+    return {
+      challenge: challenge.challenge,
+      rpId: config.webauthn.rpId,
+      timeout: this.getTimeoutMs(),
+      allowCredentials: [],
+      userVerification: config.webauthn.userVerification,
+    };
+  }
+
+  async verifyAuthentication(credential: AuthenticationCredentialDto): Promise<string> {
+    try {
+      const credentialId = this.normalizeCredentialId(credential.rawId ?? credential.id);
+      const stored = await this.webAuthnRepository.findCredentialByCredentialId(credentialId);
+      if (!stored) {
+        throw new Error('Unknown credential');
+      }
+
+      const clientDataJSON = fromBase64Url(credential.response.clientDataJSON);
+      const clientData = this.verifyClientData(clientDataJSON, 'webauthn.get');
+
+      const challenge = await this.consumeChallenge(clientData.challenge, 'authentication');
+      if (challenge.userId && challenge.userId !== stored.userId) {
+        throw new Error('Challenge was issued to a different user');
+      }
+
+      const authenticatorData = fromBase64Url(credential.response.authenticatorData);
+      const authData = parseAuthenticatorData(authenticatorData);
+      this.verifyAuthenticatorData(authData);
+
+      if (credential.response.userHandle) {
+        const userHandle = fromBase64Url(credential.response.userHandle).toString('utf8');
+        if (userHandle !== stored.userId) {
+          throw new Error('User handle does not match the credential owner');
+        }
+      }
+
+      const signedData = Buffer.concat([authenticatorData, sha256(clientDataJSON)]);
+      const signature = fromBase64Url(credential.response.signature);
+      if (!verifyWebAuthnSignature(stored.algorithm, stored.publicKey, signedData, signature)) {
+        throw new Error('Invalid assertion signature');
+      }
+
+      // Authenticators that keep a counter must always increase it; anything else
+      // suggests the credential has been cloned
+      if ((authData.signCount > 0 || stored.signCount > 0) && authData.signCount <= stored.signCount) {
+        this.logger.warn('Passkey sign count did not increase, possible cloned authenticator', {
+          userId: stored.userId,
+          passkeyId: stored.id,
+          storedSignCount: stored.signCount,
+          signCount: authData.signCount,
+        });
+        throw new Error('Sign count check failed');
+      }
+
+      const updated = await this.webAuthnRepository.updateCredentialUsage(stored.id, stored.signCount, authData.signCount);
+      if (!updated) {
+        throw new Error('Sign count changed concurrently');
+      }
+
+      this.logger.info('Passkey authentication succeeded', { userId: stored.userId, passkeyId: stored.id });
+
+      return stored.userId;
+    } catch (error) {
+      this.logger.warn('Passkey authentication failed', { reason: (error as Error).message });
+      throw new AppError('Passkey authentication failed', 401);
+    }
+  }
+
+  async listPasskeys(userId: string): Promise<PasskeyResponseDto[]> {
+    const credentials = await this.webAuthnRepository.findCredentialsByUserId(userId);
+    return credentials.map(credential => this.mapToDto(credential));
+  }
+
+  async deletePasskey(userId: string, passkeyId: string): Promise<void> {
+    const user = await this.userRepository.findUserById(userId);
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    const passkeys = await this.webAuthnRepository.findCredentialsByUserId(userId);
+    if (!passkeys.some(passkey => passkey.id === passkeyId)) {
+      throw new AppError('Passkey not found', 404);
+    }
+
+    // A password, a linked provider or another passkey must remain to sign in with
+    const identities = await this.externalIdentityRepository.findExternalIdentitiesByUserId(userId);
+    if (!user.password && identities.length === 0 && passkeys.length === 1) {
+      this.logger.warn('Passkey deletion refused: no other sign-in method', { userId, passkeyId });
+      throw new AppError('Cannot delete the only sign-in method for this account; set a password or link a provider first', 409);
+    }
+
+    const deleted = await this.webAuthnRepository.deleteCredential(userId, passkeyId);
+    if (!deleted) {
+      throw new AppError('Passkey not found', 404);
+    }
+
+    this.logger.info('Passkey deleted', { userId, passkeyId });
+  }
+
+  private async createChallenge(userId: string | null, ceremony: WebAuthnCeremony): Promise<WebAuthnChallenge> {
+    const challenge = await this.webAuthnRepository.createChallenge({
+      userId,
+      challenge: crypto.randomBytes(32).toString('base64url'),
+      ceremony,
+      expiresAt: new Date(Date.now() + this.getTimeoutMs()),
+    });
+
+    const pruned = await this.webAuthnRepository.deleteExpiredChallenges();
+    if (pruned > 0) {
+      this.logger.debug('Pruned expired WebAuthn challenges', { count: pruned });
+    }
+
+    return challenge;
+  }
+
+  private async consumeChallenge(value: string, ceremony: WebAuthnCeremony): Promise<WebAuthnChallenge> {
+    const challenge = await this.webAuthnRepository.consumeChallenge(value, ceremony);
+    if (!challenge || new Date() > challenge.expiresAt) {
+      throw new Error('Unknown or expired challenge');
+    }
+    return challenge;
+  }
+
+  private verifyClientData(clientDataJSON: Buffer, type: 'webauthn.create' | 'webauthn.get'): ClientData {
+    const clientData = parseClientData(clientDataJSON);
+
+    if (clientData.type !== type) {
+      throw new Error(`Unexpected client data type: ${clientData.type}`);
+    }
+    if (!config.webauthn.origins.includes(clientData.origin)) {
+      throw new Error(`Unexpected origin: ${clientData.origin}`);
+    }
+    if (clientData.crossOrigin) {
+      throw new Error('Cross-origin ceremonies are not allowed');
+    }
+
+    return clientData;
+  }
+
+  private verifyAuthenticatorData(authData: AuthenticatorData): void {
+    if (!authData.rpIdHash.equals(sha256(config.webauthn.rpId))) {
+      throw new Error('RP ID hash mismatch');
+    }
+    if (!authData.userPresent) {
+      throw new Error('User presence flag is not set');
+    }
+    if (config.webauthn.userVerification === 'required' && !authData.userVerified) {
+      throw new Error('User verification is required');
+    }
+  }
+
+  private normalizeCredentialId(id: string): string {
+    return fromBase64Url(id).toString('base64url');
+  }
+
+  private getTimeoutMs(): number {
+    return parseDurationToSeconds(config.webauthn.challengeExpiresIn, 300) * 1000;
+  }
+
+  private toDescriptor(credential: WebAuthnCredential): PublicKeyCredentialDescriptorDto {
+    return {
+      type: 'public-key',
+      id: credential.credentialId,
+      ...(credential.transports?.length ? { transports: credential.transports } : {}),
+    };
+  }
+
+  private mapToDto(credential: WebAuthnCredential): PasskeyResponseDto {
+    return {
+      id: credential.id,
+      name: credential.name,
+      aaguid: credential.aaguid,
+      attestationFormat: credential.attestationFormat,
+      transports: credential.transports ?? [],
+      createdAt: credential.createdAt,
+      lastUsedAt: credential.lastUsedAt,
+    };
+  }
+}
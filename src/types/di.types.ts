@@ -19,5 +19,55 @@ export const TYPES = {
   PermissionController: Symbol.for('PermissionController'),
   UserAuthService: Symbol.for('UserAuthService'),
   JwksController: Symbol.for('JwksController'),
+  RefreshTokenRepository: Symbol.for('RefreshTokenRepository'),
+  RefreshTokenService: Symbol.for('RefreshTokenService'),
+  SessionRepository: Symbol.for('SessionRepository'),
+  SessionService: Symbol.for('SessionService'),
+  SessionController: Symbol.for('SessionController'),
+  RevokedTokenRepository: Symbol.for('RevokedTokenRepository'),
+  TokenRevocationService: Symbol.for('TokenRevocationService'),
+  MfaRepository: Symbol.for('MfaRepository'),
+  MfaService: Symbol.for('MfaService'),
+  MfaController: Symbol.for('MfaController'),
+  WebAuthnRepository: Symbol.for('WebAuthnRepository'),
+  WebAuthnService: Symbol.for('WebAuthnService'),
+  WebAuthnController: Symbol.for('WebAuthnController'),
+  LoginAttemptRepository: Symbol.for('LoginAttemptRepository'),
+  LoginThrottleService: Symbol.for('LoginThrottleService'),
+  RateLimitStore: Symbol.for('RateLimitStore'),
+  PasswordPolicyService: Symbol.for('PasswordPolicyService'),
+  PasswordHistoryRepository: Symbol.for('PasswordHistoryRepository'),
+  PasswordHistoryService: Symbol.for('PasswordHistoryService'),
+  PasswordHasher: Symbol.for('PasswordHasher'),
+  OidcClientService: Symbol.for('OidcClientService'),
+  ExternalIdentityRepository: Symbol.for('ExternalIdentityRepository'),
+  IdentityService: Symbol.for('IdentityService'),
+  IdentityController: Symbol.for('IdentityController'),
+  SigningKeyRepository: Symbol.for('SigningKeyRepository'),
+  SigningKeyService: Symbol.for('SigningKeyService'),
+  SigningKeyController: Symbol.for('SigningKeyController'),
+  OpenIdProviderService: Symbol.for('OpenIdProviderService'),
+  OpenIdController: Symbol.for('OpenIdController'),
+  AccessTokenService: Symbol.for('AccessTokenService'),
+  OAuthClientRepository: Symbol.for('OAuthClientRepository'),
+  OAuthAuthorizationCodeRepository: Symbol.for('OAuthAuthorizationCodeRepository'),
+  OAuthConsentRepository: Symbol.for('OAuthConsentRepository'),
+  OAuthClientService: Symbol.for('OAuthClientService'),
+  OAuthAuthorizationService: Symbol.for('OAuthAuthorizationService'),
+  OAuthTokenService: Symbol.for('OAuthTokenService'),
+  TokenIntrospectionService: Symbol.for('TokenIntrospectionService'),
+  OAuthController: Symbol.for('OAuthController'),
+  OAuthClientController: Symbol.for('OAuthClientController'),
+  ServiceAccountRepository: Symbol.for('ServiceAccountRepository'),
+  ServiceAccountService: Symbol.for('ServiceAccountService'),
+  ServiceAccountController: Symbol.for('ServiceAccountController'),
+  PersonalAccessTokenRepository: Symbol.for('PersonalAccessTokenRepository'),
+  PersonalAccessTokenService: Symbol.for('PersonalAccessTokenService'),
+  PersonalAccessTokenController: Symbol.for('PersonalAccessTokenController'),
+  ImpersonationService: Symbol.for('ImpersonationService'),
+  ImpersonationController: Symbol.for('ImpersonationController'),
+  OrganizationRepository: Symbol.for('OrganizationRepository'),
+  OrganizationService: Symbol.for('OrganizationService'),
+  OrganizationController: Symbol.for('OrganizationController'),
 };
 
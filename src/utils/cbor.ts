@@ -0,0 +1,165 @@
+/**
+ * Minimal CBOR (RFC 8949) decoder covering what WebAuthn needs: attestation
+ * objects and COSE keys. Maps are decoded to `Map` so integer keys survive.
+ */
+
+export type CborValue =
+  | number
+  | bigint
+  | string
+  | boolean
+  | null
+  | undefined
+  | Buffer
+  | CborValue[]
+  | Map<CborValue, CborValue>;
+
+export interface CborDecodeResult {
+  value: CborValue;
+  offset: number;
+}
+
+function readLength(buffer: Buffer, offset: number, additional: number): { length: number | bigint; offset: number } {
+  if (additional < 24) {
+    return { length: additional, offset };
+  }
+
+  switch (additional) {
+    case 24:
+      return { length: buffer.readUInt8(offset), offset: offset + 1 };
+    case 25:
+      return { length: buffer.readUInt16BE(offset), offset: offset + 2 };
+    case 26:
+      return { length: buffer.readUInt32BE(offset), offset: offset + 4 };
+    case 27: {
+      const length = buffer.readBigUInt64BE(offset);
+      return {
+        length: length <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(length) : length,
+        offset: offset + 8,
+      };
+    }
+    default:
+      throw new Error(`Unsupported CBOR length encoding: ${additional}`);
+  }
+}
+
+function toSize(length: number | bigint): number {
+  if (typeof length === 'bigint') {
+    throw new Error('CBOR item too large');
+  }
+  return length;
+}
+
+/**
+ * Decodes a single CBOR item starting at `offset`.
+ *
+ * @returns The decoded value and the offset of the first byte after it
+ */
+export function decodeCborItem(buffer: Buffer, offset: number = 0): CborDecodeResult {
+  if (offset >= buffer.length) {
+    throw new Error('Unexpected end of CBOR data');
+  }
+
+  const initial = buffer.readUInt8(offset);
+  const majorType = initial >> 5;
+  const additional = initial & 0x1f;
+  offset += 1;
+
+  if (majorType === 7) {
+    switch (additional) {
+      case 20:
+        return { value: false, offset };
+      case 21:
+        return { value: true, offset };
+      case 22:
+        return { value: null, offset };
+      case 23:
+        return { value: undefined, offset };
+      case 25: {
+        // Half precision float, rarely used but valid
+        const half = buffer.readUInt16BE(offset);
+        const exponent = (half >> 10) & 0x1f;
+        const fraction = half & 0x3ff;
+        const sign = half & 0x8000 ? -1 : 1;
+        const value = exponent === 0
+          ? sign * 2 ** -14 * (fraction / 1024)
+          : exponent === 31
+            ? (fraction ? NaN : sign * Infinity)
+            : sign * 2 ** (exponent - 15) * (1 + fraction / 1024);
+        return { value, offset: offset + 2 };
+      }
+      case 26:
+        return { value: buffer.readFloatBE(offset), offset: offset + 4 };
+      case 27:
+        return { value: buffer.readDoubleBE(offset), offset: offset + 8 };
+      default:
+        throw new Error(`Unsupported CBOR simple value: ${additional}`);
+    }
+  }
+
+  if (additional === 31) {
+    throw new Error('Indefinite length CBOR items are not supported');
+  }
+
+  const header = readLength(buffer, offset, additional);
+  offset = header.offset;
+
+  switch (majorType) {
+    case 0:
+      return { value: header.length, offset };
+    case 1:
+      return {
+        value: typeof header.length === 'bigint' ? -BigInt(1) - header.length : -1 - header.length,
+        offset,
+      };
+    case 2: {
+      const size = toSize(header.length);
+      if (offset + size > buffer.length) {
+        throw new Error('Unexpected end of CBOR data');
+      }
+      return { value: Buffer.from(buffer.subarray(offset, offset + size)), offset: offset + size };
+    }
+    case 3: {
+      const size = toSize(header.length);
+      if (offset + size > buffer.length) {
+        throw new Error('Unexpected end of CBOR data');
+      }
+      return { value: buffer.toString('utf8', offset, offset + size), offset: offset + size };
+    }
+    case 4: {
+      const items: CborValue[] = [];
+      for (let i = 0; i < toSize(header.length); i++) {
+        const item = decodeCborItem(buffer, offset);
+        items.push(item.value);
+        offset = item.offset;
+      }
+      return { value: items, offset };
+    }
+    case 5: {
+      const map = new Map<CborValue, CborValue>();
+      for (let i = 0; i < toSize(header.length); i++) {
+        const key = decodeCborItem(buffer, offset);
+        const value = decodeCborItem(buffer, key.offset);
+        map.set(key.value, value.value);
+        offset = value.offset;
+      }
+      return { value: map, offset };
+    }
+    case 6:
+      // Tags carry no meaning for WebAuthn payloads; return the tagged item
+      return decodeCborItem(buffer, offset);
+    default:
+      throw new Error(`Unsupported CBOR major type: ${majorType}`);
+  }
+}
+
+/**
+ * Decodes a buffer that must contain exactly one CBOR item.
+ */
+export function decodeCbor(buffer: Buffer): CborValue {
+  const { value, offset } = decodeCborItem(buffer, 0);
+  if (offset !== buffer.length) {
+    throw new Error('Unexpected trailing bytes after CBOR item');
+  }
+  return value;
+}
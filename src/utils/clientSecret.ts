@@ -0,0 +1,21 @@
+import crypto from 'crypto';
+
+/**
+ * Client secrets are random, so a plain SHA-256 is enough to keep them out of
+ * the database without the cost of a password hash on every token request.
+ */
+export function generateClientSecret(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+export function hashClientSecret(secret: string): string {
+  return crypto.createHash('sha256').update(secret).digest('hex');
+}
+
+export function verifyClientSecret(secret: string | undefined, secretHash: string): boolean {
+  if (secret === undefined) {
+    return false;
+  }
+
+  return crypto.timingSafeEqual(Buffer.from(hashClientSecret(secret)), Buffer.from(secretHash));
+}
@@ -0,0 +1,21 @@
+import { Request } from 'express';
+
+/**
+ * Reads one cookie from the request's Cookie header.
+ *
+ * @returns The decoded value, or undefined when the cookie is absent or malformed
+ */
+export function getCookie(req: Request, name: string): string | undefined {
+  for (const pair of (req.headers.cookie ?? '').split(';')) {
+    const separator = pair.indexOf('=');
+    if (separator !== -1 && pair.slice(0, separator).trim() === name) {
+      try {
+        return decodeURIComponent(pair.slice(separator + 1).trim());
+      } catch {
+        return undefined;
+      }
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,26 @@
+/**
+ * Converts a duration string such as "15m", "1h" or "30d" to seconds.
+ * Plain numbers are treated as seconds.
+ *
+ * @param value - The duration string
+ * @param fallbackSeconds - Returned when the value cannot be parsed
+ * @returns The duration in seconds
+ */
+export function parseDurationToSeconds(value: string, fallbackSeconds: number = 3600): number {
+  const amount = parseInt(value);
+  if (Number.isNaN(amount)) {
+    return fallbackSeconds;
+  }
+
+  if (value.endsWith('d')) {
+    return amount * 24 * 3600;
+  } else if (value.endsWith('h')) {
+    return amount * 3600;
+  } else if (value.endsWith('m')) {
+    return amount * 60;
+  } else if (value.endsWith('s')) {
+    return amount;
+  }
+
+  return amount || fallbackSeconds;
+}
@@ -0,0 +1,44 @@
+import crypto from 'crypto';
+
+const ENCRYPTED_PREFIX = 'enc:v1:';
+const IV_BYTES = 12;
+
+/**
+ * Whether a stored private key was written by encryptPrivateKey. Rows from before
+ * encryption hold the plain PEM.
+ */
+export function isEncryptedPrivateKey(stored: string): boolean {
+  return stored.startsWith(ENCRYPTED_PREFIX);
+}
+
+/**
+ * Encrypts a PEM private key with AES-256-GCM as "enc:v1:iv:tag:ciphertext"
+ * (base64 parts). The kid is authenticated alongside, so a ciphertext copied
+ * onto another key's row does not decrypt.
+ */
+export function encryptPrivateKey(privateKey: string, encryptionKey: Buffer, kid: string): string {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv('aes-256-gcm', encryptionKey, iv);
+  cipher.setAAD(Buffer.from(kid));
+  const ciphertext = Buffer.concat([cipher.update(privateKey, 'utf8'), cipher.final()]);
+
+  return ENCRYPTED_PREFIX + [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64')).join(':');
+}
+
+export function decryptPrivateKey(stored: string, encryptionKey: Buffer, kid: string): string {
+  const parts = isEncryptedPrivateKey(stored) ? stored.slice(ENCRYPTED_PREFIX.length).split(':') : [];
+  if (parts.length !== 3) {
+    throw new Error(`Malformed encrypted private key for signing key ${kid}`);
+  }
+
+  const [iv, tag, ciphertext] = parts.map(part => Buffer.from(part, 'base64'));
+
+  try {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', encryptionKey, iv);
+    decipher.setAAD(Buffer.from(kid));
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+  } catch {
+    throw new Error(`Cannot decrypt the private key of signing key ${kid}; check SIGNING_KEY_ENCRYPTION_KEY`);
+  }
+}
@@ -0,0 +1,48 @@
+import crypto from 'crypto';
+
+// RFC 7638 section 3.2: the members that identify a key, per key type
+const THUMBPRINT_MEMBERS: Record<string, string[]> = {
+  RSA: ['e', 'kty', 'n'],
+  EC: ['crv', 'kty', 'x', 'y'],
+  OKP: ['crv', 'kty', 'x'],
+};
+
+/**
+ * Exports the public part of a key as a JWK. Accepts a PEM string or KeyObject;
+ * private keys are reduced to their public key.
+ */
+export function toPublicJwk(key: string | crypto.KeyObject): crypto.JsonWebKey {
+  const publicKey = typeof key === 'string' || key.type === 'private' ? crypto.createPublicKey(key) : key;
+  return publicKey.export({ format: 'jwk' });
+}
+
+/**
+ * Computes the RFC 7638 JWK thumbprint (SHA-256, base64url) of a public JWK.
+ */
+export function computeJwkThumbprint(jwk: crypto.JsonWebKey): string {
+  const members = jwk.kty ? THUMBPRINT_MEMBERS[jwk.kty] : undefined;
+  if (!members) {
+    throw new Error(`Unsupported key type for thumbprint: ${jwk.kty}`);
+  }
+
+  // Required members only, in lexicographic order, without whitespace
+  const canonical = JSON.stringify(
+    Object.fromEntries(members.map(member => {
+      const value = jwk[member];
+      if (typeof value !== 'string') {
+        throw new Error(`JWK is missing the "${member}" member`);
+      }
+      return [member, value];
+    })),
+  );
+
+  return crypto.createHash('sha256').update(canonical).digest('base64url');
+}
+
+/**
+ * The kid used for a key everywhere: in token headers, in the JWKS and when
+ * looking up the verification key for an incoming token.
+ */
+export function getKeyId(key: string | crypto.KeyObject): string {
+  return computeJwkThumbprint(toPublicJwk(key));
+}
@@ -0,0 +1,10 @@
+/**
+ * Splits an OAuth scope parameter (RFC 6749, section 3.3) into its distinct tokens.
+ */
+export function parseScope(scope: string | null | undefined): string[] {
+  return [...new Set((scope ?? '').split(' ').filter(Boolean))];
+}
+
+export function formatScope(scopes: string[]): string {
+  return scopes.join(' ');
+}
@@ -0,0 +1,50 @@
+import { Request } from 'express';
+import { SessionMetadata } from '../dto/session.dto';
+
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg\//, 'Edge'],
+  [/OPR\//, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+  [/curl\//, 'curl'],
+];
+
+const OPERATING_SYSTEMS: Array<[RegExp, string]> = [
+  [/iPhone|iPad/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Linux/, 'Linux'],
+];
+
+/**
+ * Extracts the session metadata (user agent and client IP) from an incoming request.
+ */
+export function getSessionMetadata(req: Request): SessionMetadata {
+  return {
+    userAgent: req.headers['user-agent'] || null,
+    ipAddress: req.ip || req.socket?.remoteAddress || null,
+  };
+}
+
+/**
+ * Builds a short human readable device label, e.g. "Chrome on macOS".
+ *
+ * @param userAgent - The raw User-Agent header
+ * @returns The label, or null when nothing could be recognised
+ */
+export function describeUserAgent(userAgent?: string | null): string | null {
+  if (!userAgent) {
+    return null;
+  }
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const os = OPERATING_SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && os) {
+    return `${browser} on ${os}`;
+  }
+
+  return browser || os || null;
+}
@@ -0,0 +1,140 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+import jwt, { JwtPayload } from 'jsonwebtoken';
+
+const generateKeyPair = promisify(crypto.generateKeyPair);
+
+export const SIGNING_ALGORITHMS = ['RS256', 'PS256', 'ES256', 'EdDSA'] as const;
+
+export type SigningAlgorithm = typeof SIGNING_ALGORITHMS[number];
+
+export interface VerifyJwtOptions {
+  // Required audience; the aud claim has to name it
+  audience?: string;
+}
+
+export interface PemKeyPair {
+  publicKey: string;
+  privateKey: string;
+}
+
+export function isSigningAlgorithm(value: unknown): value is SigningAlgorithm {
+  return typeof value === 'string' && (SIGNING_ALGORITHMS as readonly string[]).includes(value);
+}
+
+/**
+ * Generates a PEM key pair suited to the algorithm: RSA-2048 for RS256 and
+ * PS256, P-256 for ES256 and Ed25519 for EdDSA.
+ */
+export async function generateSigningKeyPair(algorithm: SigningAlgorithm): Promise<PemKeyPair> {
+  let keyPair: crypto.KeyPairKeyObjectResult;
+
+  switch (algorithm) {
+    case 'RS256':
+    case 'PS256':
+      keyPair = await generateKeyPair('rsa', { modulusLength: 2048 });
+      break;
+    case 'ES256':
+      keyPair = await generateKeyPair('ec', { namedCurve: 'P-256' });
+      break;
+    case 'EdDSA':
+      keyPair = await generateKeyPair('ed25519', undefined);
+      break;
+  }
+
+  return {
+    publicKey: keyPair.publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+    privateKey: keyPair.privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+  };
+}
+
+/**
+ * Picks the algorithm for an existing key from its type. RSA keys default to
+ * RS256; a different RSA algorithm has to be chosen explicitly.
+ */
+export function detectSigningAlgorithm(key: string | crypto.KeyObject): SigningAlgorithm {
+  const keyObject = typeof key === 'string' ? crypto.createPublicKey(key) : key;
+
+  switch (keyObject.asymmetricKeyType) {
+    case 'rsa':
+    case 'rsa-pss':
+      return 'RS256';
+    case 'ec':
+      if (keyObject.asymmetricKeyDetails?.namedCurve === 'prime256v1') {
+        return 'ES256';
+      }
+      break;
+    case 'ed25519':
+      return 'EdDSA';
+  }
+
+  throw new Error(`Unsupported signing key type: ${keyObject.asymmetricKeyType}`);
+}
+
+/**
+ * Signs a JWT naming the key in its kid header. jsonwebtoken has no EdDSA
+ * support, so Ed25519 tokens are assembled here.
+ */
+export function signJwt(payload: object, privateKey: string, algorithm: SigningAlgorithm, kid: string): string {
+  if (algorithm !== 'EdDSA') {
+    return jwt.sign(payload, privateKey, { algorithm, header: { alg: algorithm, kid } });
+  }
+
+  const claims = { iat: Math.floor(Date.now() / 1000), ...payload };
+  const signingInput = [
+    Buffer.from(JSON.stringify({ alg: algorithm, typ: 'JWT', kid })).toString('base64url'),
+    Buffer.from(JSON.stringify(claims)).toString('base64url'),
+  ].join('.');
+  const signature = crypto.sign(null, Buffer.from(signingInput), privateKey);
+
+  return `${signingInput}.${signature.toString('base64url')}`;
+}
+
+/**
+ * Verifies a JWT signed with the given key and algorithm, checking exp, nbf and
+ * optionally aud. Failures throw jsonwebtoken's error classes whatever the algorithm.
+ */
+export function verifyJwt(
+  token: string,
+  publicKey: string,
+  algorithm: SigningAlgorithm,
+  options: VerifyJwtOptions = {},
+): JwtPayload {
+  if (algorithm !== 'EdDSA') {
+    return jwt.verify(token, publicKey, { algorithms: [algorithm], audience: options.audience }) as JwtPayload;
+  }
+
+  const decoded = jwt.decode(token, { complete: true });
+  if (!decoded || typeof decoded.payload === 'string') {
+    throw new jwt.JsonWebTokenError('jwt malformed');
+  }
+
+  if (decoded.header.alg !== algorithm) {
+    throw new jwt.JsonWebTokenError('invalid algorithm');
+  }
+
+  const [header, payload, signature] = token.split('.');
+  if (!crypto.verify(null, Buffer.from(`${header}.${payload}`), publicKey, Buffer.from(signature, 'base64url'))) {
+    throw new jwt.JsonWebTokenError('invalid signature');
+  }
+
+  const claims = decoded.payload;
+  const now = Math.floor(Date.now() / 1000);
+
+  if (typeof claims.nbf === 'number' && claims.nbf > now) {
+    throw new jwt.NotBeforeError('jwt not active', new Date(claims.nbf * 1000));
+  }
+
+  if (typeof claims.exp === 'number' && claims.exp <= now) {
+    throw new jwt.TokenExpiredError('jwt expired', new Date(claims.exp * 1000));
+  }
+
+  if (options.audience !== undefined) {
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(options.audience)) {
+      throw new jwt.JsonWebTokenError(`jwt audience invalid. expected: ${options.audience}`);
+    }
+  }
+
+  return claims;
+}
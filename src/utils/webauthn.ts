@@ -0,0 +1,304 @@
+import crypto from 'crypto';
+import { decodeCbor, decodeCborItem, CborValue } from './cbor';
+
+// COSE algorithm identifiers (RFC 9053) accepted for credentials
+export const COSE_ALG_ES256 = -7;
+export const COSE_ALG_EDDSA = -8;
+export const COSE_ALG_RS256 = -257;
+
+export const SUPPORTED_COSE_ALGORITHMS = [COSE_ALG_ES256, COSE_ALG_EDDSA, COSE_ALG_RS256];
+
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_ATTESTED_CREDENTIAL_DATA = 0x40;
+const FLAG_EXTENSION_DATA = 0x80;
+
+export interface AttestedCredentialData {
+  aaguid: string;
+  credentialId: Buffer;
+  credentialPublicKey: Buffer;
+}
+
+export interface AuthenticatorData {
+  rpIdHash: Buffer;
+  userPresent: boolean;
+  userVerified: boolean;
+  signCount: number;
+  attestedCredentialData?: AttestedCredentialData;
+}
+
+export interface AttestationObject {
+  fmt: string;
+  attStmt: Map<CborValue, CborValue>;
+  authData: Buffer;
+}
+
+export interface ClientData {
+  type: string;
+  challenge: string;
+  origin: string;
+  crossOrigin?: boolean;
+}
+
+export interface CredentialPublicKey {
+  algorithm: number;
+  keyObject: crypto.KeyObject;
+}
+
+function formatAaguid(buffer: Buffer): string {
+  const hex = buffer.toString('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+function getBuffer(map: Map<CborValue, CborValue>, key: number): Buffer {
+  const value = map.get(key);
+  if (!Buffer.isBuffer(value)) {
+    throw new Error(`COSE key parameter ${key} is missing`);
+  }
+  return value;
+}
+
+/**
+ * Decodes a base64url encoded value sent by the browser.
+ */
+export function fromBase64Url(value: string): Buffer {
+  if (typeof value !== 'string' || !/^[A-Za-z0-9_-]*={0,2}$/.test(value)) {
+    throw new Error('Invalid base64url value');
+  }
+  return Buffer.from(value, 'base64url');
+}
+
+/**
+ * Parses the clientDataJSON collected by the browser during a ceremony.
+ */
+export function parseClientData(clientDataJSON: Buffer): ClientData {
+  const clientData = JSON.parse(clientDataJSON.toString('utf8'));
+  if (typeof clientData?.type !== 'string' || typeof clientData.challenge !== 'string' || typeof clientData.origin !== 'string') {
+    throw new Error('Malformed client data');
+  }
+  return clientData as ClientData;
+}
+
+/**
+ * Parses the authenticator data structure (WebAuthn §6.1).
+ */
+export function parseAuthenticatorData(authData: Buffer): AuthenticatorData {
+  if (authData.length < 37) {
+    throw new Error('Authenticator data is too short');
+  }
+
+  const flags = authData.readUInt8(32);
+  const result: AuthenticatorData = {
+    rpIdHash: authData.subarray(0, 32),
+    userPresent: (flags & FLAG_USER_PRESENT) !== 0,
+    userVerified: (flags & FLAG_USER_VERIFIED) !== 0,
+    signCount: authData.readUInt32BE(33),
+  };
+
+  let offset = 37;
+
+  if (flags & FLAG_ATTESTED_CREDENTIAL_DATA) {
+    if (authData.length < offset + 18) {
+      throw new Error('Attested credential data is truncated');
+    }
+
+    const aaguid = authData.subarray(offset, offset + 16);
+    const credentialIdLength = authData.readUInt16BE(offset + 16);
+    offset += 18;
+
+    const credentialId = authData.subarray(offset, offset + credentialIdLength);
+    offset += credentialIdLength;
+
+    // The public key is a CBOR map directly followed by optional extensions
+    const { offset: keyEnd } = decodeCborItem(authData, offset);
+    const credentialPublicKey = authData.subarray(offset, keyEnd);
+    offset = keyEnd;
+
+    result.attestedCredentialData = {
+      aaguid: formatAaguid(aaguid),
+      credentialId: Buffer.from(credentialId),
+      credentialPublicKey: Buffer.from(credentialPublicKey),
+    };
+  }
+
+  if (flags & FLAG_EXTENSION_DATA) {
+    offset = decodeCborItem(authData, offset).offset;
+  }
+
+  if (offset !== authData.length) {
+    throw new Error('Unexpected trailing bytes in authenticator data');
+  }
+
+  return result;
+}
+
+/**
+ * Decodes the CBOR attestation object returned by navigator.credentials.create().
+ */
+export function parseAttestationObject(attestationObject: Buffer): AttestationObject {
+  const decoded = decodeCbor(attestationObject);
+  if (!(decoded instanceof Map)) {
+    throw new Error('Malformed attestation object');
+  }
+
+  const fmt = decoded.get('fmt');
+  const attStmt = decoded.get('attStmt');
+  const authData = decoded.get('authData');
+
+  if (typeof fmt !== 'string' || !(attStmt instanceof Map) || !Buffer.isBuffer(authData)) {
+    throw new Error('Malformed attestation object');
+  }
+
+  return { fmt, attStmt, authData };
+}
+
+/**
+ * Converts a COSE_Key (RFC 9052 §7) into a Node.js public key.
+ * Supports EC2 P-256 (ES256), OKP Ed25519 (EdDSA) and RSA (RS256) keys.
+ */
+export function coseToPublicKey(coseKey: Buffer): CredentialPublicKey {
+  const key = decodeCbor(coseKey);
+  if (!(key instanceof Map)) {
+    throw new Error('Malformed COSE key');
+  }
+
+  const kty = key.get(1);
+  const algorithm = key.get(3);
+
+  if (typeof algorithm !== 'number' || !SUPPORTED_COSE_ALGORITHMS.includes(algorithm)) {
+    throw new Error(`Unsupported COSE algorithm: ${String(algorithm)}`);
+  }
+
+  let jwk: crypto.JsonWebKey;
+
+  if (kty === 2 && algorithm === COSE_ALG_ES256) {
+    if (key.get(-1) !== 1) {
+      throw new Error('Unsupported EC2 curve');
+    }
+    jwk = {
+      kty: 'EC',
+      crv: 'P-256',
+      x: getBuffer(key, -2).toString('base64url'),
+      y: getBuffer(key, -3).toString('base64url'),
+    };
+  } else if (kty === 1 && algorithm === COSE_ALG_EDDSA) {
+    if (key.get(-1) !== 6) {
+      throw new Error('Unsupported OKP curve');
+    }
+    jwk = {
+      kty: 'OKP',
+      crv: 'Ed25519',
+      x: getBuffer(key, -2).toString('base64url'),
+    };
+  } else if (kty === 3 && algorithm === COSE_ALG_RS256) {
+    jwk = {
+      kty: 'RSA',
+      n: getBuffer(key, -1).toString('base64url'),
+      e: getBuffer(key, -2).toString('base64url'),
+    };
+  } else {
+    throw new Error('COSE key type does not match its algorithm');
+  }
+
+  return {
+    algorithm,
+    keyObject: crypto.createPublicKey({ key: jwk, format: 'jwk' }),
+  };
+}
+
+/**
+ * Verifies a WebAuthn signature made with the given COSE algorithm.
+ * ECDSA signatures are DER encoded, which is Node's default.
+ */
+export function verifyWebAuthnSignature(
+  algorithm: number,
+  publicKey: crypto.KeyObject | string,
+  data: Buffer,
+  signature: Buffer,
+): boolean {
+  const digest = algorithm === COSE_ALG_EDDSA ? null : 'sha256';
+
+  try {
+    return crypto.verify(digest, data, publicKey, signature);
+  } catch {
+    return false;
+  }
+}
+
+export type AttestationType = 'none' | 'self' | 'basic';
+
+/**
+ * Verifies an attestation statement in the "none" or "packed" format (WebAuthn §8.2, §8.7).
+ * Packed certificate chains are checked for well-formedness only; they are not
+ * validated against a metadata service trust anchor.
+ *
+ * @returns The attestation type that was verified
+ */
+export function verifyAttestationStatement(
+  attestation: AttestationObject,
+  clientDataHash: Buffer,
+  credentialPublicKey: CredentialPublicKey,
+): AttestationType {
+  const { fmt, attStmt, authData } = attestation;
+
+  if (fmt === 'none') {
+    if (attStmt.size !== 0) {
+      throw new Error('"none" attestation must have an empty statement');
+    }
+    return 'none';
+  }
+
+  if (fmt !== 'packed') {
+    throw new Error(`Unsupported attestation format: ${fmt}`);
+  }
+
+  const alg = attStmt.get('alg');
+  const sig = attStmt.get('sig');
+  const x5c = attStmt.get('x5c');
+
+  if (typeof alg !== 'number' || !Buffer.isBuffer(sig)) {
+    throw new Error('Malformed packed attestation statement');
+  }
+
+  const signedData = Buffer.concat([authData, clientDataHash]);
+
+  if (x5c === undefined) {
+    // Self attestation: signed with the credential private key itself
+    if (alg !== credentialPublicKey.algorithm) {
+      throw new Error('Self attestation algorithm does not match the credential key');
+    }
+    if (!verifyWebAuthnSignature(alg, credentialPublicKey.keyObject, signedData, sig)) {
+      throw new Error('Invalid attestation signature');
+    }
+    return 'self';
+  }
+
+  if (!Array.isArray(x5c) || x5c.length === 0 || !x5c.every(cert => Buffer.isBuffer(cert))) {
+    throw new Error('Malformed attestation certificate chain');
+  }
+
+  const attestationCert = new crypto.X509Certificate(x5c[0] as Buffer);
+  const subject = attestationCert.subject.split('\n');
+
+  if (attestationCert.ca) {
+    throw new Error('Attestation certificate must not be a CA certificate');
+  }
+  if (!subject.includes('OU=Authenticator Attestation')) {
+    throw new Error('Attestation certificate has an invalid subject');
+  }
+
+  const now = new Date();
+  if (now < new Date(attestationCert.validFrom) || now > new Date(attestationCert.validTo)) {
+    throw new Error('Attestation certificate is not valid at this time');
+  }
+
+  if (!verifyWebAuthnSignature(alg, attestationCert.publicKey, signedData, sig)) {
+    throw new Error('Invalid attestation signature');
+  }
+
+  return 'basic';
+}
+
+export function sha256(data: Buffer | string): Buffer {
+  return crypto.createHash('sha256').update(data).digest();
+}
@@ -0,0 +1,100 @@
+import 'reflect-metadata';
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { Request, Response } from 'express';
+import { JwksController } from '../../src/controllers/jwksController';
+import { SigningKeyService } from '../../src/services/signingKeyService';
+import { ISigningKeyRepository, CreateSigningKeyData } from '../../src/repositories/signingKeyRepository';
+import { ITokenRevocationService } from '../../src/services/tokenRevocationService';
+import { SigningKey } from '../../src/models/signingKey';
+import { createAuthenticateToken } from '../../src/middlewares/auth';
+import config from '../../src/config/config';
+import { createMockLogger } from '../helpers/mockLogger';
+
+describe('JwksController', () => {
+  let signingKeyService: SigningKeyService;
+  let jwksController: JwksController;
+  let storedKeys: SigningKey[];
+
+  beforeEach(() => {
+    storedKeys = [];
+
+    const signingKeyRepository = {
+      findSigningKeys: jest.fn(async () => [...storedKeys]),
+      findSigningKeyByKid: jest.fn(async (kid) => storedKeys.find(key => key.kid === kid) ?? null),
+      createSigningKey: jest.fn(async (data: CreateSigningKeyData) => {
+        const key = { id: data.kid, createdAt: new Date(), activatedAt: null, retiredAt: null, ...data } as SigningKey;
+        storedKeys.push(key);
+        return key;
+      }),
+      activateSigningKey: jest.fn(async (kid) => {
+        storedKeys.forEach(key => {
+          key.status = key.kid === kid ? 'active' : (key.status === 'active' ? 'verification' : key.status);
+        });
+        return true;
+      }),
+      retireSigningKey: jest.fn(),
+      replacePrivateKey: jest.fn(),
+    } as jest.Mocked<ISigningKeyRepository>;
+
+    signingKeyService = new SigningKeyService(signingKeyRepository, createMockLogger());
+    jwksController = new JwksController(signingKeyService, createMockLogger());
+  });
+
+  const fetchJwks = async (): Promise<{ keys: (crypto.JsonWebKey & { kid: string })[] }> => {
+    const res = { json: jest.fn(), status: jest.fn().mockReturnThis() };
+    await jwksController.getJwks({} as Request, res as unknown as Response);
+    return res.json.mock.calls[0][0];
+  };
+
+  it('should publish a key whose kid matches the header of freshly issued tokens', async () => {
+    await signingKeyService.generateKey({ activate: true });
+    const token = await signingKeyService.sign({ sub: 'user-1' });
+
+    const { header } = jwt.decode(token, { complete: true })!;
+    const jwk = (await fetchJwks()).keys.find(key => key.kid === header.kid);
+
+    expect(jwk).toBeDefined();
+    expect(jwt.verify(token, crypto.createPublicKey({ key: jwk!, format: 'jwk' }))).toEqual(
+      expect.objectContaining({ sub: 'user-1' }),
+    );
+  });
+
+  it('should publish the JWK shape of each key type', async () => {
+    await signingKeyService.generateKey({ algorithm: 'ES256', activate: true });
+    await signingKeyService.generateKey({ algorithm: 'EdDSA' });
+
+    const keys = (await fetchJwks()).keys;
+
+    expect(keys).toEqual(expect.arrayContaining([
+      expect.objectContaining({ kty: 'EC', alg: 'ES256', crv: 'P-256', x: expect.any(String), y: expect.any(String) }),
+      expect.objectContaining({ kty: 'OKP', alg: 'EdDSA', crv: 'Ed25519', x: expect.any(String) }),
+    ]));
+    expect(keys.find(key => key.kty === 'OKP')).not.toHaveProperty('y');
+  });
+
+  it('should issue tokens that authenticateToken accepts after a rotation', async () => {
+    await signingKeyService.generateKey({ activate: true });
+    const rotated = await signingKeyService.generateKey({ algorithm: 'EdDSA', activate: true });
+    const token = await signingKeyService.sign({ sub: 'user-1', aud: config.jwt.audience, permissions: ['users:read'] });
+
+    expect(jwt.decode(token, { complete: true })!.header.kid).toBe(rotated.kid);
+    expect((await fetchJwks()).keys.map(key => key.kid)).toContain(rotated.kid);
+
+    const tokenRevocationService = { isTokenRevoked: jest.fn().mockResolvedValue(false) };
+    const authenticateToken = createAuthenticateToken(
+      tokenRevocationService as unknown as ITokenRevocationService,
+      signingKeyService,
+    );
+    const req = { headers: { authorization: `Bearer ${token}` } } as any;
+    const res = { status: jest.fn().mockReturnThis(), json: jest.fn() };
+
+    await new Promise<void>((resolve) => {
+      res.json.mockImplementation(() => resolve());
+      authenticateToken(req, res as unknown as Response, () => resolve());
+    });
+
+    expect(res.status).not.toHaveBeenCalled();
+    expect(req.auth).toEqual(expect.objectContaining({ userId: 'user-1', permissions: ['users:read'] }));
+  });
+});
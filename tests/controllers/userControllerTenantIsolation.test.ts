@@ -0,0 +1,71 @@
+import 'reflect-metadata';
+import { Response, NextFunction } from 'express';
+import { UserController } from '../../src/controllers/userController';
+import { IUserService } from '../../src/services/userService';
+import { AuthenticatedRequest } from '../../src/middlewares/auth';
+import { User } from '../../src/models/user';
+
+describe('UserController tenant isolation', () => {
+  let userController: UserController;
+  let res: { json: jest.Mock; status: jest.Mock };
+  let next: jest.Mock;
+
+  const users: Record<string, Partial<User>> = {
+    'user-1': { id: 'user-1', email: 'jane@acme.example', organizationId: 'org-1' },
+    'user-2': { id: 'user-2', email: 'john@globex.example', organizationId: 'org-2' },
+    'user-3': { id: 'user-3', email: 'solo@example.com', organizationId: null },
+  };
+
+  const getUser = (id: string, orgId?: string | null) => userController.getUserById(
+    { params: { id }, auth: { userId: 'caller', orgId } } as unknown as AuthenticatedRequest,
+    res as unknown as Response,
+    next as NextFunction,
+  );
+
+  beforeEach(() => {
+    const userService = {
+      getUserById: jest.fn(async (id: string) => (users[id] ? { roles: [], ...users[id] } as unknown as User : null)),
+    } as unknown as IUserService;
+
+    userController = new UserController(userService);
+    res = { json: jest.fn(), status: jest.fn().mockReturnThis() };
+    next = jest.fn();
+  });
+
+  it('should return users of the caller\'s organization', async () => {
+    await getUser('user-1', 'org-1');
+
+    expect(res.status).not.toHaveBeenCalled();
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ id: 'user-1' }));
+  });
+
+  it('should refuse users of another organization', async () => {
+    await getUser('user-2', 'org-1');
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json).toHaveBeenCalledWith({ message: 'Access denied: organization mismatch' });
+  });
+
+  it('should refuse users outside any organization to callers within one', async () => {
+    await getUser('user-3', 'org-1');
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json).not.toHaveBeenCalledWith(expect.objectContaining({ id: 'user-3' }));
+  });
+
+  it('should let callers outside any organization see every user', async () => {
+    await getUser('user-2', null);
+    await getUser('user-3');
+
+    expect(res.status).not.toHaveBeenCalled();
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ id: 'user-2' }));
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ id: 'user-3' }));
+  });
+
+  it('should answer 404 for unknown users', async () => {
+    await getUser('missing', 'org-1');
+
+    expect(res.status).toHaveBeenCalledWith(404);
+    expect(next).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,70 @@
+import http from 'http';
+import crypto from 'crypto';
+import { AddressInfo } from 'net';
+import jwt from 'jsonwebtoken';
+
+/**
+ * A minimal OpenID Provider serving a discovery document and JWKS on a local
+ * port, able to sign ID tokens with its current key.
+ */
+export class MockOidcIssuer {
+  issuer = '';
+  jwksRequests = 0;
+  private server = http.createServer((req, res) => this.handle(req, res));
+  private keys: { kid: string; privateKey: crypto.KeyObject; publicKey: crypto.KeyObject }[] = [];
+
+  async start(): Promise<void> {
+    this.rotateKey();
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    this.issuer = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  rotateKey(): string {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const kid = crypto.randomUUID();
+    this.keys.unshift({ kid, privateKey, publicKey });
+    return kid;
+  }
+
+  signIdToken(claims: Record<string, unknown>, options: { audience: string; expiresIn?: number }): string {
+    const [current] = this.keys;
+    return jwt.sign(claims, current.privateKey, {
+      algorithm: 'RS256',
+      keyid: current.kid,
+      issuer: this.issuer,
+      audience: options.audience,
+      expiresIn: options.expiresIn ?? 300,
+    });
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    if (req.url === '/.well-known/openid-configuration') {
+      this.json(res, {
+        issuer: this.issuer,
+        jwks_uri: `${this.issuer}/jwks`,
+        authorization_endpoint: `${this.issuer}/authorize`,
+        token_endpoint: `${this.issuer}/token`,
+        id_token_signing_alg_values_supported: ['RS256'],
+      });
+      return;
+    }
+
+    if (req.url === '/jwks') {
+      this.jwksRequests++;
+      this.json(res, {
+        keys: this.keys.map(({ kid, publicKey }) => ({ ...publicKey.export({ format: 'jwk' }), kid, use: 'sig', alg: 'RS256' })),
+      });
+      return;
+    }
+
+    res.writeHead(404).end();
+  }
+
+  private json(res: http.ServerResponse, body: unknown): void {
+    res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+  }
+}
@@ -11,12 +11,24 @@ import { AuthController } from '../../src/controllers/authController';
 import { UserController } from '../../src/controllers/userController';
 import { IUserEventsPublisher } from '../../src/events/userEventsPublisher';
 import { createErrorHandler } from '../../src/middlewares/errorHandler';
-import { authenticateToken } from '../../src/middlewares/auth';
+import { createAuthenticateToken } from '../../src/middlewares/auth';
+import { RevokedTokenRepository, IRevokedTokenRepository } from '../../src/repositories/revokedTokenRepository';
+import { TokenRevocationService, ITokenRevocationService } from '../../src/services/tokenRevocationService';
+import { PasswordPolicyService, IPasswordPolicyService } from '../../src/services/passwordPolicyService';
+import { SigningKeyService, ISigningKeyService } from '../../src/services/signingKeyService';
+import { SigningKeyRepository, ISigningKeyRepository } from '../../src/repositories/signingKeyRepository';
+import { UserAuthService, IUserAuthService } from '../../src/services/userAuthService';
+import { AccessTokenService, IAccessTokenService } from '../../src/services/accessTokenService';
 import { MockLogger } from './mockLogger';
 
 export class MockEventPublisher implements IUserEventsPublisher {
   onUserRegistered = jest.fn();
   onPasswordResetRequested = jest.fn();
+  onMagicLinkRequested = jest.fn();
+  onUserLocked = jest.fn();
+  onPasswordSetRequested = jest.fn();
+  onPasswordSet = jest.fn();
+  onUserImpersonated = jest.fn();
 }
 
 export function createTestApp(dataSource: DataSource) {
@@ -34,12 +46,23 @@ export function createTestApp(dataSource: DataSource) {
   container.bind<IUserService>(TYPES.UserService).to(UserService);
   container.bind<AuthController>(TYPES.AuthController).to(AuthController);
   container.bind<UserController>(TYPES.UserController).to(UserController);
+  container.bind<IRevokedTokenRepository>(TYPES.RevokedTokenRepository).to(RevokedTokenRepository);
+  container.bind<ITokenRevocationService>(TYPES.TokenRevocationService).to(TokenRevocationService).inSingletonScope();
+  container.bind<IPasswordPolicyService>(TYPES.PasswordPolicyService).to(PasswordPolicyService);
+  container.bind<ISigningKeyRepository>(TYPES.SigningKeyRepository).to(SigningKeyRepository);
+  container.bind<ISigningKeyService>(TYPES.SigningKeyService).to(SigningKeyService).inSingletonScope();
+  container.bind<IUserAuthService>(TYPES.UserAuthService).to(UserAuthService);
+  container.bind<IAccessTokenService>(TYPES.AccessTokenService).to(AccessTokenService);
 
   const app = express();
   app.use(express.json());
 
   const authController = container.get<AuthController>(TYPES.AuthController);
   const userController = container.get<UserController>(TYPES.UserController);
+  const authenticateToken = createAuthenticateToken(
+    container.get<ITokenRevocationService>(TYPES.TokenRevocationService),
+    container.get<ISigningKeyService>(TYPES.SigningKeyService),
+  );
 
   const authRouter = Router();
   authRouter.post('/register', authController.register);
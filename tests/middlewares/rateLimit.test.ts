@@ -0,0 +1,137 @@
+import 'reflect-metadata';
+import express from 'express';
+import request from 'supertest';
+import config from '../../src/config/config';
+import { createRateLimit } from '../../src/middlewares/rateLimit';
+import { MemoryRateLimitStore } from '../../src/rateLimit/memoryRateLimitStore';
+import { IRateLimitStore } from '../../src/rateLimit/rateLimitStore';
+import { createMockLogger } from '../helpers/mockLogger';
+
+describe('rate limit middleware', () => {
+  const originalPolicies = config.rateLimit.policies;
+
+  const buildApp = (store: IRateLimitStore, policyName: string) => {
+    const app = express();
+    app.use(express.json());
+    app.post('/limited', createRateLimit(store, createMockLogger())(policyName), (req, res) => {
+      res.json({ ok: true });
+    });
+    return app;
+  };
+
+  beforeEach(() => {
+    config.rateLimit.policies = {
+      byIp: { capacity: 2, interval: '1m', keyBy: 'ip' },
+      byEmail: { capacity: 1, interval: '1h', keyBy: 'email' },
+    };
+  });
+
+  afterAll(() => {
+    config.rateLimit.policies = originalPolicies;
+  });
+
+  it('should allow requests within the bucket and report RateLimit headers', async () => {
+    const app = buildApp(new MemoryRateLimitStore(), 'byIp');
+
+    const response = await request(app).post('/limited').send({});
+
+    expect(response.status).toBe(200);
+    expect(response.headers['ratelimit-limit']).toBe('2');
+    expect(response.headers['ratelimit-remaining']).toBe('1');
+    expect(response.headers['ratelimit-policy']).toBe('2;w=60');
+  });
+
+  it('should reject with 429 and Retry-After once the bucket is empty', async () => {
+    const app = buildApp(new MemoryRateLimitStore(), 'byIp');
+
+    await request(app).post('/limited').send({});
+    await request(app).post('/limited').send({});
+    const response = await request(app).post('/limited').send({});
+
+    expect(response.status).toBe(429);
+    expect(response.headers['ratelimit-remaining']).toBe('0');
+    // One token refills every 30 seconds
+    expect(Number(response.headers['retry-after'])).toBeGreaterThan(0);
+    expect(Number(response.headers['retry-after'])).toBeLessThanOrEqual(30);
+  });
+
+  it('should key email policies by the normalised email address', async () => {
+    const app = buildApp(new MemoryRateLimitStore(), 'byEmail');
+
+    expect((await request(app).post('/limited').send({ email: 'user@example.com' })).status).toBe(200);
+    expect((await request(app).post('/limited').send({ email: ' USER@example.com' })).status).toBe(429);
+    expect((await request(app).post('/limited').send({ email: 'other@example.com' })).status).toBe(200);
+  });
+
+  it('should let requests through when the store fails', async () => {
+    const failingStore: IRateLimitStore = { consume: jest.fn().mockRejectedValue(new Error('store down')) };
+    const app = buildApp(failingStore, 'byIp');
+
+    expect((await request(app).post('/limited').send({})).status).toBe(200);
+  });
+
+  it('should refuse unknown policies when routes are declared', () => {
+    expect(() => createRateLimit(new MemoryRateLimitStore(), createMockLogger())('missing')).toThrow();
+  });
+});
+
+describe('MemoryRateLimitStore', () => {
+  it('should refill tokens over time', async () => {
+    const store = new MemoryRateLimitStore();
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+
+    await store.consume('key', 1, 1);
+    expect((await store.consume('key', 1, 1)).allowed).toBe(false);
+
+    now.mockReturnValue(1_001_000);
+    expect((await store.consume('key', 1, 1)).allowed).toBe(true);
+
+    now.mockRestore();
+  });
+});
+
+describe('rate limit configuration', () => {
+  const originalEnv = { ...process.env };
+
+  const loadConfig = (env: Record<string, string>) => {
+    process.env = { ...originalEnv, ...env };
+    try {
+      let loaded: typeof config | undefined;
+      jest.isolateModules(() => {
+        loaded = require('../../src/config/config').default;
+      });
+      return loaded!;
+    } finally {
+      process.env = originalEnv;
+    }
+  };
+
+  it('should replace individual policies from RATE_LIMIT_POLICIES', () => {
+    const loaded = loadConfig({ RATE_LIMIT_POLICIES: '{"login":{"capacity":50,"interval":"5m","keyBy":"email"}}' });
+
+    expect(loaded.rateLimit.policies.login).toEqual({ capacity: 50, interval: '5m', keyBy: 'email' });
+    expect(loaded.rateLimit.policies.register).toEqual(config.rateLimit.policies.register);
+  });
+
+  it('should refuse malformed JSON with a clear error', () => {
+    expect(() => loadConfig({ RATE_LIMIT_POLICIES: '{login: 5}' })).toThrow(/^RATE_LIMIT_POLICIES is not valid JSON/);
+    expect(() => loadConfig({ RATE_LIMIT_POLICIES: '[]' })).toThrow('RATE_LIMIT_POLICIES must be a JSON object');
+  });
+
+  it('should refuse invalid policy fields', () => {
+    const policies = (login: object) => ({ RATE_LIMIT_POLICIES: JSON.stringify({ login }) });
+
+    expect(() => loadConfig(policies({ capacity: 0, interval: '5m', keyBy: 'ip' })))
+      .toThrow('RATE_LIMIT_POLICIES.login.capacity must be a positive integer');
+    expect(() => loadConfig(policies({ capacity: '5', interval: '5m', keyBy: 'ip' }))).toThrow(/capacity/);
+    expect(() => loadConfig(policies({ capacity: 5, interval: 'soon', keyBy: 'ip' }))).toThrow(/login\.interval/);
+    expect(() => loadConfig(policies({ capacity: 5, interval: '5m', keyBy: 'session' }))).toThrow(/login\.keyBy/);
+  });
+
+  it('should read TRUST_PROXY as a flag, a hop count or a list of addresses', () => {
+    expect(loadConfig({ TRUST_PROXY: '' }).trustProxy).toBe(false);
+    expect(loadConfig({ TRUST_PROXY: 'true' }).trustProxy).toBe(true);
+    expect(loadConfig({ TRUST_PROXY: '2' }).trustProxy).toBe(2);
+    expect(loadConfig({ TRUST_PROXY: 'loopback, 10.0.0.0/8' }).trustProxy).toBe('loopback, 10.0.0.0/8');
+  });
+});
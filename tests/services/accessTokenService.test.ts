@@ -0,0 +1,72 @@
+import 'reflect-metadata';
+import { AccessTokenService } from '../../src/services/accessTokenService';
+import { IUserAuthService, UserAuthInfo } from '../../src/services/userAuthService';
+import { ISigningKeyService } from '../../src/services/signingKeyService';
+import config from '../../src/config/config';
+
+describe('AccessTokenService', () => {
+  let accessTokenService: AccessTokenService;
+  let sign: jest.Mock;
+
+  const authInfo: UserAuthInfo = {
+    userId: 'user-1',
+    email: 'jane@example.com',
+    emailVerified: true,
+    name: 'Jane Doe',
+    givenName: 'Jane',
+    familyName: 'Doe',
+    picture: null,
+    updatedAt: new Date(),
+    organizationId: 'org-1',
+    disabledAt: null,
+    roles: ['org_admin'],
+    permissions: ['users:read', 'users:manage'],
+  };
+
+  beforeEach(() => {
+    sign = jest.fn().mockResolvedValue('signed-token');
+    accessTokenService = new AccessTokenService(
+      { resolveUserAuthInfo: jest.fn().mockResolvedValue(authInfo) } as IUserAuthService,
+      { sign } as unknown as ISigningKeyService,
+    );
+  });
+
+  it('should carry the user\'s roles and permissions for their own sign-in', async () => {
+    await accessTokenService.issueAccessToken('user-1', 'session-1');
+
+    const payload = sign.mock.calls[0][0];
+    expect(payload).toEqual(expect.objectContaining({
+      sub: 'user-1',
+      aud: config.jwt.audience,
+      sid: 'session-1',
+      roles: ['org_admin'],
+      permissions: ['users:read', 'users:manage'],
+      email: 'jane@example.com',
+      name: 'Jane Doe',
+    }));
+    expect(payload).not.toHaveProperty('client_id');
+    expect(payload).not.toHaveProperty('scope');
+  });
+
+  it('should narrow tokens issued to OAuth clients to the granted scopes', async () => {
+    await accessTokenService.issueAccessToken('user-1', 'session-1', { clientId: 'client-1', scope: 'openid email users:read' });
+
+    const payload = sign.mock.calls[0][0];
+    expect(payload).toEqual(expect.objectContaining({
+      client_id: 'client-1',
+      scope: 'openid email users:read',
+      roles: [],
+      permissions: ['users:read'],
+      email: 'jane@example.com',
+    }));
+    expect(payload).not.toHaveProperty('name');
+  });
+
+  it('should give OAuth clients without permission scopes no permissions', async () => {
+    await accessTokenService.issueAccessToken('user-1', 'session-1', { clientId: 'client-1', scope: 'openid' });
+
+    const payload = sign.mock.calls[0][0];
+    expect(payload.permissions).toEqual([]);
+    expect(payload).not.toHaveProperty('email');
+  });
+});
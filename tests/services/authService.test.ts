@@ -1,33 +1,44 @@
 import 'reflect-metadata';
-import bcrypt from 'bcrypt';
-import jwt from 'jsonwebtoken';
 import { AuthService } from '../../src/services/authService';
 import { IUserRepository } from '../../src/repositories/userRepository';
 import { IUserEventsPublisher } from '../../src/events/userEventsPublisher';
-import { RegisterDto, LoginDto } from '../../src/dto/user.dto';
+import { IGoogleAuthService } from '../../src/services/googleAuthService';
+import { IOidcClientService, ExternalUserProfile } from '../../src/services/oidcClientService';
+import { IExternalIdentityRepository } from '../../src/repositories/externalIdentityRepository';
+import { IRefreshTokenService } from '../../src/services/refreshTokenService';
+import { ISessionService } from '../../src/services/sessionService';
+import { IMfaService } from '../../src/services/mfaService';
+import { IWebAuthnService } from '../../src/services/webauthnService';
+import { ILoginThrottleService } from '../../src/services/loginThrottleService';
+import { IPasswordPolicyService } from '../../src/services/passwordPolicyService';
+import { IPasswordHistoryService } from '../../src/services/passwordHistoryService';
+import { IPasswordHasher } from '../../src/services/passwordHasher';
+import { IAccessTokenService } from '../../src/services/accessTokenService';
+import { RegisterDto, LoginDto, AuthResponseDto, ExternalAuthResponseDto } from '../../src/dto/user.dto';
+import { MfaChallengeResponseDto } from '../../src/dto/mfa.dto';
 import { AppError } from '../../src/middlewares/errorHandler';
 import { User } from '../../src/models/user';
+import { ExternalIdentity } from '../../src/models/externalIdentity';
+import { Session } from '../../src/models/session';
 import { createMockLogger } from '../helpers/mockLogger';
-import { TEST_JWT_PRIVATE_KEY } from '../helpers/testKeys';
-
-jest.mock('bcrypt');
-jest.mock('jsonwebtoken');
-jest.mock('crypto', () => ({
-  randomBytes: jest.fn((size: number) => ({
-    toString: jest.fn(() => 'mocked-token-123'),
-  })),
-}));
-
-const mockBcrypt = bcrypt as jest.Mocked<typeof bcrypt>;
-const mockJwt = jwt as jest.Mocked<typeof jwt>;
 
 describe('AuthService', () => {
   let authService: AuthService;
   let mockUserRepository: jest.Mocked<IUserRepository>;
   let mockUserEventsPublisher: jest.Mocked<IUserEventsPublisher>;
-  let mockLogger: ReturnType<typeof createMockLogger>;
-
-  const mockUser: User = {
+  let mockGoogleAuthService: jest.Mocked<IGoogleAuthService>;
+  let mockOidcClientService: jest.Mocked<Pick<IOidcClientService, 'verifyIdToken'>>;
+  let mockExternalIdentityRepository: jest.Mocked<IExternalIdentityRepository>;
+  let mockRefreshTokenService: jest.Mocked<IRefreshTokenService>;
+  let mockSessionService: jest.Mocked<ISessionService>;
+  let mockMfaService: jest.Mocked<IMfaService>;
+  let mockLoginThrottleService: jest.Mocked<ILoginThrottleService>;
+  let mockPasswordPolicyService: jest.Mocked<IPasswordPolicyService>;
+  let mockPasswordHistoryService: jest.Mocked<IPasswordHistoryService>;
+  let mockPasswordHasher: jest.Mocked<IPasswordHasher>;
+  let mockAccessTokenService: jest.Mocked<IAccessTokenService>;
+
+  const buildUser = (overrides: Partial<User> = {}): User => ({
     id: '123e4567-e89b-12d3-a456-426614174000',
     email: 'test@example.com',
     password: 'hashedPassword123',
@@ -35,9 +46,22 @@ describe('AuthService', () => {
     lastName: 'Doe',
     emailVerified: false,
     emailVerificationToken: 'token123',
-    role: 'user',
+    roles: [],
+    totpSecret: null,
+    totpEnabledAt: null,
+    disabledAt: null,
     createdAt: new Date(),
     updatedAt: new Date(),
+    ...overrides,
+  } as User);
+
+  const mockUser = buildUser();
+
+  const mfaChallenge: MfaChallengeResponseDto = {
+    status: 'mfa_required',
+    challengeToken: 'challenge-1',
+    expiresAt: new Date(),
+    methods: ['totp', 'recovery_code'],
   };
 
   beforeEach(() => {
@@ -47,25 +71,128 @@ describe('AuthService', () => {
       findUserByEmail: jest.fn(),
       findUserById: jest.fn(),
       findUserByVerificationToken: jest.fn(),
+      findUserByPasswordResetToken: jest.fn(),
+      findUserByMagicLinkToken: jest.fn(),
+      consumeMagicLinkToken: jest.fn().mockResolvedValue(true),
+      consumePasswordSetToken: jest.fn().mockResolvedValue(true),
       createUser: jest.fn(),
       updateUser: jest.fn(),
       getAllUsers: jest.fn(),
       getPaginatedUsers: jest.fn(),
+      getUserCount: jest.fn(),
+      findUserWithRoles: jest.fn(),
+      addRoleToUser: jest.fn(),
+      removeRoleFromUser: jest.fn(),
+      getTokensValidAfter: jest.fn(),
     };
 
     mockUserEventsPublisher = {
       onUserRegistered: jest.fn(),
+      onPasswordResetRequested: jest.fn(),
+      onMagicLinkRequested: jest.fn(),
+      onUserLocked: jest.fn(),
+      onPasswordSetRequested: jest.fn(),
+      onPasswordSet: jest.fn(),
+      onUserImpersonated: jest.fn(),
+    };
+
+    mockGoogleAuthService = {
+      verifyIdToken: jest.fn(),
+      createAuthorizationUrl: jest.fn(),
+      exchangeAuthorizationCode: jest.fn(),
+    };
+
+    mockOidcClientService = {
+      verifyIdToken: jest.fn(),
+    };
+
+    mockExternalIdentityRepository = {
+      createExternalIdentity: jest.fn(),
+      findExternalIdentity: jest.fn().mockResolvedValue(null),
+      findExternalIdentitiesByUserId: jest.fn().mockResolvedValue([]),
+      touchExternalIdentity: jest.fn(),
+      deleteExternalIdentity: jest.fn(),
+    };
+
+    mockRefreshTokenService = {
+      issueRefreshToken: jest.fn().mockResolvedValue({ token: 'refresh-token', expiresAt: new Date(), familyId: 'session-1' }),
+      rotateRefreshToken: jest.fn(),
+      findActiveRefreshToken: jest.fn(),
+      revokeRefreshTokenFamily: jest.fn(),
+      revokeRefreshTokensForUser: jest.fn(),
+    };
+
+    mockSessionService = {
+      createSession: jest.fn().mockResolvedValue({ id: 'session-1' } as Session),
+      getActiveSession: jest.fn(),
+      touchSession: jest.fn(),
+      listActiveSessions: jest.fn(),
+      revokeSession: jest.fn(),
+      revokeAllSessions: jest.fn(),
     };
 
-    mockLogger = createMockLogger();
+    mockMfaService = {
+      isMfaEnabled: jest.fn((user: User) => Boolean(user.totpEnabledAt && user.totpSecret)),
+      getMfaStatus: jest.fn(),
+      startTotpEnrollment: jest.fn(),
+      confirmTotpEnrollment: jest.fn(),
+      regenerateRecoveryCodes: jest.fn(),
+      disableTotp: jest.fn(),
+      resetMfa: jest.fn(),
+      createChallenge: jest.fn().mockResolvedValue(mfaChallenge),
+      verifyChallenge: jest.fn(),
+    };
 
-    process.env.JWT_PRIVATE_KEY = TEST_JWT_PRIVATE_KEY;
-    process.env.JWT_PUBLIC_KEY = 'public-key';
+    mockLoginThrottleService = {
+      assertLoginAllowed: jest.fn(),
+      recordFailedLogin: jest.fn(),
+      recordSuccessfulLogin: jest.fn(),
+      unlockAccount: jest.fn(),
+    };
+
+    mockPasswordPolicyService = {
+      getPolicy: jest.fn(),
+      validatePassword: jest.fn().mockReturnValue([]),
+      assertPasswordAllowed: jest.fn(),
+    };
+
+    mockPasswordHistoryService = {
+      assertPasswordNotReused: jest.fn(),
+      recordPassword: jest.fn(),
+    };
+
+    mockPasswordHasher = {
+      hash: jest.fn().mockResolvedValue('hashedPassword123'),
+      verify: jest.fn(),
+      needsRehash: jest.fn().mockReturnValue(false),
+      verifyDummy: jest.fn(),
+    };
+
+    mockAccessTokenService = {
+      issueAccessToken: jest.fn().mockResolvedValue('jwt-token'),
+      issueServiceAccountToken: jest.fn(),
+      issueImpersonationToken: jest.fn(),
+      getExpiresInSeconds: jest.fn().mockReturnValue(3600),
+      getServiceAccountExpiresInSeconds: jest.fn(),
+      getImpersonationExpiresInSeconds: jest.fn(),
+    };
 
     authService = new AuthService(
       mockUserRepository,
       mockUserEventsPublisher,
-      mockLogger
+      mockGoogleAuthService,
+      mockOidcClientService as unknown as IOidcClientService,
+      mockExternalIdentityRepository,
+      mockRefreshTokenService,
+      mockSessionService,
+      mockMfaService,
+      {} as IWebAuthnService,
+      mockLoginThrottleService,
+      mockPasswordPolicyService,
+      mockPasswordHistoryService,
+      mockPasswordHasher,
+      mockAccessTokenService,
+      createMockLogger(),
     );
   });
 
@@ -79,21 +206,18 @@ describe('AuthService', () => {
       };
 
       mockUserRepository.findUserByEmail.mockResolvedValue(null);
-      mockBcrypt.hash.mockResolvedValue('hashedPassword123' as never);
       mockUserRepository.createUser.mockResolvedValue(mockUser);
-      mockJwt.sign.mockReturnValue('jwt-token' as never);
 
       const result = await authService.register(registerDto);
 
       expect(mockUserRepository.findUserByEmail).toHaveBeenCalledWith('newuser@example.com');
-      expect(mockBcrypt.hash).toHaveBeenCalledWith('password123', 10);
+      expect(mockPasswordHasher.hash).toHaveBeenCalledWith('password123');
       expect(mockUserRepository.createUser).toHaveBeenCalledWith(
         expect.objectContaining({
           email: 'newuser@example.com',
           password: 'hashedPassword123',
           firstName: 'Jane',
           lastName: 'Smith',
-          role: 'user',
           emailVerificationToken: expect.any(String),
         })
       );
@@ -129,13 +253,12 @@ describe('AuthService', () => {
       };
 
       mockUserRepository.findUserByEmail.mockResolvedValue(null);
-      mockBcrypt.hash.mockResolvedValue('hashedPlainPassword' as never);
+      mockPasswordHasher.hash.mockResolvedValue('hashedPlainPassword');
       mockUserRepository.createUser.mockResolvedValue(mockUser);
-      mockJwt.sign.mockReturnValue('jwt-token' as never);
 
       await authService.register(registerDto);
 
-      expect(mockBcrypt.hash).toHaveBeenCalledWith('plainPassword', 10);
+      expect(mockPasswordHasher.hash).toHaveBeenCalledWith('plainPassword');
       expect(mockUserRepository.createUser).toHaveBeenCalledWith(
         expect.objectContaining({
           password: 'hashedPlainPassword',
@@ -152,13 +275,12 @@ describe('AuthService', () => {
       };
 
       mockUserRepository.findUserByEmail.mockResolvedValue(mockUser);
-      mockBcrypt.compare.mockResolvedValue(true as never);
-      mockJwt.sign.mockReturnValue('jwt-token' as never);
+      mockPasswordHasher.verify.mockResolvedValue(true);
 
-      const result = await authService.login(loginDto);
+      const result = await authService.login(loginDto) as AuthResponseDto;
 
       expect(mockUserRepository.findUserByEmail).toHaveBeenCalledWith('test@example.com');
-      expect(mockBcrypt.compare).toHaveBeenCalledWith('password123', mockUser.password);
+      expect(mockPasswordHasher.verify).toHaveBeenCalledWith('password123', mockUser.password);
       expect(result.user.email).toBe(mockUser.email);
       expect(result.token).toBe('jwt-token');
     });
@@ -175,7 +297,7 @@ describe('AuthService', () => {
         new AppError('Invalid credentials', 401)
       );
 
-      expect(mockBcrypt.compare).not.toHaveBeenCalled();
+      expect(mockPasswordHasher.verify).not.toHaveBeenCalled();
     });
 
     it('should throw error when password is invalid', async () => {
@@ -185,23 +307,50 @@ describe('AuthService', () => {
       };
 
       mockUserRepository.findUserByEmail.mockResolvedValue(mockUser);
-      mockBcrypt.compare.mockResolvedValue(false as never);
+      mockPasswordHasher.verify.mockResolvedValue(false);
 
       await expect(authService.login(loginDto)).rejects.toThrow(
         new AppError('Invalid credentials', 401)
       );
 
-      expect(mockJwt.sign).not.toHaveBeenCalled();
+      expect(mockAccessTokenService.issueAccessToken).not.toHaveBeenCalled();
+    });
+
+    it('should reset the lockout counter on a successful login without MFA', async () => {
+      mockUserRepository.findUserByEmail.mockResolvedValue(mockUser);
+      mockPasswordHasher.verify.mockResolvedValue(true);
+
+      await authService.login({ email: 'test@example.com', password: 'password123' });
+
+      expect(mockLoginThrottleService.recordSuccessfulLogin).toHaveBeenCalledWith('test@example.com');
+    });
+
+    it('should keep the lockout counter until the second factor succeeds', async () => {
+      mockUserRepository.findUserByEmail.mockResolvedValue(buildUser({ totpSecret: 'secret', totpEnabledAt: new Date() }));
+      mockPasswordHasher.verify.mockResolvedValue(true);
+
+      await expect(authService.login({ email: 'test@example.com', password: 'password123' })).resolves.toEqual(mfaChallenge);
+
+      expect(mockLoginThrottleService.recordSuccessfulLogin).not.toHaveBeenCalled();
+    });
+
+    it('should pass the client IP on to the MFA challenge', async () => {
+      mockMfaService.verifyChallenge.mockResolvedValue(mockUser.id);
+      mockUserRepository.findUserById.mockResolvedValue(mockUser);
+
+      await authService.verifyMfa({ challengeToken: 'challenge-1', code: '123456' }, { ipAddress: '203.0.113.7' });
+
+      expect(mockMfaService.verifyChallenge).toHaveBeenCalledWith('challenge-1', '123456', '203.0.113.7');
     });
   });
 
   describe('verifyEmail', () => {
     it('should successfully verify email with valid token', async () => {
       const verificationToken = 'valid-token-123';
-      const userToVerify = { ...mockUser, emailVerified: false, emailVerificationToken: verificationToken };
+      const userToVerify = buildUser({ emailVerified: false, emailVerificationToken: verificationToken });
 
       mockUserRepository.findUserByVerificationToken.mockResolvedValue(userToVerify);
-      mockUserRepository.updateUser.mockResolvedValue({ ...userToVerify, emailVerified: true, emailVerificationToken: null });
+      mockUserRepository.updateUser.mockResolvedValue({ ...userToVerify, emailVerified: true, emailVerificationToken: null } as User);
 
       const result = await authService.verifyEmail(verificationToken);
 
@@ -226,7 +375,7 @@ describe('AuthService', () => {
 
     it('should handle already verified email', async () => {
       const verificationToken = 'valid-token-123';
-      const verifiedUser = { ...mockUser, emailVerified: true };
+      const verifiedUser = buildUser({ emailVerified: true });
 
       mockUserRepository.findUserByVerificationToken.mockResolvedValue(verifiedUser);
 
@@ -239,7 +388,7 @@ describe('AuthService', () => {
   });
 
   describe('token generation', () => {
-    it('should generate JWT token with correct payload', async () => {
+    it('should issue the access token for a new session', async () => {
       const registerDto: RegisterDto = {
         email: 'test@example.com',
         password: 'password123',
@@ -248,24 +397,306 @@ describe('AuthService', () => {
       };
 
       mockUserRepository.findUserByEmail.mockResolvedValue(null);
-      mockBcrypt.hash.mockResolvedValue('hashedPassword' as never);
       mockUserRepository.createUser.mockResolvedValue(mockUser);
-      mockJwt.sign.mockReturnValue('jwt-token' as never);
 
-      await authService.register(registerDto);
+      await authService.register(registerDto, { userAgent: 'curl/8.0', ipAddress: '10.0.0.1' });
 
-      expect(mockJwt.sign).toHaveBeenCalledWith(
-        {
-          userId: mockUser.id,
-          email: mockUser.email,
-        },
-        expect.any(String),
-        {
-          algorithm: 'RS256',
-          expiresIn: '7d',
-        }
+      expect(mockSessionService.createSession).toHaveBeenCalledWith(mockUser.id, { userAgent: 'curl/8.0', ipAddress: '10.0.0.1' });
+      expect(mockAccessTokenService.issueAccessToken).toHaveBeenCalledWith(mockUser.id, 'session-1');
+      expect(mockRefreshTokenService.issueRefreshToken).toHaveBeenCalledWith(mockUser.id, 'session-1');
+    });
+  });
+
+  describe('magic links', () => {
+    const magicLinkUser = buildUser({
+      magicLinkToken: 'magic-token',
+      magicLinkTokenExpiresAt: new Date(Date.now() + 60_000),
+    });
+
+    beforeEach(() => {
+      mockUserRepository.findUserByMagicLinkToken.mockImplementation(async token => (
+        token === 'magic-token' ? { ...magicLinkUser } : null
+      ));
+      mockUserRepository.updateUser.mockImplementation(async (id, updates) => ({ ...magicLinkUser, ...updates } as User));
+    });
+
+    it('should give the same response whether or not the account exists', async () => {
+      mockUserRepository.findUserByEmail.mockResolvedValueOnce(mockUser).mockResolvedValueOnce(null);
+
+      const existing = await authService.requestMagicLink({ email: mockUser.email });
+      const unknown = await authService.requestMagicLink({ email: 'nobody@example.com' });
+
+      expect(unknown).toEqual(existing);
+      expect(mockUserEventsPublisher.onMagicLinkRequested).toHaveBeenCalledTimes(1);
+      expect(mockUserEventsPublisher.onMagicLinkRequested).toHaveBeenCalledWith(
+        expect.objectContaining({ id: mockUser.id }),
+        mockUserRepository.updateUser.mock.calls[0][1].magicLinkToken,
       );
+      expect(mockUserRepository.updateUser.mock.calls[0][1].magicLinkTokenExpiresAt!.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should not send links to disabled accounts', async () => {
+      mockUserRepository.findUserByEmail.mockResolvedValue(buildUser({ disabledAt: new Date() }));
+
+      await expect(authService.requestMagicLink({ email: mockUser.email })).resolves.toEqual(expect.objectContaining({ success: true }));
+      expect(mockUserRepository.updateUser).not.toHaveBeenCalled();
+      expect(mockUserEventsPublisher.onMagicLinkRequested).not.toHaveBeenCalled();
+    });
+
+    it('should sign in with a valid link and verify the email address', async () => {
+      const result = await authService.consumeMagicLink({ token: 'magic-token' });
+
+      expect(mockUserRepository.consumeMagicLinkToken).toHaveBeenCalledWith(magicLinkUser.id, 'magic-token');
+      expect(mockUserRepository.updateUser).toHaveBeenCalledWith(magicLinkUser.id, {
+        emailVerified: true,
+        emailVerificationToken: null,
+      });
+      expect(result).toEqual(expect.objectContaining({
+        token: 'jwt-token',
+        refreshToken: 'refresh-token',
+        user: expect.objectContaining({ emailVerified: true }),
+      }));
+    });
+
+    it('should reject unknown and expired links', async () => {
+      const invalidLink = new AppError('Invalid or expired sign-in link', 401);
+
+      await expect(authService.consumeMagicLink({ token: 'other-token' })).rejects.toThrow(invalidLink);
+
+      mockUserRepository.findUserByMagicLinkToken.mockResolvedValue({
+        ...magicLinkUser,
+        magicLinkTokenExpiresAt: new Date(Date.now() - 1000),
+      });
+      await expect(authService.consumeMagicLink({ token: 'magic-token' })).rejects.toThrow(invalidLink);
+
+      expect(mockUserRepository.consumeMagicLinkToken).not.toHaveBeenCalled();
+      expect(mockSessionService.createSession).not.toHaveBeenCalled();
+    });
+
+    it('should accept each link only once', async () => {
+      mockUserRepository.consumeMagicLinkToken.mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+
+      await authService.consumeMagicLink({ token: 'magic-token' });
+      await expect(authService.consumeMagicLink({ token: 'magic-token' }))
+        .rejects.toThrow(new AppError('Invalid or expired sign-in link', 401));
+
+      expect(mockSessionService.createSession).toHaveBeenCalledTimes(1);
+    });
+
+    it('should require the second factor for users with MFA', async () => {
+      mockUserRepository.findUserByMagicLinkToken.mockResolvedValue({
+        ...magicLinkUser,
+        emailVerified: true,
+        totpSecret: 'secret',
+        totpEnabledAt: new Date(),
+      });
+
+      await expect(authService.consumeMagicLink({ token: 'magic-token' })).resolves.toEqual(mfaChallenge);
+
+      expect(mockUserRepository.consumeMagicLinkToken).toHaveBeenCalled();
+      expect(mockMfaService.createChallenge).toHaveBeenCalledWith(magicLinkUser.id);
+      expect(mockSessionService.createSession).not.toHaveBeenCalled();
     });
   });
-});
 
+  describe('logout', () => {
+    it('should revoke only the session the token belongs to', async () => {
+      await expect(authService.logout(mockUser.id, 'session-1')).resolves.toEqual({
+        success: true,
+        message: 'Logged out successfully',
+      });
+
+      expect(mockSessionService.revokeSession).toHaveBeenCalledWith(mockUser.id, 'session-1');
+      expect(mockSessionService.revokeAllSessions).not.toHaveBeenCalled();
+    });
+
+    it('should refuse tokens that are not bound to a session', async () => {
+      await expect(authService.logout(mockUser.id)).rejects.toThrow(new AppError('Token is not bound to a session', 400));
+
+      expect(mockSessionService.revokeSession).not.toHaveBeenCalled();
+    });
+
+    it('should pass on a failure to revoke the session', async () => {
+      mockSessionService.revokeSession.mockRejectedValue(new AppError('Session not found', 404));
+
+      await expect(authService.logout(mockUser.id, 'session-2')).rejects.toThrow(new AppError('Session not found', 404));
+    });
+
+    it('should revoke every session on logout from all sessions', async () => {
+      mockSessionService.revokeAllSessions.mockResolvedValue(3);
+
+      await expect(authService.logoutAll(mockUser.id)).resolves.toEqual({
+        success: true,
+        message: 'Logged out from all sessions successfully',
+      });
+
+      expect(mockSessionService.revokeAllSessions).toHaveBeenCalledWith(mockUser.id, 'logout-all');
+    });
+  });
+
+  describe('external sign-in', () => {
+    const profile: ExternalUserProfile = {
+      provider: 'acme',
+      subject: 'acme-user-1',
+      email: 'test@example.com',
+      emailVerified: true,
+      givenName: 'John',
+      familyName: 'Doe',
+    };
+
+    const mfaUser = buildUser({ totpSecret: 'secret', totpEnabledAt: new Date() });
+
+    beforeEach(() => {
+      mockOidcClientService.verifyIdToken.mockResolvedValue(profile);
+    });
+
+    it('should sign in a linked identity without MFA', async () => {
+      mockExternalIdentityRepository.findExternalIdentity.mockResolvedValue({ id: 'identity-1', userId: mockUser.id } as ExternalIdentity);
+      mockUserRepository.findUserById.mockResolvedValue(mockUser);
+
+      const result = await authService.oidcLogin('acme', { idToken: 'id-token' }) as ExternalAuthResponseDto;
+
+      expect(result.token).toBe('jwt-token');
+      expect(mockMfaService.createChallenge).not.toHaveBeenCalled();
+    });
+
+    it('should require the second factor for a linked identity of a user with MFA', async () => {
+      mockExternalIdentityRepository.findExternalIdentity.mockResolvedValue({ id: 'identity-1', userId: mfaUser.id } as ExternalIdentity);
+      mockUserRepository.findUserById.mockResolvedValue(mfaUser);
+
+      await expect(authService.oidcLogin('acme', { idToken: 'id-token' })).resolves.toEqual(mfaChallenge);
+
+      expect(mockMfaService.createChallenge).toHaveBeenCalledWith(mfaUser.id);
+      expect(mockSessionService.createSession).not.toHaveBeenCalled();
+      expect(mockAccessTokenService.issueAccessToken).not.toHaveBeenCalled();
+    });
+
+    it('should require the second factor before linking to an account with MFA', async () => {
+      mockUserRepository.findUserByEmail.mockResolvedValue(mfaUser);
+
+      await expect(authService.oidcLogin('acme', { idToken: 'id-token' })).resolves.toEqual(mfaChallenge);
+
+      expect(mockExternalIdentityRepository.createExternalIdentity).not.toHaveBeenCalled();
+      expect(mockAccessTokenService.issueAccessToken).not.toHaveBeenCalled();
+    });
+
+    it('should require the second factor on the Google flows', async () => {
+      mockGoogleAuthService.verifyIdToken.mockResolvedValue({ sub: 'google-1', email: 'test@example.com', email_verified: true });
+      mockGoogleAuthService.exchangeAuthorizationCode.mockResolvedValue({
+        googleUser: { sub: 'google-1', email: 'test@example.com', email_verified: true },
+        returnTo: null,
+      });
+      mockExternalIdentityRepository.findExternalIdentity.mockResolvedValue({ id: 'identity-1', userId: mfaUser.id } as ExternalIdentity);
+      mockUserRepository.findUserById.mockResolvedValue(mfaUser);
+
+      await expect(authService.googleOAuth({ idToken: 'id-token' })).resolves.toEqual(mfaChallenge);
+      await expect(authService.completeGoogleAuthorization({ code: 'code-1', state: 'state-1', browserBinding: 'binding' }))
+        .resolves.toEqual({ auth: mfaChallenge, returnTo: null });
+      expect(mockAccessTokenService.issueAccessToken).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('setting a first password', () => {
+    const oauthUser = buildUser({
+      password: null,
+      authProvider: 'google',
+      passwordSetToken: 'set-token',
+      passwordSetTokenExpiresAt: new Date(Date.now() + 60_000),
+    });
+
+    beforeEach(() => {
+      mockUserRepository.findUserById.mockResolvedValue({ ...oauthUser });
+      mockUserRepository.updateUser.mockImplementation(async (id, updates) => ({ ...oauthUser, ...updates } as User));
+    });
+
+    it('should email a confirmation token that expires', async () => {
+      const result = await authService.requestPasswordSetConfirmation(oauthUser.id);
+
+      expect(result.success).toBe(true);
+      expect(mockUserRepository.updateUser).toHaveBeenCalledWith(oauthUser.id, {
+        passwordSetToken: expect.any(String),
+        passwordSetTokenExpiresAt: expect.any(Date),
+      });
+      const { passwordSetToken, passwordSetTokenExpiresAt } = mockUserRepository.updateUser.mock.calls[0][1];
+      expect(passwordSetTokenExpiresAt!.getTime()).toBeGreaterThan(Date.now());
+      expect(mockUserEventsPublisher.onPasswordSetRequested).toHaveBeenCalledWith(expect.anything(), passwordSetToken);
+    });
+
+    it('should refuse accounts that already have a password', async () => {
+      mockUserRepository.findUserById.mockResolvedValue(mockUser);
+
+      await expect(authService.requestPasswordSetConfirmation(mockUser.id))
+        .rejects.toThrow(new AppError('Account already has a password; use change password instead', 400));
+      await expect(authService.setPassword(mockUser.id, { password: 'NewPassword123!' }, 'session-1'))
+        .rejects.toThrow(AppError);
+      expect(mockUserRepository.updateUser).not.toHaveBeenCalled();
+    });
+
+    it('should set the password with the emailed token and switch the account to local', async () => {
+      const result = await authService.setPassword(oauthUser.id, { password: 'NewPassword123!', confirmationToken: 'set-token' });
+
+      expect(result.success).toBe(true);
+      expect(mockUserRepository.consumePasswordSetToken).toHaveBeenCalledWith(oauthUser.id, 'set-token');
+      expect(mockUserRepository.updateUser).toHaveBeenCalledWith(oauthUser.id, {
+        password: 'hashedPassword123',
+        authProvider: 'local',
+        passwordSetToken: null,
+        passwordSetTokenExpiresAt: null,
+      });
+      expect(mockPasswordHistoryService.recordPassword).toHaveBeenCalledWith(oauthUser.id, 'hashedPassword123');
+      expect(mockUserEventsPublisher.onPasswordSet).toHaveBeenCalledWith(expect.objectContaining({ authProvider: 'local' }));
+    });
+
+    it('should reject a wrong or expired token', async () => {
+      await expect(authService.setPassword(oauthUser.id, { password: 'NewPassword123!', confirmationToken: 'other-token' }))
+        .rejects.toThrow(new AppError('Invalid or expired confirmation token', 400));
+
+      mockUserRepository.findUserById.mockResolvedValue({ ...oauthUser, passwordSetTokenExpiresAt: new Date(Date.now() - 1000) });
+      await expect(authService.setPassword(oauthUser.id, { password: 'NewPassword123!', confirmationToken: 'set-token' }))
+        .rejects.toThrow(new AppError('Invalid or expired confirmation token', 400));
+
+      expect(mockUserRepository.consumePasswordSetToken).not.toHaveBeenCalled();
+      expect(mockUserRepository.updateUser).not.toHaveBeenCalled();
+    });
+
+    it('should not write the password when the token was consumed concurrently', async () => {
+      mockUserRepository.consumePasswordSetToken.mockResolvedValue(false);
+
+      await expect(authService.setPassword(oauthUser.id, { password: 'NewPassword123!', confirmationToken: 'set-token' }))
+        .rejects.toThrow(new AppError('Invalid or expired confirmation token', 400));
+
+      expect(mockPasswordHasher.hash).not.toHaveBeenCalled();
+      expect(mockUserRepository.updateUser).not.toHaveBeenCalled();
+    });
+
+    it('should accept a recent sign-in instead of the token', async () => {
+      mockSessionService.getActiveSession.mockResolvedValue({ id: 'session-1', userId: oauthUser.id, createdAt: new Date() } as Session);
+
+      await authService.setPassword(oauthUser.id, { password: 'NewPassword123!' }, 'session-1');
+
+      expect(mockSessionService.getActiveSession).toHaveBeenCalledWith('session-1');
+      expect(mockUserRepository.consumePasswordSetToken).not.toHaveBeenCalled();
+      expect(mockUserRepository.updateUser).toHaveBeenCalledWith(oauthUser.id, expect.objectContaining({ authProvider: 'local' }));
+    });
+
+    it('should require a fresh sign-in without the token', async () => {
+      const reauthenticationRequired = new AppError('Sign in again or request a confirmation email to set a password', 403);
+
+      await expect(authService.setPassword(oauthUser.id, { password: 'NewPassword123!' })).rejects.toThrow(reauthenticationRequired);
+
+      mockSessionService.getActiveSession.mockResolvedValue({
+        id: 'session-1',
+        userId: oauthUser.id,
+        createdAt: new Date(Date.now() - 60 * 60 * 1000),
+      } as Session);
+      await expect(authService.setPassword(oauthUser.id, { password: 'NewPassword123!' }, 'session-1'))
+        .rejects.toThrow(reauthenticationRequired);
+
+      mockSessionService.getActiveSession.mockResolvedValue({ id: 'session-1', userId: 'someone-else', createdAt: new Date() } as Session);
+      await expect(authService.setPassword(oauthUser.id, { password: 'NewPassword123!' }, 'session-1'))
+        .rejects.toThrow(reauthenticationRequired);
+
+      expect(mockUserRepository.updateUser).not.toHaveBeenCalled();
+    });
+  });
+});
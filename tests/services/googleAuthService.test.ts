@@ -0,0 +1,157 @@
+import 'reflect-metadata';
+import crypto from 'crypto';
+import { OAuth2Client } from 'google-auth-library';
+import { GoogleAuthService } from '../../src/services/googleAuthService';
+import { ITokenRevocationService } from '../../src/services/tokenRevocationService';
+import { AppError } from '../../src/middlewares/errorHandler';
+import config from '../../src/config/config';
+import { createMockLogger } from '../helpers/mockLogger';
+
+describe('GoogleAuthService', () => {
+  let googleAuthService: GoogleAuthService;
+  let revokeTokenOnce: jest.Mock;
+  const originalSettings = { ...config.googleOAuth };
+
+  const parseAuthorizationUrl = (url: string): Record<string, string> => Object.fromEntries(new URL(url).searchParams);
+
+  const mockIdTokenPayload = (payload: Record<string, unknown>) => {
+    jest.spyOn(OAuth2Client.prototype, 'verifyIdToken').mockImplementation(async () => ({
+      getPayload: () => payload,
+    }) as never);
+  };
+
+  beforeEach(() => {
+    Object.assign(config.googleOAuth, {
+      clientId: 'client-1',
+      clientSecret: 'secret-1',
+      redirectUri: 'http://localhost:3000/api/auth/google/callback',
+      returnUrls: ['http://localhost:8080/signed-in'],
+      stateExpiresIn: '10m',
+    });
+    revokeTokenOnce = jest.fn().mockResolvedValue(true);
+    googleAuthService = new GoogleAuthService(
+      { revokeTokenOnce } as unknown as ITokenRevocationService,
+      createMockLogger(),
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    Object.assign(config.googleOAuth, originalSettings);
+  });
+
+  describe('createAuthorizationUrl', () => {
+    it('should request an authorization code with an S256 PKCE challenge, state and nonce', () => {
+      const { url, browserBinding } = googleAuthService.createAuthorizationUrl();
+      const params = parseAuthorizationUrl(url);
+
+      expect(browserBinding).toBe(`${browserBinding.split('.')[0]}.${params.nonce}`);
+      expect(params).toEqual(expect.objectContaining({
+        client_id: 'client-1',
+        redirect_uri: 'http://localhost:3000/api/auth/google/callback',
+        response_type: 'code',
+        code_challenge_method: 'S256',
+        code_challenge: expect.any(String),
+        state: expect.any(String),
+        nonce: expect.any(String),
+      }));
+    });
+
+    it('should reject return URLs that are not allowed', () => {
+      expect(() => googleAuthService.createAuthorizationUrl('https://evil.example.com')).toThrow(
+        new AppError('Return URL is not allowed', 400),
+      );
+    });
+
+    it('should refuse to start the flow without a client secret', () => {
+      config.googleOAuth.clientSecret = '';
+
+      expect(() => googleAuthService.createAuthorizationUrl()).toThrow(AppError);
+    });
+  });
+
+  describe('exchangeAuthorizationCode', () => {
+    const startFlow = (returnTo?: string) => {
+      const { url, browserBinding } = googleAuthService.createAuthorizationUrl(returnTo);
+      const { state, nonce, code_challenge: codeChallenge } = parseAuthorizationUrl(url);
+      return { state, nonce, codeChallenge, browserBinding };
+    };
+
+    const mockTokenExchange = () => jest.spyOn(OAuth2Client.prototype, 'getToken').mockImplementation(async () => ({
+      tokens: { id_token: 'id-token' },
+    }) as never);
+
+    it('should exchange the code with the verifier matching the challenge', async () => {
+      const flow = startFlow('http://localhost:8080/signed-in');
+      const getToken = mockTokenExchange();
+      mockIdTokenPayload({ sub: 'google-1', email: 'jane@example.com', email_verified: true, nonce: flow.nonce });
+
+      const result = await googleAuthService.exchangeAuthorizationCode('code-1', flow.state, flow.browserBinding);
+
+      const { codeVerifier } = getToken.mock.calls[0][0] as unknown as { codeVerifier: string };
+      expect(crypto.createHash('sha256').update(codeVerifier).digest('base64url')).toBe(flow.codeChallenge);
+      expect(result).toEqual({
+        googleUser: expect.objectContaining({ sub: 'google-1', email: 'jane@example.com' }),
+        returnTo: 'http://localhost:8080/signed-in',
+      });
+    });
+
+    it('should not derive the verifier from the state', () => {
+      const first = startFlow();
+      const second = startFlow();
+
+      expect(first.browserBinding).not.toBe(second.browserBinding);
+      expect(first.state).not.toContain(first.browserBinding.split('.')[0]);
+    });
+
+    it('should reject a tampered state', async () => {
+      const flow = startFlow();
+      const getToken = jest.spyOn(OAuth2Client.prototype, 'getToken');
+
+      await expect(googleAuthService.exchangeAuthorizationCode('code-1', `${flow.state}x`, flow.browserBinding)).rejects.toThrow(
+        new AppError('Invalid authorization state', 400),
+      );
+      expect(getToken).not.toHaveBeenCalled();
+    });
+
+    it('should reject a callback replayed from another browser', async () => {
+      const flow = startFlow();
+      const otherFlow = startFlow();
+      const getToken = jest.spyOn(OAuth2Client.prototype, 'getToken');
+
+      await expect(googleAuthService.exchangeAuthorizationCode('code-1', flow.state)).rejects.toThrow(
+        new AppError('Invalid authorization state', 400),
+      );
+      await expect(googleAuthService.exchangeAuthorizationCode('code-1', flow.state, otherFlow.browserBinding)).rejects.toThrow(
+        new AppError('Invalid authorization state', 400),
+      );
+      expect(getToken).not.toHaveBeenCalled();
+      expect(revokeTokenOnce).not.toHaveBeenCalled();
+    });
+
+    it('should accept each state only once', async () => {
+      const flow = startFlow();
+      const getToken = mockTokenExchange();
+      revokeTokenOnce.mockResolvedValue(false);
+
+      await expect(googleAuthService.exchangeAuthorizationCode('code-1', flow.state, flow.browserBinding)).rejects.toThrow(
+        new AppError('Invalid authorization state', 400),
+      );
+      expect(revokeTokenOnce).toHaveBeenCalledWith(expect.any(String), expect.any(Date));
+      expect(getToken).not.toHaveBeenCalled();
+    });
+
+    it('should reject an ID token issued for a different nonce', async () => {
+      const flow = startFlow();
+      mockTokenExchange();
+      mockIdTokenPayload({ sub: 'google-1', email: 'jane@example.com', nonce: 'another-nonce' });
+
+      await expect(googleAuthService.exchangeAuthorizationCode('code-1', flow.state, flow.browserBinding)).rejects.toThrow(
+        new AppError('Invalid Google ID token: nonce mismatch', 401),
+      );
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import 'reflect-metadata';
+import { IdentityService } from '../../src/services/identityService';
+import { IUserRepository } from '../../src/repositories/userRepository';
+import { IExternalIdentityRepository } from '../../src/repositories/externalIdentityRepository';
+import { IWebAuthnRepository } from '../../src/repositories/webauthnRepository';
+import { IGoogleAuthService } from '../../src/services/googleAuthService';
+import { ExternalIdentity } from '../../src/models/externalIdentity';
+import { WebAuthnCredential } from '../../src/models/webauthnCredential';
+import { User } from '../../src/models/user';
+import { AppError } from '../../src/middlewares/errorHandler';
+import { createMockLogger } from '../helpers/mockLogger';
+
+describe('IdentityService', () => {
+  let identityService: IdentityService;
+  let mockUserRepository: jest.Mocked<Pick<IUserRepository, 'findUserById'>>;
+  let mockExternalIdentityRepository: jest.Mocked<IExternalIdentityRepository>;
+  let mockWebAuthnRepository: jest.Mocked<Pick<IWebAuthnRepository, 'findCredentialsByUserId'>>;
+  let mockGoogleAuthService: jest.Mocked<Pick<IGoogleAuthService, 'verifyIdToken'>>;
+
+  const buildIdentity = (overrides: Partial<ExternalIdentity> = {}): ExternalIdentity => ({
+    id: 'identity-1',
+    userId: 'user-1',
+    provider: 'google',
+    subject: 'google-1',
+    email: 'jane@example.com',
+    lastUsedAt: null,
+    createdAt: new Date(),
+    ...overrides,
+  } as ExternalIdentity);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockUserRepository = {
+      findUserById: jest.fn().mockResolvedValue({ id: 'user-1', password: null } as User),
+    };
+
+    mockExternalIdentityRepository = {
+      createExternalIdentity: jest.fn(async (data) => buildIdentity(data)),
+      findExternalIdentity: jest.fn().mockResolvedValue(null),
+      findExternalIdentitiesByUserId: jest.fn().mockResolvedValue([]),
+      touchExternalIdentity: jest.fn(),
+      deleteExternalIdentity: jest.fn().mockResolvedValue(true),
+    };
+
+    mockWebAuthnRepository = {
+      findCredentialsByUserId: jest.fn().mockResolvedValue([]),
+    };
+
+    mockGoogleAuthService = {
+      verifyIdToken: jest.fn().mockResolvedValue({ sub: 'google-2', email: 'jane@gmail.com', email_verified: true }),
+    };
+
+    identityService = new IdentityService(
+      mockUserRepository as unknown as IUserRepository,
+      mockExternalIdentityRepository,
+      mockWebAuthnRepository as unknown as IWebAuthnRepository,
+      mockGoogleAuthService as unknown as IGoogleAuthService,
+      createMockLogger(),
+    );
+  });
+
+  describe('linkGoogleIdentity', () => {
+    it('should link a Google account to the current user', async () => {
+      const identity = await identityService.linkGoogleIdentity('user-1', 'id-token');
+
+      expect(mockExternalIdentityRepository.createExternalIdentity).toHaveBeenCalledWith({
+        userId: 'user-1',
+        provider: 'google',
+        subject: 'google-2',
+        email: 'jane@gmail.com',
+      });
+      expect(identity).toEqual(expect.objectContaining({ provider: 'google', email: 'jane@gmail.com' }));
+    });
+
+    it('should refuse a Google account linked to another user', async () => {
+      mockExternalIdentityRepository.findExternalIdentity.mockResolvedValue(buildIdentity({ userId: 'user-2' }));
+
+      await expect(identityService.linkGoogleIdentity('user-1', 'id-token')).rejects.toThrow(
+        new AppError('This Google account is linked to another user', 409),
+      );
+      expect(mockExternalIdentityRepository.createExternalIdentity).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('unlinkIdentity', () => {
+    it('should refuse to remove the only way to sign in', async () => {
+      mockExternalIdentityRepository.findExternalIdentitiesByUserId.mockResolvedValue([buildIdentity()]);
+
+      await expect(identityService.unlinkIdentity('user-1', 'google')).rejects.toThrow(AppError);
+      expect(mockExternalIdentityRepository.deleteExternalIdentity).not.toHaveBeenCalled();
+    });
+
+    it('should unlink when the account has a password', async () => {
+      mockUserRepository.findUserById.mockResolvedValue({ id: 'user-1', password: 'hash' } as User);
+      mockExternalIdentityRepository.findExternalIdentitiesByUserId.mockResolvedValue([buildIdentity()]);
+
+      await identityService.unlinkIdentity('user-1', 'google');
+
+      expect(mockExternalIdentityRepository.deleteExternalIdentity).toHaveBeenCalledWith('user-1', 'google');
+    });
+
+    it('should unlink when another provider or a passkey remains', async () => {
+      mockExternalIdentityRepository.findExternalIdentitiesByUserId.mockResolvedValue([
+        buildIdentity(),
+        buildIdentity({ id: 'identity-2', provider: 'okta' }),
+      ]);
+      await identityService.unlinkIdentity('user-1', 'google');
+
+      mockExternalIdentityRepository.findExternalIdentitiesByUserId.mockResolvedValue([buildIdentity()]);
+      mockWebAuthnRepository.findCredentialsByUserId.mockResolvedValue([{ id: 'passkey-1' } as WebAuthnCredential]);
+      await identityService.unlinkIdentity('user-1', 'google');
+
+      expect(mockExternalIdentityRepository.deleteExternalIdentity).toHaveBeenCalledTimes(2);
+    });
+
+    it('should report unknown providers as not found', async () => {
+      await expect(identityService.unlinkIdentity('user-1', 'okta')).rejects.toThrow(
+        new AppError('Identity not found', 404),
+      );
+    });
+  });
+});
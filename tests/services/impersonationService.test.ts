@@ -0,0 +1,125 @@
+import 'reflect-metadata';
+import { ImpersonationService } from '../../src/services/impersonationService';
+import { IUserRepository } from '../../src/repositories/userRepository';
+import { IUserAuthService, UserAuthInfo } from '../../src/services/userAuthService';
+import { IAccessTokenService } from '../../src/services/accessTokenService';
+import { IUserEventsPublisher } from '../../src/events/userEventsPublisher';
+import { User } from '../../src/models/user';
+import { AppError, ValidationError } from '../../src/middlewares/errorHandler';
+import { createMockLogger } from '../helpers/mockLogger';
+
+describe('ImpersonationService', () => {
+  let impersonationService: ImpersonationService;
+  let mockUserRepository: jest.Mocked<Pick<IUserRepository, 'findUserById'>>;
+  let mockUserAuthService: jest.Mocked<IUserAuthService>;
+  let mockAccessTokenService: jest.Mocked<Pick<IAccessTokenService, 'issueImpersonationToken' | 'getImpersonationExpiresInSeconds'>>;
+  let mockUserEventsPublisher: jest.Mocked<Pick<IUserEventsPublisher, 'onUserImpersonated'>>;
+
+  const buildAuthInfo = (overrides: Partial<UserAuthInfo> = {}): UserAuthInfo => ({
+    userId: 'user-1',
+    email: 'jane@example.com',
+    emailVerified: true,
+    name: 'Jane Doe',
+    givenName: 'Jane',
+    familyName: 'Doe',
+    picture: null,
+    updatedAt: new Date(),
+    organizationId: 'org-1',
+    disabledAt: null,
+    roles: ['member'],
+    permissions: ['users:read'],
+    ...overrides,
+  });
+
+  const authInfos: Record<string, UserAuthInfo> = {};
+
+  beforeEach(() => {
+    authInfos['user-1'] = buildAuthInfo();
+    authInfos['admin-1'] = buildAuthInfo({
+      userId: 'admin-1',
+      email: 'support@example.com',
+      roles: ['support'],
+      permissions: ['users:read', 'users:impersonate'],
+    });
+
+    mockUserRepository = {
+      findUserById: jest.fn(async (id: string) => ({ id, email: authInfos[id]?.email } as User)),
+    };
+
+    mockUserAuthService = {
+      resolveUserAuthInfo: jest.fn(async (id: string) => authInfos[id] ?? null),
+    };
+
+    mockAccessTokenService = {
+      issueImpersonationToken: jest.fn().mockResolvedValue('impersonation-token'),
+      getImpersonationExpiresInSeconds: jest.fn().mockReturnValue(900),
+    };
+
+    mockUserEventsPublisher = {
+      onUserImpersonated: jest.fn(),
+    };
+
+    impersonationService = new ImpersonationService(
+      mockUserRepository as unknown as IUserRepository,
+      mockUserAuthService,
+      mockAccessTokenService as unknown as IAccessTokenService,
+      mockUserEventsPublisher as unknown as IUserEventsPublisher,
+      createMockLogger(),
+    );
+  });
+
+  it('should issue a token for the user and publish the impersonation', async () => {
+    const result = await impersonationService.impersonateUser('admin-1', 'user-1', { reason: ' Ticket 4521 ' });
+
+    expect(result).toEqual(expect.objectContaining({
+      token: 'impersonation-token',
+      userId: 'user-1',
+      impersonatorId: 'admin-1',
+    }));
+    expect(mockAccessTokenService.issueImpersonationToken).toHaveBeenCalledWith('user-1', 'admin-1');
+    expect(mockUserEventsPublisher.onUserImpersonated).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'user-1' }),
+      expect.objectContaining({ id: 'admin-1' }),
+      'Ticket 4521',
+      result.expiresAt,
+    );
+  });
+
+  it('should not hand out the token when the event cannot be published', async () => {
+    mockUserEventsPublisher.onUserImpersonated.mockRejectedValue(new Error('broker unavailable'));
+
+    await expect(impersonationService.impersonateUser('admin-1', 'user-1', {})).rejects.toThrow('broker unavailable');
+  });
+
+  it('should refuse users holding permissions the admin lacks', async () => {
+    authInfos['user-1'] = buildAuthInfo({ permissions: ['users:read', 'roles:manage'] });
+
+    await expect(impersonationService.impersonateUser('admin-1', 'user-1', {}))
+      .rejects.toThrow(new AppError('You cannot impersonate a user with permissions you do not hold', 403));
+    expect(mockAccessTokenService.issueImpersonationToken).not.toHaveBeenCalled();
+  });
+
+  it('should hide users of other organizations', async () => {
+    authInfos['user-1'] = buildAuthInfo({ organizationId: 'org-2' });
+
+    await expect(impersonationService.impersonateUser('admin-1', 'user-1', {}))
+      .rejects.toThrow(new AppError('User not found', 404));
+  });
+
+  it('should refuse disabled users', async () => {
+    authInfos['user-1'] = buildAuthInfo({ disabledAt: new Date() });
+
+    await expect(impersonationService.impersonateUser('admin-1', 'user-1', {}))
+      .rejects.toThrow(new AppError('Disabled users cannot be impersonated', 400));
+  });
+
+  it('should refuse impersonating yourself', async () => {
+    await expect(impersonationService.impersonateUser('admin-1', 'admin-1', {}))
+      .rejects.toThrow(new AppError('You cannot impersonate yourself', 400));
+  });
+
+  it('should reject a reason that is not a string', async () => {
+    await expect(impersonationService.impersonateUser('admin-1', 'user-1', { reason: 42 as unknown as string }))
+      .rejects.toThrow(ValidationError);
+  });
+});
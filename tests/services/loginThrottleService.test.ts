@@ -0,0 +1,110 @@
+import 'reflect-metadata';
+import { LoginThrottleService } from '../../src/services/loginThrottleService';
+import { ILoginAttemptRepository } from '../../src/repositories/loginAttemptRepository';
+import { IUserEventsPublisher } from '../../src/events/userEventsPublisher';
+import { LoginAttempt } from '../../src/models/loginAttempt';
+import { AppError } from '../../src/middlewares/errorHandler';
+import User from '../../src/models/user';
+import { createMockLogger } from '../helpers/mockLogger';
+
+describe('LoginThrottleService', () => {
+  let loginThrottleService: LoginThrottleService;
+  let mockLoginAttemptRepository: jest.Mocked<ILoginAttemptRepository>;
+  let mockUserEventsPublisher: jest.Mocked<IUserEventsPublisher>;
+
+  const user = { id: 'user-1', email: 'user@example.com' } as User;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockLoginAttemptRepository = {
+      findLoginAttempt: jest.fn().mockResolvedValue(null),
+      incrementFailedCount: jest.fn().mockResolvedValue(1),
+      setLockedUntil: jest.fn(),
+      clearLoginAttempts: jest.fn().mockResolvedValue(true),
+      deleteStaleLoginAttempts: jest.fn().mockResolvedValue(0),
+    };
+
+    mockUserEventsPublisher = {
+      onUserRegistered: jest.fn(),
+      onPasswordResetRequested: jest.fn(),
+      onMagicLinkRequested: jest.fn(),
+      onUserLocked: jest.fn(),
+      onPasswordSetRequested: jest.fn(),
+      onPasswordSet: jest.fn(),
+      onUserImpersonated: jest.fn(),
+    };
+
+    loginThrottleService = new LoginThrottleService(
+      mockLoginAttemptRepository,
+      mockUserEventsPublisher,
+      createMockLogger(),
+    );
+  });
+
+  describe('assertLoginAllowed', () => {
+    it('should allow logins without an active lockout', async () => {
+      await expect(loginThrottleService.assertLoginAllowed('user@example.com', '10.0.0.1')).resolves.toBeUndefined();
+      expect(mockLoginAttemptRepository.findLoginAttempt).toHaveBeenCalledWith('account', 'user@example.com');
+      expect(mockLoginAttemptRepository.findLoginAttempt).toHaveBeenCalledWith('ip', '10.0.0.1');
+    });
+
+    it('should reject a locked account with 429 and Retry-After', async () => {
+      mockLoginAttemptRepository.findLoginAttempt.mockImplementation(async (scope) =>
+        scope === 'account' ? ({ lockedUntil: new Date(Date.now() + 30_000) } as LoginAttempt) : null,
+      );
+
+      const error = await loginThrottleService.assertLoginAllowed('User@Example.com').catch(err => err);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.status).toBe(429);
+      expect(Number(error.headers['Retry-After'])).toBeGreaterThan(0);
+    });
+
+    it('should ignore expired lockouts', async () => {
+      mockLoginAttemptRepository.findLoginAttempt.mockResolvedValue({ lockedUntil: new Date(Date.now() - 1000) } as LoginAttempt);
+
+      await expect(loginThrottleService.assertLoginAllowed('user@example.com', '10.0.0.1')).resolves.toBeUndefined();
+    });
+  });
+
+  describe('recordFailedLogin', () => {
+    it('should count failures per account and per IP without locking below the threshold', async () => {
+      await loginThrottleService.recordFailedLogin('user@example.com', '10.0.0.1', user);
+
+      expect(mockLoginAttemptRepository.incrementFailedCount).toHaveBeenCalledWith('account', 'user@example.com', expect.any(Date));
+      expect(mockLoginAttemptRepository.incrementFailedCount).toHaveBeenCalledWith('ip', '10.0.0.1', expect.any(Date));
+      expect(mockLoginAttemptRepository.setLockedUntil).not.toHaveBeenCalled();
+      expect(mockUserEventsPublisher.onUserLocked).not.toHaveBeenCalled();
+    });
+
+    it('should lock the account with exponential backoff and publish user.locked', async () => {
+      mockLoginAttemptRepository.incrementFailedCount.mockImplementation(async (scope) => (scope === 'account' ? 7 : 1));
+
+      const before = Date.now();
+      await loginThrottleService.recordFailedLogin('user@example.com', '10.0.0.1', user);
+
+      const lockedUntil = mockLoginAttemptRepository.setLockedUntil.mock.calls[0][2];
+      // Third failure past the threshold of 5: 1m * 2^2
+      expect(lockedUntil.getTime() - before).toBeGreaterThanOrEqual(4 * 60_000);
+      expect(lockedUntil.getTime() - before).toBeLessThan(4 * 60_000 + 5000);
+      expect(mockUserEventsPublisher.onUserLocked).toHaveBeenCalledWith(user, lockedUntil);
+    });
+
+    it('should lock unknown accounts the same way without publishing an event', async () => {
+      mockLoginAttemptRepository.incrementFailedCount.mockResolvedValue(5);
+
+      await loginThrottleService.recordFailedLogin('nobody@example.com', null, null);
+
+      expect(mockLoginAttemptRepository.setLockedUntil).toHaveBeenCalledWith('account', 'nobody@example.com', expect.any(Date));
+      expect(mockUserEventsPublisher.onUserLocked).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('unlockAccount', () => {
+    it('should clear the account counter', async () => {
+      await expect(loginThrottleService.unlockAccount('User@Example.com')).resolves.toBe(true);
+      expect(mockLoginAttemptRepository.clearLoginAttempts).toHaveBeenCalledWith('account', 'user@example.com');
+    });
+  });
+});
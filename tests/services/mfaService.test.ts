@@ -0,0 +1,198 @@
+import 'reflect-metadata';
+import crypto from 'crypto';
+import { MfaService } from '../../src/services/mfaService';
+import { IUserRepository } from '../../src/repositories/userRepository';
+import { IMfaRepository } from '../../src/repositories/mfaRepository';
+import { ILoginThrottleService } from '../../src/services/loginThrottleService';
+import { User } from '../../src/models/user';
+import { MfaChallenge } from '../../src/models/mfaChallenge';
+import { AppError } from '../../src/middlewares/errorHandler';
+import { generateTotp, generateTotpSecret, getTotpStep } from '../../src/utils/totp';
+import { createMockLogger } from '../helpers/mockLogger';
+
+describe('MfaService', () => {
+  let mfaService: MfaService;
+  let mockUserRepository: jest.Mocked<Pick<IUserRepository, 'findUserById' | 'updateUser'>>;
+  let mockMfaRepository: jest.Mocked<IMfaRepository>;
+  let mockLoginThrottleService: jest.Mocked<ILoginThrottleService>;
+  let user: User;
+  let challenge: MfaChallenge;
+  let recoveryCodeHashes: Set<string>;
+
+  const hash = (value: string) => crypto.createHash('sha256').update(value).digest('hex');
+
+  beforeEach(() => {
+    user = {
+      id: 'user-1',
+      email: 'jane@example.com',
+      totpSecret: generateTotpSecret(),
+      totpEnabledAt: new Date(),
+      totpLastUsedStep: null,
+    } as User;
+
+    challenge = {
+      id: 'challenge-1',
+      userId: 'user-1',
+      tokenHash: hash('challenge-token'),
+      expiresAt: new Date(Date.now() + 300_000),
+      attempts: 0,
+      consumedAt: null,
+    } as MfaChallenge;
+
+    recoveryCodeHashes = new Set();
+
+    mockUserRepository = {
+      findUserById: jest.fn(async (_id: string) => ({ ...user }) as User),
+      updateUser: jest.fn(async (_id, updates) => {
+        Object.assign(user, updates);
+        return user;
+      }),
+    };
+
+    mockMfaRepository = {
+      replaceRecoveryCodes: jest.fn(async (_userId, codeHashes: string[]) => {
+        recoveryCodeHashes = new Set(codeHashes);
+      }),
+      consumeRecoveryCode: jest.fn(async (_userId, codeHash: string) => recoveryCodeHashes.delete(codeHash)),
+      countUnusedRecoveryCodes: jest.fn(async (_userId: string) => recoveryCodeHashes.size),
+      deleteRecoveryCodes: jest.fn(),
+      createChallenge: jest.fn(),
+      findChallengeByHash: jest.fn(async (tokenHash: string) => (tokenHash === challenge.tokenHash ? { ...challenge } : null)),
+      incrementChallengeAttempts: jest.fn(async (_id: string) => {
+        challenge.attempts += 1;
+      }),
+      consumeChallenge: jest.fn(async (_id: string) => {
+        if (challenge.consumedAt) {
+          return false;
+        }
+        challenge.consumedAt = new Date();
+        return true;
+      }),
+      deleteChallengesForUser: jest.fn(),
+    };
+
+    mockLoginThrottleService = {
+      assertLoginAllowed: jest.fn(),
+      recordFailedLogin: jest.fn(),
+      recordSuccessfulLogin: jest.fn(),
+      unlockAccount: jest.fn(),
+    };
+
+    mfaService = new MfaService(
+      mockUserRepository as unknown as IUserRepository,
+      mockMfaRepository,
+      mockLoginThrottleService,
+      createMockLogger(),
+    );
+  });
+
+  describe('verifyChallenge', () => {
+    it('should complete the challenge with a current TOTP code', async () => {
+      await expect(mfaService.verifyChallenge('challenge-token', generateTotp(user.totpSecret!))).resolves.toBe('user-1');
+
+      expect(user.totpLastUsedStep).toBe(getTotpStep());
+      expect(challenge.consumedAt).not.toBeNull();
+      expect(mockLoginThrottleService.recordSuccessfulLogin).toHaveBeenCalledWith('jane@example.com');
+    });
+
+    it('should count wrong codes toward the login lockout', async () => {
+      await expect(mfaService.verifyChallenge('challenge-token', '000000x', '203.0.113.7')).rejects.toThrow(
+        new AppError('Invalid verification code', 401),
+      );
+
+      expect(mockLoginThrottleService.recordFailedLogin).toHaveBeenCalledWith(
+        'jane@example.com',
+        '203.0.113.7',
+        expect.objectContaining({ id: 'user-1' }),
+      );
+      expect(mockLoginThrottleService.recordSuccessfulLogin).not.toHaveBeenCalled();
+    });
+
+    it('should not check codes while the account is locked out', async () => {
+      mockLoginThrottleService.assertLoginAllowed.mockRejectedValue(
+        new AppError('Too many failed login attempts, please try again later', 429),
+      );
+
+      await expect(mfaService.verifyChallenge('challenge-token', generateTotp(user.totpSecret!), '203.0.113.7'))
+        .rejects.toThrow(new AppError('Too many failed login attempts, please try again later', 429));
+
+      expect(mockLoginThrottleService.assertLoginAllowed).toHaveBeenCalledWith('jane@example.com', '203.0.113.7');
+      expect(challenge.consumedAt).toBeNull();
+      expect(user.totpLastUsedStep).toBeNull();
+    });
+
+    it('should count failed attempts and lock the challenge after five', async () => {
+      for (let attempt = 0; attempt < 5; attempt++) {
+        await expect(mfaService.verifyChallenge('challenge-token', '000000x')).rejects.toThrow(
+          new AppError('Invalid verification code', 401),
+        );
+      }
+
+      expect(challenge.attempts).toBe(5);
+      await expect(mfaService.verifyChallenge('challenge-token', generateTotp(user.totpSecret!))).rejects.toThrow(
+        new AppError('Invalid or expired MFA challenge', 401),
+      );
+      expect(mockMfaRepository.consumeChallenge).not.toHaveBeenCalled();
+    });
+
+    it('should reject expired and already completed challenges', async () => {
+      challenge.expiresAt = new Date(Date.now() - 1000);
+      await expect(mfaService.verifyChallenge('challenge-token', generateTotp(user.totpSecret!))).rejects.toThrow(
+        new AppError('Invalid or expired MFA challenge', 401),
+      );
+
+      challenge.expiresAt = new Date(Date.now() + 300_000);
+      challenge.consumedAt = new Date();
+      await expect(mfaService.verifyChallenge('challenge-token', generateTotp(user.totpSecret!))).rejects.toThrow(
+        new AppError('Invalid or expired MFA challenge', 401),
+      );
+    });
+
+    it('should not accept a TOTP code twice', async () => {
+      const code = generateTotp(user.totpSecret!);
+      await mfaService.verifyChallenge('challenge-token', code);
+
+      challenge = { ...challenge, id: 'challenge-2', tokenHash: hash('second-token'), consumedAt: null };
+      await expect(mfaService.verifyChallenge('second-token', code)).rejects.toThrow(
+        new AppError('Invalid verification code', 401),
+      );
+    });
+
+    it('should not accept a code from a step before the last one used', async () => {
+      user.totpLastUsedStep = getTotpStep();
+
+      await expect(mfaService.verifyChallenge('challenge-token', generateTotp(user.totpSecret!, getTotpStep() - 1)))
+        .rejects.toThrow(new AppError('Invalid verification code', 401));
+    });
+  });
+
+  describe('recovery codes', () => {
+    it('should accept each recovery code only once', async () => {
+      user.totpEnabledAt = null;
+      const { recoveryCodes } = await mfaService.confirmTotpEnrollment('user-1', generateTotp(user.totpSecret!));
+
+      expect(recoveryCodes).toHaveLength(10);
+      expect(recoveryCodes[0]).toMatch(/^[a-z2-9]{5}-[a-z2-9]{5}$/);
+
+      await expect(mfaService.verifyChallenge('challenge-token', recoveryCodes[0].toUpperCase())).resolves.toBe('user-1');
+
+      challenge = { ...challenge, id: 'challenge-2', tokenHash: hash('second-token'), consumedAt: null };
+      await expect(mfaService.verifyChallenge('second-token', recoveryCodes[0])).rejects.toThrow(
+        new AppError('Invalid verification code', 401),
+      );
+      await expect(mfaService.getMfaStatus('user-1')).resolves.toEqual(expect.objectContaining({ recoveryCodesRemaining: 9 }));
+    });
+
+    it('should invalidate the previous codes when regenerating', async () => {
+      user.totpEnabledAt = null;
+      const { recoveryCodes: oldCodes } = await mfaService.confirmTotpEnrollment('user-1', generateTotp(user.totpSecret!));
+
+      user.totpLastUsedStep = getTotpStep() - 1;
+      await mfaService.regenerateRecoveryCodes('user-1', generateTotp(user.totpSecret!));
+
+      await expect(mfaService.verifyChallenge('challenge-token', oldCodes[1])).rejects.toThrow(
+        new AppError('Invalid verification code', 401),
+      );
+    });
+  });
+});
@@ -0,0 +1,233 @@
+import 'reflect-metadata';
+import { OAuthAuthorizationService } from '../../src/services/oauthAuthorizationService';
+import { IOAuthClientService } from '../../src/services/oauthClientService';
+import { ISigningKeyService } from '../../src/services/signingKeyService';
+import { IOAuthAuthorizationCodeRepository } from '../../src/repositories/oauthAuthorizationCodeRepository';
+import { IOAuthConsentRepository } from '../../src/repositories/oauthConsentRepository';
+import { IUserRepository } from '../../src/repositories/userRepository';
+import { OAuthClient } from '../../src/models/oauthClient';
+import { OAuthConsent } from '../../src/models/oauthConsent';
+import { User } from '../../src/models/user';
+import { AppError, OAuthError } from '../../src/middlewares/errorHandler';
+import { AuthorizeRequestDto } from '../../src/dto/oauth.dto';
+import config from '../../src/config/config';
+import { createMockLogger } from '../helpers/mockLogger';
+
+describe('OAuthAuthorizationService', () => {
+  let oauthAuthorizationService: OAuthAuthorizationService;
+  let mockOAuthClientService: jest.Mocked<Pick<IOAuthClientService, 'findClient'>>;
+  let mockSigningKeyService: jest.Mocked<Pick<ISigningKeyService, 'sign' | 'verify'>>;
+  let mockAuthorizationCodeRepository: jest.Mocked<Pick<IOAuthAuthorizationCodeRepository, 'createAuthorizationCode'>>;
+  let mockConsentRepository: jest.Mocked<IOAuthConsentRepository>;
+  let findUserById: jest.Mock;
+
+  const originalConsentUrl = config.oauthServer.consentUrl;
+
+  const client = {
+    id: 'client-row-1',
+    clientId: 'client-1',
+    name: 'Example App',
+    redirectUris: ['https://app.example.com/callback'],
+    allowedScopes: ['openid', 'email', 'profile'],
+    grantTypes: ['authorization_code', 'refresh_token'],
+    firstParty: false,
+  } as unknown as OAuthClient;
+
+  const authorizeRequest: AuthorizeRequestDto = {
+    response_type: 'code',
+    client_id: 'client-1',
+    redirect_uri: 'https://app.example.com/callback',
+    scope: 'openid email',
+    state: 'state-1',
+    nonce: 'nonce-1',
+    code_challenge: 'challenge-1',
+    code_challenge_method: 'S256',
+  };
+
+  const requestClaims = {
+    client_id: 'client-1',
+    redirect_uri: 'https://app.example.com/callback',
+    scope: 'openid email',
+    state: 'state-1',
+    nonce: 'nonce-1',
+    code_challenge: 'challenge-1',
+  };
+
+  beforeEach(() => {
+    config.oauthServer.consentUrl = 'https://accounts.example.com/consent';
+
+    mockOAuthClientService = {
+      findClient: jest.fn(async (clientId: string) => (clientId === 'client-1' ? client : null)),
+    };
+
+    mockSigningKeyService = {
+      sign: jest.fn().mockResolvedValue('signed-request'),
+      verify: jest.fn().mockResolvedValue(requestClaims),
+    };
+
+    mockAuthorizationCodeRepository = {
+      createAuthorizationCode: jest.fn(),
+    };
+
+    mockConsentRepository = {
+      findConsent: jest.fn().mockResolvedValue(null),
+      saveConsent: jest.fn(),
+    };
+
+    findUserById = jest.fn().mockResolvedValue({ id: 'user-1', disabledAt: null } as User);
+
+    oauthAuthorizationService = new OAuthAuthorizationService(
+      mockOAuthClientService as unknown as IOAuthClientService,
+      mockSigningKeyService as unknown as ISigningKeyService,
+      mockAuthorizationCodeRepository as unknown as IOAuthAuthorizationCodeRepository,
+      mockConsentRepository,
+      { findUserById } as unknown as IUserRepository,
+      createMockLogger(),
+    );
+  });
+
+  afterAll(() => {
+    config.oauthServer.consentUrl = originalConsentUrl;
+  });
+
+  describe('startAuthorization', () => {
+    it('should send the browser to the consent page with the signed request', async () => {
+      const location = await oauthAuthorizationService.startAuthorization(authorizeRequest);
+
+      expect(location).toBe('https://accounts.example.com/consent?request=signed-request');
+      expect(mockSigningKeyService.sign).toHaveBeenCalledWith(expect.objectContaining({
+        ...requestClaims,
+        aud: 'oauth-authorization-request',
+      }));
+    });
+
+    it('should reject unregistered redirect URIs without redirecting', async () => {
+      await expect(oauthAuthorizationService.startAuthorization({
+        ...authorizeRequest,
+        redirect_uri: 'https://evil.example.com/callback',
+      })).rejects.toThrow(new OAuthError('invalid_request', 'redirect_uri is not registered for this client'));
+
+      await expect(oauthAuthorizationService.startAuthorization({
+        ...authorizeRequest,
+        redirect_uri: 'https://app.example.com/callback/../other',
+      })).rejects.toThrow(OAuthError);
+      expect(mockSigningKeyService.sign).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown clients without redirecting', async () => {
+      await expect(oauthAuthorizationService.startAuthorization({ ...authorizeRequest, client_id: 'unknown' }))
+        .rejects.toThrow(new OAuthError('invalid_request', 'Unknown client_id'));
+    });
+
+    it('should default to the only registered redirect URI', async () => {
+      const { redirect_uri: _redirectUri, ...withoutRedirectUri } = authorizeRequest;
+
+      await oauthAuthorizationService.startAuthorization(withoutRedirectUri);
+
+      expect(mockSigningKeyService.sign).toHaveBeenCalledWith(expect.objectContaining({
+        redirect_uri: 'https://app.example.com/callback',
+      }));
+    });
+
+    it('should require PKCE with S256', async () => {
+      const withoutChallenge = await oauthAuthorizationService.startAuthorization({
+        ...authorizeRequest,
+        code_challenge: undefined,
+      });
+      const withPlain = await oauthAuthorizationService.startAuthorization({
+        ...authorizeRequest,
+        code_challenge_method: 'plain',
+      });
+
+      for (const location of [withoutChallenge, withPlain]) {
+        const url = new URL(location);
+        expect(url.origin + url.pathname).toBe('https://app.example.com/callback');
+        expect(url.searchParams.get('error')).toBe('invalid_request');
+        expect(url.searchParams.get('state')).toBe('state-1');
+      }
+      expect(mockSigningKeyService.sign).not.toHaveBeenCalled();
+    });
+
+    it('should redirect scopes the client is not allowed back as invalid_scope', async () => {
+      const location = new URL(await oauthAuthorizationService.startAuthorization({
+        ...authorizeRequest,
+        scope: 'openid users:manage',
+      }));
+
+      expect(location.searchParams.get('error')).toBe('invalid_scope');
+    });
+  });
+
+  describe('getAuthorizationRequest', () => {
+    it('should require consent for scopes the user has not granted', async () => {
+      mockConsentRepository.findConsent.mockResolvedValue({ scopes: ['openid'] } as OAuthConsent);
+
+      await expect(oauthAuthorizationService.getAuthorizationRequest('user-1', 'signed-request')).resolves.toEqual({
+        client: { clientId: 'client-1', name: 'Example App' },
+        scopes: ['openid', 'email'],
+        consentRequired: true,
+      });
+    });
+
+    it('should not ask again for scopes already granted', async () => {
+      mockConsentRepository.findConsent.mockResolvedValue({ scopes: ['openid', 'email', 'profile'] } as OAuthConsent);
+
+      const details = await oauthAuthorizationService.getAuthorizationRequest('user-1', 'signed-request');
+
+      expect(details.consentRequired).toBe(false);
+    });
+
+    it('should reject tampered or expired requests', async () => {
+      mockSigningKeyService.verify.mockRejectedValue(new Error('jwt expired'));
+
+      await expect(oauthAuthorizationService.getAuthorizationRequest('user-1', 'signed-request'))
+        .rejects.toThrow(new AppError('Invalid or expired authorization request', 400));
+    });
+  });
+
+  describe('decideAuthorization', () => {
+    it('should issue a code bound to the PKCE challenge and record consent', async () => {
+      mockConsentRepository.findConsent.mockResolvedValue({ scopes: ['profile'] } as OAuthConsent);
+
+      const { redirectUri } = await oauthAuthorizationService.decideAuthorization('user-1', {
+        request: 'signed-request',
+        approve: true,
+      });
+
+      const url = new URL(redirectUri);
+      expect(url.searchParams.get('code')).toEqual(expect.any(String));
+      expect(url.searchParams.get('state')).toBe('state-1');
+      expect(url.searchParams.get('iss')).toBe(config.jwt.issuer);
+      expect(mockAuthorizationCodeRepository.createAuthorizationCode).toHaveBeenCalledWith(expect.objectContaining({
+        oauthClientId: 'client-row-1',
+        userId: 'user-1',
+        scope: 'openid email',
+        codeChallenge: 'challenge-1',
+        nonce: 'nonce-1',
+      }));
+      expect(mockConsentRepository.saveConsent).toHaveBeenCalledWith('user-1', 'client-row-1', ['profile', 'openid', 'email']);
+    });
+
+    it('should redirect a denial as access_denied without issuing a code', async () => {
+      const { redirectUri } = await oauthAuthorizationService.decideAuthorization('user-1', {
+        request: 'signed-request',
+        approve: false,
+      });
+
+      const url = new URL(redirectUri);
+      expect(url.searchParams.get('error')).toBe('access_denied');
+      expect(url.searchParams.get('state')).toBe('state-1');
+      expect(url.searchParams.has('code')).toBe(false);
+      expect(mockAuthorizationCodeRepository.createAuthorizationCode).not.toHaveBeenCalled();
+      expect(mockConsentRepository.saveConsent).not.toHaveBeenCalled();
+    });
+
+    it('should refuse disabled users', async () => {
+      findUserById.mockResolvedValue({ id: 'user-1', disabledAt: new Date() } as User);
+
+      await expect(oauthAuthorizationService.decideAuthorization('user-1', { request: 'signed-request', approve: true }))
+        .rejects.toThrow(new AppError('Account is disabled', 403));
+      expect(mockAuthorizationCodeRepository.createAuthorizationCode).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,276 @@
+import 'reflect-metadata';
+import crypto from 'crypto';
+import { OAuthTokenService } from '../../src/services/oauthTokenService';
+import { IOAuthClientService } from '../../src/services/oauthClientService';
+import { IServiceAccountService } from '../../src/services/serviceAccountService';
+import { IOAuthAuthorizationCodeRepository } from '../../src/repositories/oauthAuthorizationCodeRepository';
+import { IUserRepository } from '../../src/repositories/userRepository';
+import { ISessionService } from '../../src/services/sessionService';
+import { IRefreshTokenService } from '../../src/services/refreshTokenService';
+import { IAccessTokenService } from '../../src/services/accessTokenService';
+import { IOpenIdProviderService } from '../../src/services/openIdProviderService';
+import { ISigningKeyService } from '../../src/services/signingKeyService';
+import { OAuthClient } from '../../src/models/oauthClient';
+import { OAuthAuthorizationCode } from '../../src/models/oauthAuthorizationCode';
+import { ServiceAccount } from '../../src/models/serviceAccount';
+import { Session } from '../../src/models/session';
+import { User } from '../../src/models/user';
+import { AppError, OAuthError } from '../../src/middlewares/errorHandler';
+import { createMockLogger } from '../helpers/mockLogger';
+
+describe('OAuthTokenService', () => {
+  let oauthTokenService: OAuthTokenService;
+  let mockOAuthClientService: jest.Mocked<IOAuthClientService>;
+  let mockServiceAccountService: jest.Mocked<Pick<IServiceAccountService, 'authenticateServiceAccount'>>;
+  let mockAuthorizationCodeRepository: jest.Mocked<IOAuthAuthorizationCodeRepository>;
+  let mockSessionService: jest.Mocked<ISessionService>;
+  let mockRefreshTokenService: jest.Mocked<IRefreshTokenService>;
+  let mockAccessTokenService: jest.Mocked<IAccessTokenService>;
+  let mockSigningKeyService: jest.Mocked<Pick<ISigningKeyService, 'sign'>>;
+  let findUserById: jest.Mock;
+
+  const codeVerifier = 'a-sufficiently-long-code-verifier-for-pkce-tests';
+  const hash = (value: string) => crypto.createHash('sha256').update(value).digest('hex');
+
+  const client = {
+    id: 'client-row-1',
+    clientId: 'client-1',
+    clientSecretHash: null,
+    name: 'Example App',
+    redirectUris: ['https://app.example.com/callback'],
+    allowedScopes: ['openid', 'email'],
+    grantTypes: ['authorization_code', 'refresh_token'],
+    firstParty: false,
+  } as unknown as OAuthClient;
+
+  const buildCode = (overrides: Partial<OAuthAuthorizationCode> = {}): OAuthAuthorizationCode => ({
+    id: 'code-1',
+    codeHash: hash('the-code'),
+    oauthClientId: client.id,
+    userId: 'user-1',
+    redirectUri: 'https://app.example.com/callback',
+    scope: 'openid email',
+    codeChallenge: crypto.createHash('sha256').update(codeVerifier).digest('base64url'),
+    nonce: 'nonce-1',
+    sessionId: null,
+    expiresAt: new Date(Date.now() + 60_000),
+    consumedAt: null,
+    ...overrides,
+  } as OAuthAuthorizationCode);
+
+  const codeRequest = {
+    grant_type: 'authorization_code',
+    code: 'the-code',
+    redirect_uri: 'https://app.example.com/callback',
+    code_verifier: codeVerifier,
+  };
+
+  beforeEach(() => {
+    mockOAuthClientService = {
+      listClients: jest.fn(),
+      createClient: jest.fn(),
+      deleteClient: jest.fn(),
+      findClient: jest.fn(),
+      authenticateClient: jest.fn().mockResolvedValue(client),
+    };
+
+    mockServiceAccountService = {
+      authenticateServiceAccount: jest.fn(),
+    };
+
+    mockAuthorizationCodeRepository = {
+      createAuthorizationCode: jest.fn(),
+      findAuthorizationCodeByHash: jest.fn().mockResolvedValue(buildCode()),
+      consumeAuthorizationCode: jest.fn().mockResolvedValue(true),
+    };
+
+    findUserById = jest.fn().mockResolvedValue({ id: 'user-1', disabledAt: null } as User);
+
+    mockSessionService = {
+      createSession: jest.fn().mockResolvedValue({ id: 'session-1' } as Session),
+      getActiveSession: jest.fn().mockResolvedValue({ id: 'session-1' } as Session),
+      touchSession: jest.fn(),
+      listActiveSessions: jest.fn(),
+      revokeSession: jest.fn(),
+      revokeAllSessions: jest.fn(),
+    };
+
+    mockRefreshTokenService = {
+      issueRefreshToken: jest.fn().mockResolvedValue({ token: 'refresh-1', expiresAt: new Date(), familyId: 'session-1' }),
+      rotateRefreshToken: jest.fn(),
+      findActiveRefreshToken: jest.fn(),
+      revokeRefreshTokenFamily: jest.fn(),
+      revokeRefreshTokensForUser: jest.fn(),
+    };
+
+    mockAccessTokenService = {
+      issueAccessToken: jest.fn().mockResolvedValue('access-1'),
+      issueServiceAccountToken: jest.fn().mockResolvedValue('service-access-1'),
+      issueImpersonationToken: jest.fn(),
+      getExpiresInSeconds: jest.fn().mockReturnValue(900),
+      getServiceAccountExpiresInSeconds: jest.fn().mockReturnValue(300),
+      getImpersonationExpiresInSeconds: jest.fn(),
+    };
+
+    const mockOpenIdProviderService: jest.Mocked<IOpenIdProviderService> = {
+      getConfiguration: jest.fn(),
+      getUserInfo: jest.fn().mockResolvedValue({ sub: 'user-1', email: 'jane@example.com', email_verified: true }),
+    };
+
+    mockSigningKeyService = { sign: jest.fn().mockResolvedValue('id-token-1') };
+
+    oauthTokenService = new OAuthTokenService(
+      mockOAuthClientService,
+      mockServiceAccountService as unknown as IServiceAccountService,
+      mockAuthorizationCodeRepository,
+      { findUserById } as unknown as IUserRepository,
+      mockSessionService,
+      mockRefreshTokenService,
+      mockAccessTokenService,
+      mockOpenIdProviderService,
+      mockSigningKeyService as unknown as ISigningKeyService,
+      createMockLogger(),
+    );
+  });
+
+  describe('authorization_code grant', () => {
+    it('should exchange a valid code for access, refresh and ID tokens', async () => {
+      const result = await oauthTokenService.exchangeToken(codeRequest, { clientId: 'client-1' });
+
+      expect(result).toEqual({
+        access_token: 'access-1',
+        token_type: 'Bearer',
+        expires_in: 900,
+        scope: 'openid email',
+        refresh_token: 'refresh-1',
+        id_token: 'id-token-1',
+      });
+      expect(mockAuthorizationCodeRepository.findAuthorizationCodeByHash).toHaveBeenCalledWith(hash('the-code'));
+      expect(mockAuthorizationCodeRepository.consumeAuthorizationCode).toHaveBeenCalledWith('code-1', 'session-1');
+      expect(mockAccessTokenService.issueAccessToken).toHaveBeenCalledWith('user-1', 'session-1', {
+        clientId: 'client-1',
+        scope: 'openid email',
+      });
+      expect(mockRefreshTokenService.issueRefreshToken).toHaveBeenCalledWith('user-1', 'session-1', {
+        oauthClientId: client.id,
+        scope: 'openid email',
+      });
+      expect(mockSigningKeyService.sign).toHaveBeenCalledWith(expect.objectContaining({
+        sub: 'user-1',
+        aud: 'client-1',
+        azp: 'client-1',
+        sid: 'session-1',
+        nonce: 'nonce-1',
+      }));
+    });
+
+    it('should reject a wrong code_verifier', async () => {
+      await expect(oauthTokenService.exchangeToken(
+        { ...codeRequest, code_verifier: 'another-verifier' },
+        { clientId: 'client-1' },
+      )).rejects.toThrow(new OAuthError('invalid_grant', 'Invalid code_verifier'));
+      expect(mockSessionService.createSession).not.toHaveBeenCalled();
+    });
+
+    it('should reject a redirect_uri that differs from the authorization request', async () => {
+      await expect(oauthTokenService.exchangeToken(
+        { ...codeRequest, redirect_uri: 'https://app.example.com/other' },
+        { clientId: 'client-1' },
+      )).rejects.toThrow(OAuthError);
+      expect(mockSessionService.createSession).not.toHaveBeenCalled();
+    });
+
+    it('should reject codes issued to another client', async () => {
+      mockAuthorizationCodeRepository.findAuthorizationCodeByHash.mockResolvedValue(buildCode({ oauthClientId: 'other' }));
+
+      await expect(oauthTokenService.exchangeToken(codeRequest, { clientId: 'client-1' }))
+        .rejects.toThrow(new OAuthError('invalid_grant', 'Invalid authorization code'));
+    });
+
+    it('should revoke the session of a code that is replayed', async () => {
+      mockAuthorizationCodeRepository.findAuthorizationCodeByHash.mockResolvedValue(
+        buildCode({ consumedAt: new Date(), sessionId: 'session-0' }),
+      );
+
+      await expect(oauthTokenService.exchangeToken(codeRequest, { clientId: 'client-1' })).rejects.toThrow(OAuthError);
+      expect(mockSessionService.revokeSession).toHaveBeenCalledWith('user-1', 'session-0');
+      expect(mockAccessTokenService.issueAccessToken).not.toHaveBeenCalled();
+    });
+
+    it('should revoke the new session when a concurrent exchange consumed the code first', async () => {
+      mockAuthorizationCodeRepository.consumeAuthorizationCode.mockResolvedValue(false);
+
+      await expect(oauthTokenService.exchangeToken(codeRequest, { clientId: 'client-1' })).rejects.toThrow(OAuthError);
+      expect(mockSessionService.revokeSession).toHaveBeenCalledWith('user-1', 'session-1');
+      expect(mockAccessTokenService.issueAccessToken).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refresh_token grant', () => {
+    it('should rotate the refresh token and keep the granted scope', async () => {
+      mockRefreshTokenService.rotateRefreshToken.mockResolvedValue({
+        token: 'refresh-2',
+        expiresAt: new Date(),
+        familyId: 'session-1',
+        userId: 'user-1',
+        scope: 'email',
+      });
+
+      const result = await oauthTokenService.exchangeToken(
+        { grant_type: 'refresh_token', refresh_token: 'refresh-1' },
+        { clientId: 'client-1' },
+      );
+
+      expect(mockRefreshTokenService.rotateRefreshToken).toHaveBeenCalledWith('refresh-1', client.id);
+      expect(result).toEqual(expect.objectContaining({ access_token: 'access-1', refresh_token: 'refresh-2', scope: 'email' }));
+      expect(result).not.toHaveProperty('id_token');
+    });
+
+    it('should report rejected refresh tokens as invalid_grant', async () => {
+      mockRefreshTokenService.rotateRefreshToken.mockRejectedValue(new AppError('Invalid refresh token', 401));
+
+      await expect(oauthTokenService.exchangeToken(
+        { grant_type: 'refresh_token', refresh_token: 'refresh-1' },
+        { clientId: 'client-1' },
+      )).rejects.toThrow(new OAuthError('invalid_grant', 'Invalid refresh token'));
+    });
+  });
+
+  describe('client_credentials grant', () => {
+    it('should issue a short-lived token to an authenticated service account', async () => {
+      const serviceAccount = { id: 'sa-1', clientId: 'sa_pipeline', roles: [] } as unknown as ServiceAccount;
+      mockServiceAccountService.authenticateServiceAccount.mockResolvedValue(serviceAccount);
+
+      const result = await oauthTokenService.exchangeToken(
+        { grant_type: 'client_credentials' },
+        { clientId: 'sa_pipeline', clientSecret: 'secret' },
+      );
+
+      expect(result).toEqual({ access_token: 'service-access-1', token_type: 'Bearer', expires_in: 300 });
+      expect(mockAccessTokenService.issueServiceAccountToken).toHaveBeenCalledWith(serviceAccount);
+      expect(mockOAuthClientService.authenticateClient).not.toHaveBeenCalled();
+      expect(mockSessionService.createSession).not.toHaveBeenCalled();
+    });
+
+    it('should not issue tokens when service account authentication fails', async () => {
+      mockServiceAccountService.authenticateServiceAccount.mockRejectedValue(
+        new OAuthError('invalid_client', 'Client authentication failed', 401),
+      );
+
+      await expect(oauthTokenService.exchangeToken(
+        { grant_type: 'client_credentials' },
+        { clientId: 'client-1' },
+      )).rejects.toMatchObject({ code: 'invalid_client', status: 401 });
+      expect(mockAccessTokenService.issueServiceAccountToken).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should reject grants the client is not registered for', async () => {
+    mockOAuthClientService.authenticateClient.mockResolvedValue({ ...client, grantTypes: ['authorization_code'] } as OAuthClient);
+
+    await expect(oauthTokenService.exchangeToken(
+      { grant_type: 'refresh_token', refresh_token: 'refresh-1' },
+      { clientId: 'client-1' },
+    )).rejects.toMatchObject({ code: 'unauthorized_client' });
+  });
+});
@@ -0,0 +1,93 @@
+import 'reflect-metadata';
+import { OidcClientService } from '../../src/services/oidcClientService';
+import { AppError } from '../../src/middlewares/errorHandler';
+import config from '../../src/config/config';
+import { createMockLogger } from '../helpers/mockLogger';
+import { MockOidcIssuer } from '../helpers/mockOidcIssuer';
+
+describe('OidcClientService', () => {
+  const issuer = new MockOidcIssuer();
+  const originalProviders = config.oidc.providers;
+  let oidcClientService: OidcClientService;
+
+  const profileClaims = {
+    sub: 'subject-1',
+    email: 'jane@example.com',
+    email_verified: true,
+    given_name: 'Jane',
+    family_name: 'Doe',
+  };
+
+  beforeAll(async () => {
+    await issuer.start();
+  });
+
+  afterAll(async () => {
+    config.oidc.providers = originalProviders;
+    await issuer.stop();
+  });
+
+  beforeEach(() => {
+    config.oidc.providers = {
+      acme: { issuer: issuer.issuer, clientId: 'client-1', clientSecret: 'secret', scopes: ['openid', 'email'] },
+    };
+    oidcClientService = new OidcClientService(createMockLogger());
+  });
+
+  it('should verify an ID token against the discovered signing keys', async () => {
+    const idToken = issuer.signIdToken({ ...profileClaims, nonce: 'nonce-1' }, { audience: 'client-1' });
+
+    const profile = await oidcClientService.verifyIdToken('acme', idToken, 'nonce-1');
+
+    expect(profile).toEqual({
+      provider: 'acme',
+      subject: 'subject-1',
+      email: 'jane@example.com',
+      emailVerified: true,
+      givenName: 'Jane',
+      familyName: 'Doe',
+      name: undefined,
+      picture: undefined,
+    });
+  });
+
+  it('should reject tokens issued for another client', async () => {
+    const idToken = issuer.signIdToken(profileClaims, { audience: 'someone-else' });
+
+    await expect(oidcClientService.verifyIdToken('acme', idToken)).rejects.toThrow(new AppError('Invalid ID token', 401));
+  });
+
+  it('should reject tokens with a mismatched nonce', async () => {
+    const idToken = issuer.signIdToken({ ...profileClaims, nonce: 'nonce-1' }, { audience: 'client-1' });
+
+    await expect(oidcClientService.verifyIdToken('acme', idToken, 'nonce-2')).rejects.toThrow(AppError);
+  });
+
+  it('should reject expired tokens', async () => {
+    const idToken = issuer.signIdToken(profileClaims, { audience: 'client-1', expiresIn: -60 });
+
+    await expect(oidcClientService.verifyIdToken('acme', idToken)).rejects.toThrow(AppError);
+  });
+
+  it('should refetch the key set when the issuer rotates its keys', async () => {
+    await oidcClientService.verifyIdToken('acme', issuer.signIdToken(profileClaims, { audience: 'client-1' }));
+    const requestsBefore = issuer.jwksRequests;
+
+    issuer.rotateKey();
+    jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 60_000);
+    try {
+      const profile = await oidcClientService.verifyIdToken('acme', issuer.signIdToken(profileClaims, { audience: 'client-1' }));
+      expect(profile.subject).toBe('subject-1');
+    } finally {
+      jest.restoreAllMocks();
+    }
+
+    expect(issuer.jwksRequests).toBe(requestsBefore + 1);
+  });
+
+  it('should reject unknown providers', async () => {
+    await expect(oidcClientService.verifyIdToken('unknown', 'token')).rejects.toThrow(
+      new AppError('Unknown identity provider', 404),
+    );
+  });
+});
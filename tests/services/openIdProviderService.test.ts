@@ -0,0 +1,103 @@
+import 'reflect-metadata';
+import { OpenIdProviderService } from '../../src/services/openIdProviderService';
+import { IUserAuthService, UserAuthInfo } from '../../src/services/userAuthService';
+import { ISigningKeyService, VerificationKey } from '../../src/services/signingKeyService';
+import { AppError } from '../../src/middlewares/errorHandler';
+import config from '../../src/config/config';
+import { createMockLogger } from '../helpers/mockLogger';
+
+describe('OpenIdProviderService', () => {
+  let openIdProviderService: OpenIdProviderService;
+  let mockUserAuthService: jest.Mocked<IUserAuthService>;
+  let publishedKeys: VerificationKey[];
+  const originalIssuer = config.jwt.issuer;
+
+  const authInfo: UserAuthInfo = {
+    userId: 'user-1',
+    email: 'jane@example.com',
+    emailVerified: true,
+    name: 'Jane Doe',
+    givenName: 'Jane',
+    familyName: 'Doe',
+    picture: null,
+    updatedAt: new Date('2025-01-01T00:00:00Z'),
+    organizationId: null,
+    disabledAt: null,
+    roles: ['user'],
+    permissions: ['users:read'],
+  };
+
+  beforeEach(() => {
+    config.jwt.issuer = 'https://auth.example.com/';
+    publishedKeys = [
+      { kid: 'kid-1', algorithm: 'RS256', publicKey: 'unused' },
+      { kid: 'kid-2', algorithm: 'ES256', publicKey: 'unused' },
+      { kid: 'kid-3', algorithm: 'ES256', publicKey: 'unused' },
+    ];
+
+    mockUserAuthService = {
+      resolveUserAuthInfo: jest.fn().mockResolvedValue(authInfo),
+    };
+
+    const signingKeyService = {
+      getPublishedKeys: jest.fn(async () => publishedKeys),
+    } as unknown as ISigningKeyService;
+
+    openIdProviderService = new OpenIdProviderService(mockUserAuthService, signingKeyService, createMockLogger());
+  });
+
+  afterAll(() => {
+    config.jwt.issuer = originalIssuer;
+  });
+
+  describe('getConfiguration', () => {
+    it('should derive endpoints from the configured issuer', async () => {
+      const configuration = await openIdProviderService.getConfiguration();
+
+      expect(configuration).toEqual(expect.objectContaining({
+        issuer: 'https://auth.example.com/',
+        jwks_uri: 'https://auth.example.com/.well-known/jwks.json',
+        authorization_endpoint: 'https://auth.example.com/oauth/authorize',
+        token_endpoint: 'https://auth.example.com/oauth/token',
+        introspection_endpoint: 'https://auth.example.com/oauth/introspect',
+        revocation_endpoint: 'https://auth.example.com/oauth/revoke',
+        userinfo_endpoint: 'https://auth.example.com/userinfo',
+      }));
+    });
+
+    it('should advertise the algorithms of the published keys once each', async () => {
+      const configuration = await openIdProviderService.getConfiguration();
+
+      expect(configuration.id_token_signing_alg_values_supported).toEqual(['RS256', 'ES256']);
+    });
+  });
+
+  describe('getUserInfo', () => {
+    it('should map the user to standard claims', async () => {
+      await expect(openIdProviderService.getUserInfo('user-1')).resolves.toEqual({
+        sub: 'user-1',
+        email: 'jane@example.com',
+        email_verified: true,
+        name: 'Jane Doe',
+        given_name: 'Jane',
+        family_name: 'Doe',
+        updated_at: 1735689600,
+      });
+    });
+
+    it('should only release the claims of granted scopes', async () => {
+      await expect(openIdProviderService.getUserInfo('user-1', 'openid email')).resolves.toEqual({
+        sub: 'user-1',
+        email: 'jane@example.com',
+        email_verified: true,
+      });
+      await expect(openIdProviderService.getUserInfo('user-1', 'openid')).resolves.toEqual({ sub: 'user-1' });
+    });
+
+    it('should reject tokens whose user no longer exists', async () => {
+      mockUserAuthService.resolveUserAuthInfo.mockResolvedValue(null);
+
+      await expect(openIdProviderService.getUserInfo('user-1')).rejects.toThrow(new AppError('Invalid token', 401));
+    });
+  });
+});
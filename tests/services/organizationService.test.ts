@@ -0,0 +1,170 @@
+import 'reflect-metadata';
+import { OrganizationService, OrganizationActor } from '../../src/services/organizationService';
+import { IOrganizationRepository } from '../../src/repositories/organizationRepository';
+import { IUserRepository } from '../../src/repositories/userRepository';
+import { ITokenRevocationService } from '../../src/services/tokenRevocationService';
+import { Organization } from '../../src/models/organization';
+import { User } from '../../src/models/user';
+import { AppError, ValidationError } from '../../src/middlewares/errorHandler';
+import { createMockLogger } from '../helpers/mockLogger';
+
+describe('OrganizationService', () => {
+  let organizationService: OrganizationService;
+  let mockOrganizationRepository: jest.Mocked<IOrganizationRepository>;
+  let mockUserRepository: jest.Mocked<Pick<IUserRepository, 'findUserById' | 'updateUser'>>;
+  let mockTokenRevocationService: jest.Mocked<Pick<ITokenRevocationService, 'revokeUserTokens'>>;
+
+  const buildOrganization = (overrides: Partial<Organization> = {}): Organization => ({
+    id: 'org-1',
+    name: 'Acme Corp',
+    slug: 'acme-corp',
+    settings: {},
+    ownerId: 'user-1',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  } as Organization);
+
+  const owner: OrganizationActor = { userId: 'user-1', orgId: 'org-1', permissions: [] };
+  const member: OrganizationActor = { userId: 'user-2', orgId: 'org-1', permissions: [] };
+  const outsider: OrganizationActor = { userId: 'user-3', orgId: 'org-2', permissions: [] };
+  const platformAdmin: OrganizationActor = { userId: 'admin-1', orgId: null, permissions: ['orgs:manage'] };
+
+  beforeEach(() => {
+    mockOrganizationRepository = {
+      createOrganization: jest.fn(async (data) => buildOrganization({ ...data })),
+      findOrganizations: jest.fn().mockResolvedValue([buildOrganization(), buildOrganization({ id: 'org-2', slug: 'globex' })]),
+      findOrganizationById: jest.fn(async (id: string) => (id === 'org-1' ? buildOrganization() : null)),
+      findOrganizationBySlug: jest.fn().mockResolvedValue(null),
+      updateOrganization: jest.fn(async (id, updates) => buildOrganization({ id, ...updates })),
+      deleteOrganization: jest.fn().mockResolvedValue(['user-1', 'user-2']),
+    };
+
+    mockUserRepository = {
+      findUserById: jest.fn().mockResolvedValue({ id: 'user-1', organizationId: null } as User),
+      updateUser: jest.fn(),
+    };
+
+    mockTokenRevocationService = {
+      revokeUserTokens: jest.fn(),
+    };
+
+    organizationService = new OrganizationService(
+      mockOrganizationRepository,
+      mockUserRepository as unknown as IUserRepository,
+      mockTokenRevocationService as unknown as ITokenRevocationService,
+      createMockLogger(),
+    );
+  });
+
+  describe('createOrganization', () => {
+    it('should make the creator its owner and member', async () => {
+      const result = await organizationService.createOrganization('user-1', { name: ' Acme Corp ' });
+
+      expect(mockOrganizationRepository.createOrganization).toHaveBeenCalledWith({
+        name: 'Acme Corp',
+        slug: 'acme-corp',
+        settings: {},
+        ownerId: 'user-1',
+      });
+      expect(mockUserRepository.updateUser).toHaveBeenCalledWith('user-1', { organizationId: result.id });
+      expect(mockTokenRevocationService.revokeUserTokens).toHaveBeenCalledWith('user-1', 'organization created');
+      expect(result.ownerId).toBe('user-1');
+    });
+
+    it('should refuse users who already belong to an organization', async () => {
+      mockUserRepository.findUserById.mockResolvedValue({ id: 'user-1', organizationId: 'org-1' } as User);
+
+      await expect(organizationService.createOrganization('user-1', { name: 'Acme Corp' }))
+        .rejects.toThrow(new AppError('You already belong to an organization', 409));
+      expect(mockOrganizationRepository.createOrganization).not.toHaveBeenCalled();
+    });
+
+    it('should reject a slug that is taken or malformed', async () => {
+      mockOrganizationRepository.findOrganizationBySlug.mockResolvedValue(buildOrganization());
+
+      await expect(organizationService.createOrganization('user-1', { name: 'Acme Corp' })).rejects.toThrow(ValidationError);
+      await expect(organizationService.createOrganization('user-1', { name: 'Acme Corp', slug: 'Not A Slug' }))
+        .rejects.toThrow(ValidationError);
+      expect(mockOrganizationRepository.createOrganization).not.toHaveBeenCalled();
+    });
+
+    it('should reject settings that are not an object', async () => {
+      await expect(organizationService.createOrganization('user-1', {
+        name: 'Acme Corp',
+        settings: ['theme'] as unknown as Record<string, unknown>,
+      })).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('visibility', () => {
+    it('should list only the caller\'s own organization', async () => {
+      await expect(organizationService.listOrganizations(member)).resolves.toEqual([
+        expect.objectContaining({ id: 'org-1' }),
+      ]);
+      expect(mockOrganizationRepository.findOrganizations).not.toHaveBeenCalled();
+    });
+
+    it('should list every organization for orgs:manage holders outside any organization', async () => {
+      await expect(organizationService.listOrganizations(platformAdmin)).resolves.toHaveLength(2);
+    });
+
+    it('should report other organizations as not found', async () => {
+      await expect(organizationService.getOrganization(outsider, 'org-1'))
+        .rejects.toThrow(new AppError('Organization not found', 404));
+    });
+  });
+
+  describe('updateOrganization', () => {
+    it('should let the owner rename the organization and replace its settings', async () => {
+      const result = await organizationService.updateOrganization(owner, 'org-1', {
+        name: 'Acme Inc',
+        settings: { theme: 'dark' },
+      });
+
+      expect(mockOrganizationRepository.updateOrganization).toHaveBeenCalledWith('org-1', {
+        name: 'Acme Inc',
+        settings: { theme: 'dark' },
+      });
+      expect(result.name).toBe('Acme Inc');
+    });
+
+    it('should refuse members who are not the owner', async () => {
+      await expect(organizationService.updateOrganization(member, 'org-1', { name: 'Acme Inc' }))
+        .rejects.toThrow(new AppError('Only the owner of the organization can change it', 403));
+      expect(mockOrganizationRepository.updateOrganization).not.toHaveBeenCalled();
+    });
+
+    it('should accept the current slug without reporting it as taken', async () => {
+      mockOrganizationRepository.findOrganizationBySlug.mockResolvedValue(buildOrganization());
+
+      await organizationService.updateOrganization(owner, 'org-1', { slug: 'acme-corp' });
+
+      expect(mockOrganizationRepository.updateOrganization).toHaveBeenCalledWith('org-1', {});
+    });
+  });
+
+  describe('deleteOrganization', () => {
+    it('should revoke the tokens of every former member', async () => {
+      await organizationService.deleteOrganization(platformAdmin, 'org-1');
+
+      expect(mockOrganizationRepository.deleteOrganization).toHaveBeenCalledWith('org-1');
+      expect(mockTokenRevocationService.revokeUserTokens).toHaveBeenCalledWith('user-1', 'organization deleted');
+      expect(mockTokenRevocationService.revokeUserTokens).toHaveBeenCalledWith('user-2', 'organization deleted');
+    });
+
+    it('should report an organization removed concurrently as missing', async () => {
+      mockOrganizationRepository.deleteOrganization.mockResolvedValue(null);
+
+      await expect(organizationService.deleteOrganization(platformAdmin, 'org-1'))
+        .rejects.toThrow(new AppError('Organization not found', 404));
+      expect(mockTokenRevocationService.revokeUserTokens).not.toHaveBeenCalled();
+    });
+
+    it('should refuse outsiders even with orgs:manage', async () => {
+      await expect(organizationService.deleteOrganization({ ...outsider, permissions: ['orgs:manage'] }, 'org-1'))
+        .rejects.toThrow(new AppError('Organization not found', 404));
+      expect(mockOrganizationRepository.deleteOrganization).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import 'reflect-metadata';
+import bcrypt from 'bcrypt';
+import argon2 from 'argon2';
+import { PasswordHasher } from '../../src/services/passwordHasher';
+import config from '../../src/config/config';
+import { createMockLogger } from '../helpers/mockLogger';
+
+describe('PasswordHasher', () => {
+  let passwordHasher: PasswordHasher;
+  const originalSettings = { ...config.passwordHashing };
+
+  beforeEach(() => {
+    Object.assign(config.passwordHashing, {
+      algorithm: 'bcrypt',
+      bcryptCost: 4,
+      argon2MemoryCost: 1024,
+      argon2TimeCost: 2,
+      argon2Parallelism: 1,
+    });
+    passwordHasher = new PasswordHasher(createMockLogger());
+  });
+
+  afterAll(() => {
+    Object.assign(config.passwordHashing, originalSettings);
+  });
+
+  it('should hash with bcrypt at the configured cost', async () => {
+    const passwordHash = await passwordHasher.hash('Correct-Horse-1');
+
+    expect(passwordHash).toMatch(/^\$2[ab]\$04\$/);
+    await expect(passwordHasher.verify('Correct-Horse-1', passwordHash)).resolves.toBe(true);
+    await expect(passwordHasher.verify('Wrong-Horse-1', passwordHash)).resolves.toBe(false);
+  });
+
+  it('should hash with argon2id when configured', async () => {
+    config.passwordHashing.algorithm = 'argon2id';
+
+    const passwordHash = await passwordHasher.hash('Correct-Horse-1');
+
+    expect(passwordHash).toMatch(/^\$argon2id\$v=19\$m=1024,/);
+    await expect(passwordHasher.verify('Correct-Horse-1', passwordHash)).resolves.toBe(true);
+    expect(passwordHasher.needsRehash(passwordHash)).toBe(false);
+  });
+
+  it('should verify hashes of either algorithm regardless of the target', async () => {
+    const bcryptHash = await bcrypt.hash('Correct-Horse-1', 4);
+    const argon2Hash = await argon2.hash('Correct-Horse-1', { type: argon2.argon2id, memoryCost: 1024 });
+
+    config.passwordHashing.algorithm = 'argon2id';
+    await expect(passwordHasher.verify('Correct-Horse-1', bcryptHash)).resolves.toBe(true);
+
+    config.passwordHashing.algorithm = 'bcrypt';
+    await expect(passwordHasher.verify('Correct-Horse-1', argon2Hash)).resolves.toBe(true);
+  });
+
+  it('should flag hashes using an outdated algorithm or cost for rehash', async () => {
+    const bcryptHash = await bcrypt.hash('Correct-Horse-1', 4);
+
+    expect(passwordHasher.needsRehash(bcryptHash)).toBe(false);
+
+    config.passwordHashing.bcryptCost = 5;
+    expect(passwordHasher.needsRehash(bcryptHash)).toBe(true);
+
+    config.passwordHashing.algorithm = 'argon2id';
+    expect(passwordHasher.needsRehash(bcryptHash)).toBe(true);
+
+    const weakArgon2Hash = await argon2.hash('Correct-Horse-1', { type: argon2.argon2id, memoryCost: 512, timeCost: 2, parallelism: 1 });
+    expect(passwordHasher.needsRehash(weakArgon2Hash)).toBe(true);
+  });
+
+  it('should reject unrecognised hash formats without throwing', async () => {
+    await expect(passwordHasher.verify('Correct-Horse-1', 'plaintext')).resolves.toBe(false);
+    await expect(passwordHasher.verify('Correct-Horse-1', '$argon2id$garbage')).resolves.toBe(false);
+  });
+
+  describe('configuration', () => {
+    const originalEnv = { ...process.env };
+
+    const loadConfig = (env: Record<string, string>) => {
+      process.env = { ...originalEnv, ...env };
+      try {
+        jest.isolateModules(() => {
+          require('../../src/config/config');
+        });
+      } finally {
+        process.env = originalEnv;
+      }
+    };
+
+    it('should refuse an unknown algorithm at startup', () => {
+      expect(() => loadConfig({ PASSWORD_HASH_ALGORITHM: 'scrypt' }))
+        .toThrow('PASSWORD_HASH_ALGORITHM must be one of bcrypt, argon2id, got "scrypt"');
+    });
+
+    it('should refuse costs that are not positive integers', () => {
+      expect(() => loadConfig({ PASSWORD_ARGON2_TIME_COST: '0' })).toThrow(/PASSWORD_ARGON2_TIME_COST/);
+      expect(() => loadConfig({ PASSWORD_ARGON2_MEMORY_COST: '-1' })).toThrow(/PASSWORD_ARGON2_MEMORY_COST/);
+      expect(() => loadConfig({ PASSWORD_ARGON2_PARALLELISM: 'two' })).toThrow(/PASSWORD_ARGON2_PARALLELISM/);
+      expect(() => loadConfig({ PASSWORD_BCRYPT_COST: '3' })).toThrow(/PASSWORD_BCRYPT_COST/);
+    });
+
+    it('should accept valid settings', () => {
+      expect(() => loadConfig({ PASSWORD_HASH_ALGORITHM: 'argon2id', PASSWORD_BCRYPT_COST: '12' })).not.toThrow();
+    });
+  });
+});
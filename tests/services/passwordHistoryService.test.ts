@@ -0,0 +1,73 @@
+import 'reflect-metadata';
+import bcrypt from 'bcrypt';
+import { PasswordHistoryService } from '../../src/services/passwordHistoryService';
+import { IPasswordHistoryRepository } from '../../src/repositories/passwordHistoryRepository';
+import { PasswordHistory } from '../../src/models/passwordHistory';
+import { ValidationError } from '../../src/middlewares/errorHandler';
+import config from '../../src/config/config';
+import { PasswordHasher } from '../../src/services/passwordHasher';
+import { createMockLogger } from '../helpers/mockLogger';
+
+describe('PasswordHistoryService', () => {
+  let passwordHistoryService: PasswordHistoryService;
+  let mockPasswordHistoryRepository: jest.Mocked<IPasswordHistoryRepository>;
+  const originalSize = config.passwordHistory.size;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    config.passwordHistory.size = 3;
+
+    mockPasswordHistoryRepository = {
+      addPasswordHash: jest.fn(async (userId, passwordHash) => ({ userId, passwordHash } as PasswordHistory)),
+      findRecentPasswordHashes: jest.fn().mockResolvedValue([]),
+      pruneHistory: jest.fn().mockResolvedValue(0),
+    };
+
+    passwordHistoryService = new PasswordHistoryService(
+      mockPasswordHistoryRepository,
+      new PasswordHasher(createMockLogger()),
+      createMockLogger(),
+    );
+  });
+
+  afterAll(() => {
+    config.passwordHistory.size = originalSize;
+  });
+
+  describe('assertPasswordNotReused', () => {
+    it('should reject a password matching one of the recent hashes', async () => {
+      mockPasswordHistoryRepository.findRecentPasswordHashes.mockResolvedValue([
+        await bcrypt.hash('Newer-Password-2', 4),
+        await bcrypt.hash('Older-Password-1', 4),
+      ]);
+
+      await expect(
+        passwordHistoryService.assertPasswordNotReused('user-1', 'Older-Password-1'),
+      ).rejects.toThrow(ValidationError);
+      expect(mockPasswordHistoryRepository.findRecentPasswordHashes).toHaveBeenCalledWith('user-1', 3);
+    });
+
+    it('should accept a password that is not in the history', async () => {
+      mockPasswordHistoryRepository.findRecentPasswordHashes.mockResolvedValue([await bcrypt.hash('Older-Password-1', 4)]);
+
+      await expect(passwordHistoryService.assertPasswordNotReused('user-1', 'Brand-New-Password-3')).resolves.toBeUndefined();
+    });
+
+    it('should skip the check when the history is disabled', async () => {
+      config.passwordHistory.size = 0;
+
+      await passwordHistoryService.assertPasswordNotReused('user-1', 'anything');
+
+      expect(mockPasswordHistoryRepository.findRecentPasswordHashes).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recordPassword', () => {
+    it('should store the hash and prune entries beyond the configured size', async () => {
+      await passwordHistoryService.recordPassword('user-1', 'hash');
+
+      expect(mockPasswordHistoryRepository.addPasswordHash).toHaveBeenCalledWith('user-1', 'hash');
+      expect(mockPasswordHistoryRepository.pruneHistory).toHaveBeenCalledWith('user-1', 3);
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import 'reflect-metadata';
+import { PasswordPolicyService } from '../../src/services/passwordPolicyService';
+import { ValidationError } from '../../src/middlewares/errorHandler';
+import config from '../../src/config/config';
+import { createMockLogger } from '../helpers/mockLogger';
+
+describe('PasswordPolicyService', () => {
+  let passwordPolicyService: PasswordPolicyService;
+  const originalPolicy = { ...config.passwordPolicy };
+
+  const codes = (password: string, context = {}) =>
+    passwordPolicyService.validatePassword(password, context).map(violation => violation.code);
+
+  beforeEach(() => {
+    config.passwordPolicy = {
+      minLength: 10,
+      maxLength: 64,
+      requireUppercase: true,
+      requireLowercase: true,
+      requireDigit: true,
+      requireSymbol: false,
+      disallowCommonPasswords: true,
+      disallowPersonalInfo: true,
+    };
+    passwordPolicyService = new PasswordPolicyService(createMockLogger());
+  });
+
+  afterAll(() => {
+    config.passwordPolicy = originalPolicy;
+  });
+
+  it('should accept a password that satisfies every rule', () => {
+    expect(codes('Correct7Horse-Battery')).toEqual([]);
+  });
+
+  it('should report each failed rule', () => {
+    expect(codes('short')).toEqual(['too_short', 'missing_uppercase', 'missing_digit']);
+    expect(codes('x'.repeat(65))).toEqual(expect.arrayContaining(['too_long']));
+  });
+
+  it('should require a symbol when configured', () => {
+    config.passwordPolicy.requireSymbol = true;
+
+    expect(codes('Correct7HorseBattery')).toEqual(['missing_symbol']);
+  });
+
+  it('should reject common passwords and their digit suffixed variants', () => {
+    expect(codes('Password123')).toEqual(['common_password']);
+    expect(codes('Qwertyuiop1')).toEqual(['common_password']);
+  });
+
+  it('should reject passwords containing the email or name', () => {
+    const context = { email: 'jane.doe@example.com', firstName: 'Jane', lastName: 'Doe' };
+
+    expect(codes('Jane.doe!2024x', context)).toEqual(['contains_personal_info']);
+    expect(codes('MyJaneRocks42', context)).toEqual(['contains_personal_info']);
+    expect(codes('Correct7Horse-Battery', context)).toEqual([]);
+  });
+
+  it('should throw a ValidationError listing the violations', () => {
+    expect.assertions(3);
+
+    try {
+      passwordPolicyService.assertPasswordAllowed('password');
+    } catch (error) {
+      expect(error).toBeInstanceOf(ValidationError);
+      expect((error as ValidationError).status).toBe(400);
+      expect((error as ValidationError).violations.map(violation => violation.code)).toContain('common_password');
+    }
+  });
+
+  it('should expose the configured policy', () => {
+    expect(passwordPolicyService.getPolicy()).toEqual(config.passwordPolicy);
+  });
+});
@@ -0,0 +1,149 @@
+import 'reflect-metadata';
+import crypto from 'crypto';
+import { PersonalAccessTokenService } from '../../src/services/personalAccessTokenService';
+import { IPersonalAccessTokenRepository } from '../../src/repositories/personalAccessTokenRepository';
+import { IUserAuthService, UserAuthInfo } from '../../src/services/userAuthService';
+import { PersonalAccessToken } from '../../src/models/personalAccessToken';
+import { AppError, ValidationError } from '../../src/middlewares/errorHandler';
+import { createMockLogger } from '../helpers/mockLogger';
+
+describe('PersonalAccessTokenService', () => {
+  let personalAccessTokenService: PersonalAccessTokenService;
+  let mockPersonalAccessTokenRepository: jest.Mocked<IPersonalAccessTokenRepository>;
+  let mockUserAuthService: jest.Mocked<IUserAuthService>;
+
+  const hash = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+  const authInfo: UserAuthInfo = {
+    userId: 'user-1',
+    email: 'jane@example.com',
+    emailVerified: true,
+    name: 'Jane Doe',
+    givenName: 'Jane',
+    familyName: 'Doe',
+    picture: null,
+    updatedAt: new Date(),
+    organizationId: 'org-1',
+    disabledAt: null,
+    roles: ['org_admin'],
+    permissions: ['users:read', 'users:manage'],
+  };
+
+  const buildStoredToken = (overrides: Partial<PersonalAccessToken> = {}): PersonalAccessToken => ({
+    id: 'pat-1',
+    userId: 'user-1',
+    name: 'CI script',
+    tokenHash: hash('pat_secret'),
+    tokenPrefix: 'pat_secret',
+    permissions: ['users:read', 'roles:manage'],
+    expiresAt: new Date(Date.now() + 60_000),
+    lastUsedAt: null,
+    createdAt: new Date(),
+    ...overrides,
+  } as PersonalAccessToken);
+
+  beforeEach(() => {
+    mockPersonalAccessTokenRepository = {
+      createPersonalAccessToken: jest.fn(async (data) => buildStoredToken({ ...data })),
+      findPersonalAccessTokensByUserId: jest.fn(),
+      findPersonalAccessTokenByHash: jest.fn().mockResolvedValue(buildStoredToken()),
+      countPersonalAccessTokens: jest.fn().mockResolvedValue(0),
+      touchPersonalAccessToken: jest.fn(),
+      deletePersonalAccessToken: jest.fn(),
+    };
+
+    mockUserAuthService = {
+      resolveUserAuthInfo: jest.fn().mockResolvedValue(authInfo),
+    };
+
+    personalAccessTokenService = new PersonalAccessTokenService(
+      mockPersonalAccessTokenRepository,
+      mockUserAuthService,
+      createMockLogger(),
+    );
+  });
+
+  describe('createToken', () => {
+    it('should return the token once and store only its hash', async () => {
+      const result = await personalAccessTokenService.createToken('user-1', {
+        name: 'CI script',
+        permissions: ['users:read'],
+        expiresInDays: 30,
+      });
+
+      expect(result.token).toMatch(/^pat_/);
+      expect(mockPersonalAccessTokenRepository.createPersonalAccessToken).toHaveBeenCalledWith(expect.objectContaining({
+        userId: 'user-1',
+        tokenHash: hash(result.token),
+        tokenPrefix: result.token.substring(0, 12),
+        permissions: ['users:read'],
+      }));
+    });
+
+    it('should reject permissions the user does not hold', async () => {
+      await expect(personalAccessTokenService.createToken('user-1', {
+        name: 'CI script',
+        permissions: ['users:read', 'keys:manage'],
+        expiresInDays: 30,
+      })).rejects.toThrow(ValidationError);
+      expect(mockPersonalAccessTokenRepository.createPersonalAccessToken).not.toHaveBeenCalled();
+    });
+
+    it.each([0, 1.5, 10_000])('should reject an expiry of %p days', async (expiresInDays) => {
+      await expect(personalAccessTokenService.createToken('user-1', {
+        name: 'CI script',
+        permissions: ['users:read'],
+        expiresInDays,
+      })).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('authenticate', () => {
+    it('should narrow the token permissions to those the user still holds', async () => {
+      const principal = await personalAccessTokenService.authenticate('pat_secret');
+
+      expect(mockPersonalAccessTokenRepository.findPersonalAccessTokenByHash).toHaveBeenCalledWith(hash('pat_secret'));
+      expect(principal).toEqual(expect.objectContaining({
+        tokenId: 'pat-1',
+        userId: 'user-1',
+        orgId: 'org-1',
+        roles: [],
+        permissions: ['users:read'],
+      }));
+      expect(mockPersonalAccessTokenRepository.touchPersonalAccessToken).toHaveBeenCalledWith('pat-1', expect.any(Date));
+    });
+
+    it('should not record use again within a minute', async () => {
+      mockPersonalAccessTokenRepository.findPersonalAccessTokenByHash.mockResolvedValue(
+        buildStoredToken({ lastUsedAt: new Date(Date.now() - 1000) }),
+      );
+
+      await personalAccessTokenService.authenticate('pat_secret');
+
+      expect(mockPersonalAccessTokenRepository.touchPersonalAccessToken).not.toHaveBeenCalled();
+    });
+
+    it('should reject expired tokens', async () => {
+      mockPersonalAccessTokenRepository.findPersonalAccessTokenByHash.mockResolvedValue(
+        buildStoredToken({ expiresAt: new Date(Date.now() - 1000) }),
+      );
+
+      await expect(personalAccessTokenService.authenticate('pat_secret')).resolves.toBeNull();
+    });
+
+    it('should reject tokens of disabled users', async () => {
+      mockUserAuthService.resolveUserAuthInfo.mockResolvedValue({ ...authInfo, disabledAt: new Date() });
+
+      await expect(personalAccessTokenService.authenticate('pat_secret')).resolves.toBeNull();
+    });
+  });
+
+  describe('deleteToken', () => {
+    it('should report tokens of other users as not found', async () => {
+      mockPersonalAccessTokenRepository.deletePersonalAccessToken.mockResolvedValue(false);
+
+      await expect(personalAccessTokenService.deleteToken('user-2', 'pat-1'))
+        .rejects.toThrow(new AppError('Personal access token not found', 404));
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import 'reflect-metadata';
+import crypto from 'crypto';
+import { RefreshTokenService } from '../../src/services/refreshTokenService';
+import { IRefreshTokenRepository } from '../../src/repositories/refreshTokenRepository';
+import { ISessionRepository } from '../../src/repositories/sessionRepository';
+import { ITokenRevocationService } from '../../src/services/tokenRevocationService';
+import { RefreshToken } from '../../src/models/refreshToken';
+import { AppError } from '../../src/middlewares/errorHandler';
+import { createMockLogger } from '../helpers/mockLogger';
+
+describe('RefreshTokenService', () => {
+  let refreshTokenService: RefreshTokenService;
+  let mockRefreshTokenRepository: jest.Mocked<IRefreshTokenRepository>;
+  let mockSessionRepository: jest.Mocked<ISessionRepository>;
+  let mockTokenRevocationService: jest.Mocked<ITokenRevocationService>;
+  let mockLogger: ReturnType<typeof createMockLogger>;
+
+  const hash = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+  const buildStoredToken = (overrides: Partial<RefreshToken> = {}): RefreshToken => ({
+    id: 'token-1',
+    userId: 'user-1',
+    tokenHash: hash('opaque-token'),
+    familyId: 'family-1',
+    expiresAt: new Date(Date.now() + 60_000),
+    revokedAt: null,
+    replacedById: null,
+    createdAt: new Date(),
+    ...overrides,
+  } as RefreshToken);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockRefreshTokenRepository = {
+      createRefreshToken: jest.fn(async (data) => ({ id: 'token-2', ...data } as RefreshToken)),
+      findRefreshTokenByHash: jest.fn(),
+      markRefreshTokenRotated: jest.fn(),
+      revokeRefreshTokenFamily: jest.fn(),
+      revokeRefreshTokensForUser: jest.fn(),
+    };
+
+    mockSessionRepository = {
+      createSession: jest.fn(),
+      findSessionById: jest.fn(),
+      findActiveSessionsByUserId: jest.fn(),
+      touchSession: jest.fn(),
+      revokeSession: jest.fn(),
+      revokeAllSessionsForUser: jest.fn(),
+    };
+
+    mockTokenRevocationService = {
+      isTokenRevoked: jest.fn(),
+      revokeToken: jest.fn(),
+      revokeTokenOnce: jest.fn(),
+      revokeSession: jest.fn(),
+      revokeUserTokens: jest.fn(),
+    };
+
+    mockLogger = createMockLogger();
+
+    refreshTokenService = new RefreshTokenService(
+      mockRefreshTokenRepository,
+      mockSessionRepository,
+      mockTokenRevocationService,
+      mockLogger,
+    );
+  });
+
+  describe('issueRefreshToken', () => {
+    it('should store only the hash of the issued token', async () => {
+      const result = await refreshTokenService.issueRefreshToken('user-1');
+
+      expect(result.token).toEqual(expect.any(String));
+      expect(mockRefreshTokenRepository.createRefreshToken).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 'user-1',
+          tokenHash: hash(result.token),
+          familyId: expect.any(String),
+        })
+      );
+      expect(result.expiresAt.getTime()).toBeGreaterThan(Date.now());
+    });
+  });
+
+  describe('rotateRefreshToken', () => {
+    it('should issue a new token in the same family', async () => {
+      mockRefreshTokenRepository.findRefreshTokenByHash.mockResolvedValue(buildStoredToken());
+      mockRefreshTokenRepository.markRefreshTokenRotated.mockResolvedValue(true);
+
+      const result = await refreshTokenService.rotateRefreshToken('opaque-token');
+
+      expect(mockRefreshTokenRepository.findRefreshTokenByHash).toHaveBeenCalledWith(hash('opaque-token'));
+      expect(mockRefreshTokenRepository.createRefreshToken).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'user-1', familyId: 'family-1' })
+      );
+      expect(mockRefreshTokenRepository.markRefreshTokenRotated).toHaveBeenCalledWith('token-1', 'token-2');
+      expect(result.userId).toBe('user-1');
+      expect(result.token).not.toBe('opaque-token');
+    });
+
+    it('should reject unknown tokens', async () => {
+      mockRefreshTokenRepository.findRefreshTokenByHash.mockResolvedValue(null);
+
+      await expect(refreshTokenService.rotateRefreshToken('unknown')).rejects.toThrow(
+        new AppError('Invalid refresh token', 401)
+      );
+      expect(mockRefreshTokenRepository.createRefreshToken).not.toHaveBeenCalled();
+    });
+
+    it('should reject expired tokens', async () => {
+      mockRefreshTokenRepository.findRefreshTokenByHash.mockResolvedValue(
+        buildStoredToken({ expiresAt: new Date(Date.now() - 1000) })
+      );
+
+      await expect(refreshTokenService.rotateRefreshToken('opaque-token')).rejects.toThrow(AppError);
+      expect(mockRefreshTokenRepository.createRefreshToken).not.toHaveBeenCalled();
+    });
+
+    it('should revoke the whole family and its session when a rotated token is reused', async () => {
+      mockRefreshTokenRepository.findRefreshTokenByHash.mockResolvedValue(
+        buildStoredToken({ revokedAt: new Date(), replacedById: 'token-2' })
+      );
+
+      await expect(refreshTokenService.rotateRefreshToken('opaque-token')).rejects.toThrow(AppError);
+      expect(mockRefreshTokenRepository.revokeRefreshTokenFamily).toHaveBeenCalledWith('family-1');
+      expect(mockSessionRepository.revokeSession).toHaveBeenCalledWith('family-1');
+      expect(mockTokenRevocationService.revokeSession).toHaveBeenCalledWith('family-1');
+      expect(mockRefreshTokenRepository.createRefreshToken).not.toHaveBeenCalled();
+    });
+
+    it('should keep the client binding and scope of the rotated token', async () => {
+      mockRefreshTokenRepository.findRefreshTokenByHash.mockResolvedValue(
+        buildStoredToken({ oauthClientId: 'client-1', scope: 'openid email' })
+      );
+      mockRefreshTokenRepository.markRefreshTokenRotated.mockResolvedValue(true);
+
+      const result = await refreshTokenService.rotateRefreshToken('opaque-token', 'client-1');
+
+      expect(mockRefreshTokenRepository.createRefreshToken).toHaveBeenCalledWith(
+        expect.objectContaining({ oauthClientId: 'client-1', scope: 'openid email' })
+      );
+      expect(result.scope).toBe('openid email');
+    });
+
+    it('should reject tokens presented by another client', async () => {
+      mockRefreshTokenRepository.findRefreshTokenByHash.mockResolvedValue(
+        buildStoredToken({ oauthClientId: 'client-1' })
+      );
+
+      await expect(refreshTokenService.rotateRefreshToken('opaque-token')).rejects.toThrow(
+        new AppError('Invalid refresh token', 401)
+      );
+      await expect(refreshTokenService.rotateRefreshToken('opaque-token', 'client-2')).rejects.toThrow(AppError);
+      expect(mockRefreshTokenRepository.createRefreshToken).not.toHaveBeenCalled();
+    });
+
+    it('should revoke the family when a concurrent rotation wins', async () => {
+      mockRefreshTokenRepository.findRefreshTokenByHash.mockResolvedValue(buildStoredToken());
+      mockRefreshTokenRepository.markRefreshTokenRotated.mockResolvedValue(false);
+
+      await expect(refreshTokenService.rotateRefreshToken('opaque-token')).rejects.toThrow(AppError);
+      expect(mockRefreshTokenRepository.revokeRefreshTokenFamily).toHaveBeenCalledWith('family-1');
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import 'reflect-metadata';
+import crypto from 'crypto';
+import { ServiceAccountService } from '../../src/services/serviceAccountService';
+import { IServiceAccountRepository } from '../../src/repositories/serviceAccountRepository';
+import { IRoleRepository } from '../../src/repositories/roleRepository';
+import { IOrganizationRepository } from '../../src/repositories/organizationRepository';
+import { ServiceAccount } from '../../src/models/serviceAccount';
+import { Role } from '../../src/models/role';
+import { Permission } from '../../src/models/permission';
+import { AppError, OAuthError, ValidationError } from '../../src/middlewares/errorHandler';
+import { createMockLogger } from '../helpers/mockLogger';
+
+describe('ServiceAccountService', () => {
+  let serviceAccountService: ServiceAccountService;
+  let mockServiceAccountRepository: jest.Mocked<IServiceAccountRepository>;
+  let mockRoleRepository: jest.Mocked<Pick<IRoleRepository, 'getRoleWithPermissions'>>;
+  let mockOrganizationRepository: jest.Mocked<Pick<IOrganizationRepository, 'findOrganizationById'>>;
+
+  const adminPermissions = ['service-accounts:manage', 'pipelines:run', 'users:manage'];
+  const buildRole = (id: string, name: string, permissions: string[]): Role => ({
+    id,
+    name,
+    permissions: permissions.map(permissionName => ({ name: permissionName }) as Permission),
+  } as Role);
+
+  const hash = (value: string) => crypto.createHash('sha256').update(value).digest('hex');
+
+  const buildServiceAccount = (overrides: Partial<ServiceAccount> = {}): ServiceAccount => ({
+    id: 'sa-1',
+    clientId: 'sa_pipeline',
+    clientSecretHash: hash('the-secret'),
+    name: 'Pipeline runner',
+    description: null,
+    organizationId: null,
+    disabledAt: null,
+    roles: [{ id: 'role-1', name: 'pipeline_runner' } as Role],
+    createdAt: new Date(),
+    ...overrides,
+  } as ServiceAccount);
+
+  beforeEach(() => {
+    mockServiceAccountRepository = {
+      createServiceAccount: jest.fn(async (data) => buildServiceAccount({ ...data, roles: [] })),
+      findServiceAccounts: jest.fn(),
+      findServiceAccountById: jest.fn().mockResolvedValue(buildServiceAccount()),
+      findServiceAccountByClientId: jest.fn().mockResolvedValue(buildServiceAccount()),
+      updateServiceAccount: jest.fn(),
+      deleteServiceAccount: jest.fn(),
+      addRoleToServiceAccount: jest.fn(),
+      removeRoleFromServiceAccount: jest.fn(),
+    };
+
+    mockRoleRepository = {
+      getRoleWithPermissions: jest.fn(async (id: string) => ({
+        'role-1': buildRole('role-1', 'pipeline_runner', ['pipelines:run']),
+        'role-admin': buildRole('role-admin', 'admin', ['users:manage', 'roles:manage', 'keys:manage']),
+      } as Record<string, Role>)[id] ?? null),
+    };
+
+    mockOrganizationRepository = {
+      findOrganizationById: jest.fn().mockResolvedValue(null),
+    };
+
+    serviceAccountService = new ServiceAccountService(
+      mockServiceAccountRepository,
+      mockRoleRepository as unknown as IRoleRepository,
+      mockOrganizationRepository as unknown as IOrganizationRepository,
+      createMockLogger(),
+    );
+  });
+
+  describe('createServiceAccount', () => {
+    it('should store only the hash of the generated secret and assign the roles', async () => {
+      const result = await serviceAccountService.createServiceAccount({ name: 'Pipeline runner', roleIds: ['role-1'] }, adminPermissions);
+
+      expect(mockServiceAccountRepository.createServiceAccount).toHaveBeenCalledWith(expect.objectContaining({
+        clientId: expect.stringMatching(/^sa_[0-9a-f]{32}$/),
+        clientSecretHash: hash(result.clientSecret),
+      }));
+      expect(mockServiceAccountRepository.addRoleToServiceAccount).toHaveBeenCalledWith('sa-1', 'role-1');
+      expect(result.roles).toEqual(['pipeline_runner']);
+    });
+
+    it('should reject unknown roles before creating anything', async () => {
+      await expect(serviceAccountService.createServiceAccount({ name: 'Pipeline runner', roleIds: ['missing'] }, adminPermissions))
+        .rejects.toThrow(ValidationError);
+      expect(mockServiceAccountRepository.createServiceAccount).not.toHaveBeenCalled();
+    });
+
+    it('should reject organizations that do not exist', async () => {
+      await expect(serviceAccountService.createServiceAccount({ name: 'Pipeline runner', organizationId: 'org-missing' }, adminPermissions))
+        .rejects.toThrow(ValidationError);
+      expect(mockServiceAccountRepository.createServiceAccount).not.toHaveBeenCalled();
+    });
+
+    it('should refuse roles with permissions the caller does not hold', async () => {
+      await expect(serviceAccountService.createServiceAccount({ name: 'Backdoor', roleIds: ['role-1', 'role-admin'] }, adminPermissions))
+        .rejects.toThrow(new AppError('You cannot assign a role with permissions you do not hold', 403));
+      expect(mockServiceAccountRepository.createServiceAccount).not.toHaveBeenCalled();
+      expect(mockServiceAccountRepository.addRoleToServiceAccount).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('addRole', () => {
+    it('should assign roles whose permissions the caller holds', async () => {
+      await serviceAccountService.addRole('sa-1', 'role-1', adminPermissions);
+
+      expect(mockServiceAccountRepository.addRoleToServiceAccount).toHaveBeenCalledWith('sa-1', 'role-1');
+    });
+
+    it('should refuse roles with permissions the caller does not hold', async () => {
+      await expect(serviceAccountService.addRole('sa-1', 'role-admin', adminPermissions))
+        .rejects.toThrow(new AppError('You cannot assign a role with permissions you do not hold', 403));
+      expect(mockServiceAccountRepository.addRoleToServiceAccount).not.toHaveBeenCalled();
+    });
+
+    it('should report unknown roles as not found', async () => {
+      await expect(serviceAccountService.addRole('sa-1', 'missing', adminPermissions))
+        .rejects.toThrow(new AppError('Role not found', 404));
+    });
+  });
+
+  describe('authenticateServiceAccount', () => {
+    it('should accept the right secret', async () => {
+      await expect(serviceAccountService.authenticateServiceAccount({ clientId: 'sa_pipeline', clientSecret: 'the-secret' }))
+        .resolves.toEqual(expect.objectContaining({ id: 'sa-1' }));
+    });
+
+    it.each([
+      ['a wrong secret', { clientId: 'sa_pipeline', clientSecret: 'wrong' }],
+      ['no secret', { clientId: 'sa_pipeline' }],
+    ])('should reject %s', async (_, credentials) => {
+      await expect(serviceAccountService.authenticateServiceAccount(credentials))
+        .rejects.toMatchObject({ code: 'invalid_client', status: 401 });
+    });
+
+    it('should reject disabled service accounts', async () => {
+      mockServiceAccountRepository.findServiceAccountByClientId.mockResolvedValue(
+        buildServiceAccount({ disabledAt: new Date() }),
+      );
+
+      await expect(serviceAccountService.authenticateServiceAccount({ clientId: 'sa_pipeline', clientSecret: 'the-secret' }))
+        .rejects.toThrow(OAuthError);
+    });
+
+    it('should not look up client IDs of OAuth clients', async () => {
+      await expect(serviceAccountService.authenticateServiceAccount({ clientId: 'client-1', clientSecret: 'the-secret' }))
+        .rejects.toThrow(OAuthError);
+      expect(mockServiceAccountRepository.findServiceAccountByClientId).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import 'reflect-metadata';
+import { SessionService } from '../../src/services/sessionService';
+import { ISessionRepository } from '../../src/repositories/sessionRepository';
+import { IRefreshTokenService } from '../../src/services/refreshTokenService';
+import { ITokenRevocationService } from '../../src/services/tokenRevocationService';
+import { CreateSessionDto } from '../../src/dto/session.dto';
+import { Session } from '../../src/models/session';
+import { AppError } from '../../src/middlewares/errorHandler';
+import { createMockLogger } from '../helpers/mockLogger';
+
+describe('SessionService', () => {
+  let sessionService: SessionService;
+  let mockSessionRepository: jest.Mocked<ISessionRepository>;
+  let mockRefreshTokenService: jest.Mocked<Pick<IRefreshTokenService, 'revokeRefreshTokenFamily' | 'revokeRefreshTokensForUser'>>;
+  let mockTokenRevocationService: jest.Mocked<Pick<ITokenRevocationService, 'revokeSession' | 'revokeUserTokens'>>;
+
+  const buildSession = (overrides: Partial<Session> = {}): Session => ({
+    id: 'session-1',
+    userId: 'user-1',
+    userAgent: null,
+    deviceName: null,
+    ipAddress: null,
+    expiresAt: new Date(Date.now() + 60_000),
+    revokedAt: null,
+    createdAt: new Date(),
+    ...overrides,
+  } as Session);
+
+  beforeEach(() => {
+    mockSessionRepository = {
+      createSession: jest.fn(async (data: CreateSessionDto) => buildSession({ ...data })),
+      findSessionById: jest.fn(async (id: string) => (id === 'session-1' ? buildSession() : null)),
+      findActiveSessionsByUserId: jest.fn().mockResolvedValue([buildSession(), buildSession({ id: 'session-2' })]),
+      touchSession: jest.fn(),
+      revokeSession: jest.fn().mockResolvedValue(true),
+      revokeAllSessionsForUser: jest.fn().mockResolvedValue(['session-1', 'session-2']),
+    };
+
+    mockRefreshTokenService = {
+      revokeRefreshTokenFamily: jest.fn(),
+      revokeRefreshTokensForUser: jest.fn(),
+    };
+
+    mockTokenRevocationService = {
+      revokeSession: jest.fn(),
+      revokeUserTokens: jest.fn(),
+    };
+
+    sessionService = new SessionService(
+      mockSessionRepository,
+      mockRefreshTokenService as unknown as IRefreshTokenService,
+      mockTokenRevocationService as unknown as ITokenRevocationService,
+      createMockLogger(),
+    );
+  });
+
+  describe('createSession', () => {
+    it('should record the device and expire with the refresh token', async () => {
+      const userAgent = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Safari/537.36';
+
+      const session = await sessionService.createSession('user-1', { userAgent, ipAddress: '203.0.113.7' });
+
+      expect(mockSessionRepository.createSession).toHaveBeenCalledWith({
+        userId: 'user-1',
+        userAgent,
+        deviceName: 'Chrome on macOS',
+        ipAddress: '203.0.113.7',
+        expiresAt: expect.any(Date),
+      });
+      expect(session.expiresAt.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should store missing metadata as null', async () => {
+      await sessionService.createSession('user-1', {});
+
+      expect(mockSessionRepository.createSession).toHaveBeenCalledWith(expect.objectContaining({
+        userAgent: null,
+        deviceName: null,
+        ipAddress: null,
+      }));
+    });
+  });
+
+  describe('getActiveSession', () => {
+    it('should return sessions that are neither revoked nor expired', async () => {
+      await expect(sessionService.getActiveSession('session-1')).resolves.toEqual(expect.objectContaining({ id: 'session-1' }));
+
+      mockSessionRepository.findSessionById.mockResolvedValue(buildSession({ revokedAt: new Date() }));
+      await expect(sessionService.getActiveSession('session-1')).resolves.toBeNull();
+
+      mockSessionRepository.findSessionById.mockResolvedValue(buildSession({ expiresAt: new Date(Date.now() - 1000) }));
+      await expect(sessionService.getActiveSession('session-1')).resolves.toBeNull();
+    });
+  });
+
+  it('should list the user\'s active sessions', async () => {
+    await expect(sessionService.listActiveSessions('user-1')).resolves.toHaveLength(2);
+
+    expect(mockSessionRepository.findActiveSessionsByUserId).toHaveBeenCalledWith('user-1');
+  });
+
+  describe('revokeSession', () => {
+    it('should end the session, its refresh token family and its access tokens', async () => {
+      await sessionService.revokeSession('user-1', 'session-1');
+
+      expect(mockSessionRepository.revokeSession).toHaveBeenCalledWith('session-1');
+      expect(mockRefreshTokenService.revokeRefreshTokenFamily).toHaveBeenCalledWith('session-1');
+      expect(mockTokenRevocationService.revokeSession).toHaveBeenCalledWith('session-1');
+      expect(mockTokenRevocationService.revokeUserTokens).not.toHaveBeenCalled();
+    });
+
+    it('should report sessions of other users as not found', async () => {
+      await expect(sessionService.revokeSession('user-2', 'session-1')).rejects.toThrow(new AppError('Session not found', 404));
+      await expect(sessionService.revokeSession('user-1', 'unknown')).rejects.toThrow(new AppError('Session not found', 404));
+
+      expect(mockSessionRepository.revokeSession).not.toHaveBeenCalled();
+      expect(mockRefreshTokenService.revokeRefreshTokenFamily).not.toHaveBeenCalled();
+      expect(mockTokenRevocationService.revokeSession).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeAllSessions', () => {
+    it('should end every session with its refresh and access tokens', async () => {
+      await expect(sessionService.revokeAllSessions('user-1', 'logout-all')).resolves.toBe(2);
+
+      expect(mockSessionRepository.revokeAllSessionsForUser).toHaveBeenCalledWith('user-1');
+      expect(mockRefreshTokenService.revokeRefreshTokensForUser).toHaveBeenCalledWith('user-1');
+      expect(mockTokenRevocationService.revokeUserTokens).toHaveBeenCalledWith('user-1', 'logout-all');
+    });
+  });
+});
@@ -0,0 +1,235 @@
+import 'reflect-metadata';
+import { TokenIntrospectionService } from '../../src/services/tokenIntrospectionService';
+import { IServiceAccountService } from '../../src/services/serviceAccountService';
+import { ITokenRevocationService } from '../../src/services/tokenRevocationService';
+import { ISigningKeyService } from '../../src/services/signingKeyService';
+import { IPersonalAccessTokenService } from '../../src/services/personalAccessTokenService';
+import { IRefreshTokenService } from '../../src/services/refreshTokenService';
+import { ISessionService } from '../../src/services/sessionService';
+import { IOAuthClientRepository } from '../../src/repositories/oauthClientRepository';
+import { ServiceAccount } from '../../src/models/serviceAccount';
+import { RefreshToken } from '../../src/models/refreshToken';
+import { Session } from '../../src/models/session';
+import { Role } from '../../src/models/role';
+import { Permission } from '../../src/models/permission';
+import { AppError, OAuthError } from '../../src/middlewares/errorHandler';
+import { createMockLogger } from '../helpers/mockLogger';
+
+describe('TokenIntrospectionService', () => {
+  let tokenIntrospectionService: TokenIntrospectionService;
+  let mockServiceAccountService: jest.Mocked<Pick<IServiceAccountService, 'authenticateServiceAccount'>>;
+  let mockTokenRevocationService: jest.Mocked<ITokenRevocationService>;
+  let mockSigningKeyService: jest.Mocked<Pick<ISigningKeyService, 'verify'>>;
+  let mockPersonalAccessTokenService: jest.Mocked<Pick<IPersonalAccessTokenService, 'authenticate' | 'revokeToken'>>;
+  let mockRefreshTokenService: jest.Mocked<Pick<IRefreshTokenService, 'findActiveRefreshToken' | 'revokeRefreshTokenFamily'>>;
+  let mockSessionService: jest.Mocked<Pick<ISessionService, 'getActiveSession' | 'revokeSession'>>;
+  let mockOAuthClientRepository: jest.Mocked<Pick<IOAuthClientRepository, 'findOAuthClientById'>>;
+
+  const credentials = { clientId: 'sa_gateway', clientSecret: 'the-secret' };
+  const accessToken = 'header.payload.signature';
+  const exp = Math.floor(Date.now() / 1000) + 600;
+
+  const buildServiceAccount = (permissions: string[]): ServiceAccount => ({
+    id: 'sa-1',
+    clientId: 'sa_gateway',
+    roles: [{ name: 'gateway', permissions: permissions.map(name => ({ name }) as Permission) } as Role],
+  } as ServiceAccount);
+
+  const refreshToken = {
+    id: 'rt-1',
+    userId: 'user-1',
+    familyId: 'session-1',
+    oauthClientId: 'client-row-1',
+    scope: 'openid email',
+    createdAt: new Date(),
+    expiresAt: new Date(Date.now() + 3600 * 1000),
+  } as RefreshToken;
+
+  beforeEach(() => {
+    mockServiceAccountService = {
+      authenticateServiceAccount: jest.fn().mockResolvedValue(buildServiceAccount(['tokens:introspect', 'tokens:revoke'])),
+    };
+
+    mockTokenRevocationService = {
+      isTokenRevoked: jest.fn().mockResolvedValue(false),
+      revokeToken: jest.fn(),
+    } as unknown as jest.Mocked<ITokenRevocationService>;
+
+    mockSigningKeyService = {
+      verify: jest.fn().mockResolvedValue({
+        sub: 'user-1',
+        jti: 'jti-1',
+        iat: exp - 900,
+        exp,
+        org_id: 'org-1',
+        roles: ['member'],
+        permissions: ['users:read'],
+        client_id: 'client-1',
+        scope: 'openid email',
+      }),
+    };
+
+    mockPersonalAccessTokenService = {
+      authenticate: jest.fn(),
+      revokeToken: jest.fn().mockResolvedValue(true),
+    };
+
+    mockRefreshTokenService = {
+      findActiveRefreshToken: jest.fn().mockResolvedValue(refreshToken),
+      revokeRefreshTokenFamily: jest.fn(),
+    };
+
+    mockSessionService = {
+      getActiveSession: jest.fn().mockResolvedValue({ id: 'session-1' } as Session),
+      revokeSession: jest.fn(),
+    };
+
+    mockOAuthClientRepository = {
+      findOAuthClientById: jest.fn().mockResolvedValue({ id: 'client-row-1', clientId: 'client-1' }),
+    };
+
+    tokenIntrospectionService = new TokenIntrospectionService(
+      mockServiceAccountService as unknown as IServiceAccountService,
+      mockTokenRevocationService,
+      mockSigningKeyService as unknown as ISigningKeyService,
+      mockPersonalAccessTokenService as unknown as IPersonalAccessTokenService,
+      mockRefreshTokenService as unknown as IRefreshTokenService,
+      mockSessionService as unknown as ISessionService,
+      mockOAuthClientRepository as unknown as IOAuthClientRepository,
+      createMockLogger(),
+    );
+  });
+
+  describe('introspect', () => {
+    it('should describe a valid access token', async () => {
+      const result = await tokenIntrospectionService.introspect({ token: accessToken }, credentials);
+
+      expect(result).toEqual(expect.objectContaining({
+        active: true,
+        token_use: 'access_token',
+        sub: 'user-1',
+        client_id: 'client-1',
+        scope: 'openid email',
+        exp,
+        org_id: 'org-1',
+        roles: ['member'],
+        permissions: ['users:read'],
+      }));
+    });
+
+    it('should report revoked access tokens as inactive', async () => {
+      mockTokenRevocationService.isTokenRevoked.mockResolvedValue(true);
+
+      await expect(tokenIntrospectionService.introspect({ token: accessToken }, credentials))
+        .resolves.toEqual({ active: false });
+    });
+
+    it('should report tokens that fail verification as inactive', async () => {
+      mockSigningKeyService.verify.mockRejectedValue(new Error('jwt expired'));
+
+      await expect(tokenIntrospectionService.introspect({ token: accessToken }, credentials))
+        .resolves.toEqual({ active: false });
+    });
+
+    it('should describe a personal access token with its narrowed permissions', async () => {
+      mockPersonalAccessTokenService.authenticate.mockResolvedValue({
+        tokenId: 'pat-1',
+        userId: 'user-1',
+        orgId: null,
+        roles: [],
+        permissions: ['users:read'],
+        email: 'jane@example.com',
+        name: 'Jane Doe',
+        expiresAt: new Date(exp * 1000),
+      });
+
+      const result = await tokenIntrospectionService.introspect({ token: 'pat_secret' }, credentials);
+
+      expect(result).toEqual(expect.objectContaining({
+        active: true,
+        token_use: 'personal_access_token',
+        sub: 'user-1',
+        exp,
+        roles: [],
+        permissions: ['users:read'],
+      }));
+      expect(mockSigningKeyService.verify).not.toHaveBeenCalled();
+    });
+
+    it('should describe a refresh token whose session is still active', async () => {
+      const result = await tokenIntrospectionService.introspect({ token: 'opaque-refresh-token' }, credentials);
+
+      expect(result).toEqual(expect.objectContaining({
+        active: true,
+        token_use: 'refresh_token',
+        sub: 'user-1',
+        client_id: 'client-1',
+        scope: 'openid email',
+      }));
+    });
+
+    it('should report refresh tokens of ended sessions as inactive', async () => {
+      mockSessionService.getActiveSession.mockResolvedValue(null);
+
+      await expect(tokenIntrospectionService.introspect({ token: 'opaque-refresh-token' }, credentials))
+        .resolves.toEqual({ active: false });
+    });
+
+    it('should require the tokens:introspect permission', async () => {
+      mockServiceAccountService.authenticateServiceAccount.mockResolvedValue(buildServiceAccount(['tokens:revoke']));
+
+      await expect(tokenIntrospectionService.introspect({ token: accessToken }, credentials))
+        .rejects.toMatchObject({ code: 'unauthorized_client', status: 403 });
+      expect(mockSigningKeyService.verify).not.toHaveBeenCalled();
+    });
+
+    it('should require a token', async () => {
+      await expect(tokenIntrospectionService.introspect({}, credentials)).rejects.toThrow(OAuthError);
+    });
+  });
+
+  describe('revoke', () => {
+    it('should deny-list an access token until it expires', async () => {
+      await tokenIntrospectionService.revoke({ token: accessToken }, credentials);
+
+      expect(mockTokenRevocationService.revokeToken).toHaveBeenCalledWith('jti-1', new Date(exp * 1000));
+    });
+
+    it('should revoke a personal access token', async () => {
+      await tokenIntrospectionService.revoke({ token: 'pat_secret' }, credentials);
+
+      expect(mockPersonalAccessTokenService.revokeToken).toHaveBeenCalledWith('pat_secret');
+    });
+
+    it('should end the session of a refresh token', async () => {
+      await tokenIntrospectionService.revoke({ token: 'opaque-refresh-token' }, credentials);
+
+      expect(mockSessionService.revokeSession).toHaveBeenCalledWith('user-1', 'session-1');
+    });
+
+    it('should still revoke the token family when its session is gone', async () => {
+      mockSessionService.revokeSession.mockRejectedValue(new AppError('Session not found', 404));
+
+      await tokenIntrospectionService.revoke({ token: 'opaque-refresh-token' }, credentials);
+
+      expect(mockRefreshTokenService.revokeRefreshTokenFamily).toHaveBeenCalledWith('session-1');
+    });
+
+    it('should accept tokens it does not know', async () => {
+      mockRefreshTokenService.findActiveRefreshToken.mockResolvedValue(null);
+      mockSigningKeyService.verify.mockRejectedValue(new Error('invalid signature'));
+
+      await expect(tokenIntrospectionService.revoke({ token: 'unknown' }, credentials)).resolves.toBeUndefined();
+      await expect(tokenIntrospectionService.revoke({ token: accessToken }, credentials)).resolves.toBeUndefined();
+      expect(mockTokenRevocationService.revokeToken).not.toHaveBeenCalled();
+    });
+
+    it('should require the tokens:revoke permission', async () => {
+      mockServiceAccountService.authenticateServiceAccount.mockResolvedValue(buildServiceAccount(['tokens:introspect']));
+
+      await expect(tokenIntrospectionService.revoke({ token: 'pat_secret' }, credentials))
+        .rejects.toMatchObject({ code: 'unauthorized_client', status: 403 });
+      expect(mockPersonalAccessTokenService.revokeToken).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import 'reflect-metadata';
+import { TokenRevocationService } from '../../src/services/tokenRevocationService';
+import { IRevokedTokenRepository } from '../../src/repositories/revokedTokenRepository';
+import { IUserRepository } from '../../src/repositories/userRepository';
+import { createMockLogger } from '../helpers/mockLogger';
+
+describe('TokenRevocationService', () => {
+  let tokenRevocationService: TokenRevocationService;
+  let mockRevokedTokenRepository: jest.Mocked<IRevokedTokenRepository>;
+  let mockUserRepository: jest.Mocked<Pick<IUserRepository, 'updateUser' | 'getTokensValidAfter'>>;
+
+  const nowInSeconds = () => Math.floor(Date.now() / 1000);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockRevokedTokenRepository = {
+      addRevokedToken: jest.fn(),
+      addRevokedTokenIfAbsent: jest.fn().mockResolvedValue(true),
+      isRevoked: jest.fn().mockResolvedValue(false),
+      deleteExpiredRevokedTokens: jest.fn().mockResolvedValue(0),
+    };
+
+    mockUserRepository = {
+      updateUser: jest.fn(),
+      getTokensValidAfter: jest.fn().mockResolvedValue(null),
+    };
+
+    tokenRevocationService = new TokenRevocationService(
+      mockRevokedTokenRepository,
+      mockUserRepository as unknown as IUserRepository,
+      createMockLogger(),
+    );
+  });
+
+  describe('isTokenRevoked', () => {
+    it('should accept a token that has not been revoked', async () => {
+      const revoked = await tokenRevocationService.isTokenRevoked({
+        sub: 'user-1',
+        iat: nowInSeconds(),
+        jti: 'jti-1',
+        sid: 'session-1',
+      });
+
+      expect(revoked).toBe(false);
+      expect(mockRevokedTokenRepository.isRevoked).toHaveBeenCalledWith('jti', 'jti-1');
+      expect(mockRevokedTokenRepository.isRevoked).toHaveBeenCalledWith('sid', 'session-1');
+    });
+
+    it('should reject a token whose session is denylisted', async () => {
+      mockRevokedTokenRepository.isRevoked.mockImplementation(async (type) => type === 'sid');
+
+      const revoked = await tokenRevocationService.isTokenRevoked({
+        sub: 'user-1',
+        iat: nowInSeconds(),
+        sid: 'session-1',
+      });
+
+      expect(revoked).toBe(true);
+    });
+
+    it('should reject tokens issued before the user cutoff', async () => {
+      mockUserRepository.getTokensValidAfter.mockResolvedValue(new Date());
+
+      const revoked = await tokenRevocationService.isTokenRevoked({
+        sub: 'user-1',
+        iat: nowInSeconds() - 60,
+      });
+
+      expect(revoked).toBe(true);
+    });
+
+    it('should cache lookups between requests', async () => {
+      const claims = { sub: 'user-1', iat: nowInSeconds(), jti: 'jti-1' };
+
+      await tokenRevocationService.isTokenRevoked(claims);
+      await tokenRevocationService.isTokenRevoked(claims);
+
+      expect(mockRevokedTokenRepository.isRevoked).toHaveBeenCalledTimes(1);
+      expect(mockUserRepository.getTokensValidAfter).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('revocation', () => {
+    it('should apply a session revocation to the cache immediately', async () => {
+      const claims = { sub: 'user-1', iat: nowInSeconds(), sid: 'session-1' };
+      await tokenRevocationService.isTokenRevoked(claims);
+
+      await tokenRevocationService.revokeSession('session-1');
+
+      expect(mockRevokedTokenRepository.addRevokedToken).toHaveBeenCalledWith('sid', 'session-1', expect.any(Date));
+      await expect(tokenRevocationService.isTokenRevoked(claims)).resolves.toBe(true);
+    });
+
+    it('should report whether a single-use token was revoked by this use', async () => {
+      await expect(tokenRevocationService.revokeTokenOnce('jti-1', new Date())).resolves.toBe(true);
+
+      mockRevokedTokenRepository.addRevokedTokenIfAbsent.mockResolvedValue(false);
+      await expect(tokenRevocationService.revokeTokenOnce('jti-1', new Date())).resolves.toBe(false);
+      expect(mockRevokedTokenRepository.addRevokedTokenIfAbsent).toHaveBeenCalledWith('jti', 'jti-1', expect.any(Date));
+    });
+
+    it('should reject earlier tokens but accept new ones after revoking all user tokens', async () => {
+      const earlierToken = { sub: 'user-1', iat: nowInSeconds() - 60 };
+      await tokenRevocationService.isTokenRevoked(earlierToken);
+
+      await tokenRevocationService.revokeUserTokens('user-1', 'password-change');
+
+      expect(mockUserRepository.updateUser).toHaveBeenCalledWith('user-1', { tokensValidAfter: expect.any(Date) });
+      await expect(tokenRevocationService.isTokenRevoked(earlierToken)).resolves.toBe(true);
+      await expect(tokenRevocationService.isTokenRevoked({ sub: 'user-1', iat: nowInSeconds() + 1 })).resolves.toBe(false);
+    });
+
+    it('should reject tokens issued in the same second as the revocation', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1_700_000_000_750);
+      const sameSecondToken = { sub: 'user-1', iat: 1_700_000_000 };
+      await tokenRevocationService.isTokenRevoked(sameSecondToken);
+
+      await tokenRevocationService.revokeUserTokens('user-1', 'password-change');
+
+      await expect(tokenRevocationService.isTokenRevoked(sameSecondToken)).resolves.toBe(true);
+      await expect(tokenRevocationService.isTokenRevoked({ sub: 'user-1', iat: 1_700_000_001 })).resolves.toBe(false);
+      now.mockRestore();
+    });
+  });
+});
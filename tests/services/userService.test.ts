@@ -1,6 +1,8 @@
 import 'reflect-metadata';
 import { UserService } from '../../src/services/userService';
 import { IUserRepository } from '../../src/repositories/userRepository';
+import { ISessionService } from '../../src/services/sessionService';
+import { ILoginThrottleService } from '../../src/services/loginThrottleService';
 import { User } from '../../src/models/user';
 import { createMockLogger } from '../helpers/mockLogger';
 import { PaginationParams } from '../../src/dto/pagination.dto';
@@ -8,9 +10,11 @@ import { PaginationParams } from '../../src/dto/pagination.dto';
 describe('UserService', () => {
   let userService: UserService;
   let mockUserRepository: jest.Mocked<IUserRepository>;
+  let mockSessionService: jest.Mocked<Pick<ISessionService, 'revokeAllSessions'>>;
+  let mockLoginThrottleService: jest.Mocked<Pick<ILoginThrottleService, 'unlockAccount'>>;
   let mockLogger: ReturnType<typeof createMockLogger>;
 
-  const mockUser: User = {
+  const mockUser = {
     id: '123e4567-e89b-12d3-a456-426614174000',
     email: 'test@example.com',
     password: 'hashedPassword123',
@@ -18,10 +22,11 @@ describe('UserService', () => {
     lastName: 'Doe',
     emailVerified: false,
     emailVerificationToken: null,
-    role: 'user',
+    organizationId: null,
+    disabledAt: null,
     createdAt: new Date(),
     updatedAt: new Date(),
-  };
+  } as User;
 
   beforeEach(() => {
     jest.clearAllMocks();
@@ -30,15 +35,37 @@ describe('UserService', () => {
       findUserByEmail: jest.fn(),
       findUserById: jest.fn(),
       findUserByVerificationToken: jest.fn(),
+      findUserByPasswordResetToken: jest.fn(),
+      findUserByMagicLinkToken: jest.fn(),
+      consumeMagicLinkToken: jest.fn(),
+      consumePasswordSetToken: jest.fn(),
       createUser: jest.fn(),
       updateUser: jest.fn(),
       getAllUsers: jest.fn(),
       getPaginatedUsers: jest.fn(),
+      getUserCount: jest.fn(),
+      findUserWithRoles: jest.fn(),
+      addRoleToUser: jest.fn(),
+      removeRoleFromUser: jest.fn(),
+      getTokensValidAfter: jest.fn(),
+    };
+
+    mockSessionService = {
+      revokeAllSessions: jest.fn().mockResolvedValue(2),
+    };
+
+    mockLoginThrottleService = {
+      unlockAccount: jest.fn().mockResolvedValue(true),
     };
 
     mockLogger = createMockLogger();
 
-    userService = new UserService(mockUserRepository, mockLogger);
+    userService = new UserService(
+      mockUserRepository,
+      mockSessionService as unknown as ISessionService,
+      mockLoginThrottleService as unknown as ILoginThrottleService,
+      mockLogger,
+    );
   });
 
   describe('getUserById', () => {
@@ -80,8 +107,8 @@ describe('UserService', () => {
       expect(result).toEqual(mockUsers);
       expect(result).toHaveLength(3);
       expect(mockUserRepository.getAllUsers).toHaveBeenCalled();
-      expect(mockLogger.debug).toHaveBeenCalledWith('Fetching all users');
-      expect(mockLogger.info).toHaveBeenCalledWith('Retrieved users list', { count: 3 });
+      expect(mockLogger.debug).toHaveBeenCalledWith('Fetching all users', { orgId: undefined });
+      expect(mockLogger.info).toHaveBeenCalledWith('Retrieved users list', { count: 3, orgId: undefined });
     });
 
     it('should return empty array when no users exist', async () => {
@@ -90,7 +117,7 @@ describe('UserService', () => {
       const result = await userService.getAllUsers();
 
       expect(result).toEqual([]);
-      expect(mockLogger.info).toHaveBeenCalledWith('Retrieved users list', { count: 0 });
+      expect(mockLogger.info).toHaveBeenCalledWith('Retrieved users list', { count: 0, orgId: undefined });
     });
   });
 
@@ -113,14 +140,16 @@ describe('UserService', () => {
 
       expect(result.data).toEqual(mockUsers);
       expect(result.total).toBe(3);
-      expect(mockUserRepository.getPaginatedUsers).toHaveBeenCalledWith(paginationParams);
+      expect(mockUserRepository.getPaginatedUsers).toHaveBeenCalledWith(paginationParams, undefined);
       expect(mockLogger.debug).toHaveBeenCalledWith('Fetching paginated users', {
         pagination: paginationParams,
+        orgId: undefined,
       });
       expect(mockLogger.info).toHaveBeenCalledWith('Retrieved paginated users', {
         page: 1,
         limit: 10,
         total: 3,
+        orgId: undefined,
       });
     });
 
@@ -139,7 +168,20 @@ describe('UserService', () => {
       expect(mockUserRepository.getPaginatedUsers).toHaveBeenCalledWith({
         page: 2,
         limit: 5,
+      }, undefined);
+    });
+
+    it('should scope the page to the given organization', async () => {
+      const paginationParams: PaginationParams = { page: 1, limit: 10 };
+
+      mockUserRepository.getPaginatedUsers.mockResolvedValue({
+        data: [mockUser] as User[],
+        total: 1,
       });
+
+      await userService.getPaginatedUsers(paginationParams, 'org-1');
+
+      expect(mockUserRepository.getPaginatedUsers).toHaveBeenCalledWith(paginationParams, 'org-1');
     });
 
     it('should return empty data with zero total when no users', async () => {
@@ -156,5 +198,54 @@ describe('UserService', () => {
       expect(result.total).toBe(0);
     });
   });
-});
 
+  describe('setUserDisabled', () => {
+    it('should disable the account and revoke all of its sessions', async () => {
+      mockUserRepository.updateUser.mockResolvedValue({ ...mockUser, disabledAt: new Date() } as User);
+
+      const result = await userService.setUserDisabled(mockUser.id, true);
+
+      expect(result?.disabledAt).toBeInstanceOf(Date);
+      expect(mockUserRepository.updateUser).toHaveBeenCalledWith(mockUser.id, { disabledAt: expect.any(Date) });
+      expect(mockSessionService.revokeAllSessions).toHaveBeenCalledWith(mockUser.id, 'account-disabled');
+    });
+
+    it('should re-enable the account without revoking sessions', async () => {
+      mockUserRepository.updateUser.mockResolvedValue(mockUser);
+
+      await userService.setUserDisabled(mockUser.id, false);
+
+      expect(mockUserRepository.updateUser).toHaveBeenCalledWith(mockUser.id, { disabledAt: null });
+      expect(mockSessionService.revokeAllSessions).not.toHaveBeenCalled();
+    });
+
+    it('should return null when the user does not exist', async () => {
+      mockUserRepository.updateUser.mockResolvedValue(null);
+
+      const result = await userService.setUserDisabled('nonexistent-id', true);
+
+      expect(result).toBeNull();
+      expect(mockSessionService.revokeAllSessions).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('unlockUser', () => {
+    it('should clear the login lockout for the user\'s email', async () => {
+      mockUserRepository.findUserById.mockResolvedValue(mockUser);
+
+      const result = await userService.unlockUser(mockUser.id);
+
+      expect(result).toEqual(mockUser);
+      expect(mockLoginThrottleService.unlockAccount).toHaveBeenCalledWith('test@example.com');
+    });
+
+    it('should return null when the user does not exist', async () => {
+      mockUserRepository.findUserById.mockResolvedValue(null);
+
+      const result = await userService.unlockUser('nonexistent-id');
+
+      expect(result).toBeNull();
+      expect(mockLoginThrottleService.unlockAccount).not.toHaveBeenCalled();
+    });
+  });
+});
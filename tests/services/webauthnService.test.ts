@@ -0,0 +1,122 @@
+import 'reflect-metadata';
+import { WebAuthnService } from '../../src/services/webauthnService';
+import { IUserRepository } from '../../src/repositories/userRepository';
+import { IWebAuthnRepository } from '../../src/repositories/webauthnRepository';
+import { IExternalIdentityRepository } from '../../src/repositories/externalIdentityRepository';
+import { ExternalIdentity } from '../../src/models/externalIdentity';
+import { WebAuthnCredential } from '../../src/models/webauthnCredential';
+import { WebAuthnChallenge } from '../../src/models/webauthnChallenge';
+import { User } from '../../src/models/user';
+import { AppError } from '../../src/middlewares/errorHandler';
+import { createMockLogger } from '../helpers/mockLogger';
+
+describe('WebAuthnService', () => {
+  let webAuthnService: WebAuthnService;
+  let mockUserRepository: jest.Mocked<Pick<IUserRepository, 'findUserById' | 'findUserByEmail'>>;
+  let mockWebAuthnRepository: jest.Mocked<IWebAuthnRepository>;
+  let mockExternalIdentityRepository: jest.Mocked<Pick<IExternalIdentityRepository, 'findExternalIdentitiesByUserId'>>;
+
+  const buildCredential = (overrides: Partial<WebAuthnCredential> = {}): WebAuthnCredential => ({
+    id: 'passkey-1',
+    userId: 'user-1',
+    credentialId: 'Y3JlZGVudGlhbC0x',
+    transports: ['internal'],
+    ...overrides,
+  } as WebAuthnCredential);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockUserRepository = {
+      findUserById: jest.fn().mockResolvedValue({ id: 'user-1', email: 'jane@example.com', password: null } as User),
+      findUserByEmail: jest.fn().mockResolvedValue(null),
+    };
+
+    mockWebAuthnRepository = {
+      createCredential: jest.fn(),
+      findCredentialByCredentialId: jest.fn().mockResolvedValue(null),
+      findCredentialsByUserId: jest.fn().mockResolvedValue([buildCredential()]),
+      updateCredentialUsage: jest.fn().mockResolvedValue(true),
+      deleteCredential: jest.fn().mockResolvedValue(true),
+      createChallenge: jest.fn(async (data) => ({ id: 'challenge-1', ...data } as WebAuthnChallenge)),
+      consumeChallenge: jest.fn().mockResolvedValue(null),
+      deleteExpiredChallenges: jest.fn().mockResolvedValue(0),
+    };
+
+    mockExternalIdentityRepository = {
+      findExternalIdentitiesByUserId: jest.fn().mockResolvedValue([]),
+    };
+
+    webAuthnService = new WebAuthnService(
+      mockUserRepository as unknown as IUserRepository,
+      mockWebAuthnRepository,
+      mockExternalIdentityRepository as unknown as IExternalIdentityRepository,
+      createMockLogger(),
+    );
+  });
+
+  describe('generateAuthenticationOptions', () => {
+    it('should answer known and unknown emails alike', async () => {
+      mockUserRepository.findUserByEmail.mockResolvedValueOnce({ id: 'user-1' } as User);
+      const known = await webAuthnService.generateAuthenticationOptions({ email: 'jane@example.com' });
+      const unknown = await webAuthnService.generateAuthenticationOptions({ email: 'nobody@example.com' });
+
+      expect(known.allowCredentials).toEqual([]);
+      expect(unknown.allowCredentials).toEqual([]);
+      expect(Object.keys(known).sort()).toEqual(Object.keys(unknown).sort());
+      expect(mockWebAuthnRepository.findCredentialsByUserId).not.toHaveBeenCalled();
+    });
+
+    it('should tie the challenge to the account behind a known email', async () => {
+      mockUserRepository.findUserByEmail.mockResolvedValue({ id: 'user-1' } as User);
+
+      await webAuthnService.generateAuthenticationOptions({ email: 'jane@example.com' });
+
+      expect(mockWebAuthnRepository.createChallenge).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'user-1', ceremony: 'authentication' }),
+      );
+    });
+  });
+
+  describe('generateRegistrationOptions', () => {
+    it('should require a discoverable credential', async () => {
+      const options = await webAuthnService.generateRegistrationOptions('user-1');
+
+      expect(options.authenticatorSelection.residentKey).toBe('required');
+      expect(options.excludeCredentials).toEqual([{ type: 'public-key', id: 'Y3JlZGVudGlhbC0x', transports: ['internal'] }]);
+    });
+  });
+
+  describe('deletePasskey', () => {
+    it('should refuse to remove the only way to sign in', async () => {
+      await expect(webAuthnService.deletePasskey('user-1', 'passkey-1')).rejects.toThrow(
+        new AppError('Cannot delete the only sign-in method for this account; set a password or link a provider first', 409),
+      );
+      expect(mockWebAuthnRepository.deleteCredential).not.toHaveBeenCalled();
+    });
+
+    it('should delete when a password, a linked provider or another passkey remains', async () => {
+      mockUserRepository.findUserById.mockResolvedValueOnce({ id: 'user-1', password: 'hash' } as User);
+      await webAuthnService.deletePasskey('user-1', 'passkey-1');
+
+      mockExternalIdentityRepository.findExternalIdentitiesByUserId.mockResolvedValueOnce([{ provider: 'google' } as ExternalIdentity]);
+      await webAuthnService.deletePasskey('user-1', 'passkey-1');
+
+      mockWebAuthnRepository.findCredentialsByUserId.mockResolvedValueOnce([
+        buildCredential(),
+        buildCredential({ id: 'passkey-2', credentialId: 'Y3JlZGVudGlhbC0y' }),
+      ]);
+      await webAuthnService.deletePasskey('user-1', 'passkey-1');
+
+      expect(mockWebAuthnRepository.deleteCredential).toHaveBeenCalledTimes(3);
+      expect(mockWebAuthnRepository.deleteCredential).toHaveBeenCalledWith('user-1', 'passkey-1');
+    });
+
+    it('should report passkeys of other users as not found', async () => {
+      await expect(webAuthnService.deletePasskey('user-1', 'passkey-9')).rejects.toThrow(
+        new AppError('Passkey not found', 404),
+      );
+      expect(mockWebAuthnRepository.deleteCredential).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,20 @@
+import { Request } from 'express';
+import { getCookie } from '../../src/utils/cookies';
+
+describe('getCookie', () => {
+  const buildRequest = (cookie?: string) => ({ headers: { cookie } }) as Request;
+
+  it('should read a cookie among others', () => {
+    expect(getCookie(buildRequest('theme=dark; google_authorization=abc.def; lang=en'), 'google_authorization')).toBe('abc.def');
+  });
+
+  it('should decode the value', () => {
+    expect(getCookie(buildRequest('name=Jane%20Doe'), 'name')).toBe('Jane Doe');
+  });
+
+  it('should return undefined for missing or malformed cookies', () => {
+    expect(getCookie(buildRequest(), 'name')).toBeUndefined();
+    expect(getCookie(buildRequest('other=1'), 'name')).toBeUndefined();
+    expect(getCookie(buildRequest('name=%E0%A4%A'), 'name')).toBeUndefined();
+  });
+});
@@ -0,0 +1,40 @@
+import crypto from 'crypto';
+import { computeJwkThumbprint, getKeyId, toPublicJwk } from '../../src/utils/keyIdentity';
+
+describe('keyIdentity', () => {
+  // Expected values computed independently with the jose library
+  const rsaJwk = {
+    kty: 'RSA',
+    n: 'zQjxdVyrqP4VVM9v-cec-NaWF_1ZzlzWPxi8mnAEHPVv0scIAlFqf-N00SS--EUXAAzxD6E7F7om_x48jgQXCK-Hq8ESKVLlcMFAgbfOh4iuQiuaoxjsqMCdIe_9la3r7gm1eejwS6d51J4rqAhPgzY8VqhrBCkr0mHkWMMtcmU',
+    e: 'AQAB',
+  };
+  const ecJwk = {
+    kty: 'EC',
+    x: 'qpJJYvmeQsru2IicXvh7WZRFbx76O3B3YzxhbCd8YO8',
+    y: 'CRwznCBvtkb6tiQu4kQX28cn2g8p2kfOsT9A7jXN9_k',
+    crv: 'P-256',
+  };
+  const okpJwk = { crv: 'Ed25519', x: 'WzIzXQd7CAfDI32svsmDZEgTvBGtmdVwOSL2t7y0_g8', kty: 'OKP' };
+
+  it('should compute RFC 7638 thumbprints for RSA, EC and OKP keys', () => {
+    expect(computeJwkThumbprint(rsaJwk)).toBe('lqDMQsKJESNoGAUM7ClHLu2gsOeKYZjL1xD-W737VGU');
+    expect(computeJwkThumbprint(ecJwk)).toBe('AEcGdpzVzea7nij3uMNt7Kwb7xXLEKEblPzncYD_kkY');
+    expect(computeJwkThumbprint(okpJwk)).toBe('VuaD14tjIxRve6O_n9oILjzdmSt8yD0Yq7YEjjuyNl4');
+  });
+
+  it('should ignore optional members such as kid, use and alg', () => {
+    expect(computeJwkThumbprint({ ...rsaJwk, kid: 'other', use: 'sig', alg: 'RS256' } as crypto.JsonWebKey))
+      .toBe(computeJwkThumbprint(rsaJwk));
+  });
+
+  it('should give a PEM public key and its private key the same kid', () => {
+    const { publicKey, privateKey } = crypto.generateKeyPairSync('ec', {
+      namedCurve: 'P-256',
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    });
+
+    expect(getKeyId(publicKey)).toBe(getKeyId(crypto.createPrivateKey(privateKey)));
+    expect(toPublicJwk(crypto.createPrivateKey(privateKey))).not.toHaveProperty('d');
+  });
+});
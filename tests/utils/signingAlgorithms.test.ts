@@ -0,0 +1,51 @@
+import jwt from 'jsonwebtoken';
+import {
+  SIGNING_ALGORITHMS,
+  detectSigningAlgorithm,
+  generateSigningKeyPair,
+  signJwt,
+  verifyJwt,
+} from '../../src/utils/signingAlgorithms';
+
+describe('signingAlgorithms', () => {
+  const now = () => Math.floor(Date.now() / 1000);
+
+  it.each(SIGNING_ALGORITHMS)('should sign and verify %s tokens with a generated key', async (algorithm) => {
+    const { publicKey, privateKey } = await generateSigningKeyPair(algorithm);
+
+    const token = signJwt({ sub: 'user-1', exp: now() + 60 }, privateKey, algorithm, 'kid-1');
+
+    expect(jwt.decode(token, { complete: true })!.header).toEqual(expect.objectContaining({ alg: algorithm, kid: 'kid-1' }));
+    expect(verifyJwt(token, publicKey, algorithm)).toEqual(expect.objectContaining({ sub: 'user-1' }));
+  });
+
+  it('should detect the algorithm from the key type', async () => {
+    expect(detectSigningAlgorithm((await generateSigningKeyPair('ES256')).publicKey)).toBe('ES256');
+    expect(detectSigningAlgorithm((await generateSigningKeyPair('EdDSA')).publicKey)).toBe('EdDSA');
+  });
+
+  describe('EdDSA verification', () => {
+    it('should reject a tampered payload', async () => {
+      const { publicKey, privateKey } = await generateSigningKeyPair('EdDSA');
+      const [header, , signature] = signJwt({ sub: 'user-1' }, privateKey, 'EdDSA', 'kid-1').split('.');
+      const forgedPayload = Buffer.from(JSON.stringify({ sub: 'admin' })).toString('base64url');
+
+      expect(() => verifyJwt(`${header}.${forgedPayload}.${signature}`, publicKey, 'EdDSA')).toThrow('invalid signature');
+    });
+
+    it('should reject expired tokens', async () => {
+      const { publicKey, privateKey } = await generateSigningKeyPair('EdDSA');
+      const token = signJwt({ sub: 'user-1', exp: now() - 10 }, privateKey, 'EdDSA', 'kid-1');
+
+      expect(() => verifyJwt(token, publicKey, 'EdDSA')).toThrow(jwt.TokenExpiredError);
+    });
+
+    it('should reject a token whose header names another algorithm', async () => {
+      const { publicKey } = await generateSigningKeyPair('EdDSA');
+      const rsaKeys = await generateSigningKeyPair('RS256');
+      const token = signJwt({ sub: 'user-1' }, rsaKeys.privateKey, 'RS256', 'kid-1');
+
+      expect(() => verifyJwt(token, publicKey, 'EdDSA')).toThrow('invalid algorithm');
+    });
+  });
+});
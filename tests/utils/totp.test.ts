@@ -0,0 +1,53 @@
+import { generateTotp, verifyTotp, getTotpStep, buildOtpauthUri, generateTotpSecret } from '../../src/utils/totp';
+
+describe('totp', () => {
+  // Base32 of the ASCII secret "12345678901234567890" used by the RFC 6238 test vectors
+  const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+  describe('generateTotp', () => {
+    it.each([
+      [59, '287082'],
+      [1111111109, '081804'],
+      [1234567890, '005924'],
+      [2000000000, '279037'],
+    ])('should match the RFC 6238 vector at %i seconds', (seconds, expected) => {
+      expect(generateTotp(RFC_SECRET, getTotpStep(seconds * 1000))).toBe(expected);
+    });
+  });
+
+  describe('verifyTotp', () => {
+    const time = 1234567890 * 1000;
+
+    it('should return the matched step for a valid code', () => {
+      expect(verifyTotp(RFC_SECRET, '005924', 1, time)).toBe(getTotpStep(time));
+    });
+
+    it('should accept a code from the previous step within the window', () => {
+      expect(verifyTotp(RFC_SECRET, '005924', 1, time + 30_000)).toBe(getTotpStep(time));
+    });
+
+    it('should reject codes outside the window', () => {
+      expect(verifyTotp(RFC_SECRET, '005924', 1, time + 90_000)).toBeNull();
+    });
+
+    it('should reject malformed codes', () => {
+      expect(verifyTotp(RFC_SECRET, 'abcdef', 1, time)).toBeNull();
+      expect(verifyTotp(RFC_SECRET, '12345', 1, time)).toBeNull();
+    });
+  });
+
+  it('should round-trip a generated secret', () => {
+    const secret = generateTotpSecret();
+
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(verifyTotp(secret, generateTotp(secret))).not.toBeNull();
+  });
+
+  it('should build an otpauth URI', () => {
+    const uri = buildOtpauthUri('Backboard', 'user@example.com', RFC_SECRET);
+
+    expect(uri).toBe(
+      `otpauth://totp/Backboard%3Auser%40example.com?secret=${RFC_SECRET}&issuer=Backboard&algorithm=SHA1&digits=6&period=30`
+    );
+  });
+});
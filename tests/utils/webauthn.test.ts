@@ -0,0 +1,155 @@
+import crypto from 'crypto';
+import {
+  COSE_ALG_ES256,
+  COSE_ALG_EDDSA,
+  parseAuthenticatorData,
+  parseAttestationObject,
+  coseToPublicKey,
+  verifyAttestationStatement,
+  verifyWebAuthnSignature,
+  sha256,
+} from '../../src/utils/webauthn';
+
+type Encodable = number | string | Buffer | Encodable[] | Map<Encodable, Encodable>;
+
+// Minimal CBOR encoder used to build authenticator responses
+function encodeHead(majorType: number, length: number): Buffer {
+  if (length < 24) return Buffer.from([(majorType << 5) | length]);
+  if (length < 0x100) return Buffer.from([(majorType << 5) | 24, length]);
+  const head = Buffer.alloc(3);
+  head[0] = (majorType << 5) | 25;
+  head.writeUInt16BE(length, 1);
+  return head;
+}
+
+function encodeCbor(value: Encodable): Buffer {
+  if (typeof value === 'number') {
+    return value >= 0 ? encodeHead(0, value) : encodeHead(1, -1 - value);
+  }
+  if (typeof value === 'string') {
+    const bytes = Buffer.from(value, 'utf8');
+    return Buffer.concat([encodeHead(3, bytes.length), bytes]);
+  }
+  if (Buffer.isBuffer(value)) {
+    return Buffer.concat([encodeHead(2, value.length), value]);
+  }
+  if (Array.isArray(value)) {
+    return Buffer.concat([encodeHead(4, value.length), ...value.map(encodeCbor)]);
+  }
+  const entries = Array.from(value.entries()).flatMap(([key, item]) => [encodeCbor(key), encodeCbor(item)]);
+  return Buffer.concat([encodeHead(5, value.size), ...entries]);
+}
+
+function ecCoseKey(publicKey: crypto.KeyObject): Buffer {
+  const jwk = publicKey.export({ format: 'jwk' });
+  return encodeCbor(new Map<Encodable, Encodable>([
+    [1, 2],
+    [3, COSE_ALG_ES256],
+    [-1, 1],
+    [-2, Buffer.from(jwk.x!, 'base64url')],
+    [-3, Buffer.from(jwk.y!, 'base64url')],
+  ]));
+}
+
+function buildAuthData(rpId: string, signCount: number, credentialId?: Buffer, coseKey?: Buffer): Buffer {
+  const flags = credentialId ? 0x45 : 0x05;
+  const counter = Buffer.alloc(4);
+  counter.writeUInt32BE(signCount);
+
+  const parts = [sha256(rpId), Buffer.from([flags]), counter];
+  if (credentialId && coseKey) {
+    const idLength = Buffer.alloc(2);
+    idLength.writeUInt16BE(credentialId.length);
+    parts.push(Buffer.alloc(16), idLength, credentialId, coseKey);
+  }
+  return Buffer.concat(parts);
+}
+
+describe('webauthn utils', () => {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const credentialId = crypto.randomBytes(16);
+  const coseKey = ecCoseKey(publicKey);
+  const clientDataHash = sha256('{"type":"webauthn.create"}');
+
+  describe('parseAuthenticatorData', () => {
+    it('should parse flags, counter and attested credential data', () => {
+      const authData = parseAuthenticatorData(buildAuthData('localhost', 7, credentialId, coseKey));
+
+      expect(authData.rpIdHash.equals(sha256('localhost'))).toBe(true);
+      expect(authData.userPresent).toBe(true);
+      expect(authData.userVerified).toBe(true);
+      expect(authData.signCount).toBe(7);
+      expect(authData.attestedCredentialData?.credentialId.equals(credentialId)).toBe(true);
+      expect(authData.attestedCredentialData?.credentialPublicKey.equals(coseKey)).toBe(true);
+    });
+
+    it('should reject trailing bytes', () => {
+      const authData = Buffer.concat([buildAuthData('localhost', 0), Buffer.from([0])]);
+      expect(() => parseAuthenticatorData(authData)).toThrow();
+    });
+  });
+
+  describe('coseToPublicKey', () => {
+    it('should convert an EC2 key that verifies signatures from the original key', () => {
+      const key = coseToPublicKey(coseKey);
+      const data = Buffer.from('signed data');
+      const signature = crypto.sign('sha256', data, privateKey);
+
+      expect(key.algorithm).toBe(COSE_ALG_ES256);
+      expect(verifyWebAuthnSignature(key.algorithm, key.keyObject, data, signature)).toBe(true);
+      expect(verifyWebAuthnSignature(key.algorithm, key.keyObject, Buffer.from('other'), signature)).toBe(false);
+    });
+
+    it('should convert an Ed25519 OKP key', () => {
+      const ed = crypto.generateKeyPairSync('ed25519');
+      const jwk = ed.publicKey.export({ format: 'jwk' });
+      const key = coseToPublicKey(encodeCbor(new Map<Encodable, Encodable>([
+        [1, 1],
+        [3, COSE_ALG_EDDSA],
+        [-1, 6],
+        [-2, Buffer.from(jwk.x!, 'base64url')],
+      ])));
+
+      const data = Buffer.from('signed data');
+      expect(verifyWebAuthnSignature(key.algorithm, key.keyObject, data, crypto.sign(null, data, ed.privateKey))).toBe(true);
+    });
+
+    it('should reject unsupported algorithms', () => {
+      expect(() => coseToPublicKey(encodeCbor(new Map<Encodable, Encodable>([[1, 2], [3, -36]])))).toThrow();
+    });
+  });
+
+  describe('verifyAttestationStatement', () => {
+    const authData = buildAuthData('localhost', 0, credentialId, coseKey);
+    const credentialPublicKey = coseToPublicKey(coseKey);
+
+    const buildAttestation = (fmt: string, attStmt: Map<Encodable, Encodable>) =>
+      parseAttestationObject(encodeCbor(new Map<Encodable, Encodable>([
+        ['fmt', fmt],
+        ['attStmt', attStmt],
+        ['authData', authData],
+      ])));
+
+    it('should accept "none" attestation', () => {
+      expect(verifyAttestationStatement(buildAttestation('none', new Map()), clientDataHash, credentialPublicKey)).toBe('none');
+    });
+
+    it('should verify packed self attestation', () => {
+      const sig = crypto.sign('sha256', Buffer.concat([authData, clientDataHash]), privateKey);
+      const attestation = buildAttestation('packed', new Map<Encodable, Encodable>([['alg', COSE_ALG_ES256], ['sig', sig]]));
+
+      expect(verifyAttestationStatement(attestation, clientDataHash, credentialPublicKey)).toBe('self');
+    });
+
+    it('should reject packed attestation with a bad signature', () => {
+      const sig = crypto.sign('sha256', Buffer.from('something else'), privateKey);
+      const attestation = buildAttestation('packed', new Map<Encodable, Encodable>([['alg', COSE_ALG_ES256], ['sig', sig]]));
+
+      expect(() => verifyAttestationStatement(attestation, clientDataHash, credentialPublicKey)).toThrow('Invalid attestation signature');
+    });
+
+    it('should reject unsupported formats', () => {
+      expect(() => verifyAttestationStatement(buildAttestation('tpm', new Map()), clientDataHash, credentialPublicKey)).toThrow();
+    });
+  });
+});